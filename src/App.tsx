@@ -5,6 +5,8 @@ import { Button } from './components/ui/button'
 import { useToast } from './components/ui/toast'
 import { ConceptList } from './components/ConceptList'
 import { ConceptDetail } from './components/ConceptDetail'
+import { ConceptCompare, MAX_COMPARE } from './components/ConceptCompare'
+import { ReviewQueue } from './components/ReviewQueue'
 import { WorkLogDrawer } from './components/WorkLogDrawer'
 import { SwipeFile } from './components/SwipeFile'
 import { Products } from './components/Products'
@@ -15,208 +17,45 @@ import { Analytics } from './components/Analytics'
 import { Learnings } from './components/Learnings'
 import { Chat } from './components/Chat'
 import { ImageStudio } from './components/ImageStudio'
-import { useAuth, Login, authFetch } from './auth'
-
-export interface DataSource {
-  id: string
-  name: string
-  type: 'document' | 'sheet' | 'url'
-  content: string
-  created_at: string
-}
-
-export interface Pattern {
-  id: string
-  source: string
-  pattern: string
-  mentions: number
-  emotional_valence: string
-  example_quotes: string[]
-}
-
-export interface Hypothesis {
-  id: string
-  pattern_id: string
-  hypothesis: string
-  reasoning: string
-  confidence: number
-  format_id?: string
-  format_reasoning?: string
-  image_preset_id?: string
-}
-
-export interface ChangelogEntry {
-  original: string
-  revised: string
-  reason: string
-}
-
-export interface AdConcept {
-  id: string
-  batch_number: string
-  status: 'researching' | 'generating' | 'reviewing' | 'ready' | 'approved' | 'rejected'
-  patterns_used: Pattern[]
-  hypothesis: Hypothesis
-  original_primary_text?: string
-  primary_texts: string[]
-  revision_changelog?: ChangelogEntry[]
-  headlines: string[]
-  images: string[]
-  image_prompts?: string[]
-  principle_check: {
-    passed: boolean
-    score?: number
-    issues?: Array<{ rule: string; problem: string; fix: string }>
-    strengths?: string[]
-    ai_slop_detected?: string[]
-    overall?: string
-    notes?: string[]
-  }
-  user_notes?: string
-  rating?: number
-  drive_folder_id?: string
-  created_at: string
-  format_id?: string
-  format_reasoning?: string
-}
-
-export interface WorkLogEntry {
-  id: string
-  timestamp: string
-  type: 'info' | 'research' | 'pattern' | 'hypothesis' | 'generation' | 'review' | 'ready' | 'error'
-  message: string
-  details?: string
-}
-
-export interface Product {
-  id: string
-  name: string
-  landing_page_url?: string
-  mechanism?: string
-  ingredients?: string
-  image_urls?: string[]
-  created_at: string
-  updated_at: string
-}
-
-import { API_BASE } from './config'
-
-async function fetchAdConcepts(): Promise<AdConcept[]> {
-  const res = await authFetch(`${API_BASE}/concepts`)
-  if (!res.ok) throw new Error('Failed to fetch concepts')
-  return res.json()
-}
-
-async function fetchWorkLog(): Promise<WorkLogEntry[]> {
-  const res = await authFetch(`${API_BASE}/work-log`)
-  if (!res.ok) throw new Error('Failed to fetch work log')
-  return res.json()
-}
-
-async function fetchProducts(): Promise<Product[]> {
-  const res = await authFetch(`${API_BASE}/products`)
-  if (!res.ok) throw new Error('Failed to fetch products')
-  return res.json()
-}
-
-async function startWorking(productId: string | null, ideas?: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/start-working`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ product_id: productId, ideas }),
-  })
-  if (!res.ok) throw new Error('Failed to start')
-}
-
-async function stopWorking(): Promise<void> {
-  const res = await authFetch(`${API_BASE}/stop-working`, { method: 'POST' })
-  if (!res.ok) throw new Error('Failed to stop')
-}
-
-async function approveConcept(id: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/concepts/${id}/approve`, { method: 'POST' })
-  if (!res.ok) throw new Error('Failed to approve')
-}
-
-async function rejectConcept(id: string, feedback: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/concepts/${id}/reject`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ feedback }),
-  })
-  if (!res.ok) throw new Error('Failed to reject')
-}
-
-async function addNotes(id: string, notes: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/concepts/${id}/notes`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ notes }),
-  })
-  if (!res.ok) throw new Error('Failed to save notes')
-}
-
-async function setRating(id: string, rating: number): Promise<void> {
-  const res = await authFetch(`${API_BASE}/concepts/${id}/rating`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ rating }),
-  })
-  if (!res.ok) throw new Error('Failed to save rating')
-}
-
-async function deleteConcept(id: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/concepts/${id}`, { method: 'DELETE' })
-  if (!res.ok) throw new Error('Failed to delete concept')
-}
-
-type ViewType = 'chat' | 'work' | 'campaigns' | 'analytics' | 'learnings' | 'swipes' | 'studio' | 'products' | 'settings'
-const validViews: ViewType[] = ['chat', 'work', 'campaigns', 'analytics', 'learnings', 'swipes', 'studio', 'products', 'settings']
-
-// Read initial view from URL hash or localStorage
-const getInitialView = (): ViewType => {
-  const hash = window.location.hash.slice(1)
-  if (hash && validViews.includes(hash as ViewType)) {
-    return hash as ViewType
-  }
-  const stored = localStorage.getItem('currentView')
-  if (stored && validViews.includes(stored as ViewType)) {
-    return stored as ViewType
-  }
-  return 'chat'
-}
+import { NotificationCenter } from './components/NotificationCenter'
+import { useAuth, Login } from './auth'
+import { usePollingFallback } from './realtime'
+import { useRoute, useNavigate, useRouteId, useSearchParam, buildPath } from './router'
+import type { ViewType } from './router'
+import {
+  fetchConcepts,
+  fetchWorkLog,
+  fetchProducts,
+  startWorking,
+  stopWorking,
+  approveConcept,
+  rejectConcept,
+  saveConceptNotes,
+  setConceptRating,
+  deleteConcept,
+  updateConceptCopy,
+  revertConceptCopy,
+} from './api'
+import type { AdConcept, UpdateCopyInput } from './api'
 
 function App() {
   const queryClient = useQueryClient()
   const toast = useToast()
   const { isAuthenticated, isLoading: isAuthLoading, user, logout } = useAuth()
 
-  const [view, setViewState] = useState<ViewType>(getInitialView)
+  const { view } = useRoute()
+  const navigate = useNavigate()
+  const setView = (newView: ViewType) => navigate(buildPath(newView))
 
-  // Wrapper to persist view changes
-  const setView = (newView: typeof view) => {
-    setViewState(newView)
-    window.location.hash = newView
-    localStorage.setItem('currentView', newView)
-  }
-
-  // Handle browser back/forward
-  useEffect(() => {
-    const handleHashChange = () => {
-      const hash = window.location.hash.slice(1)
-      const views = ['chat', 'work', 'campaigns', 'analytics', 'learnings', 'swipes', 'studio', 'products', 'settings']
-      if (hash && views.includes(hash)) {
-        setViewState(hash as typeof view)
-      }
-    }
-    window.addEventListener('hashchange', handleHashChange)
-    return () => window.removeEventListener('hashchange', handleHashChange)
-  }, [])
   const [isWorking, setIsWorking] = useState(false)
   const [selectedProductId, setSelectedProductId] = useState<string | null>(null)
-  const [selectedConceptId, setSelectedConceptId] = useState<string | null>(null)
+  const [selectedConceptId, setSelectedConceptId] = useRouteId('work')
   const [workLogExpanded, setWorkLogExpanded] = useState(false)
   const [bulkPushIds, setBulkPushIds] = useState<string[] | null>(null)
+  // Concepts open side by side, kept in the URL as ?compare=id1,id2
+  const [compareParam, setCompareParam] = useSearchParam<string>('compare', '')
+  // Keyboard review queue over ready concepts, at ?mode=review
+  const [workMode, setWorkMode] = useSearchParam<'' | 'review'>('mode', '')
 
   const { data: products = [] } = useQuery({
     queryKey: ['products'],
@@ -224,17 +63,21 @@ function App() {
     enabled: isAuthenticated,
   })
 
+  // Pushed over the realtime socket; only poll while it's down
+  const conceptsPollInterval = usePollingFallback(2000)
+  const workLogPollInterval = usePollingFallback(1000)
+
   const { data: concepts = [], isLoading: isLoadingConcepts } = useQuery({
     queryKey: ['concepts'],
-    queryFn: fetchAdConcepts,
-    refetchInterval: isWorking ? 2000 : false,
+    queryFn: fetchConcepts,
+    refetchInterval: isWorking ? conceptsPollInterval : false,
     enabled: isAuthenticated,
   })
 
   const { data: workLog = [] } = useQuery({
     queryKey: ['workLog'],
     queryFn: fetchWorkLog,
-    refetchInterval: isWorking ? 1000 : false,
+    refetchInterval: isWorking ? workLogPollInterval : false,
     enabled: isAuthenticated,
   })
 
@@ -290,7 +133,7 @@ function App() {
   })
 
   const notesMutation = useMutation({
-    mutationFn: ({ id, notes }: { id: string; notes: string }) => addNotes(id, notes),
+    mutationFn: ({ id, notes }: { id: string; notes: string }) => saveConceptNotes(id, notes),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['concepts'] })
       toast.success('Notes saved')
@@ -301,12 +144,35 @@ function App() {
   })
 
   const ratingMutation = useMutation({
-    mutationFn: ({ id, rating }: { id: string; rating: number }) => setRating(id, rating),
+    mutationFn: ({ id, rating }: { id: string; rating: number }) => setConceptRating(id, rating),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['concepts'] })
     },
   })
 
+  const copyMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateCopyInput }) => updateConceptCopy(id, input),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['concepts'] })
+      queryClient.invalidateQueries({ queryKey: ['copy-history', id] })
+    },
+    onError: () => {
+      toast.error('Failed to save copy')
+    },
+  })
+
+  const revertCopyMutation = useMutation({
+    mutationFn: ({ id, versionId }: { id: string; versionId: string }) => revertConceptCopy(id, versionId),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['concepts'] })
+      queryClient.invalidateQueries({ queryKey: ['copy-history', id] })
+      toast.success('Copy reverted')
+    },
+    onError: () => {
+      toast.error('Failed to revert copy')
+    },
+  })
+
   const deleteMutation = useMutation({
     mutationFn: deleteConcept,
     onSuccess: () => {
@@ -334,6 +200,21 @@ function App() {
     toast.success(`Approved ${successCount} concept${successCount !== 1 ? 's' : ''}`)
   }
 
+  // Bulk reject - same feedback for every concept, e.g. a whole batch
+  const handleBulkReject = async (ids: string[], feedback: string) => {
+    let successCount = 0
+    for (const id of ids) {
+      try {
+        await rejectConcept(id, feedback)
+        successCount++
+      } catch (e) {
+        console.error(`Failed to reject ${id}:`, e)
+      }
+    }
+    queryClient.invalidateQueries({ queryKey: ['concepts'] })
+    toast.info(`Rejected ${successCount} concept${successCount !== 1 ? 's' : ''} with feedback`)
+  }
+
   // Bulk delete - delete multiple concepts
   const handleBulkDelete = async (ids: string[]) => {
     let successCount = 0
@@ -353,6 +234,12 @@ function App() {
   }
 
   const selectedConcept = concepts.find(c => c.id === selectedConceptId) || null
+  const compareConcepts = compareParam
+    .split(',')
+    .slice(0, MAX_COMPARE)
+    .map(id => concepts.find(c => c.id === id))
+    .filter((c): c is AdConcept => !!c)
+  const isReviewing = view === 'work' && workMode === 'review' && !isLoadingConcepts
   const latestLog = workLog[workLog.length - 1]
 
   // Keyboard shortcuts
@@ -361,8 +248,8 @@ function App() {
     const target = e.target as HTMLElement
     if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
 
-    // Only work in work view
-    if (view !== 'work') return
+    // Only work in work view, and not behind the comparison or review overlays
+    if (view !== 'work' || compareConcepts.length > 1 || isReviewing) return
 
     // j/k to navigate concepts
     if (e.key === 'j' || e.key === 'k') {
@@ -372,7 +259,7 @@ function App() {
         ? Math.min(currentIndex + 1, concepts.length - 1)
         : Math.max(currentIndex - 1, 0)
       if (concepts[newIndex]) {
-        setSelectedConceptId(concepts[newIndex].id)
+        setSelectedConceptId(concepts[newIndex].id, { replace: true })
       }
     }
 
@@ -387,7 +274,7 @@ function App() {
       e.preventDefault()
       approveMutation.mutate(selectedConceptId!)
     }
-  }, [view, concepts, selectedConceptId, selectedConcept, ratingMutation, approveMutation])
+  }, [view, compareConcepts.length, isReviewing, concepts, selectedConceptId, selectedConcept, ratingMutation, approveMutation, setSelectedConceptId])
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown)
@@ -396,15 +283,15 @@ function App() {
 
   // Auto-select first ready concept if none selected
   useEffect(() => {
-    if (!selectedConceptId && concepts.length > 0) {
+    if (view === 'work' && !selectedConceptId && concepts.length > 0) {
       const readyConcept = concepts.find(c => c.status === 'ready')
       if (readyConcept) {
-        setSelectedConceptId(readyConcept.id)
+        setSelectedConceptId(readyConcept.id, { replace: true })
       } else if (concepts[0]) {
-        setSelectedConceptId(concepts[0].id)
+        setSelectedConceptId(concepts[0].id, { replace: true })
       }
     }
-  }, [concepts, selectedConceptId])
+  }, [view, concepts, selectedConceptId, setSelectedConceptId])
 
   // Handle FB OAuth callback - check for errors and clear URL
   useEffect(() => {
@@ -413,7 +300,7 @@ function App() {
       if (params.get('error')) {
         console.log('FB OAuth cancelled:', params.get('error_description'))
       }
-      window.history.replaceState({}, '', '/')
+      navigate(buildPath(view), { replace: true })
     }
   }, [])
 
@@ -525,6 +412,8 @@ function App() {
             </div>
           )}
 
+          <NotificationCenter />
+
           {/* User menu */}
           <div className="flex items-center gap-2 pl-3 border-l border-[#E5E5E5]">
             <span className="text-xs text-[#737373]">{user?.email}</span>
@@ -547,7 +436,13 @@ function App() {
       ) : view === 'campaigns' ? (
         <Campaigns />
       ) : view === 'analytics' ? (
-        <Analytics />
+        <Analytics
+          onGenerateVariations={(productId, ideas) => startMutation.mutate(
+            { productId, ideas },
+            { onSuccess: () => toast.success('Generating variations — new concepts will appear in Work') }
+          )}
+          isGenerating={startMutation.isPending}
+        />
       ) : view === 'learnings' ? (
         <Learnings />
       ) : view === 'products' ? (
@@ -562,6 +457,7 @@ function App() {
             <div className="w-[280px] border-r border-[#E5E5E5] flex-shrink-0">
               <ConceptList
                 concepts={concepts}
+                products={products}
                 selectedId={selectedConceptId}
                 onSelect={setSelectedConceptId}
                 isLoading={isLoadingConcepts}
@@ -569,8 +465,11 @@ function App() {
                 onCreateConcept={handleCreateConcept}
                 onSetRating={(id, rating) => ratingMutation.mutate({ id, rating })}
                 onBulkApprove={handleBulkApprove}
+                onBulkReject={handleBulkReject}
                 onBulkDelete={handleBulkDelete}
                 onBulkPushFB={(ids) => setBulkPushIds(ids)}
+                onCompare={(ids) => setCompareParam(ids.join(','))}
+                onStartReview={() => setWorkMode('review')}
               />
             </div>
 
@@ -584,8 +483,11 @@ function App() {
                 onAddNotes={(id, notes) => notesMutation.mutate({ id, notes })}
                 onSetRating={(id, rating) => ratingMutation.mutate({ id, rating })}
                 onDelete={(id) => deleteMutation.mutate(id)}
+                onUpdateCopy={(id, input) => copyMutation.mutate({ id, input })}
+                onRevertCopy={(id, versionId) => revertCopyMutation.mutate({ id, versionId })}
                 isApproving={approveMutation.isPending}
                 isDeleting={deleteMutation.isPending}
+                isSavingCopy={copyMutation.isPending || revertCopyMutation.isPending}
               />
             </div>
           </div>
@@ -604,6 +506,32 @@ function App() {
         <ImageStudio />
       ) : null}
 
+      {/* Side-by-side comparison */}
+      {view === 'work' && compareConcepts.length > 1 && (
+        <ConceptCompare
+          concepts={compareConcepts}
+          onClose={() => setCompareParam('')}
+          onApprove={(id) => approveMutation.mutate(id)}
+          onReject={(id, feedback) => rejectMutation.mutate({ id, feedback })}
+          onSetRating={(id, rating) => ratingMutation.mutate({ id, rating })}
+          isApproving={approveMutation.isPending}
+          isRejecting={rejectMutation.isPending}
+        />
+      )}
+
+      {/* Review queue */}
+      {isReviewing && (
+        <ReviewQueue
+          concepts={concepts}
+          onClose={() => setWorkMode('')}
+          onApprove={(id) => approveMutation.mutateAsync(id)}
+          onReject={(id, feedback) => rejectMutation.mutateAsync({ id, feedback })}
+          onSetRating={(id, rating) => ratingMutation.mutate({ id, rating })}
+          isApproving={approveMutation.isPending}
+          isRejecting={rejectMutation.isPending}
+        />
+      )}
+
       {/* Bulk Push to FB Modal */}
       {bulkPushIds && (
         <BulkPushModal
@@ -612,6 +540,7 @@ function App() {
           onClose={() => setBulkPushIds(null)}
           onSuccess={() => {
             setBulkPushIds(null)
+            queryClient.invalidateQueries({ queryKey: ['concepts'] })
             toast.success('Concepts pushed to Facebook')
           }}
         />
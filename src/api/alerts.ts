@@ -0,0 +1,49 @@
+import { api } from './client'
+import type { Alert, AlertRule, AlertRuleInput } from './types'
+
+// ============ Rules ============
+
+// Rules are evaluated by the backend after each insights sync
+export async function fetchAlertRules(): Promise<AlertRule[]> {
+  const data = await api.get<{ rules?: AlertRule[] }>('/alerts/rules', { failureMessage: 'Failed to fetch alert rules' })
+  return data.rules || []
+}
+
+export async function createAlertRule(input: AlertRuleInput): Promise<AlertRule> {
+  return api.post('/alerts/rules', input, { failureMessage: 'Failed to create alert rule' })
+}
+
+export async function updateAlertRule(id: string, input: Partial<AlertRuleInput>): Promise<AlertRule> {
+  return api.put(`/alerts/rules/${id}`, input, { failureMessage: 'Failed to update alert rule' })
+}
+
+export async function deleteAlertRule(id: string): Promise<void> {
+  await api.delete(`/alerts/rules/${id}`, { failureMessage: 'Failed to delete alert rule' })
+}
+
+// Sends a sample alert to the rule's email/webhook
+export async function testAlertRule(id: string): Promise<{ delivered_to: string[] }> {
+  return api.post(`/alerts/rules/${id}/test`, undefined, { failureMessage: 'Failed to send test alert' })
+}
+
+// ============ History ============
+
+export async function fetchAlerts(filters: { unread?: boolean; rule_id?: string; limit?: number } = {}): Promise<Alert[]> {
+  const data = await api.get<{ alerts?: Alert[] }>('/alerts', {
+    query: { ...filters },
+    failureMessage: 'Failed to fetch alerts',
+  })
+  return data.alerts || []
+}
+
+export async function markAlertRead(id: string): Promise<Alert> {
+  return api.post(`/alerts/${id}/read`, undefined, { failureMessage: 'Failed to update alert' })
+}
+
+export async function markAllAlertsRead(): Promise<void> {
+  await api.post('/alerts/read-all', undefined, { failureMessage: 'Failed to update alerts' })
+}
+
+export async function snoozeAlert(id: string, hours: number): Promise<Alert> {
+  return api.post(`/alerts/${id}/snooze`, { hours }, { failureMessage: 'Failed to snooze alert' })
+}
@@ -0,0 +1,82 @@
+import { api } from './client'
+import type { AnalysisResult, AnalysisRun, LLMLog, Learning, LearningEvent, LearningInput, LearningMergeInput, LearningStatus, PortableLearning, ReevaluationResult } from './types'
+
+export interface LearningFilters {
+  category?: string
+  applies_to?: string
+  // Without a status, everything except retired learnings
+  status?: LearningStatus
+}
+
+export async function fetchLearnings(filters: LearningFilters = {}): Promise<Learning[]> {
+  const data = await api.get<{ learnings: Learning[]; total: number }>('/analysis/learnings/v2', {
+    query: { ...filters },
+    failureMessage: 'Failed to fetch learnings',
+  })
+  return data.learnings
+}
+
+export async function createLearning(input: LearningInput): Promise<Learning> {
+  return api.post('/analysis/learnings/v2', input, { failureMessage: 'Failed to save learning' })
+}
+
+export async function updateLearning(id: string, input: Partial<LearningInput>): Promise<Learning> {
+  return api.put(`/analysis/learnings/${id}`, input, { failureMessage: 'Failed to save learning' })
+}
+
+export async function mergeLearnings(input: LearningMergeInput): Promise<Learning> {
+  return api.post('/analysis/learnings/merge', input, { failureMessage: 'Failed to merge learnings' })
+}
+
+// Imported learnings start as hypotheses: they still have to prove
+// themselves on this product's ads
+export async function importLearnings(
+  productId: string | null,
+  learnings: PortableLearning[],
+  source: string
+): Promise<Learning[]> {
+  const data = await api.post<{ learnings?: Learning[] }>(
+    '/analysis/learnings/import',
+    { product_id: productId, learnings, source },
+    { failureMessage: 'Failed to import learnings' }
+  )
+  return data.learnings || []
+}
+
+export async function fetchLearningHistory(id: string): Promise<LearningEvent[]> {
+  const data = await api.get<{ events?: LearningEvent[] }>(`/analysis/learnings/${id}/history`, {
+    failureMessage: 'Failed to fetch learning history',
+  })
+  return data.events || []
+}
+
+// Runs the lifecycle pass the backend does after each insights sync: new
+// matching ads support or contradict learnings, stale ones decay
+export async function reevaluateLearnings(): Promise<ReevaluationResult> {
+  return api.post('/analysis/learnings/reevaluate', undefined, { failureMessage: 'Failed to re-evaluate learnings' })
+}
+
+export async function deleteLearning(id: string): Promise<void> {
+  await api.delete(`/analysis/learnings/${id}/hard`, { failureMessage: 'Failed to delete learning' })
+}
+
+export async function analyzeAds(adIds: string[]): Promise<AnalysisResult> {
+  return api.post('/analysis/analyze-ads', { ad_ids: adIds }, { failureMessage: 'Analysis failed' })
+}
+
+export async function fetchAnalysisRuns(): Promise<AnalysisRun[]> {
+  const data = await api.get<{ runs?: AnalysisRun[] }>('/analysis/runs', { failureMessage: 'Failed to fetch analysis runs' })
+  return data.runs || []
+}
+
+// Runs the analysis again on the run's stored ads snapshot and goals
+export async function rerunAnalysis(runId: string): Promise<AnalysisResult> {
+  return api.post(`/analysis/runs/${runId}/rerun`, undefined, { failureMessage: 'Re-run failed' })
+}
+
+export async function fetchAnalysisRunLLMLogs(runId: string): Promise<LLMLog[]> {
+  const data = await api.get<{ logs?: LLMLog[] }>(`/settings/llm-logs/analysis-run/${runId}`, {
+    failureMessage: 'Failed to fetch LLM logs',
+  })
+  return data.logs || []
+}
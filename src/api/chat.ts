@@ -0,0 +1,95 @@
+import { api, requestRaw } from './client'
+import type {
+  ChatAttachment,
+  ChatMessage,
+  ChatStreamEvent,
+  Confirmation,
+  Conversation,
+  SendMessageInput,
+} from './types'
+
+// ============ Conversations ============
+
+export async function fetchConversations(): Promise<Conversation[]> {
+  return api.get('/chat/conversations', { failureMessage: 'Failed to fetch conversations' })
+}
+
+export async function createConversation(title?: string): Promise<Conversation> {
+  return api.post('/chat/conversations', { title }, { failureMessage: 'Failed to create conversation' })
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await api.delete(`/chat/conversations/${id}`, { failureMessage: 'Failed to delete conversation' })
+}
+
+export async function fetchMessages(conversationId: string): Promise<ChatMessage[]> {
+  return api.get(`/chat/conversations/${conversationId}/messages`, { failureMessage: 'Failed to fetch messages' })
+}
+
+export async function uploadChatFile(conversationId: string, file: File): Promise<ChatAttachment> {
+  const formData = new FormData()
+  formData.append('file', file)
+  return api.post(`/chat/conversations/${conversationId}/upload`, formData, {
+    failureMessage: 'Failed to upload file',
+  })
+}
+
+// Send a message and read the assistant's reply as server-sent events.
+// Resolves once the stream closes.
+export async function streamMessage(
+  conversationId: string,
+  input: SendMessageInput,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const res = await requestRaw(`/chat/conversations/${conversationId}/messages`, {
+    method: 'POST',
+    body: input,
+    failureMessage: 'Failed to send message',
+  })
+
+  const reader = res.body?.getReader()
+  if (!reader) throw new Error('No response body')
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    // Process complete SSE events
+    const events = buffer.split('\n\n')
+    buffer = events.pop() || '' // Keep incomplete event in buffer
+
+    for (const event of events) {
+      if (!event.startsWith('data: ')) continue
+      try {
+        onEvent(JSON.parse(event.slice(6)) as ChatStreamEvent)
+      } catch (e) {
+        console.error('Failed to parse SSE data:', e)
+      }
+    }
+  }
+}
+
+// ============ Confirmations ============
+
+export async function fetchConfirmations(conversationId: string): Promise<Confirmation[]> {
+  return api.get(`/chat/conversations/${conversationId}/confirmations`, {
+    failureMessage: 'Failed to fetch confirmations',
+  })
+}
+
+export async function confirmAction(confirmationId: string): Promise<void> {
+  await api.post(`/chat/confirmations/${confirmationId}/confirm`, undefined, {
+    failureMessage: 'Failed to confirm action',
+  })
+}
+
+export async function cancelAction(confirmationId: string): Promise<void> {
+  await api.post(`/chat/confirmations/${confirmationId}/cancel`, undefined, {
+    failureMessage: 'Failed to cancel action',
+  })
+}
@@ -0,0 +1,107 @@
+import { API_BASE } from '../config'
+import { authFetch } from '../auth'
+
+// Error thrown for any non-2xx API response. Carries the HTTP status and the
+// parsed server body so callers can surface `detail` or branch on status.
+export class ApiError extends Error {
+  status: number
+  body: unknown
+  detail?: string
+
+  constructor(message: string, status: number, body: unknown) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.body = body
+    if (body && typeof body === 'object' && typeof (body as { detail?: unknown }).detail === 'string') {
+      this.detail = (body as { detail: string }).detail
+    }
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError
+}
+
+// Best-effort message for toasts and inline errors
+export function errorMessage(error: unknown, fallback = 'Unknown error'): string {
+  if (error instanceof Error && error.message) return error.message
+  return fallback
+}
+
+type QueryValue = string | number | boolean | null | undefined
+
+export interface RequestOptions extends Omit<RequestInit, 'body'> {
+  query?: Record<string, QueryValue>
+  // Plain objects are sent as JSON; FormData is passed through untouched
+  body?: unknown
+  // Used as the error message when the server doesn't return a `detail`
+  failureMessage?: string
+}
+
+export function apiUrl(path: string, query?: Record<string, QueryValue>): string {
+  let url = `${API_BASE}${path}`
+  if (query) {
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null && value !== '') {
+        params.set(key, String(value))
+      }
+    }
+    const qs = params.toString()
+    if (qs) url += `${url.includes('?') ? '&' : '?'}${qs}`
+  }
+  return url
+}
+
+async function parseBody(res: Response): Promise<unknown> {
+  const text = await res.text().catch(() => '')
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+// Send a request and return the raw Response, throwing ApiError on failure.
+// Use this for streaming endpoints; everything else should use `request`.
+export async function requestRaw(path: string, options: RequestOptions = {}): Promise<Response> {
+  const { query, body, failureMessage, headers: initHeaders, ...init } = options
+  const headers = new Headers(initHeaders)
+
+  let payload: BodyInit | undefined
+  if (body instanceof FormData) {
+    payload = body
+  } else if (body !== undefined) {
+    headers.set('Content-Type', 'application/json')
+    payload = JSON.stringify(body)
+  }
+
+  const res = await authFetch(apiUrl(path, query), { ...init, headers, body: payload })
+
+  if (!res.ok) {
+    const errorBody = await parseBody(res)
+    const error = new ApiError(failureMessage || `Request failed (${res.status})`, res.status, errorBody)
+    if (error.detail) error.message = error.detail
+    throw error
+  }
+
+  return res
+}
+
+export async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const res = await requestRaw(path, options)
+  return (await parseBody(res)) as T
+}
+
+export const api = {
+  get: <T>(path: string, options?: RequestOptions) =>
+    request<T>(path, { ...options, method: 'GET' }),
+  post: <T>(path: string, body?: unknown, options?: RequestOptions) =>
+    request<T>(path, { ...options, method: 'POST', body }),
+  put: <T>(path: string, body?: unknown, options?: RequestOptions) =>
+    request<T>(path, { ...options, method: 'PUT', body }),
+  delete: <T>(path: string, options?: RequestOptions) =>
+    request<T>(path, { ...options, method: 'DELETE' }),
+}
@@ -0,0 +1,102 @@
+import { api } from './client'
+import type {
+  AdConcept,
+  ConceptFilterPreset,
+  ConceptFilterPresetInput,
+  CopyVersion,
+  LLMLog,
+  UpdateCopyInput,
+  WorkLogEntry,
+} from './types'
+
+// The backend scores hypothesis confidence 0–100; the app reads it 0–1
+function fromApiConcept(concept: AdConcept): AdConcept {
+  if (typeof concept.hypothesis?.confidence !== 'number') return concept
+  return { ...concept, hypothesis: { ...concept.hypothesis, confidence: concept.hypothesis.confidence / 100 } }
+}
+
+export async function fetchConcepts(): Promise<AdConcept[]> {
+  const concepts = await api.get<AdConcept[]>('/concepts', { failureMessage: 'Failed to fetch concepts' })
+  return concepts.map(fromApiConcept)
+}
+
+export async function approveConcept(id: string): Promise<void> {
+  await api.post(`/concepts/${id}/approve`, undefined, { failureMessage: 'Failed to approve' })
+}
+
+export async function rejectConcept(id: string, feedback: string): Promise<void> {
+  await api.post(`/concepts/${id}/reject`, { feedback }, { failureMessage: 'Failed to reject' })
+}
+
+export async function saveConceptNotes(id: string, notes: string): Promise<void> {
+  await api.post(`/concepts/${id}/notes`, { notes }, { failureMessage: 'Failed to save notes' })
+}
+
+export async function setConceptRating(id: string, rating: number): Promise<void> {
+  await api.post(`/concepts/${id}/rating`, { rating }, { failureMessage: 'Failed to save rating' })
+}
+
+export async function deleteConcept(id: string): Promise<void> {
+  await api.delete(`/concepts/${id}`, { failureMessage: 'Failed to delete concept' })
+}
+
+export async function fetchConceptLLMLogs(conceptId: string): Promise<LLMLog[]> {
+  const data = await api.get<{ logs?: LLMLog[] }>(`/settings/llm-logs/concept/${conceptId}`, {
+    failureMessage: 'Failed to fetch LLM logs',
+  })
+  return data.logs || []
+}
+
+// ============ Copy editing ============
+
+export async function updateConceptCopy(id: string, input: UpdateCopyInput): Promise<AdConcept> {
+  const concept = await api.put<AdConcept>(`/concepts/${id}/copy`, input, { failureMessage: 'Failed to save copy' })
+  return fromApiConcept(concept)
+}
+
+// Oldest first, across both copy fields
+export async function fetchCopyHistory(id: string): Promise<CopyVersion[]> {
+  const data = await api.get<{ versions?: CopyVersion[] }>(`/concepts/${id}/copy-history`, {
+    failureMessage: 'Failed to fetch copy history',
+  })
+  return data.versions || []
+}
+
+export async function revertConceptCopy(id: string, versionId: string): Promise<AdConcept> {
+  const concept = await api.post<AdConcept>(`/concepts/${id}/copy-history/${versionId}/revert`, undefined, {
+    failureMessage: 'Failed to revert copy',
+  })
+  return fromApiConcept(concept)
+}
+
+// ============ Filter presets ============
+
+// The current user's presets plus any shared by teammates
+export async function fetchFilterPresets(): Promise<ConceptFilterPreset[]> {
+  const data = await api.get<{ presets?: ConceptFilterPreset[] }>('/concepts/filter-presets', {
+    failureMessage: 'Failed to fetch filter presets',
+  })
+  return data.presets || []
+}
+
+export async function createFilterPreset(input: ConceptFilterPresetInput): Promise<ConceptFilterPreset> {
+  return api.post('/concepts/filter-presets', input, { failureMessage: 'Failed to save filter preset' })
+}
+
+export async function deleteFilterPreset(id: string): Promise<void> {
+  await api.delete(`/concepts/filter-presets/${id}`, { failureMessage: 'Failed to delete filter preset' })
+}
+
+// ============ Work ============
+
+export async function fetchWorkLog(): Promise<WorkLogEntry[]> {
+  return api.get('/work-log', { failureMessage: 'Failed to fetch work log' })
+}
+
+export async function startWorking(productId: string | null, ideas?: string): Promise<void> {
+  await api.post('/start-working', { product_id: productId, ideas }, { failureMessage: 'Failed to start' })
+}
+
+export async function stopWorking(): Promise<void> {
+  await api.post('/stop-working', undefined, { failureMessage: 'Failed to stop' })
+}
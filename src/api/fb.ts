@@ -0,0 +1,178 @@
+import { api } from './client'
+import type {
+  BreakdownDimension,
+  BreakdownRow,
+  BulkPushInput,
+  BulkPushResult,
+  DailyInsights,
+  FBAd,
+  FBAdAccount,
+  FBAdDailyInsights,
+  FBAdSet,
+  FBCampaign,
+  FBConnectionStatus,
+  FBPage,
+  FBUser,
+  InsightsPeriod,
+  InsightsSnapshot,
+  PushConceptInput,
+  SnapshotStatus,
+  SuggestedNames,
+} from './types'
+
+// ============ Connection ============
+
+export async function fetchFBAuthStatus(): Promise<FBConnectionStatus> {
+  return api.get('/fb/auth/status', { failureMessage: 'Failed to get auth status' })
+}
+
+export async function fetchAdAccounts(): Promise<{ accounts: FBAdAccount[]; selected: string | null }> {
+  return api.get('/fb/ad-accounts', { failureMessage: 'Failed to get ad accounts' })
+}
+
+export async function fetchPages(): Promise<{ pages: FBPage[]; selected: string | null }> {
+  return api.get('/fb/pages', { failureMessage: 'Failed to get pages' })
+}
+
+export async function selectAdAccount(accountId: string): Promise<void> {
+  await api.post('/fb/select-account', { account_id: accountId }, { failureMessage: 'Failed to select account' })
+}
+
+export async function selectPage(pageId: string, pageToken?: string): Promise<void> {
+  await api.post('/fb/select-page', { page_id: pageId, page_token: pageToken }, { failureMessage: 'Failed to select page' })
+}
+
+export async function disconnectFacebook(): Promise<void> {
+  await api.post('/fb/auth/disconnect', undefined, { failureMessage: 'Failed to disconnect' })
+}
+
+export async function setFacebookToken(token: string): Promise<{ user: FBUser }> {
+  return api.post('/fb/auth/set-token', { token }, { failureMessage: 'Failed to set token' })
+}
+
+// ============ Campaigns & Ad Sets ============
+
+export async function fetchCampaigns(refresh = false): Promise<FBCampaign[]> {
+  const data = await api.get<{ campaigns?: FBCampaign[] }>('/fb/campaigns', {
+    query: { refresh: refresh || undefined },
+    failureMessage: 'Failed to fetch campaigns',
+  })
+  return data.campaigns || []
+}
+
+export async function createCampaign(name: string): Promise<{ campaign_id: string }> {
+  return api.post('/fb/campaigns', { name }, { failureMessage: 'Failed to create campaign' })
+}
+
+export async function fetchCampaignBudgetType(campaignId: string): Promise<{ is_cbo: boolean }> {
+  return api.get(`/fb/campaigns/${campaignId}/budget-type`, { failureMessage: 'Failed to fetch budget type' })
+}
+
+export async function fetchAdSets(campaignId: string, refresh = false): Promise<FBAdSet[]> {
+  const data = await api.get<{ adsets?: FBAdSet[] }>('/fb/adsets', {
+    query: { campaign_id: campaignId, refresh: refresh || undefined },
+    failureMessage: 'Failed to load ad sets',
+  })
+  return data.adsets || []
+}
+
+export async function createAdSet(input: {
+  campaign_id: string
+  name: string
+  daily_budget: number
+}): Promise<{ adset_id: string }> {
+  return api.post('/fb/adsets', input, { failureMessage: 'Failed to create adset' })
+}
+
+export async function duplicateAdSet(input: {
+  source_adset_id: string
+  new_name: string
+  daily_budget?: number
+}): Promise<{ adset_id: string }> {
+  return api.post('/fb/adsets/duplicate', input, { failureMessage: 'Failed to duplicate adset' })
+}
+
+// ============ Pushing Concepts ============
+
+export async function fetchSuggestedNames(conceptId: string, linkUrl: string): Promise<SuggestedNames> {
+  return api.get(`/fb/concept/${conceptId}/suggested-names`, {
+    query: { link_url: linkUrl },
+    failureMessage: 'Failed to fetch suggested names',
+  })
+}
+
+export async function pushConcept(input: PushConceptInput): Promise<{ ad_id?: string }> {
+  return api.post('/fb/push-concept', input, { failureMessage: 'Failed to push to Facebook' })
+}
+
+export async function bulkPushConcepts(input: BulkPushInput): Promise<BulkPushResult[]> {
+  const data = await api.post<{ results?: BulkPushResult[] }>('/fb/bulk-push', input, {
+    failureMessage: 'Failed to push concepts',
+  })
+  return data.results || []
+}
+
+// ============ Insights ============
+
+// Presets go through as date_preset; custom ranges as since/until
+function periodQuery(period: InsightsPeriod) {
+  return typeof period === 'string' ? { date_preset: period } : { since: period.since, until: period.until }
+}
+
+// Specific ads, e.g. the ones pushed from a concept
+export async function fetchAdsByIds(adIds: string[], period: InsightsPeriod): Promise<FBAd[]> {
+  const data = await api.get<{ ads?: FBAd[] }>('/fb/ads/with-insights', {
+    query: { ...periodQuery(period), ad_ids: adIds.join(',') },
+    failureMessage: 'Failed to fetch ads',
+  })
+  return data.ads || []
+}
+
+// Daily account and per-ad insights, one row per day
+export async function fetchAccountDailyInsights(period: InsightsPeriod): Promise<DailyInsights[]> {
+  const data = await api.get<{ days?: DailyInsights[] }>('/fb/account/insights/daily', {
+    query: periodQuery(period),
+    failureMessage: 'Failed to fetch daily insights',
+  })
+  return data.days || []
+}
+
+export async function fetchAdsDailyInsights(period: InsightsPeriod, adIds: string[]): Promise<FBAdDailyInsights[]> {
+  const data = await api.get<{ ads?: FBAdDailyInsights[] }>('/fb/ads/with-insights/daily', {
+    query: { ...periodQuery(period), ad_ids: adIds.join(',') },
+    failureMessage: 'Failed to fetch daily ad insights',
+  })
+  return data.ads || []
+}
+
+// Account insights (or one ad's, with adId) split by a breakdown dimension
+export async function fetchInsightsBreakdown(
+  period: InsightsPeriod,
+  dimension: BreakdownDimension,
+  adId?: string
+): Promise<BreakdownRow[]> {
+  const data = await api.get<{ rows?: BreakdownRow[] }>('/fb/insights/breakdown', {
+    query: { ...periodQuery(period), breakdown: dimension, ad_id: adId || undefined },
+    failureMessage: 'Failed to fetch insights breakdown',
+  })
+  return data.rows || []
+}
+
+// ============ Snapshots ============
+
+// Insights for a period, read from stored daily snapshots
+export async function fetchInsightsSnapshot(period: InsightsPeriod): Promise<InsightsSnapshot> {
+  return api.get('/fb/snapshots', {
+    query: periodQuery(period),
+    failureMessage: 'Failed to load insights',
+  })
+}
+
+export async function fetchSnapshotStatus(): Promise<SnapshotStatus> {
+  return api.get('/fb/snapshots/status', { failureMessage: 'Failed to fetch sync status' })
+}
+
+// Pull the latest insights from Facebook now instead of waiting for the schedule
+export async function syncSnapshots(): Promise<SnapshotStatus> {
+  return api.post('/fb/snapshots/sync', undefined, { failureMessage: 'Failed to sync insights' })
+}
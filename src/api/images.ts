@@ -0,0 +1,25 @@
+import { api } from './client'
+import type { GeneratedImage, GenerateImagesInput, ImageStyle } from './types'
+
+export async function fetchImageStyles(): Promise<ImageStyle[]> {
+  const data = await api.get<{ styles: ImageStyle[] }>('/images/styles', { failureMessage: 'Failed to fetch styles' })
+  return data.styles
+}
+
+export async function fetchImageHistory(limit = 50): Promise<GeneratedImage[]> {
+  const data = await api.get<{ images: GeneratedImage[] }>('/images/history', {
+    query: { limit },
+    failureMessage: 'Failed to fetch history',
+  })
+  return data.images
+}
+
+export async function generateImages(
+  input: GenerateImagesInput
+): Promise<{ images: GeneratedImage[]; errors?: string[] }> {
+  return api.post('/images/generate', input, { failureMessage: 'Generation failed' })
+}
+
+export async function deleteImage(id: string): Promise<void> {
+  await api.delete(`/images/${id}`, { failureMessage: 'Failed to delete' })
+}
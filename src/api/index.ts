@@ -0,0 +1,12 @@
+export { api, apiUrl, request, requestRaw, ApiError, isApiError, errorMessage } from './client'
+export type { RequestOptions } from './client'
+export * from './types'
+export * from './concepts'
+export * from './products'
+export * from './fb'
+export * from './swipes'
+export * from './settings'
+export * from './analysis'
+export * from './chat'
+export * from './images'
+export * from './alerts'
@@ -0,0 +1,48 @@
+import { api } from './client'
+import type { DataSource, DataSourceInput, Product, ProductInput } from './types'
+
+export async function fetchProducts(): Promise<Product[]> {
+  return api.get('/products', { failureMessage: 'Failed to fetch products' })
+}
+
+export async function createProduct(input: ProductInput): Promise<Product> {
+  return api.post('/products', input, { failureMessage: 'Failed to create product' })
+}
+
+export async function updateProduct(id: string, input: ProductInput): Promise<Product> {
+  return api.put(`/products/${id}`, input, { failureMessage: 'Failed to update product' })
+}
+
+export async function deleteProduct(id: string): Promise<void> {
+  await api.delete(`/products/${id}`, { failureMessage: 'Failed to delete product' })
+}
+
+export async function addProductImage(productId: string, imageData: string): Promise<void> {
+  await api.post(`/products/${productId}/images`, { image_data: imageData }, { failureMessage: 'Failed to upload image' })
+}
+
+export async function removeProductImage(productId: string, index: number): Promise<void> {
+  await api.delete(`/products/${productId}/images/${index}`, { failureMessage: 'Failed to remove image' })
+}
+
+// ============ Data Sources ============
+
+export async function fetchProductDataSources(productId: string): Promise<DataSource[]> {
+  return api.get(`/data-sources/product/${productId}`, { failureMessage: 'Failed to fetch product sources' })
+}
+
+export async function createDataSource(input: DataSourceInput): Promise<DataSource> {
+  return api.post('/data-sources', input, { failureMessage: 'Failed to add source' })
+}
+
+export async function updateDataSource(id: string, updates: { name: string; content: string }): Promise<DataSource> {
+  return api.put(`/data-sources/${id}`, updates, { failureMessage: 'Failed to update source' })
+}
+
+export async function deleteDataSource(id: string): Promise<void> {
+  await api.delete(`/data-sources/${id}`, { failureMessage: 'Failed to delete source' })
+}
+
+export async function quickAddDataSource(productId: string, content: string): Promise<void> {
+  await api.post('/data-sources/quick-add', { content, product_id: productId }, { failureMessage: 'Failed to add source' })
+}
@@ -0,0 +1,279 @@
+import { api } from './client'
+import type {
+  AdFormat,
+  AutonomousSetting,
+  AutonomousStatus,
+  BOFTemplate,
+  ChatModel,
+  ModelPricing,
+  ModelSettings,
+  PerformanceGoals,
+  PromptCustomization,
+  ReportTemplate,
+  ReportTemplateInput,
+  SettingsData,
+  StylePreset,
+  ThinkingSettings,
+  UsageBreakdown,
+  UsageSummary,
+} from './types'
+
+// ============ General ============
+
+export async function fetchSettings(): Promise<SettingsData> {
+  return api.get('/settings', { failureMessage: 'Failed to fetch settings' })
+}
+
+export async function updateSettings(updates: Partial<SettingsData>): Promise<SettingsData> {
+  return api.put('/settings', updates, { failureMessage: 'Failed to update setting' })
+}
+
+export async function fetchModelSettings(): Promise<ModelSettings> {
+  return api.get('/settings/models', { failureMessage: 'Failed to fetch models' })
+}
+
+export async function updateModel(task: string, modelId: string): Promise<void> {
+  await api.put('/settings/models', { task, model_id: modelId }, { failureMessage: 'Failed to update model' })
+}
+
+export async function fetchChatModels(): Promise<{ models: ChatModel[]; current_model: string }> {
+  return api.get('/settings/chat-models', { failureMessage: 'Failed to fetch chat models' })
+}
+
+export async function fetchThinkingSettings(): Promise<ThinkingSettings> {
+  return api.get('/settings/thinking', { failureMessage: 'Failed to fetch thinking settings' })
+}
+
+export async function updateThinkingBudget(budget: number): Promise<{ thinking_budget: number }> {
+  return api.put('/settings/thinking/budget', { budget }, { failureMessage: 'Failed to update thinking budget' })
+}
+
+export async function fetchGoals(): Promise<PerformanceGoals> {
+  return api.get('/settings/goals', { failureMessage: 'Failed to fetch goals' })
+}
+
+export async function updateGoals(updates: Partial<PerformanceGoals>): Promise<PerformanceGoals> {
+  return api.put('/settings/goals', updates, { failureMessage: 'Failed to update goals' })
+}
+
+// Per-product overrides; products without one use the account goals above
+export async function fetchProductGoals(): Promise<PerformanceGoals[]> {
+  const data = await api.get<{ goals?: PerformanceGoals[] }>('/settings/goals/products', {
+    failureMessage: 'Failed to fetch product goals',
+  })
+  return data.goals || []
+}
+
+export async function updateProductGoals(productId: string, updates: Partial<PerformanceGoals>): Promise<PerformanceGoals> {
+  return api.put(`/settings/goals/products/${productId}`, updates, { failureMessage: 'Failed to update product goals' })
+}
+
+export async function deleteProductGoals(productId: string): Promise<void> {
+  await api.delete(`/settings/goals/products/${productId}`, { failureMessage: 'Failed to reset product goals' })
+}
+
+// Analytics report templates; products without one use the default
+export async function fetchReportTemplates(): Promise<ReportTemplate[]> {
+  const data = await api.get<{ templates?: ReportTemplate[] }>('/settings/report-templates', {
+    failureMessage: 'Failed to fetch report templates',
+  })
+  return data.templates || []
+}
+
+export async function saveReportTemplate(productId: string | null, input: ReportTemplateInput): Promise<ReportTemplate> {
+  return api.put(`/settings/report-templates/${productId || 'default'}`, input, {
+    failureMessage: 'Failed to save report template',
+  })
+}
+
+export async function fetchCopywritingPrinciples(): Promise<string> {
+  const data = await api.get<{ principles: string }>('/settings/copywriting-principles', {
+    failureMessage: 'Failed to fetch principles',
+  })
+  return data.principles
+}
+
+export async function updateCopywritingPrinciples(principles: string): Promise<void> {
+  await api.put('/settings/copywriting-principles', { principles }, { failureMessage: 'Failed to save principles' })
+}
+
+export async function fetchUrlTags(): Promise<string> {
+  const data = await api.get<{ default_url_tags: string | null }>('/settings/url-tags', {
+    failureMessage: 'Failed to fetch URL tags',
+  })
+  return data.default_url_tags || ''
+}
+
+export async function updateUrlTags(urlTags: string | null): Promise<string> {
+  const data = await api.put<{ default_url_tags: string | null }>(
+    '/settings/url-tags',
+    { default_url_tags: urlTags },
+    { failureMessage: 'Failed to save URL tags' }
+  )
+  return data.default_url_tags || ''
+}
+
+// ============ Formats ============
+
+export async function fetchFormats(): Promise<AdFormat[]> {
+  const data = await api.get<{ formats: AdFormat[] }>('/settings/formats', { failureMessage: 'Failed to fetch formats' })
+  return data.formats
+}
+
+export async function seedFormats(): Promise<void> {
+  await api.post('/settings/formats/seed', undefined, { failureMessage: 'Failed to seed formats' })
+}
+
+export async function createFormat(data: Partial<AdFormat>): Promise<void> {
+  await api.post('/settings/formats', data, { failureMessage: 'Failed to create format' })
+}
+
+export async function updateFormat(formatId: string, data: Partial<AdFormat>): Promise<void> {
+  await api.put(`/settings/formats/${formatId}`, data, { failureMessage: 'Failed to update format' })
+}
+
+export async function deleteFormat(formatId: string): Promise<void> {
+  await api.delete(`/settings/formats/${formatId}`, { failureMessage: 'Failed to delete format' })
+}
+
+export async function addFormatReferenceImage(
+  formatId: string,
+  imageData: string
+): Promise<{ image_url: string; reference_image_urls: string[] }> {
+  return api.post(
+    `/settings/formats/${formatId}/add-reference-image`,
+    { image_data: imageData },
+    { failureMessage: 'Failed to upload image' }
+  )
+}
+
+export async function removeFormatReferenceImage(
+  formatId: string,
+  imageUrl: string
+): Promise<{ reference_image_urls: string[] }> {
+  return api.delete(`/settings/formats/${formatId}/remove-reference-image`, {
+    query: { image_url: imageUrl },
+    failureMessage: 'Failed to remove image',
+  })
+}
+
+export async function linkSwipeToFormat(formatId: string, swipeId: string): Promise<void> {
+  await api.post(`/settings/formats/${formatId}/link-swipe`, undefined, {
+    query: { swipe_id: swipeId },
+    failureMessage: 'Failed to link swipe',
+  })
+}
+
+// ============ Prompts & Style Presets ============
+
+export async function fetchPrompts(): Promise<PromptCustomization[]> {
+  const data = await api.get<{ prompts: PromptCustomization[] }>('/settings/prompts', {
+    failureMessage: 'Failed to fetch prompts',
+  })
+  return data.prompts
+}
+
+export async function updatePrompt(key: string, value: string): Promise<void> {
+  await api.put(`/settings/prompts/${key}`, { value }, { failureMessage: 'Failed to update prompt' })
+}
+
+export async function resetPrompt(key: string): Promise<void> {
+  await api.post(`/settings/prompts/${key}/reset`, undefined, { failureMessage: 'Failed to reset prompt' })
+}
+
+export async function fetchStylePresets(): Promise<StylePreset[]> {
+  const data = await api.get<{ presets: StylePreset[] }>('/settings/style-presets', {
+    failureMessage: 'Failed to fetch style presets',
+  })
+  return data.presets
+}
+
+export async function createStylePreset(data: {
+  id: string
+  name: string
+  description: string
+  template: string
+}): Promise<void> {
+  await api.post('/settings/style-presets', data, { failureMessage: 'Failed to create preset' })
+}
+
+export async function updateStylePreset(id: string, data: Partial<StylePreset>): Promise<void> {
+  await api.put(`/settings/style-presets/${id}`, data, { failureMessage: 'Failed to update preset' })
+}
+
+export async function deleteStylePreset(id: string): Promise<void> {
+  await api.delete(`/settings/style-presets/${id}`, { failureMessage: 'Failed to delete preset' })
+}
+
+export async function resetStylePreset(id: string): Promise<void> {
+  await api.post(`/settings/style-presets/${id}/reset`, undefined, { failureMessage: 'Failed to reset preset' })
+}
+
+export async function resetAllStylePresets(): Promise<void> {
+  await api.post('/settings/style-presets/reset-all', undefined, { failureMessage: 'Failed to reset all presets' })
+}
+
+// ============ Autonomous Mode ============
+
+export async function fetchAutonomousSettings(): Promise<Record<string, AutonomousSetting>> {
+  return api.get('/settings/autonomous', { failureMessage: 'Failed to fetch settings' })
+}
+
+export async function updateAutonomousSettings(updates: Record<string, unknown>): Promise<void> {
+  await api.put('/settings/autonomous', updates, { failureMessage: 'Failed to update settings' })
+}
+
+export async function fetchAutonomousStatus(): Promise<AutonomousStatus> {
+  return api.get('/settings/autonomous/status', { failureMessage: 'Failed to fetch status' })
+}
+
+export async function triggerAutonomousGeneration(): Promise<{ job_id: string }> {
+  return api.post('/settings/autonomous/trigger', undefined, { failureMessage: 'Failed to trigger generation' })
+}
+
+// ============ Usage ============
+
+export async function fetchUsageSummary(days?: number | null): Promise<UsageSummary> {
+  return api.get('/settings/usage/summary', { query: { days }, failureMessage: 'Failed to fetch usage' })
+}
+
+export async function fetchUsageByModel(days?: number | null): Promise<Record<string, UsageBreakdown>> {
+  const data = await api.get<{ by_model?: Record<string, UsageBreakdown> }>('/settings/usage/by-model', {
+    query: { days },
+    failureMessage: 'Failed to fetch usage',
+  })
+  return data.by_model || {}
+}
+
+export async function fetchUsageByTask(days?: number | null): Promise<Record<string, UsageBreakdown>> {
+  const data = await api.get<{ by_task?: Record<string, UsageBreakdown> }>('/settings/usage/by-task', {
+    query: { days },
+    failureMessage: 'Failed to fetch usage',
+  })
+  return data.by_task || {}
+}
+
+export async function fetchModelPricing(): Promise<Record<string, ModelPricing>> {
+  const data = await api.get<{ pricing?: Record<string, ModelPricing> }>('/settings/usage/pricing', {
+    failureMessage: 'Failed to fetch pricing',
+  })
+  return data.pricing || {}
+}
+
+// ============ BOF Templates ============
+
+export async function fetchBOFTemplates(): Promise<BOFTemplate[]> {
+  return api.get('/bof-templates', { failureMessage: 'Failed to fetch templates' })
+}
+
+export async function createBOFTemplate(data: {
+  name: string
+  image_data: string
+  description?: string
+}): Promise<BOFTemplate> {
+  return api.post('/bof-templates', data, { failureMessage: 'Failed to create template' })
+}
+
+export async function deleteBOFTemplate(id: string): Promise<void> {
+  await api.delete(`/bof-templates/${id}`, { failureMessage: 'Failed to delete template' })
+}
@@ -0,0 +1,52 @@
+import { api } from './client'
+import type { FunnelPosition, Swipe, SwipeJob, SwipeType, SwipeUpdate } from './types'
+
+export interface SwipeFilters {
+  swipe_type?: SwipeType
+  funnel_position?: Exclude<FunnelPosition, 'all'>
+  limit?: number
+}
+
+export interface QueuedJob {
+  success: boolean
+  job_id: string
+  detail?: string
+}
+
+export async function fetchSwipes(filters: SwipeFilters = {}): Promise<Swipe[]> {
+  const data = await api.get<{ swipes?: Swipe[] } | Swipe[]>('/swipes', {
+    query: { ...filters },
+    failureMessage: 'Failed to fetch swipes',
+  })
+  return Array.isArray(data) ? data : data.swipes || []
+}
+
+export async function updateSwipe(id: string, updates: SwipeUpdate): Promise<Swipe> {
+  return api.put(`/swipes/${id}`, updates, { failureMessage: 'Failed to save' })
+}
+
+export async function deleteSwipe(id: string): Promise<void> {
+  await api.delete(`/swipes/${id}`, { failureMessage: 'Failed to delete swipe' })
+}
+
+// ============ Processing Jobs ============
+
+export async function fetchSwipeJobs(limit = 20): Promise<SwipeJob[]> {
+  const data = await api.get<{ jobs?: SwipeJob[] }>('/swipes/jobs', {
+    query: { limit },
+    failureMessage: 'Failed to fetch jobs',
+  })
+  return data.jobs || []
+}
+
+export async function queueSwipeJob(
+  input: { input_type: 'url'; url: string } | { input_type: 'text'; text: string }
+): Promise<QueuedJob> {
+  return api.post('/swipes/jobs', input, { failureMessage: 'Failed to queue job' })
+}
+
+export async function uploadSwipeFile(file: File): Promise<QueuedJob> {
+  const formData = new FormData()
+  formData.append('file', file)
+  return api.post('/swipes/jobs/upload', formData, { failureMessage: 'Failed to upload file' })
+}
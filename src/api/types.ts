@@ -0,0 +1,892 @@
+// Shared request/response types for the backend API.
+// One definition per entity - components import from here (via '../api').
+
+// ============ Concepts & Work ============
+
+export interface Pattern {
+  id: string
+  source: string
+  pattern: string
+  mentions: number
+  emotional_valence: string
+  example_quotes: string[]
+}
+
+export interface Hypothesis {
+  id: string
+  pattern_id: string
+  hypothesis: string
+  reasoning: string
+  // 0–1; the backend scores 0–100 and api/concepts converts it
+  confidence: number
+  format_id?: string
+  format_reasoning?: string
+  image_preset_id?: string
+  awareness_stage?: string
+  target_avatar?: string
+  angle?: string
+}
+
+export interface ChangelogEntry {
+  original: string
+  revised: string
+  reason: string
+}
+
+// Editable copy fields on a concept
+export type CopyField = 'primary_texts' | 'headlines'
+
+export type CopyVersionAction = 'generated' | 'reviewed' | 'edited' | 'added' | 'deleted' | 'reverted'
+
+// One saved state of a copy field. Generation and the review agent write the
+// AI versions; every human edit, add, delete or revert appends a new one.
+export interface CopyVersion {
+  id: string
+  field: CopyField
+  values: string[]
+  source: 'ai' | 'human'
+  action: CopyVersionAction
+  reason?: string
+  author?: string
+  // Set on 'reverted' versions
+  reverted_to?: string
+  created_at: string
+}
+
+export interface UpdateCopyInput {
+  field: CopyField
+  values: string[]
+  action: Extract<CopyVersionAction, 'edited' | 'added' | 'deleted'>
+}
+
+export type ConceptStatus = 'researching' | 'generating' | 'reviewing' | 'ready' | 'approved' | 'rejected'
+
+export interface PrincipleCheck {
+  passed: boolean
+  score?: number
+  issues?: Array<{ rule: string; problem: string; fix: string }>
+  strengths?: string[]
+  ai_slop_detected?: string[]
+  overall?: string
+  notes?: string[]
+}
+
+export interface AdConcept {
+  id: string
+  batch_number: string
+  // Product the batch was generated for
+  product_id?: string | null
+  status: ConceptStatus
+  patterns_used: Pattern[]
+  hypothesis: Hypothesis
+  original_primary_text?: string
+  primary_texts: string[]
+  revision_changelog?: ChangelogEntry[]
+  headlines: string[]
+  images: string[]
+  image_prompts?: string[]
+  principle_check: PrincipleCheck
+  user_notes?: string
+  rating?: number
+  drive_folder_id?: string
+  created_at: string
+  format_id?: string
+  format_reasoning?: string
+  // Facebook ads created from this concept; empty until it's pushed. The
+  // backend appends the new ad id on /fb/push-concept and /fb/bulk-push; the
+  // client only refetches concepts after a push, and Analytics, attribution
+  // and learning impact link ads to concepts through this list alone.
+  fb_ad_ids?: string[]
+  // Learnings injected into the generation prompts, as they were at the time
+  applied_learnings?: AppliedLearning[]
+}
+
+// Combinable ConceptList filters. Empty values mean "any".
+export interface ConceptFilters {
+  query: string
+  status: string
+  product_id: string
+  format_id: string
+  check: '' | 'passed' | 'failed'
+  min_score: number | null
+  max_score: number | null
+  min_rating: number
+  date_from: string
+  date_to: string
+  pushed: '' | 'pushed' | 'not_pushed'
+}
+
+// A named set of filters. Presets belong to the user who saved them;
+// shared ones show up for the whole team.
+export interface ConceptFilterPreset {
+  id: string
+  name: string
+  filters: ConceptFilters
+  owner_id: string
+  owner_name?: string
+  shared: boolean
+  created_at: string
+}
+
+export interface ConceptFilterPresetInput {
+  name: string
+  filters: ConceptFilters
+  shared: boolean
+}
+
+export interface WorkLogEntry {
+  id: string
+  timestamp: string
+  type: 'info' | 'research' | 'pattern' | 'hypothesis' | 'generation' | 'review' | 'ready' | 'error'
+  message: string
+  details?: string
+}
+
+export interface LLMLog {
+  id: string
+  concept_id: string | null
+  analysis_run_id?: string | null
+  call_name: string
+  model_id: string
+  thinking_enabled: boolean
+  thinking_budget: number | null
+  system_prompt: string | null
+  user_prompt: string
+  response_text: string | null
+  thinking_text: string | null
+  input_tokens: number | null
+  output_tokens: number | null
+  thinking_tokens: number | null
+  latency_ms: number | null
+  error: string | null
+  created_at: string
+}
+
+// ============ Products & Data Sources ============
+
+export interface Product {
+  id: string
+  name: string
+  landing_page_url?: string
+  mechanism?: string
+  ingredients?: string
+  image_urls?: string[]
+  created_at: string
+  updated_at: string
+}
+
+export type DataSourceCategory = 'hook' | 'example' | 'reviews' | 'survey' | 'document' | 'brand_guide' | 'offers'
+
+export interface DataSource {
+  id: string
+  name: string
+  type: 'document' | 'sheet' | 'url'
+  content: string
+  created_at: string
+  category?: DataSourceCategory
+}
+
+export interface ProductInput {
+  name: string
+  landing_page_url: string | null
+  mechanism: string | null
+  ingredients: string | null
+}
+
+export interface DataSourceInput {
+  name: string
+  source_type: 'file' | 'text'
+  file_type: string | null
+  content: string
+  product_id?: string
+  category?: DataSourceCategory
+}
+
+// ============ Facebook ============
+
+export interface FBUser {
+  id: string
+  name: string
+}
+
+export interface FBAdAccount {
+  id: string
+  name: string
+  account_status: number
+  currency: string
+  business_name?: string
+}
+
+export interface FBPage {
+  id: string
+  name: string
+  category?: string
+  access_token?: string
+}
+
+export interface FBConnectionStatus {
+  connected: boolean
+  user: FBUser | null
+  ad_account_id: string | null
+  page_id: string | null
+}
+
+export interface FBCampaign {
+  id: string
+  name: string
+  status: string
+  objective: string
+  created_time?: string
+}
+
+export interface FBAdSet {
+  id: string
+  name: string
+  status: string
+  daily_budget: string
+  targeting?: Record<string, unknown>
+  optimization_goal?: string
+}
+
+export interface SuggestedNames {
+  adset_name?: string
+  has_naming_data?: boolean
+}
+
+export interface PushConceptInput {
+  concept_id: string
+  adset_id: string
+  link_url: string
+  primary_text_index: number
+  headline_index: number
+  status: 'ACTIVE' | 'PAUSED'
+}
+
+export interface BulkPushInput {
+  concept_ids: string[]
+  campaign_id: string
+  link_url: string
+  status: 'ACTIVE' | 'PAUSED'
+}
+
+export interface BulkPushResult {
+  concept_id: string
+  success: boolean
+  ad_id?: string
+  adset_id?: string
+  adset_name?: string
+  error?: string
+}
+
+export type DatePreset = 'yesterday' | 'last_7d' | 'last_30d' | 'this_month'
+
+// Inclusive yyyy-mm-dd bounds, in the ad account's timezone
+export interface DateRange {
+  since: string
+  until: string
+}
+
+export type InsightsPeriod = DatePreset | DateRange
+
+export interface AdInsights {
+  spend?: string | number
+  impressions?: string | number
+  reach?: string | number
+  // Average times each person saw the ad
+  frequency?: string | number
+  link_clicks?: string | number
+  link_ctr?: string | number
+  link_cpc?: string | number
+  landing_page_views?: number
+  add_to_cart?: number
+  initiate_checkout?: number
+  purchases?: number
+  cost_per_landing_page_view?: number | null
+  cost_per_add_to_cart?: number | null
+  cost_per_initiate_checkout?: number | null
+  cost_per_purchase?: number | null
+  roas?: number | null
+  // Landing page views per link click, as a 0-1 ratio (not a percent)
+  traffic_quality?: number | null
+  atc_purchase_ratio?: number | null
+}
+
+export interface FBAd {
+  id: string
+  name: string
+  is_ai_generated: boolean
+  insights: AdInsights
+  thumbnail_url?: string
+  primary_text?: string
+  created_time?: string
+}
+
+// One row of a daily (time_increment=1) breakdown
+export interface DailyInsights extends AdInsights {
+  date: string
+}
+
+export interface FBAdDailyInsights {
+  id: string
+  name: string
+  created_time?: string
+  days: DailyInsights[]
+}
+
+// Facebook insights breakdowns. `placement` combines publisher_platform
+// and platform_position (e.g. instagram_stories).
+export type BreakdownDimension = 'age' | 'gender' | 'publisher_platform' | 'placement' | 'device_platform' | 'region'
+
+// Insights for one value of a breakdown, e.g. age 25-34
+export interface BreakdownRow extends AdInsights {
+  value: string
+}
+
+// The backend pulls insights from Facebook on a schedule and keeps one
+// snapshot per day, so any range can be read back without hitting Facebook
+export interface SnapshotStatus {
+  last_synced_at: string | null
+  next_sync_at: string | null
+  // Range of days with stored snapshots
+  oldest_date: string | null
+  latest_date: string | null
+  is_syncing: boolean
+}
+
+export interface InsightsSnapshot {
+  since: string
+  until: string
+  insights: AdInsights | null
+  ads: FBAd[]
+  // When the newest day in the range was last pulled from Facebook
+  synced_at: string | null
+}
+
+// ============ Alerts ============
+
+// What a rule watches. The target_* kinds compare against the ad's product
+// goals (or the account goals).
+export type AlertRuleKind =
+  | 'cpa_above_target'
+  | 'roas_below_target'
+  | 'spend_spike'
+  | 'ad_rejected'
+  | 'metric_threshold'
+
+export type AlertChannel = 'in_app' | 'email' | 'webhook'
+
+export interface AlertRule {
+  id: string
+  name: string
+  kind: AlertRuleKind
+  // Whole account, or each ad separately
+  scope: 'account' | 'ad'
+  // Days in a row the condition has to hold before it fires
+  consecutive_days: number
+  // metric_threshold: metric, direction and value; null for other kinds
+  metric?: keyof AdInsights | null
+  operator?: 'above' | 'below' | null
+  threshold?: number | null
+  // spend_spike: percent over the trailing 7-day average; null for other kinds
+  spike_percent?: number | null
+  channels: AlertChannel[]
+  email?: string | null
+  webhook_url?: string | null
+  is_active: boolean
+  created_at: string
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'created_at'>
+
+// One firing of a rule, kept as history
+export interface Alert {
+  id: string
+  rule_id: string
+  rule_name: string
+  kind: AlertRuleKind
+  severity: 'critical' | 'warning'
+  message: string
+  ad_id?: string | null
+  ad_name?: string | null
+  value?: number | null
+  threshold?: number | null
+  triggered_at: string
+  read_at?: string | null
+  // The same rule stays quiet for this ad (or the account) until then
+  snoozed_until?: string | null
+  // Channels it was sent to besides in-app
+  delivered_to: AlertChannel[]
+}
+
+// ============ Swipes ============
+
+export type SwipeType = 'ad_text' | 'ad_image' | 'ad_video' | 'landing_page' | 'raw_text'
+export type FunnelPosition = 'TOF' | 'BOF' | 'all'
+
+export interface Swipe {
+  id: string
+  name: string
+  swipe_type: SwipeType
+  reference_code: string
+  transcript?: string
+  visual_description?: string
+  source_url?: string
+  source_platform?: string
+  thumbnail_url?: string
+  video_url?: string
+  tags?: string[]
+  category?: string
+  funnel_position?: FunnelPosition
+  times_referenced: number
+  created_at: string
+  metadata?: {
+    status?: 'processing' | 'ready' | 'failed'
+    error?: string
+    [key: string]: unknown
+  }
+}
+
+export interface SwipeJob {
+  id: string
+  status: 'queued' | 'processing' | 'done' | 'failed'
+  progress: number
+  progress_message: string
+  input_type: string
+  input_data: {
+    url?: string
+    text?: string
+    filename?: string
+  }
+  result_swipe_id?: string
+  error_message?: string
+  created_at: string
+}
+
+export interface SwipeUpdate {
+  name?: string
+  transcript?: string
+  funnel_position?: FunnelPosition
+}
+
+// ============ Settings ============
+
+export interface SettingsData {
+  image_generation_enabled: boolean
+  image_aspect_ratio: string
+}
+
+export interface ModelOption {
+  id: string
+  name: string
+  provider: string
+  thinking_enabled?: boolean
+  supports_thinking?: boolean
+}
+
+export interface ModelSettings {
+  available_models: Record<string, ModelOption[]>
+  current_models: Record<string, string>
+}
+
+export interface ChatModel {
+  id: string
+  name: string
+  provider: string
+  supports_thinking?: boolean
+  thinking_enabled?: boolean
+}
+
+export interface ThinkingSettings {
+  thinking_budget: number
+  min_budget: number
+  max_budget: number
+  default_budget: number
+}
+
+export interface PerformanceGoals {
+  id: string | null
+  product_id: string | null
+  target_cpa: number
+  target_roas: number
+  super_winner_min_spend: number
+  winner_min_spend: number
+  promising_max_spend: number
+  promising_min_sales: number
+  loser_min_spend: number
+}
+
+export type ReportSection = 'overview' | 'ai_vs_manual' | 'top_ads' | 'bottom_ads' | 'learnings'
+
+// Layout and branding for shareable Analytics reports. One per product,
+// plus the account default (product_id null).
+export interface ReportTemplate {
+  id: string
+  product_id: string | null
+  title: string
+  brand_name: string
+  brand_color: string
+  logo_url: string | null
+  intro: string
+  sections: ReportSection[]
+  // Overview metric ids in order; empty follows the Analytics overview cards
+  overview_metrics: string[]
+  // How many ads each of the top/bottom lists shows
+  ads_count: number
+  updated_at: string
+}
+
+export type ReportTemplateInput = Omit<ReportTemplate, 'id' | 'product_id' | 'updated_at'>
+
+export interface AdFormat {
+  id: string
+  format_id: string
+  name: string
+  description: string | null
+  // New simplified schema
+  prompt: string | null
+  text_examples: string | null
+  // Old schema (deprecated, for backward compat)
+  structure: string
+  voice_notes: string | null
+  pacing: string | null
+  do_list: string[]
+  dont_list: string[]
+  // Shared fields
+  linked_swipe_ids: string[]
+  reference_image_urls: string[]
+  is_active: boolean
+}
+
+export interface PromptCustomization {
+  key: string
+  name: string
+  description: string
+  category: string
+  value: string
+  is_default: boolean
+}
+
+export interface StylePreset {
+  id: string
+  name: string
+  description: string
+  template: string
+  is_custom: boolean
+  is_default: boolean
+}
+
+export interface AutonomousSetting {
+  name: string
+  description: string
+  type: string
+  default: unknown
+  value: unknown
+  category: string
+  min?: number
+  max?: number
+  step?: number
+  options?: string[]
+  deprecated?: boolean
+}
+
+export interface FunnelStatus {
+  daily_target: number
+  concepts_today: number
+  remaining: number
+}
+
+export interface AutonomousStatus {
+  enabled: boolean
+  daily_target: number
+  concepts_today: number
+  remaining: number
+  is_running: boolean
+  pending_jobs: number
+  auto_approval_enabled: boolean
+  diversity_enabled: boolean
+  tof?: FunnelStatus
+  bof?: FunnelStatus
+}
+
+export interface UsageSummary {
+  total_cost: number
+  total_input_tokens: number
+  total_output_tokens: number
+  total_images: number
+  count: number
+}
+
+export interface UsageBreakdown {
+  cost: number
+  input_tokens: number
+  output_tokens: number
+  images: number
+  count: number
+}
+
+export interface ModelPricing {
+  input: number
+  output: number
+  image?: number
+  provider: string
+}
+
+export interface StyleAnalysis {
+  layout_type: string
+  color_scheme: string
+  typography_style: string
+  product_placement: string
+  overall_vibe: string
+}
+
+export interface BOFTemplate {
+  id: string
+  name: string
+  description: string | null
+  template_url: string
+  style_analysis: StyleAnalysis | null
+  product_id: string | null
+  is_active: boolean
+  created_at: string
+}
+
+// ============ Analysis & Learnings ============
+
+export interface AdMetric {
+  ad_name: string
+  spend: number
+  cpa: number | null
+  roas: number | null
+}
+
+export interface Evidence {
+  ad_ids?: string[]
+  ad_names?: string[]
+  ad_metrics?: AdMetric[]
+  metrics_comparison?: string
+  specific_examples?: string[]
+  supporting_ads?: string[]
+}
+
+export type LearningType = 'do' | 'avoid'
+
+// hypothesis: not yet confirmed by new ads; validated: confirmed by ads that
+// came in after it; contradicted: newer ads went the other way; retired: no
+// longer used for generation, either by hand or after decaying away
+export type LearningStatus = 'hypothesis' | 'validated' | 'contradicted' | 'retired'
+
+export interface Learning {
+  id: string
+  insight: string
+  category: string
+  type: LearningType
+  confidence: number
+  applies_to: string
+  product_id: string | null
+  evidence: Evidence | null
+  // Mirrors status: only hypothesis and validated learnings are active
+  is_active: boolean
+  status: LearningStatus
+  // Confidence decays the longer it's been since new ads backed this up
+  last_evidence_at: string | null
+  last_evaluated_at: string | null
+  created_at: string
+  source_type?: string
+}
+
+export interface AppliedLearning {
+  id: string
+  insight: string
+  type: LearningType
+  category: string
+  confidence: number
+}
+
+export interface LearningInput {
+  insight: string
+  category: string
+  learning_type: LearningType
+  confidence: number
+  applies_to: string
+  status?: LearningStatus
+}
+
+// A learning as carried in a knowledge pack: no ids, product or history,
+// so it can be imported into another workspace or product
+export interface PortableLearning {
+  insight: string
+  category: string
+  type: LearningType
+  confidence: number
+  applies_to: string
+  evidence: Evidence | null
+}
+
+export type LearningEventKind = 'created' | 'supported' | 'contradicted' | 'decayed' | 'status_changed' | 'edited' | 'merged'
+
+// One entry in a learning's history; confidence and status are as of the event
+export interface LearningEvent {
+  id: string
+  learning_id: string
+  kind: LearningEventKind
+  confidence: number
+  status: LearningStatus
+  note: string
+  ad_names?: string[]
+  created_at: string
+}
+
+// Folds merge_ids into keep_id, which takes the combined insight, evidence
+// and confidence; the merged learnings are retired. keep_id must be
+// account-wide when any merged learning is, so no product loses it
+export interface LearningMergeInput {
+  keep_id: string
+  merge_ids: string[]
+  insight: string
+  confidence: number
+  evidence: Evidence
+}
+
+export interface ReevaluationResult {
+  evaluated: number
+  supported: number
+  contradicted: number
+  decayed: number
+  retired: number
+}
+
+export interface AnalysisResult {
+  success: boolean
+  ads_analyzed: number
+  winners: number
+  losers: number
+  learnings_created: number
+  summary: string
+  run_id?: string
+}
+
+// An input ad as it looked when the run started
+export interface AnalysisRunAd {
+  ad_id: string
+  ad_name: string
+  spend: number
+  purchases: number
+  cpa: number | null
+  roas: number | null
+  ctr: number | null
+  verdict: 'winner' | 'loser'
+}
+
+// A stored analyze-ads run. The ads metrics snapshot and goals are the exact
+// inputs, so a re-run reproduces the analysis rather than re-reading live data.
+export interface AnalysisRun {
+  id: string
+  ads: AnalysisRunAd[]
+  goals: PerformanceGoals
+  model_id: string
+  ads_analyzed: number
+  winners: number
+  losers: number
+  summary: string
+  // As created; the learnings may since have been edited, merged or retired
+  learnings: AppliedLearning[]
+  // The run this one re-ran, if any
+  rerun_of: string | null
+  created_at: string
+}
+
+// ============ Chat ============
+
+export interface Conversation {
+  id: string
+  title: string
+  created_at: string
+  updated_at: string
+}
+
+export interface ChatMessage {
+  id: string
+  conversation_id: string
+  role: 'user' | 'assistant' | 'tool'
+  content: string | null
+  tool_calls?: unknown[]
+  tool_results?: unknown[]
+  attachments?: ChatAttachment[]
+  created_at: string
+}
+
+export interface Confirmation {
+  id: string
+  conversation_id: string
+  action_type: string
+  action_data: any
+  status: string
+  created_at: string
+}
+
+export interface ChatAttachment {
+  file_name: string
+  type: string
+  data: string
+  size: number
+}
+
+export interface SendMessageInput {
+  message: string
+  attachments?: ChatAttachment[]
+  model_id?: string
+}
+
+// Server-sent events emitted while the assistant responds
+export type ChatStreamEvent =
+  | { type: 'content'; content: string }
+  | { type: 'done' }
+  | { type: 'error'; error: string }
+
+// ============ Realtime ============
+
+export interface SwipeJobUpdate {
+  job_id: string
+  progress: number
+  message: string
+  status: SwipeJob['status']
+}
+
+// Messages pushed over the shared events socket
+export type RealtimeEvent =
+  | { type: 'initial_state'; jobs: SwipeJob[] }
+  | { type: 'work_log'; entry: WorkLogEntry }
+  | { type: 'concept_update'; concept: AdConcept }
+  | { type: 'concept_deleted'; concept_id: string }
+  | { type: 'autonomous_status'; status: AutonomousStatus }
+  | { type: 'confirmation'; confirmation: Confirmation }
+  | { type: 'alert'; alert: Alert }
+  | ({ type: 'job_update' } & SwipeJobUpdate)
+  | { type: 'ping' }
+
+// ============ Images ============
+
+export interface ImageStyle {
+  id: string
+  name: string
+  description: string
+}
+
+export interface GeneratedImage {
+  id: string
+  image_url: string
+  prompt: string
+  style_preset: string
+  aspect_ratio: string
+  model_used: string
+  generation_time_ms: number
+  created_at: string
+}
+
+export interface GenerateImagesInput {
+  prompt: string
+  style_preset: string
+  aspect_ratio: string
+  quantity: number
+  reference_images?: string[]
+}
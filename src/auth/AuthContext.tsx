@@ -1,5 +1,5 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
-import { API_BASE } from '../config'
+import { API_BASE, MOCK_API } from '../config'
 
 interface User {
   id: string
@@ -20,6 +20,13 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | null>(null)
 
+// All auth traffic goes through here so mock mode can intercept it. The mock
+// is imported on demand so production builds leave it out.
+function baseFetch(url: string, options?: RequestInit): Promise<Response> {
+  if (MOCK_API) return import('../mock').then(mock => mock.mockFetch(url, options))
+  return fetch(url, options)
+}
+
 export function useAuth() {
   const context = useContext(AuthContext)
   if (!context) {
@@ -37,18 +44,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [token, setToken] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
-  // Check for existing session on mount OR magic link callback OR preview mode
+  // Check for existing session on mount OR magic link callback
   useEffect(() => {
-    // Check for preview mode (for screenshots/testing)
-    const urlParams = new URLSearchParams(window.location.search)
-    const previewToken = urlParams.get('preview_token')
-    if (previewToken === 'nuora_preview_2024') {
-      // Preview mode - set a fake authenticated state with actual preview token
-      localStorage.setItem('auth_token', 'nuora_preview_2024')
-      setUser({ id: 'preview', email: 'preview@nuora.com' })
-      setToken('nuora_preview_2024')
-      setIsLoading(false)
-      return
+    // Mock mode skips the login screen; the mock backend accepts any token
+    if (MOCK_API && !localStorage.getItem('auth_token')) {
+      localStorage.setItem('auth_token', 'mock-access-token')
     }
 
     // Check if this is a magic link callback (token in URL hash)
@@ -77,13 +77,6 @@ export function AuthProvider({ children }: AuthProviderProps) {
     // Normal flow: check stored token
     const storedToken = localStorage.getItem('auth_token')
     if (storedToken) {
-      // Check if stored token is preview token
-      if (storedToken === 'nuora_preview_2024') {
-        setUser({ id: 'preview', email: 'preview@nuora.com' })
-        setToken('nuora_preview_2024')
-        setIsLoading(false)
-        return
-      }
       setToken(storedToken)
       checkAuth(storedToken)
     } else {
@@ -94,7 +87,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   // Verify token and get user info (with auto-refresh on expiry)
   async function checkAuth(authToken: string) {
     try {
-      let res = await fetch(`${API_BASE}/auth/me`, {
+      let res = await baseFetch(`${API_BASE}/auth/me`, {
         headers: {
           'Authorization': `Bearer ${authToken}`,
         },
@@ -106,7 +99,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         if (refreshToken) {
           console.log('Access token expired, attempting refresh...')
           try {
-            const refreshRes = await fetch(`${API_BASE}/auth/refresh`, {
+            const refreshRes = await baseFetch(`${API_BASE}/auth/refresh`, {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify({ refresh_token: refreshToken }),
@@ -120,7 +113,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
                 localStorage.setItem('refresh_token', data.refresh_token)
               }
               // Retry auth check with new token
-              res = await fetch(`${API_BASE}/auth/me`, {
+              res = await baseFetch(`${API_BASE}/auth/me`, {
                 headers: {
                   'Authorization': `Bearer ${data.access_token}`,
                 },
@@ -170,7 +163,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   // Send OTP to email
   async function login(email: string): Promise<{ success: boolean; message: string }> {
     try {
-      const res = await fetch(`${API_BASE}/auth/login/email`, {
+      const res = await baseFetch(`${API_BASE}/auth/login/email`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ email }),
@@ -191,7 +184,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   // Verify OTP and complete login
   async function verifyOtp(email: string, code: string): Promise<{ success: boolean; message: string }> {
     try {
-      const res = await fetch(`${API_BASE}/auth/verify/otp`, {
+      const res = await baseFetch(`${API_BASE}/auth/verify/otp`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ email, token: code }),
@@ -258,16 +251,13 @@ export function getAuthHeaders(): HeadersInit {
   return {}
 }
 
-// Preview token for testing/screenshots
-const PREVIEW_TOKEN = 'nuora_preview_2024'
-
 // Refresh the access token using refresh token
 async function refreshAccessToken(): Promise<string | null> {
   const refreshToken = localStorage.getItem('refresh_token')
   if (!refreshToken) return null
 
   try {
-    const res = await fetch(`${API_BASE}/auth/refresh`, {
+    const res = await baseFetch(`${API_BASE}/auth/refresh`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ refresh_token: refreshToken }),
@@ -298,14 +288,9 @@ export async function authFetch(url: string, options: RequestInit = {}): Promise
   const headers = new Headers(options.headers)
   if (token) {
     headers.set('Authorization', `Bearer ${token}`)
-    // If in preview mode, use admin API key instead of bearer token
-    if (token === PREVIEW_TOKEN) {
-      headers.delete('Authorization')
-      headers.set('X-API-Key', 'nuora_admin_2024')
-    }
   }
 
-  let response = await fetch(url, {
+  let response = await baseFetch(url, {
     ...options,
     headers,
   })
@@ -315,7 +300,7 @@ export async function authFetch(url: string, options: RequestInit = {}): Promise
     const newToken = await refreshAccessToken()
     if (newToken) {
       headers.set('Authorization', `Bearer ${newToken}`)
-      response = await fetch(url, {
+      response = await baseFetch(url, {
         ...options,
         headers,
       })
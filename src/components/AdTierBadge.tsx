@@ -0,0 +1,18 @@
+import type { AdTier } from '../utils/adTiers'
+import { TIER_LABELS } from '../utils/adTiers'
+
+const TIER_STYLES: Record<AdTier, string> = {
+  super_winner: 'bg-green-600 text-white border-green-600',
+  winner: 'bg-green-50 text-green-700 border-green-200',
+  promising: 'bg-[#EFF6FF] text-[#1D4ED8] border-[#BFDBFE]',
+  loser: 'bg-red-50 text-red-700 border-red-200',
+  insufficient_data: 'bg-[#FAFAFA] text-[#A3A3A3] border-[#E5E5E5]',
+}
+
+export function AdTierBadge({ tier, title }: { tier: AdTier; title?: string }) {
+  return (
+    <span className={`inline-block px-1.5 py-0.5 text-[10px] font-medium border whitespace-nowrap ${TIER_STYLES[tier]}`} title={title}>
+      {TIER_LABELS[tier]}
+    </span>
+  )
+}
@@ -17,104 +17,18 @@ import {
 } from 'lucide-react'
 import { Button } from './ui/button'
 import { useToast } from './ui/toast'
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
-
-interface PromptCustomization {
-  key: string
-  name: string
-  description: string
-  category: string
-  value: string
-  is_default: boolean
-}
-
-interface StylePreset {
-  id: string
-  name: string
-  description: string
-  template: string
-  is_custom: boolean
-  is_default: boolean
-}
-
-// API functions
-async function fetchPrompts(): Promise<PromptCustomization[]> {
-  const res = await authFetch(`${API_BASE}/settings/prompts`)
-  if (!res.ok) throw new Error('Failed to fetch prompts')
-  const data = await res.json()
-  return data.prompts
-}
-
-async function fetchStylePresets(): Promise<StylePreset[]> {
-  const res = await authFetch(`${API_BASE}/settings/style-presets`)
-  if (!res.ok) throw new Error('Failed to fetch style presets')
-  const data = await res.json()
-  return data.presets
-}
-
-async function updatePrompt(key: string, value: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/settings/prompts/${key}`, {
-    method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ value }),
-  })
-  if (!res.ok) throw new Error('Failed to update prompt')
-}
-
-async function resetPrompt(key: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/settings/prompts/${key}/reset`, {
-    method: 'POST',
-  })
-  if (!res.ok) throw new Error('Failed to reset prompt')
-}
-
-async function updateStylePreset(
-  id: string,
-  data: Partial<StylePreset>
-): Promise<void> {
-  const res = await authFetch(`${API_BASE}/settings/style-presets/${id}`, {
-    method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(data),
-  })
-  if (!res.ok) throw new Error('Failed to update preset')
-}
-
-async function createStylePreset(data: {
-  id: string
-  name: string
-  description: string
-  template: string
-}): Promise<void> {
-  const res = await authFetch(`${API_BASE}/settings/style-presets`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(data),
-  })
-  if (!res.ok) throw new Error('Failed to create preset')
-}
-
-async function deleteStylePreset(id: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/settings/style-presets/${id}`, {
-    method: 'DELETE',
-  })
-  if (!res.ok) throw new Error('Failed to delete preset')
-}
-
-async function resetStylePreset(id: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/settings/style-presets/${id}/reset`, {
-    method: 'POST',
-  })
-  if (!res.ok) throw new Error('Failed to reset preset')
-}
-
-async function resetAllStylePresets(): Promise<void> {
-  const res = await authFetch(`${API_BASE}/settings/style-presets/reset-all`, {
-    method: 'POST',
-  })
-  if (!res.ok) throw new Error('Failed to reset all presets')
-}
+import {
+  fetchPrompts,
+  fetchStylePresets,
+  updatePrompt,
+  resetPrompt,
+  updateStylePreset,
+  createStylePreset,
+  deleteStylePreset,
+  resetStylePreset,
+  resetAllStylePresets,
+} from '../api'
+import type { PromptCustomization, StylePreset } from '../api'
 
 // Category icons
 const categoryIcons: Record<string, React.ReactNode> = {
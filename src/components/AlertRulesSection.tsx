@@ -0,0 +1,421 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Bell, ChevronDown, ChevronUp, Loader2, Plus, Send, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { useToast } from './ui/toast'
+import { fetchAlertRules, createAlertRule, updateAlertRule, deleteAlertRule, testAlertRule } from '../api'
+import type { AdInsights, AlertChannel, AlertRule, AlertRuleInput, AlertRuleKind } from '../api'
+
+const RULE_KINDS: Array<{ id: AlertRuleKind; label: string; description: string }> = [
+  { id: 'cpa_above_target', label: 'CPA above target', description: 'Cost per purchase is over the target CPA in Goals' },
+  { id: 'roas_below_target', label: 'ROAS below target', description: 'ROAS is under the target ROAS in Goals' },
+  { id: 'spend_spike', label: 'Spend spike', description: "A day's spend is well over the trailing 7-day average" },
+  { id: 'ad_rejected', label: 'Ad rejected', description: 'Facebook disapproved an ad' },
+  { id: 'metric_threshold', label: 'Custom threshold', description: 'Any metric above or below a value' },
+]
+
+const THRESHOLD_METRICS: Array<{ id: keyof AdInsights; label: string }> = [
+  { id: 'spend', label: 'Spend' },
+  { id: 'link_ctr', label: 'Link CTR' },
+  { id: 'link_cpc', label: 'Link CPC' },
+  { id: 'cost_per_purchase', label: 'Cost per Purchase' },
+  { id: 'roas', label: 'ROAS' },
+  { id: 'frequency', label: 'Frequency' },
+  { id: 'purchases', label: 'Purchases' },
+]
+
+const CHANNELS: Array<{ id: AlertChannel; label: string }> = [
+  { id: 'in_app', label: 'In-app' },
+  { id: 'email', label: 'Email' },
+  { id: 'webhook', label: 'Webhook' },
+]
+
+const EMPTY_RULE: AlertRuleInput = {
+  name: '',
+  kind: 'cpa_above_target',
+  scope: 'ad',
+  consecutive_days: 2,
+  channels: ['in_app'],
+  email: null,
+  webhook_url: null,
+  is_active: true,
+}
+
+// What the editor saves: no id or created_at, and the kind-specific fields
+// the rule doesn't use as null (not undefined, which JSON drops) so an
+// update clears them
+const toInput = (rule: AlertRuleInput): AlertRuleInput => ({
+  name: rule.name,
+  kind: rule.kind,
+  scope: rule.scope,
+  consecutive_days: rule.consecutive_days,
+  metric: rule.kind === 'metric_threshold' ? rule.metric ?? null : null,
+  operator: rule.kind === 'metric_threshold' ? rule.operator ?? null : null,
+  threshold: rule.kind === 'metric_threshold' ? rule.threshold ?? null : null,
+  spike_percent: rule.kind === 'spend_spike' ? rule.spike_percent ?? null : null,
+  channels: rule.channels,
+  email: rule.email,
+  webhook_url: rule.webhook_url,
+  is_active: rule.is_active,
+})
+
+function describeRule(rule: AlertRule): string {
+  const who = rule.scope === 'account' ? 'Account' : 'Any ad'
+  const days = rule.consecutive_days > 1 ? ` for ${rule.consecutive_days} days` : ''
+  switch (rule.kind) {
+    case 'cpa_above_target':
+      return `${who}: CPA above target${days}`
+    case 'roas_below_target':
+      return `${who}: ROAS below target${days}`
+    case 'spend_spike':
+      return `${who}: spend ${rule.spike_percent ?? 50}%+ over 7-day average`
+    case 'ad_rejected':
+      return 'An ad is rejected by Facebook'
+    case 'metric_threshold': {
+      const metric = THRESHOLD_METRICS.find(m => m.id === rule.metric)?.label || rule.metric
+      return `${who}: ${metric} ${rule.operator} ${rule.threshold}${days}`
+    }
+  }
+}
+
+function RuleEditor({
+  rule,
+  onSave,
+  onCancel,
+  isSaving,
+}: {
+  rule: AlertRuleInput
+  onSave: (input: AlertRuleInput) => void
+  onCancel: () => void
+  isSaving: boolean
+}) {
+  const [draft, setDraft] = useState<AlertRuleInput>(() => toInput(rule))
+  const update = (updates: Partial<AlertRuleInput>) => setDraft(prev => ({ ...prev, ...updates }))
+
+  const toggleChannel = (channel: AlertChannel) => {
+    update({
+      channels: draft.channels.includes(channel)
+        ? draft.channels.filter(c => c !== channel)
+        : [...draft.channels, channel],
+    })
+  }
+
+  const canSave =
+    draft.name.trim() &&
+    draft.channels.length > 0 &&
+    (!draft.channels.includes('email') || draft.email?.trim()) &&
+    (!draft.channels.includes('webhook') || draft.webhook_url?.trim()) &&
+    (draft.kind !== 'metric_threshold' || (draft.metric && draft.operator && draft.threshold != null)) &&
+    (draft.kind !== 'spend_spike' || (draft.spike_percent ?? 0) > 0)
+
+  const inputClass = 'w-full h-8 px-2 text-sm border border-[#E5E5E5] bg-white focus:outline-none focus:border-black'
+
+  return (
+    <div className="border border-[#E5E5E5] p-3 space-y-3 bg-[#FAFAFA]">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs text-[#737373] block mb-1">Name</label>
+          <input
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="e.g. CPA above target"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="text-xs text-[#737373] block mb-1">When</label>
+          <select
+            value={draft.kind}
+            onChange={(e) => {
+              const kind = e.target.value as AlertRuleKind
+              update({
+                kind,
+                scope: kind === 'ad_rejected' ? 'ad' : draft.scope,
+                metric: kind === 'metric_threshold' ? draft.metric || 'spend' : null,
+                operator: kind === 'metric_threshold' ? draft.operator || 'above' : null,
+                threshold: kind === 'metric_threshold' ? draft.threshold : null,
+                spike_percent: kind === 'spend_spike' ? draft.spike_percent ?? 50 : null,
+              })
+            }}
+            className={inputClass}
+          >
+            {RULE_KINDS.map(kind => (
+              <option key={kind.id} value={kind.id}>{kind.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <p className="text-xs text-[#A3A3A3]">{RULE_KINDS.find(k => k.id === draft.kind)?.description}</p>
+
+      {draft.kind === 'metric_threshold' && (
+        <div className="grid grid-cols-3 gap-3">
+          <select
+            value={draft.metric ?? ''}
+            onChange={(e) => update({ metric: e.target.value as keyof AdInsights })}
+            className={inputClass}
+          >
+            {THRESHOLD_METRICS.map(m => (
+              <option key={m.id} value={m.id}>{m.label}</option>
+            ))}
+          </select>
+          <select
+            value={draft.operator ?? ''}
+            onChange={(e) => update({ operator: e.target.value as 'above' | 'below' })}
+            className={inputClass}
+          >
+            <option value="above">is above</option>
+            <option value="below">is below</option>
+          </select>
+          <input
+            type="number"
+            value={draft.threshold ?? ''}
+            onChange={(e) => update({ threshold: e.target.value === '' ? null : parseFloat(e.target.value) })}
+            placeholder="Value"
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {draft.kind === 'spend_spike' && (
+        <div>
+          <label className="text-xs text-[#737373] block mb-1">% over 7-day average</label>
+          <input
+            type="number"
+            min={1}
+            value={draft.spike_percent ?? ''}
+            onChange={(e) => update({ spike_percent: parseFloat(e.target.value) || null })}
+            className={`${inputClass} max-w-[120px]`}
+          />
+        </div>
+      )}
+
+      {draft.kind !== 'ad_rejected' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-xs text-[#737373] block mb-1">Check</label>
+            <select
+              value={draft.scope}
+              onChange={(e) => update({ scope: e.target.value as 'account' | 'ad' })}
+              className={inputClass}
+            >
+              <option value="ad">Each ad</option>
+              <option value="account">Whole account</option>
+            </select>
+          </div>
+          {draft.kind !== 'spend_spike' && (
+            <div>
+              <label className="text-xs text-[#737373] block mb-1">Days in a row</label>
+              <input
+                type="number"
+                min={1}
+                max={14}
+                value={draft.consecutive_days}
+                onChange={(e) => update({ consecutive_days: Math.max(1, parseInt(e.target.value) || 1) })}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <label className="text-xs text-[#737373] block mb-1">Notify via</label>
+        <div className="flex items-center gap-3">
+          {CHANNELS.map(channel => (
+            <label key={channel.id} className="flex items-center gap-1.5 text-sm">
+              <input
+                type="checkbox"
+                checked={draft.channels.includes(channel.id)}
+                onChange={() => toggleChannel(channel.id)}
+              />
+              {channel.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {draft.channels.includes('email') && (
+        <input
+          type="email"
+          value={draft.email || ''}
+          onChange={(e) => update({ email: e.target.value })}
+          placeholder="alerts@yourcompany.com"
+          className={inputClass}
+        />
+      )}
+      {draft.channels.includes('webhook') && (
+        <input
+          type="url"
+          value={draft.webhook_url || ''}
+          onChange={(e) => update({ webhook_url: e.target.value })}
+          placeholder="https://hooks.slack.com/services/..."
+          className={inputClass}
+        />
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={() => onSave(toInput({ ...draft, name: draft.name.trim() }))} disabled={!canSave || isSaving}>
+          {isSaving ? 'Saving...' : 'Save Rule'}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// Alert rules are evaluated by the backend after each insights sync;
+// matches show up in the header bell and go out by email/webhook
+export function AlertRulesSection() {
+  const queryClient = useQueryClient()
+  const toast = useToast()
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ['alert-rules'],
+    queryFn: fetchAlertRules,
+    enabled: isExpanded,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: createAlertRule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules'] })
+      toast.success('Alert rule created')
+      setEditingId(null)
+    },
+    onError: () => toast.error('Failed to create alert rule'),
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: Partial<AlertRuleInput> }) => updateAlertRule(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules'] })
+      setEditingId(null)
+    },
+    onError: () => toast.error('Failed to update alert rule'),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAlertRule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules'] })
+      toast.success('Alert rule deleted')
+    },
+    onError: () => toast.error('Failed to delete alert rule'),
+  })
+
+  const testMutation = useMutation({
+    mutationFn: testAlertRule,
+    onSuccess: ({ delivered_to }) => {
+      toast.success(delivered_to.length > 0 ? `Test alert sent by ${delivered_to.join(' and ')}` : 'Rule only notifies in-app')
+    },
+    onError: (error) => toast.error(error instanceof Error ? error.message : 'Failed to send test alert'),
+  })
+
+  return (
+    <div className="border border-[#E5E5E5] rounded">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 flex items-center justify-between hover:bg-[#FAFAFA] transition-colors"
+      >
+        <div className="flex items-center gap-2">
+          <Bell className="w-4 h-4 text-[#737373]" />
+          <span className="text-xs font-medium text-[#737373] uppercase tracking-wide">
+            Alert Rules
+          </span>
+          {isExpanded && (
+            <span className="text-xs text-[#A3A3A3]">({rules.filter(r => r.is_active).length} active)</span>
+          )}
+        </div>
+        {isExpanded ? (
+          <ChevronUp className="w-4 h-4 text-[#737373]" />
+        ) : (
+          <ChevronDown className="w-4 h-4 text-[#737373]" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-[#E5E5E5] p-4 space-y-3">
+          <p className="text-xs text-[#A3A3A3]">
+            Checked after every insights sync. Target-based rules use each ad's product goals, or the account goals.
+          </p>
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-[#A3A3A3]" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {rules.map(rule =>
+                editingId === rule.id ? (
+                  <RuleEditor
+                    key={rule.id}
+                    rule={rule}
+                    onSave={(input) => updateMutation.mutate({ id: rule.id, input })}
+                    onCancel={() => setEditingId(null)}
+                    isSaving={updateMutation.isPending}
+                  />
+                ) : (
+                  <div key={rule.id} className="border border-[#E5E5E5] p-3 flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={rule.is_active}
+                      onChange={() => updateMutation.mutate({ id: rule.id, input: { is_active: !rule.is_active } })}
+                      title={rule.is_active ? 'Pause rule' : 'Resume rule'}
+                    />
+                    <div className={`flex-1 min-w-0 ${rule.is_active ? '' : 'opacity-50'}`}>
+                      <p className="text-sm font-medium">{rule.name}</p>
+                      <p className="text-xs text-[#737373]">
+                        {describeRule(rule)} · {rule.channels.map(c => CHANNELS.find(ch => ch.id === c)?.label).join(', ')}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => testMutation.mutate(rule.id)}
+                      disabled={testMutation.isPending}
+                      className="p-1 text-[#A3A3A3] hover:text-black"
+                      title="Send a test alert"
+                    >
+                      <Send className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => setEditingId(rule.id)}
+                      className="px-2 py-1 text-xs bg-[#F5F5F5] hover:bg-[#E5E5E5] rounded transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm(`Delete alert rule "${rule.name}"?`)) deleteMutation.mutate(rule.id)
+                      }}
+                      className="p-1 text-red-600 hover:bg-red-50 rounded"
+                      title="Delete rule"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )
+              )}
+
+              {editingId === 'new' ? (
+                <RuleEditor
+                  rule={EMPTY_RULE}
+                  onSave={(input) => createMutation.mutate(input)}
+                  onCancel={() => setEditingId(null)}
+                  isSaving={createMutation.isPending}
+                />
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => setEditingId('new')}>
+                  <Plus className="w-3 h-3 mr-1" />
+                  Add Rule
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
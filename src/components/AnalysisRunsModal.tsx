@@ -0,0 +1,322 @@
+import { useMemo, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { X, Loader2, RotateCw, ChevronDown, ChevronRight, GitCompare } from 'lucide-react'
+import { Button } from './ui/button'
+import { useToast } from './ui/toast'
+import { fetchAnalysisRuns, rerunAnalysis } from '../api'
+import type { AnalysisRun, AnalysisRunAd, AppliedLearning } from '../api'
+import { LLMLogsViewer } from './LLMLogsViewer'
+import { compareRuns } from '../utils/analysisRunCompare'
+
+interface AnalysisRunsModalProps {
+  initialRunId: string | null
+  onClose: () => void
+  // A re-run creates learnings, so the page has to reload them
+  onRerun: () => void
+  onFocusLearning: (id: string) => void
+}
+
+const formatMoney = (value: number | null) => (value === null ? '-' : `$${value.toFixed(2)}`)
+const formatRoas = (value: number | null) => (value === null ? '-' : `${value.toFixed(2)}x`)
+const formatDate = (iso: string) => new Date(iso).toLocaleString()
+
+function VerdictBadge({ ad }: { ad: AnalysisRunAd | null }) {
+  if (!ad) return <span className="text-xs text-[#A3A3A3]">not included</span>
+  return (
+    <span
+      className={`px-1.5 py-0.5 text-[10px] font-medium border ${
+        ad.verdict === 'winner' ? 'bg-green-50 text-green-700 border-green-200' : 'bg-red-50 text-red-700 border-red-200'
+      }`}
+    >
+      {ad.verdict}
+    </span>
+  )
+}
+
+function LearningRow({ learning, onFocus }: { learning: AppliedLearning; onFocus: (id: string) => void }) {
+  return (
+    <button onClick={() => onFocus(learning.id)} className="w-full text-left flex items-start gap-2 p-2 border border-[#E5E5E5] hover:border-black">
+      <span className={`text-xs font-medium shrink-0 ${learning.type === 'do' ? 'text-green-700' : 'text-red-700'}`}>
+        {learning.type === 'do' ? 'DO' : 'AVOID'}
+      </span>
+      <span className="text-sm flex-1">{learning.insight}</span>
+      <span className="text-xs text-[#A3A3A3] shrink-0">{Math.round(learning.confidence * 100)}%</span>
+    </button>
+  )
+}
+
+export function AnalysisRunsModal({ initialRunId, onClose, onRerun, onFocusLearning }: AnalysisRunsModalProps) {
+  const toast = useToast()
+  const queryClient = useQueryClient()
+  const [selectedId, setSelectedId] = useState<string | null>(initialRunId)
+  // At most two; picking a third drops the earliest pick
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [showLogs, setShowLogs] = useState(false)
+
+  const { data: runs = [], isLoading } = useQuery({ queryKey: ['analysis-runs'], queryFn: fetchAnalysisRuns })
+
+  const runsById = useMemo(() => new Map(runs.map(run => [run.id, run])), [runs])
+  const selected = (selectedId && runsById.get(selectedId)) || runs[0] || null
+
+  const comparing = useMemo(() => {
+    if (compareIds.length !== 2) return null
+    const [a, b] = compareIds
+      .map(id => runsById.get(id))
+      .filter((run): run is AnalysisRun => !!run)
+      .sort((x, y) => x.created_at.localeCompare(y.created_at))
+    return a && b ? { a, b, comparison: compareRuns(a, b) } : null
+  }, [compareIds, runsById])
+
+  const rerunMutation = useMutation({
+    mutationFn: (runId: string) => rerunAnalysis(runId),
+    onSuccess: (result, runId) => {
+      queryClient.invalidateQueries({ queryKey: ['analysis-runs'] })
+      toast.success(`Re-ran analysis: ${result.learnings_created} learning${result.learnings_created !== 1 ? 's' : ''} created`)
+      if (result.run_id) {
+        setSelectedId(result.run_id)
+        setCompareIds([runId, result.run_id])
+      }
+      onRerun()
+    },
+    onError: () => toast.error('Failed to re-run analysis'),
+  })
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2)))
+  }
+
+  const selectRun = (id: string) => {
+    setSelectedId(id)
+    setCompareIds([])
+    setShowLogs(false)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/20 flex items-center justify-center z-50">
+      <div className="bg-white border border-[#E5E5E5] w-full max-w-5xl m-4 h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-[#E5E5E5]">
+          <div>
+            <h3 className="font-medium">Analysis Runs</h3>
+            <p className="text-xs text-[#A3A3A3]">Tick two runs to compare them</p>
+          </div>
+          <button onClick={onClose} className="text-[#A3A3A3] hover:text-black">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="w-5 h-5 animate-spin text-[#A3A3A3]" />
+          </div>
+        ) : runs.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-[#A3A3A3]">
+            No analysis runs yet. Use Run Analysis to analyze a set of ads.
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Run list */}
+            <div className="w-72 border-r border-[#E5E5E5] overflow-y-auto divide-y divide-[#E5E5E5]">
+              {runs.map(run => (
+                <div
+                  key={run.id}
+                  className={`flex items-start gap-2 p-3 cursor-pointer ${
+                    !comparing && selected?.id === run.id ? 'bg-[#F5F5F5]' : 'hover:bg-[#FAFAFA]'
+                  }`}
+                  onClick={() => selectRun(run.id)}
+                >
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(run.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => toggleCompare(run.id)}
+                    className="mt-1"
+                    title="Compare"
+                  />
+                  <div className="min-w-0 space-y-0.5">
+                    <p className="text-sm">{formatDate(run.created_at)}</p>
+                    <p className="text-xs text-[#737373]">
+                      {run.ads_analyzed} ads · {run.winners} winners · {run.learnings.length} learning{run.learnings.length !== 1 ? 's' : ''}
+                    </p>
+                    <p className="text-xs text-[#A3A3A3] truncate">
+                      {run.model_id}
+                      {run.rerun_of && runsById.get(run.rerun_of) && ` · re-run of ${formatDate(runsById.get(run.rerun_of)!.created_at)}`}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-5">
+              {comparing ? (
+                <>
+                  <div className="flex items-center gap-2 text-sm">
+                    <GitCompare className="w-4 h-4" />
+                    <span className="font-medium">A</span>
+                    <span className="text-[#737373]">{formatDate(comparing.a.created_at)}</span>
+                    <span className="text-[#A3A3A3]">vs</span>
+                    <span className="font-medium">B</span>
+                    <span className="text-[#737373]">{formatDate(comparing.b.created_at)}</span>
+                  </div>
+
+                  <div className="space-y-2">
+                    <h4 className="text-xs font-medium text-[#737373] uppercase tracking-wide">Inputs</h4>
+                    {comparing.comparison.inputChanges.length === 0 ? (
+                      <p className="text-sm text-[#737373]">Same model and goals.</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <tbody>
+                          {comparing.comparison.inputChanges.map(change => (
+                            <tr key={change.label} className="border-t border-[#E5E5E5]">
+                              <td className="py-1 text-[#737373]">{change.label}</td>
+                              <td className="py-1 text-right">{change.a}</td>
+                              <td className="py-1 text-right font-medium">{change.b}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <h4 className="text-xs font-medium text-[#737373] uppercase tracking-wide">
+                      Ads ({comparing.comparison.verdictChanges} verdict change{comparing.comparison.verdictChanges !== 1 ? 's' : ''})
+                    </h4>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-xs text-[#737373]">
+                          <th className="text-left font-medium pb-1">Ad</th>
+                          <th className="text-right font-medium pb-1">A: ROAS</th>
+                          <th className="text-right font-medium pb-1">A</th>
+                          <th className="text-right font-medium pb-1">B: ROAS</th>
+                          <th className="text-right font-medium pb-1">B</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {comparing.comparison.ads.map(row => (
+                          <tr
+                            key={row.ad_id}
+                            className={`border-t border-[#E5E5E5] ${row.a && row.b && row.a.verdict !== row.b.verdict ? 'bg-orange-50' : ''}`}
+                          >
+                            <td className="py-1.5 truncate max-w-[16rem]">{row.ad_name}</td>
+                            <td className="py-1.5 text-right">{row.a ? formatRoas(row.a.roas) : '-'}</td>
+                            <td className="py-1.5 text-right"><VerdictBadge ad={row.a} /></td>
+                            <td className="py-1.5 text-right">{row.b ? formatRoas(row.b.roas) : '-'}</td>
+                            <td className="py-1.5 text-right"><VerdictBadge ad={row.b} /></td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="space-y-2">
+                    <h4 className="text-xs font-medium text-[#737373] uppercase tracking-wide">Learnings</h4>
+                    {comparing.comparison.sharedLearnings.length > 0 && (
+                      <div className="space-y-1">
+                        <p className="text-xs text-[#737373]">In both runs</p>
+                        {comparing.comparison.sharedLearnings.map(pair => (
+                          <LearningRow key={pair.b.id} learning={pair.b} onFocus={onFocusLearning} />
+                        ))}
+                      </div>
+                    )}
+                    {comparing.comparison.onlyA.length > 0 && (
+                      <div className="space-y-1">
+                        <p className="text-xs text-[#737373]">Only in A</p>
+                        {comparing.comparison.onlyA.map(learning => (
+                          <LearningRow key={learning.id} learning={learning} onFocus={onFocusLearning} />
+                        ))}
+                      </div>
+                    )}
+                    {comparing.comparison.onlyB.length > 0 && (
+                      <div className="space-y-1">
+                        <p className="text-xs text-[#737373]">Only in B</p>
+                        {comparing.comparison.onlyB.map(learning => (
+                          <LearningRow key={learning.id} learning={learning} onFocus={onFocusLearning} />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </>
+              ) : selected ? (
+                <>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">{formatDate(selected.created_at)}</p>
+                      <p className="text-xs text-[#737373]">
+                        {selected.model_id} · Target CPA ${selected.goals.target_cpa} · Target ROAS {selected.goals.target_roas}x
+                      </p>
+                      <p className="text-sm">{selected.summary}</p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => rerunMutation.mutate(selected.id)}
+                      disabled={rerunMutation.isPending}
+                      title="Analyze the same ads snapshot with the same goals again"
+                    >
+                      <RotateCw className={`w-4 h-4 mr-2 ${rerunMutation.isPending ? 'animate-spin' : ''}`} />
+                      Re-run
+                    </Button>
+                  </div>
+
+                  <div className="space-y-2">
+                    <h4 className="text-xs font-medium text-[#737373] uppercase tracking-wide">Input ads ({selected.ads.length})</h4>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-xs text-[#737373]">
+                          <th className="text-left font-medium pb-1">Ad</th>
+                          <th className="text-right font-medium pb-1">Spend</th>
+                          <th className="text-right font-medium pb-1">Purchases</th>
+                          <th className="text-right font-medium pb-1">CPA</th>
+                          <th className="text-right font-medium pb-1">ROAS</th>
+                          <th className="text-right font-medium pb-1">CTR</th>
+                          <th className="text-right font-medium pb-1"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {selected.ads.map(ad => (
+                          <tr key={ad.ad_id} className="border-t border-[#E5E5E5]">
+                            <td className="py-1.5 truncate max-w-[16rem]">{ad.ad_name}</td>
+                            <td className="py-1.5 text-right">${ad.spend.toFixed(0)}</td>
+                            <td className="py-1.5 text-right">{ad.purchases}</td>
+                            <td className="py-1.5 text-right">{formatMoney(ad.cpa)}</td>
+                            <td className="py-1.5 text-right">{formatRoas(ad.roas)}</td>
+                            <td className="py-1.5 text-right">{ad.ctr !== null ? `${ad.ctr.toFixed(2)}%` : '-'}</td>
+                            <td className="py-1.5 text-right"><VerdictBadge ad={ad} /></td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="space-y-2">
+                    <h4 className="text-xs font-medium text-[#737373] uppercase tracking-wide">
+                      Learnings created ({selected.learnings.length})
+                    </h4>
+                    {selected.learnings.map(learning => (
+                      <LearningRow key={learning.id} learning={learning} onFocus={onFocusLearning} />
+                    ))}
+                  </div>
+
+                  <div>
+                    <button
+                      onClick={() => setShowLogs(!showLogs)}
+                      className="flex items-center gap-1 text-xs font-medium text-[#737373] uppercase tracking-wide hover:text-black"
+                    >
+                      {showLogs ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                      LLM Logs
+                    </button>
+                    {showLogs && (
+                      <div className="mt-2">
+                        <LLMLogsViewer key={selected.id} analysisRunId={selected.id} />
+                      </div>
+                    )}
+                  </div>
+                </>
+              ) : null}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
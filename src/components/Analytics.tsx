@@ -1,7 +1,8 @@
-import { useState, useEffect, useMemo } from 'react'
-import { authFetch } from '../auth'
-import { RefreshCw, Loader2, TrendingUp, TrendingDown, Bot, User, Settings, X, GripVertical } from 'lucide-react'
+import { Fragment, useState, useEffect, useMemo } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { RefreshCw, Loader2, TrendingUp, TrendingDown, Bot, User, Settings, X, GripVertical, ArrowUp, ArrowDown, CalendarRange, ArrowLeftRight, Link2, ExternalLink, FileText } from 'lucide-react'
 import { Button } from './ui/button'
+import { useToast } from './ui/toast'
 import {
   DndContext,
   closestCenter,
@@ -20,28 +21,55 @@ import {
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 
-import { API_BASE } from '../config'
-const CACHE_KEY = 'analytics_cache_v2'
-const CACHE_TTL = 24 * 60 * 60 * 1000 // 24 hours
+import { fetchInsightsSnapshot, fetchInsightsBreakdown, fetchSnapshotStatus, syncSnapshots, fetchConcepts, fetchGoals, fetchProducts, fetchProductGoals } from '../api'
+import type { AdConcept, AdInsights, DatePreset, FBAd, InsightsPeriod } from '../api'
+import { aiVsManual } from '../utils/analyticsReport'
+import { BREAKDOWN_DIMENSIONS, breakdownLabel, isBreakdownDimension } from '../utils/breakdowns'
+import { formatRange, isValidRange, periodKey, previousPeriod, resolvePeriod, toISODate } from '../utils/dateRange'
+import { formatTrafficQuality, toNumber } from '../utils/metrics'
+import { AD_TIERS, TIER_LABELS, adProductId, classifyAd, goalsForProduct, type AdTier } from '../utils/adTiers'
+import { useSearchParam, useNavigate, buildPath } from '../router'
+import { AnalyticsTrends } from './AnalyticsTrends'
+import { AdTierBadge } from './AdTierBadge'
+import { AttributionReport } from './AttributionReport'
+import { CreativeFatigue } from './CreativeFatigue'
+import { ReportBuilderModal } from './ReportBuilderModal'
+
+const DATE_PRESETS: DatePreset[] = ['yesterday', 'last_7d', 'last_30d', 'this_month']
+
+// Deltas are colored by whether the move is good: costs should go down,
+// volume metrics like spend are neither good nor bad
+const LOWER_IS_BETTER = new Set([
+  'link_cpc',
+  'cost_per_landing_page_view',
+  'cost_per_add_to_cart',
+  'cost_per_initiate_checkout',
+  'cost_per_purchase',
+])
+const NEUTRAL_METRICS = new Set(['spend', 'impressions', 'reach'])
+
+// Snapshots sync daily; older than this means a sync was missed
+const SNAPSHOT_STALE_AFTER = 26 * 60 * 60 * 1000
+// Where insights were cached before snapshots moved server-side
+const LEGACY_CACHE_KEY = 'analytics_cache_v2'
+
 const COLUMN_PREFS_KEY = 'analytics_column_prefs'
 const OVERVIEW_PREFS_KEY = 'analytics_overview_prefs'
 
-type DatePreset = 'yesterday' | 'last_7d' | 'last_30d' | 'this_month'
-
 interface ColumnConfig {
   id: string
   label: string
   shortLabel: string
   visible: boolean
-  formatter: 'currency' | 'percent' | 'number' | 'roas'
+  formatter: 'currency' | 'percent' | 'ratio' | 'number' | 'roas'
 }
 
-interface OverviewMetricConfig {
+export interface OverviewMetricConfig {
   id: string
   label: string
   visible: boolean
   size: 'large' | 'small'
-  formatter: 'currency' | 'percent' | 'number' | 'roas'
+  formatter: 'currency' | 'percent' | 'ratio' | 'number' | 'roas'
   subMetric?: string // e.g., cost_per_purchase for purchases
 }
 
@@ -54,7 +82,7 @@ const DEFAULT_OVERVIEW_METRICS: OverviewMetricConfig[] = [
   { id: 'add_to_cart', label: 'Add to Cart', visible: true, size: 'small', formatter: 'number', subMetric: 'cost_per_add_to_cart' },
   { id: 'initiate_checkout', label: 'Checkout', visible: true, size: 'small', formatter: 'number', subMetric: 'cost_per_initiate_checkout' },
   { id: 'landing_page_views', label: 'LPV', visible: true, size: 'small', formatter: 'number', subMetric: 'cost_per_landing_page_view' },
-  { id: 'traffic_quality', label: 'Traffic Quality', visible: true, size: 'small', formatter: 'percent' },
+  { id: 'traffic_quality', label: 'Traffic Quality', visible: true, size: 'small', formatter: 'ratio' },
   { id: 'impressions', label: 'Impressions', visible: false, size: 'small', formatter: 'number' },
   { id: 'reach', label: 'Reach', visible: false, size: 'small', formatter: 'number' },
   { id: 'link_clicks', label: 'Link Clicks', visible: false, size: 'small', formatter: 'number' },
@@ -73,65 +101,40 @@ const DEFAULT_COLUMNS: ColumnConfig[] = [
   { id: 'cost_per_add_to_cart', label: 'Cost per ATC', shortLabel: 'CATC', visible: false, formatter: 'currency' },
   { id: 'cost_per_landing_page_view', label: 'Cost per LPV', shortLabel: 'CLPV', visible: false, formatter: 'currency' },
   { id: 'cost_per_initiate_checkout', label: 'Cost per IC', shortLabel: 'CIC', visible: false, formatter: 'currency' },
-  { id: 'traffic_quality', label: 'Traffic Quality', shortLabel: 'TQ', visible: false, formatter: 'percent' },
+  { id: 'traffic_quality', label: 'Traffic Quality', shortLabel: 'TQ', visible: false, formatter: 'ratio' },
 ]
 
-interface Insights {
-  spend?: string | number
-  impressions?: string | number
-  reach?: string | number
-  link_clicks?: string | number
-  link_ctr?: string | number
-  link_cpc?: string | number
-  landing_page_views?: number
-  add_to_cart?: number
-  initiate_checkout?: number
-  purchases?: number
-  cost_per_landing_page_view?: number | null
-  cost_per_add_to_cart?: number | null
-  cost_per_initiate_checkout?: number | null
-  cost_per_purchase?: number | null
-  roas?: number | null
-  traffic_quality?: number | null
-  atc_purchase_ratio?: number | null
-}
+// Period-over-period change for one metric: arrow, % change, and the
+// previous value on hover
+function MetricDelta({ metric, current, previous, previousLabel }: {
+  metric: string
+  current: unknown
+  previous: unknown
+  previousLabel: string
+}) {
+  const now = toNumber(current)
+  const before = toNumber(previous)
+  if (now === null || before === null || before === 0) {
+    return (
+      <span className="text-[10px] text-[#A3A3A3]" title="No data for the previous period">
+        –
+      </span>
+    )
+  }
 
-interface AdInsights {
-  spend?: string | number
-  impressions?: string | number
-  reach?: string | number
-  link_clicks?: string | number
-  link_ctr?: string | number
-  link_cpc?: string | number
-  landing_page_views?: number
-  add_to_cart?: number
-  initiate_checkout?: number
-  purchases?: number
-  cost_per_landing_page_view?: number | null
-  cost_per_add_to_cart?: number | null
-  cost_per_initiate_checkout?: number | null
-  cost_per_purchase?: number | null
-  roas?: number | null
-  traffic_quality?: number | null
-  atc_purchase_ratio?: number | null
-}
+  const change = ((now - before) / Math.abs(before)) * 100
+  const isFlat = Math.abs(change) < 0.05
+  const isGood = LOWER_IS_BETTER.has(metric) ? change < 0 : change > 0
+  const color = isFlat || NEUTRAL_METRICS.has(metric)
+    ? 'text-[#737373]'
+    : isGood ? 'text-green-600' : 'text-red-600'
 
-interface Ad {
-  id: string
-  name: string
-  is_ai_generated: boolean
-  insights: AdInsights
-  thumbnail_url?: string
-  primary_text?: string
-}
-
-interface CacheData {
-  data: Record<DatePreset, {
-    insights: Insights | null
-    ads: Ad[]
-    lastRefreshed: number
-  }>
-  timestamp: number
+  return (
+    <span className={`inline-flex items-center gap-0.5 text-[10px] font-medium ${color}`} title={`Previous: ${previousLabel}`}>
+      {!isFlat && (change > 0 ? <ArrowUp className="w-2.5 h-2.5" /> : <ArrowDown className="w-2.5 h-2.5" />)}
+      {isFlat ? '0%' : `${Math.abs(change) >= 1000 ? Math.round(Math.abs(change)) : Math.abs(change).toFixed(1)}%`}
+    </span>
+  )
 }
 
 // Sortable column item component
@@ -178,35 +181,6 @@ function SortableColumnItem({ column, onToggle }: { column: ColumnConfig; onTogg
   )
 }
 
-// Load cache from localStorage
-const loadCacheFromStorage = (): Record<DatePreset, { insights: Insights | null; ads: Ad[]; lastRefreshed: number }> => {
-  try {
-    const saved = localStorage.getItem(CACHE_KEY)
-    if (saved) {
-      const parsed: CacheData = JSON.parse(saved)
-      if (Date.now() - parsed.timestamp < CACHE_TTL) {
-        return parsed.data
-      }
-    }
-  } catch (e) {
-    console.error('Failed to load analytics cache:', e)
-  }
-  return {} as any
-}
-
-// Save cache to localStorage
-const saveCacheToStorage = (data: Record<DatePreset, { insights: Insights | null; ads: Ad[]; lastRefreshed: number }>) => {
-  try {
-    const cacheData: CacheData = {
-      data,
-      timestamp: Date.now(),
-    }
-    localStorage.setItem(CACHE_KEY, JSON.stringify(cacheData))
-  } catch (e) {
-    console.error('Failed to save analytics cache:', e)
-  }
-}
-
 // Load overview preferences from localStorage
 const loadOverviewPrefs = (): OverviewMetricConfig[] => {
   try {
@@ -263,17 +237,56 @@ const loadColumnPrefs = (): ColumnConfig[] => {
   return DEFAULT_COLUMNS
 }
 
-export function Analytics() {
-  const [datePreset, setDatePreset] = useState<DatePreset>('last_7d')
-  const [isLoadingInsights, setIsLoadingInsights] = useState(false)
-  const [isLoadingAds, setIsLoadingAds] = useState(false)
+interface AnalyticsProps {
+  // Kicks off /start-working, e.g. to replace a fatigued ad
+  onGenerateVariations: (productId: string | null, ideas: string) => void
+  isGenerating: boolean
+}
+
+export function Analytics({ onGenerateVariations, isGenerating }: AnalyticsProps) {
+  const queryClient = useQueryClient()
+  const toast = useToast()
+  const navigate = useNavigate()
+  // Date range lives in the query string (?range=last_30d, or
+  // ?range=custom&from=...&to=...) so views can be linked
+  const [rangeParam, setRangeParam] = useSearchParam<DatePreset | 'custom'>('range', 'last_7d')
+  const [fromParam, setFromParam] = useSearchParam<string>('from', '')
+  const [toParam, setToParam] = useSearchParam<string>('to', '')
+  const [compareParam, setCompareParam] = useSearchParam<'' | '1'>('compare', '')
+  const [tierFilter, setTierFilter] = useSearchParam<AdTier | ''>('tier', '')
+  // Ad whose concept details are open; ConceptDetail links here with ?ad=
+  const [focusedAdId, setFocusedAdId] = useSearchParam<string>('ad', '')
+  // Breakdown pivot (?breakdown=age), optionally for one ad (&breakdown_ad=),
+  // with one value (&segment=25-34) shown in the overview cards
+  const [breakdownParam, setBreakdownParam] = useSearchParam<string>('breakdown', '')
+  const [breakdownAdId, setBreakdownAdId] = useSearchParam<string>('breakdown_ad', '')
+  const [segment, setSegment] = useSearchParam<string>('segment', '')
+  const breakdown = isBreakdownDimension(breakdownParam) ? breakdownParam : null
+  const customRange = { since: fromParam, until: toParam }
+  const isInvalidRange = rangeParam === 'custom' && !isValidRange(customRange)
+  const requestedPeriod: InsightsPeriod | null =
+    rangeParam === 'custom'
+      ? isInvalidRange ? null : customRange
+      : DATE_PRESETS.includes(rangeParam as DatePreset) ? (rangeParam as DatePreset) : 'last_7d'
+  // While a custom range is half-edited (or a link carries a bad one), keep
+  // showing the last range that made sense
+  const [lastValidPeriod, setLastValidPeriod] = useState<InsightsPeriod>(requestedPeriod ?? 'last_7d')
+  if (requestedPeriod && periodKey(requestedPeriod) !== periodKey(lastValidPeriod)) {
+    setLastValidPeriod(requestedPeriod)
+  }
+  const period = requestedPeriod ?? lastValidPeriod
+  const isComparing = compareParam === '1'
+  const currentRange = resolvePeriod(period)
+  const comparisonRange = previousPeriod(period)
+  const currentKey = periodKey(period)
+  const comparisonKey = periodKey(comparisonRange)
   const [sortBy, setSortBy] = useState<string>('spend')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
-  const [error, setError] = useState<string | null>(null)
   const [showSettings, setShowSettings] = useState(false)
   const [columns, setColumns] = useState<ColumnConfig[]>(() => loadColumnPrefs())
   const [overviewMetrics, setOverviewMetrics] = useState<OverviewMetricConfig[]>(() => loadOverviewPrefs())
   const [settingsTab, setSettingsTab] = useState<'columns' | 'overview'>('columns')
+  const [showReport, setShowReport] = useState(false)
 
   // DnD sensors
   const sensors = useSensors(
@@ -283,25 +296,127 @@ export function Analytics() {
     })
   )
 
-  // Cache per date preset - initialize from localStorage
-  const [cache, setCache] = useState<Record<DatePreset, {
-    insights: Insights | null
-    ads: Ad[]
-    lastRefreshed: number
-  }>>(() => loadCacheFromStorage())
+  // Insights come from the backend's daily snapshots
+  const {
+    data: snapshot,
+    isLoading: isLoadingSnapshot,
+    error: snapshotError,
+  } = useQuery({
+    queryKey: ['insights-snapshot', currentKey],
+    queryFn: () => fetchInsightsSnapshot(period),
+  })
+  const accountInsights = snapshot?.insights || null
+  const ads = useMemo(() => snapshot?.ads || [], [snapshot])
+  const error = snapshotError
+    ? (snapshotError as Error).message || 'Failed to load analytics. Check your Facebook connection in Settings.'
+    : null
+
+  // Previous period, only while comparing. A failure here only loses the deltas.
+  const { data: previousSnapshot, isFetching: isLoadingPrevious } = useQuery({
+    queryKey: ['insights-snapshot', comparisonKey],
+    queryFn: () => fetchInsightsSnapshot(comparisonRange),
+    enabled: isComparing,
+  })
+  const previousInsights = isComparing ? previousSnapshot?.insights || null : null
+  const previousAdsById = useMemo(
+    () => new Map((isComparing ? previousSnapshot?.ads || [] : []).map(ad => [ad.id, ad])),
+    [isComparing, previousSnapshot]
+  )
 
-  // Get current data from cache
-  const currentCache = cache[datePreset]
-  const accountInsights = currentCache?.insights || null
-  const ads = currentCache?.ads || []
-  const lastRefreshed = currentCache?.lastRefreshed ? new Date(currentCache.lastRefreshed) : null
+  const { data: breakdownRows = [], isLoading: isLoadingBreakdown } = useQuery({
+    queryKey: ['insights-breakdown', currentKey, breakdown, breakdownAdId],
+    queryFn: () => fetchInsightsBreakdown(period, breakdown!, breakdownAdId || undefined),
+    enabled: !!breakdown,
+  })
+  const { data: previousBreakdownRows } = useQuery({
+    queryKey: ['insights-breakdown', comparisonKey, breakdown, breakdownAdId],
+    queryFn: () => fetchInsightsBreakdown(comparisonRange, breakdown!, breakdownAdId || undefined),
+    enabled: !!breakdown && isComparing,
+  })
+  const previousBreakdownByValue = useMemo(
+    () => new Map((isComparing ? previousBreakdownRows || [] : []).map(row => [row.value, row])),
+    [isComparing, previousBreakdownRows]
+  )
 
-  // Save to localStorage whenever cache changes
+  // What the overview cards show: the account or one ad, narrowed to a
+  // breakdown value when one is picked
+  const breakdownAd = breakdown && breakdownAdId ? ads.find(ad => ad.id === breakdownAdId) : undefined
+  const segmentRow = breakdown && segment ? breakdownRows.find(row => row.value === segment) : undefined
+  const overviewInsights: AdInsights | null = segmentRow || breakdownAd?.insights || accountInsights
+  const overviewPrevious: AdInsights | null | undefined = segmentRow
+    ? previousBreakdownByValue.get(segmentRow.value)
+    : breakdownAd ? previousAdsById.get(breakdownAd.id)?.insights : previousInsights
+  const breakdownSpend = breakdownRows.reduce((sum, row) => sum + (toNumber(row.spend) || 0), 0)
+
+  const { data: syncStatus } = useQuery({
+    queryKey: ['snapshot-status'],
+    queryFn: fetchSnapshotStatus,
+  })
+  const lastSynced = syncStatus?.last_synced_at ? new Date(syncStatus.last_synced_at) : null
+
+  const syncMutation = useMutation({
+    mutationFn: syncSnapshots,
+    onSuccess: (status) => {
+      queryClient.setQueryData(['snapshot-status'], status)
+      queryClient.invalidateQueries({ queryKey: ['insights-snapshot'] })
+      queryClient.invalidateQueries({ queryKey: ['insights-breakdown'] })
+      queryClient.invalidateQueries({ queryKey: ['fb-daily'] })
+      toast.success('Insights synced from Facebook')
+    },
+    onError: (err) => toast.error((err as Error).message || 'Failed to sync insights'),
+  })
+
+  // Insights used to be cached in localStorage; free the space
   useEffect(() => {
-    if (Object.keys(cache).length > 0) {
-      saveCacheToStorage(cache)
+    localStorage.removeItem(LEGACY_CACHE_KEY)
+  }, [])
+
+  // Goals for tier classification; ads pushed from a concept use its product's goals
+  const { data: goals } = useQuery({ queryKey: ['goals'], queryFn: fetchGoals })
+  const { data: productGoals = [] } = useQuery({ queryKey: ['product-goals'], queryFn: fetchProductGoals })
+  const { data: concepts = [] } = useQuery({ queryKey: ['concepts'], queryFn: fetchConcepts })
+  const { data: products = [] } = useQuery({ queryKey: ['products'], queryFn: fetchProducts })
+
+  // Concept each ad was pushed from
+  const conceptByAdId = useMemo(() => {
+    const map = new Map<string, AdConcept>()
+    for (const concept of concepts) {
+      for (const adId of concept.fb_ad_ids || []) map.set(adId, concept)
     }
-  }, [cache])
+    return map
+  }, [concepts])
+
+  // Bring a linked ad into view once its row exists
+  useEffect(() => {
+    if (focusedAdId) {
+      document.getElementById(`ad-row-${focusedAdId}`)?.scrollIntoView({ block: 'center' })
+    }
+  }, [focusedAdId, ads])
+
+  const adTiers = useMemo(() => {
+    const tiers = new Map<string, { tier: AdTier; productId: string | null }>()
+    if (!goals) return tiers
+    for (const ad of ads) {
+      const productId = adProductId(ad, concepts)
+      const adGoals = goalsForProduct(productId, goals, productGoals)
+      tiers.set(ad.id, {
+        tier: classifyAd(ad.insights, adGoals),
+        productId: adGoals.product_id,
+      })
+    }
+    return tiers
+  }, [ads, goals, productGoals, concepts])
+
+  const tierByAdId = useMemo(
+    () => new Map(Array.from(adTiers, ([id, { tier }]) => [id, tier])),
+    [adTiers]
+  )
+
+  const tierCounts = useMemo(() => {
+    const counts = Object.fromEntries(AD_TIERS.map(t => [t, 0])) as Record<AdTier, number>
+    adTiers.forEach(({ tier }) => counts[tier]++)
+    return counts
+  }, [adTiers])
 
   // Save column preferences whenever they change
   useEffect(() => {
@@ -313,52 +428,17 @@ export function Analytics() {
     localStorage.setItem(OVERVIEW_PREFS_KEY, JSON.stringify(overviewMetrics))
   }, [overviewMetrics])
 
-  useEffect(() => {
-    if (!cache[datePreset]) {
-      fetchData()
-    }
-  }, [datePreset]) // eslint-disable-line react-hooks/exhaustive-deps
-
-  const fetchData = async () => {
-    setIsLoadingInsights(true)
-    setIsLoadingAds(true)
-    setError(null)
-
-    try {
-      const [insightsRes, adsRes] = await Promise.all([
-        authFetch(`${API_BASE}/fb/account/insights?date_preset=${datePreset}`),
-        authFetch(`${API_BASE}/fb/ads/with-insights?date_preset=${datePreset}&limit=100`),
-      ])
-
-      if (!insightsRes.ok) {
-        const data = await insightsRes.json().catch(() => ({}))
-        throw new Error(data.detail || 'Failed to fetch insights')
-      }
-
-      const insightsData = await insightsRes.json()
-
-      let adsResult: Ad[] = []
-      if (adsRes.ok) {
-        const adsData = await adsRes.json()
-        adsResult = adsData.ads || []
-      }
+  const selectPreset = (preset: DatePreset) => {
+    setRangeParam(preset)
+    setFromParam('')
+    setToParam('')
+  }
 
-      setCache(prev => ({
-        ...prev,
-        [datePreset]: {
-          insights: insightsData.insights,
-          ads: adsResult,
-          lastRefreshed: Date.now(),
-        }
-      }))
-      setIsLoadingInsights(false)
-      setIsLoadingAds(false)
-    } catch (err: any) {
-      console.error('Failed to load analytics:', err)
-      setError(err.message || 'Failed to load analytics. Check your Facebook connection in Settings.')
-      setIsLoadingInsights(false)
-      setIsLoadingAds(false)
-    }
+  // Start a custom range from whatever is showing now
+  const selectCustomRange = () => {
+    setFromParam(currentRange.since)
+    setToParam(currentRange.until)
+    setRangeParam('custom')
   }
 
   // Column drag end handler
@@ -393,57 +473,17 @@ export function Analytics() {
   const visibleOverviewSmall = overviewMetrics.filter(m => m.visible && m.size === 'small')
 
   // AI vs Manual comparison
-  const comparison = useMemo(() => {
-    const aiAds = ads.filter(a => a.is_ai_generated)
-    const manualAds = ads.filter(a => !a.is_ai_generated)
-
-    const calcAvg = (adList: Ad[], field: keyof AdInsights) => {
-      const values = adList
-        .map(a => {
-          const val = a.insights?.[field]
-          return typeof val === 'number' ? val : parseFloat(String(val || '0'))
-        })
-        .filter(v => !isNaN(v) && v > 0)
-      if (values.length === 0) return 0
-      return values.reduce((a, b) => a + b, 0) / values.length
-    }
-
-    const calcTotal = (adList: Ad[], field: keyof AdInsights) => {
-      return adList
-        .map(a => {
-          const val = a.insights?.[field]
-          return typeof val === 'number' ? val : parseFloat(String(val || '0'))
-        })
-        .filter(v => !isNaN(v))
-        .reduce((a, b) => a + b, 0)
-    }
-
-    return {
-      ai: {
-        count: aiAds.length,
-        avgCtr: calcAvg(aiAds, 'link_ctr'),
-        avgCpc: calcAvg(aiAds, 'link_cpc'),
-        avgCostPerPurchase: calcAvg(aiAds, 'cost_per_purchase'),
-        avgRoas: calcAvg(aiAds, 'roas'),
-        totalSpend: calcTotal(aiAds, 'spend'),
-        totalPurchases: calcTotal(aiAds, 'purchases'),
-      },
-      manual: {
-        count: manualAds.length,
-        avgCtr: calcAvg(manualAds, 'link_ctr'),
-        avgCpc: calcAvg(manualAds, 'link_cpc'),
-        avgCostPerPurchase: calcAvg(manualAds, 'cost_per_purchase'),
-        avgRoas: calcAvg(manualAds, 'roas'),
-        totalSpend: calcTotal(manualAds, 'spend'),
-        totalPurchases: calcTotal(manualAds, 'purchases'),
-      },
-    }
-  }, [ads])
+  const comparison = useMemo(() => aiVsManual(ads), [ads])
 
-  // Sorted ads
+  // Filtered by tier, then sorted
   const sortedAds = useMemo(() => {
-    return [...ads].sort((a, b) => {
-      const getVal = (ad: Ad) => {
+    const filtered = tierFilter ? ads.filter(ad => adTiers.get(ad.id)?.tier === tierFilter) : ads
+    return [...filtered].sort((a, b) => {
+      const getVal = (ad: FBAd) => {
+        if (sortBy === 'tier') {
+          const tier = adTiers.get(ad.id)?.tier
+          return tier ? AD_TIERS.length - AD_TIERS.indexOf(tier) : 0
+        }
         const val = (ad.insights as any)?.[sortBy]
         return typeof val === 'number' ? val : parseFloat(String(val || '0'))
       }
@@ -451,7 +491,12 @@ export function Analytics() {
       const bVal = getVal(b)
       return sortOrder === 'desc' ? bVal - aVal : aVal - bVal
     })
-  }, [ads, sortBy, sortOrder])
+  }, [ads, sortBy, sortOrder, tierFilter, adTiers])
+
+  const goalsSource = (productId: string | null) => {
+    if (!productId) return 'Using account goals'
+    return `Using ${products.find(p => p.id === productId)?.name || 'product'} goals`
+  }
 
   const formatCurrency = (value: string | number | undefined | null) => {
     if (value === undefined || value === null) return '-'
@@ -477,6 +522,8 @@ export function Analytics() {
         return `$${num.toFixed(2)}`
       case 'percent':
         return `${num.toFixed(2)}%`
+      case 'ratio':
+        return formatTrafficQuality(num)
       case 'roas':
         return `${num.toFixed(2)}x`
       case 'number':
@@ -506,19 +553,19 @@ export function Analytics() {
     return `${diffDays} days ago`
   }
 
-  const isDataStale = lastRefreshed ? (Date.now() - lastRefreshed.getTime()) > CACHE_TTL : true
+  const isDataStale = lastSynced ? (Date.now() - lastSynced.getTime()) > SNAPSHOT_STALE_AFTER : true
 
   return (
     <div className="h-full flex flex-col overflow-hidden">
       {/* Header */}
       <div className="p-4 border-b border-[#E5E5E5] flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          {(['yesterday', 'last_7d', 'last_30d', 'this_month'] as DatePreset[]).map((preset) => (
+        <div className="flex items-center gap-2 flex-wrap">
+          {DATE_PRESETS.map((preset) => (
             <button
               key={preset}
-              onClick={() => setDatePreset(preset)}
+              onClick={() => selectPreset(preset)}
               className={`px-3 py-1.5 text-sm border transition-colors ${
-                datePreset === preset
+                rangeParam !== 'custom' && period === preset
                   ? 'bg-black text-white border-black'
                   : 'bg-white text-[#737373] border-[#E5E5E5] hover:border-black'
               }`}
@@ -526,19 +573,79 @@ export function Analytics() {
               {datePresetLabels[preset]}
             </button>
           ))}
+          <button
+            onClick={selectCustomRange}
+            className={`px-3 py-1.5 text-sm border transition-colors flex items-center gap-1.5 ${
+              rangeParam === 'custom'
+                ? 'bg-black text-white border-black'
+                : 'bg-white text-[#737373] border-[#E5E5E5] hover:border-black'
+            }`}
+          >
+            <CalendarRange className="w-4 h-4" />
+            Custom
+          </button>
+          {rangeParam === 'custom' && (
+            <div className="flex items-center gap-1">
+              <input
+                type="date"
+                value={fromParam}
+                min={syncStatus?.oldest_date || undefined}
+                max={toParam || toISODate(new Date())}
+                onChange={(e) => setFromParam(e.target.value)}
+                className="h-8 px-2 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black"
+              />
+              <span className="text-xs text-[#A3A3A3]">–</span>
+              <input
+                type="date"
+                value={toParam}
+                min={fromParam || syncStatus?.oldest_date || undefined}
+                max={toISODate(new Date())}
+                onChange={(e) => setToParam(e.target.value)}
+                className="h-8 px-2 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black"
+              />
+              {isInvalidRange && (
+                <span className="text-xs text-red-600 ml-1">Invalid range, showing {formatRange(currentRange)}</span>
+              )}
+            </div>
+          )}
+          <button
+            onClick={() => setCompareParam(isComparing ? '' : '1')}
+            className={`px-3 py-1.5 text-sm border transition-colors flex items-center gap-1.5 ${
+              isComparing
+                ? 'bg-black text-white border-black'
+                : 'bg-white text-[#737373] border-[#E5E5E5] hover:border-black'
+            }`}
+            title={`Compare to ${formatRange(comparisonRange)}`}
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+            Compare
+          </button>
         </div>
         <div className="flex items-center gap-3">
-          {lastRefreshed ? (
-            <div className={`text-xs flex items-center gap-1 ${isDataStale ? 'text-orange-600' : 'text-[#A3A3A3]'}`}>
-              <span>Last updated:</span>
+          {lastSynced ? (
+            <div
+              className={`text-xs flex items-center gap-1 ${isDataStale ? 'text-orange-600' : 'text-[#A3A3A3]'}`}
+              title={syncStatus?.next_sync_at ? `Next sync ${new Date(syncStatus.next_sync_at).toLocaleString()}` : undefined}
+            >
+              <span>Last synced:</span>
               <span className={`font-medium ${isDataStale ? 'text-orange-700' : 'text-[#525252]'}`}>
-                {formatTimeAgo(lastRefreshed)}
+                {formatTimeAgo(lastSynced)}
               </span>
               {isDataStale && <span className="text-orange-600">(stale)</span>}
             </div>
           ) : (
-            <span className="text-xs text-[#A3A3A3]">No data cached</span>
+            <span className="text-xs text-[#A3A3A3]">Not synced yet</span>
           )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowReport(true)}
+            disabled={!snapshot}
+            title="Share a report for this period"
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            Report
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -549,11 +656,11 @@ export function Analytics() {
           <Button
             variant={isDataStale ? "default" : "outline"}
             size="sm"
-            onClick={fetchData}
-            disabled={isLoadingInsights || isLoadingAds}
+            onClick={() => syncMutation.mutate()}
+            disabled={syncMutation.isPending || syncStatus?.is_syncing}
           >
-            <RefreshCw className={`w-4 h-4 mr-2 ${isLoadingInsights || isLoadingAds ? 'animate-spin' : ''}`} />
-            {isLoadingInsights || isLoadingAds ? 'Loading...' : 'Refresh'}
+            <RefreshCw className={`w-4 h-4 mr-2 ${syncMutation.isPending || syncStatus?.is_syncing ? 'animate-spin' : ''}`} />
+            {syncMutation.isPending || syncStatus?.is_syncing ? 'Syncing...' : 'Sync now'}
           </Button>
         </div>
       </div>
@@ -571,12 +678,36 @@ export function Analytics() {
         {!error && (
         <>
         <div>
-          <h2 className="text-sm font-medium text-[#737373] mb-3">ACCOUNT OVERVIEW</h2>
-          {isLoadingInsights ? (
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2 min-w-0">
+              <h2 className="text-sm font-medium text-[#737373] flex-shrink-0">{breakdownAd ? 'AD OVERVIEW' : 'ACCOUNT OVERVIEW'}</h2>
+              {(breakdownAd || segmentRow) && (
+                <span className="flex items-center gap-1 text-xs text-[#737373] min-w-0">
+                  <span className="truncate">
+                    {[
+                      breakdownAd?.name,
+                      segmentRow && breakdown && `${BREAKDOWN_DIMENSIONS.find(d => d.id === breakdown)?.label} ${breakdownLabel(breakdown, segmentRow.value)}`,
+                    ].filter(Boolean).join(' · ')}
+                  </span>
+                  {segmentRow && (
+                    <button onClick={() => setSegment('')} className="text-[#A3A3A3] hover:text-black" title="Show all values">
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </span>
+              )}
+            </div>
+            <span className="text-xs text-[#A3A3A3] flex items-center gap-1">
+              {formatRange(currentRange)}
+              {isComparing && <> vs {formatRange(comparisonRange)}</>}
+              {isComparing && isLoadingPrevious && <Loader2 className="w-3 h-3 animate-spin" />}
+            </span>
+          </div>
+          {isLoadingSnapshot ? (
             <div className="py-8 text-center">
               <Loader2 className="w-6 h-6 animate-spin mx-auto text-[#A3A3A3]" />
             </div>
-          ) : !accountInsights ? (
+          ) : !overviewInsights ? (
             <div className="py-8 text-center">
               <p className="text-sm text-[#A3A3A3]">No data available for this period</p>
             </div>
@@ -586,11 +717,22 @@ export function Analytics() {
               {visibleOverviewLarge.length > 0 && (
                 <div className={`grid gap-4 mb-4`} style={{ gridTemplateColumns: `repeat(${Math.min(visibleOverviewLarge.length, 4)}, minmax(0, 1fr))` }}>
                   {visibleOverviewLarge.map(metric => {
-                    const value = accountInsights[metric.id as keyof Insights]
+                    const value = overviewInsights[metric.id as keyof AdInsights]
+                    const previous = overviewPrevious?.[metric.id as keyof AdInsights]
                     return (
                       <div key={metric.id} className="border border-[#E5E5E5] p-4">
                         <p className="text-xs text-[#A3A3A3]">{metric.label}</p>
                         <p className="text-2xl font-semibold mt-1">{formatValue(value, metric.formatter)}</p>
+                        {isComparing && (
+                          <div className="mt-1">
+                            <MetricDelta
+                              metric={metric.id}
+                              current={value}
+                              previous={previous}
+                              previousLabel={formatValue(previous, metric.formatter)}
+                            />
+                          </div>
+                        )}
                       </div>
                     )
                   })}
@@ -600,21 +742,38 @@ export function Analytics() {
               {visibleOverviewSmall.length > 0 && (
                 <div className={`grid gap-4`} style={{ gridTemplateColumns: `repeat(${Math.min(visibleOverviewSmall.length, 5)}, minmax(0, 1fr))` }}>
                   {visibleOverviewSmall.map(metric => {
-                    const value = accountInsights[metric.id as keyof Insights]
-                    const subValue = metric.subMetric ? accountInsights[metric.subMetric as keyof Insights] : null
-                    const isTrafficQuality = metric.id === 'traffic_quality'
+                    const value = overviewInsights[metric.id as keyof AdInsights]
+                    const subValue = metric.subMetric ? overviewInsights[metric.subMetric as keyof AdInsights] : null
+                    const previous = overviewPrevious?.[metric.id as keyof AdInsights]
+                    const previousSub = metric.subMetric ? overviewPrevious?.[metric.subMetric as keyof AdInsights] : null
                     return (
                       <div key={metric.id} className="border border-[#E5E5E5] p-4">
                         <p className="text-xs text-[#A3A3A3]">{metric.label}</p>
-                        <p className="text-xl font-semibold mt-1">
-                          {isTrafficQuality && value
-                            ? ((value as number) * 100).toFixed(1) + '%'
-                            : formatValue(value, metric.formatter)}
+                        <p className="text-xl font-semibold mt-1 flex items-baseline gap-2">
+                          {formatValue(value, metric.formatter)}
+                          {isComparing && (
+                            <MetricDelta
+                              metric={metric.id}
+                              current={value}
+                              previous={previous}
+                              previousLabel={formatValue(previous, metric.formatter)}
+                            />
+                          )}
                         </p>
                         {subValue && (
-                          <p className="text-xs text-[#A3A3A3] mt-1">@ {formatCurrency(subValue as number)}</p>
+                          <p className="text-xs text-[#A3A3A3] mt-1 flex items-center gap-1">
+                            @ {formatCurrency(subValue as number)}
+                            {isComparing && metric.subMetric && (
+                              <MetricDelta
+                                metric={metric.subMetric}
+                                current={subValue}
+                                previous={previousSub}
+                                previousLabel={formatCurrency(previousSub as number | null)}
+                              />
+                            )}
+                          </p>
                         )}
-                        {isTrafficQuality && (
+                        {metric.id === 'traffic_quality' && (
                           <p className="text-xs text-[#A3A3A3] mt-1">LPV / Link Clicks</p>
                         )}
                       </div>
@@ -626,6 +785,161 @@ export function Analytics() {
           )}
         </div>
 
+        {/* Breakdown pivot */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-medium text-[#737373]">BREAKDOWN</h2>
+            <div className="flex items-center gap-2">
+              {breakdown && (
+                <>
+                  <select
+                    value={breakdownAdId}
+                    onChange={(e) => setBreakdownAdId(e.target.value)}
+                    className="h-7 px-2 text-xs border border-[#E5E5E5] bg-white max-w-[220px]"
+                  >
+                    <option value="">Whole account</option>
+                    {ads.map(ad => (
+                      <option key={ad.id} value={ad.id}>{ad.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => {
+                      setSettingsTab('columns')
+                      setShowSettings(true)
+                    }}
+                    className="h-7 px-2 text-xs border border-[#E5E5E5] text-[#737373] hover:border-black flex items-center gap-1"
+                    title="Choose and reorder columns"
+                  >
+                    <Settings className="w-3 h-3" />
+                    Columns
+                  </button>
+                </>
+              )}
+              <div className="flex items-center gap-1">
+                {[{ id: '', label: 'None' }, ...BREAKDOWN_DIMENSIONS].map(d => (
+                  <button
+                    key={d.id}
+                    onClick={() => {
+                      setBreakdownParam(d.id)
+                      setSegment('')
+                      if (!d.id) setBreakdownAdId('')
+                    }}
+                    className={`px-2 py-1 text-xs border transition-colors ${
+                      (breakdown || '') === d.id
+                        ? 'bg-black text-white border-black'
+                        : 'bg-white text-[#737373] border-[#E5E5E5] hover:border-black'
+                    }`}
+                  >
+                    {d.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {breakdown && (
+            isLoadingBreakdown ? (
+              <div className="py-8 text-center">
+                <Loader2 className="w-6 h-6 animate-spin mx-auto text-[#A3A3A3]" />
+              </div>
+            ) : breakdownRows.length === 0 ? (
+              <div className="border border-[#E5E5E5] py-8 text-center">
+                <p className="text-sm text-[#A3A3A3]">No breakdown data for this period</p>
+              </div>
+            ) : (
+              <>
+                <div className="border border-[#E5E5E5] overflow-x-auto">
+                  <table className="w-full min-w-[900px]">
+                    <thead>
+                      <tr className="border-b border-[#E5E5E5] bg-[#FAFAFA]">
+                        <th className="text-left text-xs font-medium text-[#737373] p-3">
+                          {BREAKDOWN_DIMENSIONS.find(d => d.id === breakdown)?.label}
+                        </th>
+                        <th className="text-left text-xs font-medium text-[#737373] p-3 w-32">% of Spend</th>
+                        {visibleColumns.map(col => (
+                          <th key={col.id} className="text-right text-xs font-medium text-[#737373] p-3 w-20">
+                            {col.shortLabel}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {breakdownRows.map(row => {
+                        const share = breakdownSpend > 0 ? (toNumber(row.spend) || 0) / breakdownSpend : 0
+                        const previousRow = previousBreakdownByValue.get(row.value)
+                        return (
+                          <tr
+                            key={row.value}
+                            onClick={() => setSegment(segment === row.value ? '' : row.value)}
+                            className={`border-b border-[#E5E5E5] last:border-0 cursor-pointer ${
+                              segment === row.value ? 'bg-[#F5F5F5]' : 'hover:bg-[#FAFAFA]'
+                            }`}
+                          >
+                            <td className="p-3 text-sm">{breakdownLabel(breakdown, row.value)}</td>
+                            <td className="p-3">
+                              <div className="flex items-center gap-2">
+                                <div className="flex-1 h-1.5 bg-[#F5F5F5]">
+                                  <div className="h-full bg-black" style={{ width: `${share * 100}%` }} />
+                                </div>
+                                <span className="text-xs w-9 text-right">{Math.round(share * 100)}%</span>
+                              </div>
+                            </td>
+                            {visibleColumns.map(col => {
+                              const value = row[col.id as keyof AdInsights]
+                              const previous = previousRow?.[col.id as keyof AdInsights]
+                              return (
+                                <td key={col.id} className="p-3 text-right text-sm">
+                                  {formatValue(value, col.formatter)}
+                                  {isComparing && (
+                                    <div>
+                                      <MetricDelta
+                                        metric={col.id}
+                                        current={value}
+                                        previous={previous}
+                                        previousLabel={formatValue(previous, col.formatter)}
+                                      />
+                                    </div>
+                                  )}
+                                </td>
+                              )
+                            })}
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-xs text-[#A3A3A3] mt-2">Click a row to show it in the overview cards.</p>
+              </>
+            )
+          )}
+        </div>
+
+        {/* Tier summary */}
+        {goals && ads.length > 0 && (
+          <div>
+            <h2 className="text-sm font-medium text-[#737373] mb-3">ADS BY TIER</h2>
+            <div className="grid grid-cols-5 gap-4">
+              {AD_TIERS.map(tier => (
+                <button
+                  key={tier}
+                  onClick={() => setTierFilter(tierFilter === tier ? '' : tier)}
+                  className={`border p-3 text-left transition-colors ${
+                    tierFilter === tier ? 'border-black' : 'border-[#E5E5E5] hover:border-[#D4D4D4]'
+                  }`}
+                  title={tierFilter === tier ? 'Show all ads' : `Show only ${TIER_LABELS[tier].toLowerCase()} ads`}
+                >
+                  <AdTierBadge tier={tier} />
+                  <p className="text-xl font-semibold mt-2">{tierCounts[tier]}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Daily trends */}
+        <AnalyticsTrends period={period} ads={ads} />
+
         {/* AI vs Manual Comparison */}
         <div>
           <h2 className="text-sm font-medium text-[#737373] mb-3">AI VS MANUAL ADS</h2>
@@ -738,11 +1052,38 @@ export function Analytics() {
           )}
         </div>
 
+        {/* Creative fatigue */}
+        {ads.length > 0 && (
+          <CreativeFatigue
+            ads={ads}
+            conceptByAdId={conceptByAdId}
+            onGenerateVariations={onGenerateVariations}
+            isGenerating={isGenerating}
+          />
+        )}
+
+        {/* Attribution by generation inputs */}
+        {ads.length > 0 && (
+          <AttributionReport ads={ads} conceptByAdId={conceptByAdId} tierByAdId={tierByAdId} />
+        )}
+
         {/* Ads Performance Table */}
         <div>
           <div className="flex items-center justify-between mb-3">
             <h2 className="text-sm font-medium text-[#737373]">ADS PERFORMANCE</h2>
             <div className="flex items-center gap-2">
+              {goals && (
+                <select
+                  value={tierFilter}
+                  onChange={(e) => setTierFilter(e.target.value as AdTier | '')}
+                  className="h-8 px-2 text-xs border border-[#E5E5E5] bg-white"
+                >
+                  <option value="">All tiers ({ads.length})</option>
+                  {AD_TIERS.map(tier => (
+                    <option key={tier} value={tier}>{TIER_LABELS[tier]} ({tierCounts[tier]})</option>
+                  ))}
+                </select>
+              )}
               <span className="text-xs text-[#A3A3A3]">Sort by:</span>
               <select
                 value={`${sortBy}-${sortOrder}`}
@@ -753,6 +1094,12 @@ export function Analytics() {
                 }}
                 className="h-8 px-2 text-xs border border-[#E5E5E5] bg-white"
               >
+                {goals && (
+                  <optgroup label="Tier">
+                    <option value="tier-desc">Tier (Best First)</option>
+                    <option value="tier-asc">Tier (Worst First)</option>
+                  </optgroup>
+                )}
                 {visibleColumns.map(col => (
                   <optgroup key={col.id} label={col.label}>
                     <option value={`${col.id}-desc`}>{col.label} (High to Low)</option>
@@ -763,7 +1110,7 @@ export function Analytics() {
             </div>
           </div>
 
-          {isLoadingAds ? (
+          {isLoadingSnapshot ? (
             <div className="py-8 text-center">
               <Loader2 className="w-6 h-6 animate-spin mx-auto text-[#A3A3A3]" />
             </div>
@@ -771,12 +1118,17 @@ export function Analytics() {
             <div className="py-8 text-center">
               <p className="text-sm text-[#A3A3A3]">No ads found</p>
             </div>
+          ) : sortedAds.length === 0 ? (
+            <div className="py-8 text-center">
+              <p className="text-sm text-[#A3A3A3]">No {TIER_LABELS[tierFilter as AdTier].toLowerCase()} ads in this period</p>
+            </div>
           ) : (
             <div className="border border-[#E5E5E5] overflow-x-auto">
               <table className="w-full min-w-[900px]">
                 <thead>
                   <tr className="border-b border-[#E5E5E5] bg-[#FAFAFA]">
                     <th className="text-left text-xs font-medium text-[#737373] p-3">Ad</th>
+                    {goals && <th className="text-left text-xs font-medium text-[#737373] p-3 w-24">Tier</th>}
                     {visibleColumns.map(col => (
                       <th key={col.id} className="text-right text-xs font-medium text-[#737373] p-3 w-20">
                         {col.shortLabel}
@@ -785,25 +1137,113 @@ export function Analytics() {
                   </tr>
                 </thead>
                 <tbody>
-                  {sortedAds.map((ad) => (
-                    <tr key={ad.id} className="border-b border-[#E5E5E5] last:border-0 hover:bg-[#FAFAFA]">
-                      <td className="p-3">
-                        <div className="flex items-center gap-2">
-                          {ad.is_ai_generated && (
-                            <span title="AI Generated">
-                              <Bot className="w-4 h-4 text-[#737373] flex-shrink-0" />
-                            </span>
+                  {sortedAds.map((ad) => {
+                    const concept = conceptByAdId.get(ad.id)
+                    const isFocused = focusedAdId === ad.id
+                    return (
+                      <Fragment key={ad.id}>
+                        <tr
+                          id={`ad-row-${ad.id}`}
+                          className={`border-b border-[#E5E5E5] last:border-0 ${isFocused ? 'bg-[#FAFAFA]' : 'hover:bg-[#FAFAFA]'}`}
+                        >
+                          <td className="p-3">
+                            <div className="flex items-center gap-2">
+                              {ad.is_ai_generated && (
+                                <span title="AI Generated">
+                                  <Bot className="w-4 h-4 text-[#737373] flex-shrink-0" />
+                                </span>
+                              )}
+                              <span className="text-sm truncate max-w-[250px]">{ad.name}</span>
+                              {concept && (
+                                <button
+                                  onClick={() => setFocusedAdId(isFocused ? '' : ad.id)}
+                                  className={`flex items-center gap-1 px-1.5 py-0.5 text-[10px] border flex-shrink-0 ${
+                                    isFocused ? 'border-black text-black' : 'border-[#E5E5E5] text-[#737373] hover:border-black'
+                                  }`}
+                                  title="Show the concept this ad was pushed from"
+                                >
+                                  <Link2 className="w-3 h-3" />
+                                  {concept.batch_number}
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                          {goals && (
+                            <td className="p-3">
+                              {adTiers.has(ad.id) && (
+                                <AdTierBadge
+                                  tier={adTiers.get(ad.id)!.tier}
+                                  title={goalsSource(adTiers.get(ad.id)!.productId)}
+                                />
+                              )}
+                            </td>
                           )}
-                          <span className="text-sm truncate max-w-[250px]">{ad.name}</span>
-                        </div>
-                      </td>
-                      {visibleColumns.map(col => (
-                        <td key={col.id} className="p-3 text-right text-sm">
-                          {formatValue((ad.insights as any)?.[col.id], col.formatter)}
-                        </td>
-                      ))}
-                    </tr>
-                  ))}
+                          {visibleColumns.map(col => {
+                            const value = ad.insights?.[col.id as keyof AdInsights]
+                            const previous = previousAdsById.get(ad.id)?.insights?.[col.id as keyof AdInsights]
+                            return (
+                              <td key={col.id} className="p-3 text-right text-sm">
+                                {formatValue(value, col.formatter)}
+                                {isComparing && (
+                                  <div>
+                                    <MetricDelta
+                                      metric={col.id}
+                                      current={value}
+                                      previous={previous}
+                                      previousLabel={formatValue(previous, col.formatter)}
+                                    />
+                                  </div>
+                                )}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                        {isFocused && concept && (
+                          <tr className="border-b border-[#E5E5E5] bg-[#FAFAFA]">
+                            <td colSpan={visibleColumns.length + (goals ? 2 : 1)} className="px-3 pb-3">
+                              <div className="border border-[#E5E5E5] bg-white p-3 space-y-2">
+                                <div className="flex items-start justify-between gap-4">
+                                  <p className="text-sm">{concept.hypothesis?.hypothesis || 'No hypothesis recorded'}</p>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="flex-shrink-0"
+                                    onClick={() => navigate(buildPath('work', concept.id))}
+                                  >
+                                    <ExternalLink className="w-3 h-3 mr-1" />
+                                    Open concept
+                                  </Button>
+                                </div>
+                                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-[#737373]">
+                                  {(concept.format_id || concept.hypothesis?.format_id) && (
+                                    <span>Format: <span className="text-black">{concept.format_id || concept.hypothesis?.format_id}</span></span>
+                                  )}
+                                  {concept.hypothesis?.angle && (
+                                    <span>Angle: <span className="text-black">{concept.hypothesis.angle}</span></span>
+                                  )}
+                                  {concept.hypothesis?.awareness_stage && (
+                                    <span>Awareness: <span className="text-black">{concept.hypothesis.awareness_stage}</span></span>
+                                  )}
+                                  {concept.rating ? (
+                                    <span>Rating: <span className="text-black">{concept.rating}/5</span></span>
+                                  ) : null}
+                                </div>
+                                {concept.patterns_used?.length > 0 && (
+                                  <div className="flex flex-wrap gap-1">
+                                    {concept.patterns_used.map((p, i) => (
+                                      <span key={i} className="px-1.5 py-0.5 text-[10px] bg-[#F5F5F5] text-[#737373]">
+                                        {p.pattern}
+                                      </span>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })}
                 </tbody>
               </table>
             </div>
@@ -813,6 +1253,17 @@ export function Analytics() {
         )}
       </div>
 
+      {/* Report Builder Modal */}
+      {showReport && (
+        <ReportBuilderModal
+          period={period}
+          overviewMetrics={overviewMetrics}
+          products={products}
+          conceptByAdId={conceptByAdId}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -0,0 +1,186 @@
+import { useState, useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Loader2, X } from 'lucide-react'
+import { fetchAccountDailyInsights, fetchAdsDailyInsights, fetchConcepts } from '../api'
+import type { AdInsights, DailyInsights, FBAd, InsightsPeriod } from '../api'
+import { eachDay, periodKey, resolvePeriod, toISODate } from '../utils/dateRange'
+import { formatTrafficQuality, toNumber } from '../utils/metrics'
+import { TimeSeriesChart, type ChartMarker, type ChartSeries } from './TimeSeriesChart'
+
+interface AnalyticsTrendsProps {
+  period: InsightsPeriod
+  ads: FBAd[]
+}
+
+type TrendFormatter = 'currency' | 'percent' | 'ratio' | 'number' | 'roas'
+
+const TREND_METRICS: Array<{ id: keyof AdInsights; label: string; formatter: TrendFormatter }> = [
+  { id: 'spend', label: 'Spend', formatter: 'currency' },
+  { id: 'purchases', label: 'Purchases', formatter: 'number' },
+  { id: 'cost_per_purchase', label: 'CPA', formatter: 'currency' },
+  { id: 'roas', label: 'ROAS', formatter: 'roas' },
+  { id: 'link_ctr', label: 'Link CTR', formatter: 'percent' },
+  { id: 'traffic_quality', label: 'Traffic Quality', formatter: 'ratio' },
+]
+
+const ACCOUNT_COLOR = '#000000'
+const AD_COLORS = ['#8B5CF6', '#0EA5E9', '#F59E0B', '#10B981', '#EF4444']
+const MAX_OVERLAY = AD_COLORS.length
+
+const formatAxis = (value: number, formatter: TrendFormatter) => {
+  switch (formatter) {
+    case 'currency':
+      return value >= 1000 ? `$${(value / 1000).toFixed(1)}k` : `$${value.toFixed(value < 10 ? 2 : 0)}`
+    case 'percent':
+      return `${value.toFixed(2)}%`
+    case 'ratio':
+      return formatTrafficQuality(value)
+    case 'roas':
+      return `${value.toFixed(2)}x`
+    case 'number':
+    default:
+      return Number.isInteger(value) ? value.toString() : value.toFixed(1)
+  }
+}
+
+// Values lined up against the period's dates; missing days become gaps
+function alignDays(dates: string[], days: DailyInsights[], metric: keyof AdInsights): Array<number | null> {
+  const byDate = new Map(days.map(d => [d.date, d]))
+  return dates.map(date => toNumber(byDate.get(date)?.[metric]))
+}
+
+export function AnalyticsTrends({ period, ads }: AnalyticsTrendsProps) {
+  const [metricId, setMetricId] = useState<keyof AdInsights>('spend')
+  const [showAccount, setShowAccount] = useState(true)
+  const [selectedAdIds, setSelectedAdIds] = useState<string[]>([])
+
+  const metric = TREND_METRICS.find(m => m.id === metricId) || TREND_METRICS[0]
+  const dates = useMemo(() => eachDay(resolvePeriod(period)), [period])
+
+  const { data: accountDays = [], isLoading: isLoadingAccount } = useQuery({
+    queryKey: ['fb-daily', 'account', periodKey(period)],
+    queryFn: () => fetchAccountDailyInsights(period),
+    enabled: showAccount,
+  })
+
+  const { data: adDays = [], isLoading: isLoadingAds } = useQuery({
+    queryKey: ['fb-daily', 'ads', periodKey(period), selectedAdIds],
+    queryFn: () => fetchAdsDailyInsights(period, selectedAdIds),
+    enabled: selectedAdIds.length > 0,
+  })
+
+  // Shared with the concept list, used to find ads this app pushed
+  const { data: concepts = [] } = useQuery({
+    queryKey: ['concepts'],
+    queryFn: fetchConcepts,
+  })
+
+  const adColor = (id: string) => AD_COLORS[selectedAdIds.indexOf(id) % AD_COLORS.length]
+
+  const series: ChartSeries[] = [
+    ...(showAccount
+      ? [{ id: 'account', label: 'Account', color: ACCOUNT_COLOR, values: alignDays(dates, accountDays, metric.id) }]
+      : []),
+    ...adDays
+      .filter(ad => selectedAdIds.includes(ad.id))
+      .map(ad => ({ id: ad.id, label: ad.name, color: adColor(ad.id), values: alignDays(dates, ad.days, metric.id) })),
+  ]
+
+  // Launch date of each overlaid ad that came from one of our concepts
+  const markers: ChartMarker[] = adDays.flatMap(ad => {
+    const concept = concepts.find(c => c.fb_ad_ids?.includes(ad.id))
+    if (!concept || !ad.created_time || !selectedAdIds.includes(ad.id)) return []
+    return [{
+      date: toISODate(new Date(ad.created_time)),
+      label: `Pushed ${concept.batch_number}`,
+      color: adColor(ad.id),
+    }]
+  })
+
+  const addAd = (id: string) => {
+    if (!id || selectedAdIds.includes(id) || selectedAdIds.length >= MAX_OVERLAY) return
+    setSelectedAdIds([...selectedAdIds, id])
+  }
+
+  const removeAd = (id: string) => {
+    setSelectedAdIds(selectedAdIds.filter(a => a !== id))
+  }
+
+  const isLoading = (showAccount && isLoadingAccount) || (selectedAdIds.length > 0 && isLoadingAds)
+  const adsById = new Map(ads.map(ad => [ad.id, ad]))
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-medium text-[#737373]">TRENDS</h2>
+        <div className="flex items-center gap-1">
+          {TREND_METRICS.map(m => (
+            <button
+              key={m.id}
+              onClick={() => setMetricId(m.id)}
+              className={`px-2 py-1 text-xs border transition-colors ${
+                metricId === m.id
+                  ? 'bg-black text-white border-black'
+                  : 'bg-white text-[#737373] border-[#E5E5E5] hover:border-black'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="border border-[#E5E5E5] p-4">
+        {/* Series */}
+        <div className="flex items-center gap-2 flex-wrap mb-3">
+          <button
+            onClick={() => setShowAccount(!showAccount)}
+            className={`flex items-center gap-1.5 px-2 py-1 text-xs border ${
+              showAccount ? 'border-black' : 'border-[#E5E5E5] text-[#A3A3A3]'
+            }`}
+          >
+            <span className="w-2 h-2" style={{ backgroundColor: showAccount ? ACCOUNT_COLOR : '#D4D4D4' }} />
+            Account
+          </button>
+          {selectedAdIds.map(id => (
+            <span key={id} className="flex items-center gap-1.5 px-2 py-1 text-xs border border-[#E5E5E5]">
+              <span className="w-2 h-2" style={{ backgroundColor: adColor(id) }} />
+              <span className="truncate max-w-[180px]">{adsById.get(id)?.name || id}</span>
+              <button onClick={() => removeAd(id)} className="text-[#A3A3A3] hover:text-black">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          {selectedAdIds.length < MAX_OVERLAY && (
+            <select
+              value=""
+              onChange={(e) => addAd(e.target.value)}
+              className="h-7 px-2 text-xs border border-[#E5E5E5] bg-white"
+            >
+              <option value="">+ Overlay ad...</option>
+              {ads
+                .filter(ad => !selectedAdIds.includes(ad.id))
+                .map(ad => (
+                  <option key={ad.id} value={ad.id}>{ad.name}</option>
+                ))}
+            </select>
+          )}
+          {isLoading && <Loader2 className="w-3 h-3 animate-spin text-[#A3A3A3]" />}
+        </div>
+
+        {series.length === 0 ? (
+          <div className="py-12 text-center">
+            <p className="text-sm text-[#A3A3A3]">Turn on the account line or overlay an ad</p>
+          </div>
+        ) : (
+          <TimeSeriesChart
+            dates={dates}
+            series={series}
+            markers={markers}
+            formatValue={(v) => formatAxis(v, metric.formatter)}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
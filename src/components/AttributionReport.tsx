@@ -0,0 +1,163 @@
+import { useState, useMemo } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { fetchFormats, fetchStylePresets, updateFormat } from '../api'
+import type { AdConcept, FBAd } from '../api'
+import type { AdTier } from '../utils/adTiers'
+import { ATTRIBUTION_DIMENSIONS, UNKNOWN_KEY, buildAttribution, type AttributionDimension } from '../utils/attribution'
+import { useToast } from './ui/toast'
+
+interface AttributionReportProps {
+  ads: FBAd[]
+  conceptByAdId: Map<string, AdConcept>
+  tierByAdId: Map<string, AdTier>
+}
+
+const CONFIDENCE_LABELS: Record<string, string> = {
+  high: 'High (75%+)',
+  medium: 'Medium (50–75%)',
+  low: 'Low (<50%)',
+}
+
+const humanize = (key: string) => key.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase())
+
+// Which formats, patterns and styles the winning pushed ads came from
+export function AttributionReport({ ads, conceptByAdId, tierByAdId }: AttributionReportProps) {
+  const queryClient = useQueryClient()
+  const toast = useToast()
+  const [dimension, setDimension] = useState<AttributionDimension>('format')
+
+  const { data: formats = [] } = useQuery({ queryKey: ['formats'], queryFn: fetchFormats })
+  const { data: stylePresets = [] } = useQuery({ queryKey: ['style-presets'], queryFn: fetchStylePresets })
+
+  const toggleFormatMutation = useMutation({
+    mutationFn: ({ formatId, isActive }: { formatId: string; isActive: boolean }) =>
+      updateFormat(formatId, { is_active: isActive }),
+    onSuccess: (_, { isActive }) => {
+      queryClient.invalidateQueries({ queryKey: ['formats'] })
+      toast.success(isActive ? 'Format activated' : 'Format deactivated')
+    },
+    onError: () => toast.error('Failed to update format'),
+  })
+
+  const rows = useMemo(
+    () => buildAttribution(ads, conceptByAdId, tierByAdId, dimension),
+    [ads, conceptByAdId, tierByAdId, dimension]
+  )
+  const linkedCount = ads.filter(ad => conceptByAdId.has(ad.id)).length
+
+  const label = (key: string) => {
+    if (key === UNKNOWN_KEY) return 'Unknown'
+    switch (dimension) {
+      case 'format':
+        return formats.find(f => f.format_id === key)?.name || key
+      case 'style_preset':
+        return stylePresets.find(p => p.id === key)?.name || key
+      case 'confidence':
+        return CONFIDENCE_LABELS[key] || key
+      default:
+        return humanize(key)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-medium text-[#737373]">ATTRIBUTION</h2>
+        <div className="flex items-center gap-1">
+          {ATTRIBUTION_DIMENSIONS.map(d => (
+            <button
+              key={d.id}
+              onClick={() => setDimension(d.id)}
+              className={`px-2 py-1 text-xs border transition-colors ${
+                dimension === d.id
+                  ? 'bg-black text-white border-black'
+                  : 'bg-white text-[#737373] border-[#E5E5E5] hover:border-black'
+              }`}
+            >
+              {d.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="border border-[#E5E5E5] py-8 text-center">
+          <p className="text-sm text-[#A3A3A3]">No ads in this period were pushed from a concept</p>
+        </div>
+      ) : (
+        <div className="border border-[#E5E5E5] overflow-x-auto">
+          <table className="w-full min-w-[700px]">
+            <thead>
+              <tr className="border-b border-[#E5E5E5] bg-[#FAFAFA]">
+                <th className="text-left text-xs font-medium text-[#737373] p-3">
+                  {ATTRIBUTION_DIMENSIONS.find(d => d.id === dimension)?.label}
+                </th>
+                <th className="text-right text-xs font-medium text-[#737373] p-3">Ads</th>
+                <th className="text-right text-xs font-medium text-[#737373] p-3">Concepts</th>
+                <th className="text-right text-xs font-medium text-[#737373] p-3">Spend</th>
+                <th className="text-right text-xs font-medium text-[#737373] p-3">Purch</th>
+                <th className="text-right text-xs font-medium text-[#737373] p-3">CPA</th>
+                <th className="text-right text-xs font-medium text-[#737373] p-3">ROAS</th>
+                <th className="text-left text-xs font-medium text-[#737373] p-3 w-40">Win Rate</th>
+                {dimension === 'format' && (
+                  <th className="text-right text-xs font-medium text-[#737373] p-3">Generating</th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const format = dimension === 'format' ? formats.find(f => f.format_id === row.key) : undefined
+                return (
+                  <tr key={row.key} className="border-b border-[#E5E5E5] last:border-0">
+                    <td className="p-3 text-sm">{label(row.key)}</td>
+                    <td className="p-3 text-right text-sm">{row.ads}</td>
+                    <td className="p-3 text-right text-sm">{row.concepts}</td>
+                    <td className="p-3 text-right text-sm">${row.spend.toFixed(2)}</td>
+                    <td className="p-3 text-right text-sm">{row.purchases}</td>
+                    <td className="p-3 text-right text-sm">{row.cpa !== null ? `$${row.cpa.toFixed(2)}` : '-'}</td>
+                    <td className="p-3 text-right text-sm">{row.roas !== null ? `${row.roas.toFixed(2)}x` : '-'}</td>
+                    <td className="p-3">
+                      {row.winRate !== null ? (
+                        <div className="flex items-center gap-2" title={`${row.winners} of ${row.decided} ads with enough data`}>
+                          <div className="flex-1 h-1.5 bg-[#F5F5F5]">
+                            <div className="h-full bg-green-600" style={{ width: `${row.winRate * 100}%` }} />
+                          </div>
+                          <span className="text-xs w-9 text-right">{Math.round(row.winRate * 100)}%</span>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-[#A3A3A3]">Not enough data</span>
+                      )}
+                    </td>
+                    {dimension === 'format' && (
+                      <td className="p-3 text-right">
+                        {format ? (
+                          <button
+                            onClick={() => toggleFormatMutation.mutate({ formatId: format.format_id, isActive: !format.is_active })}
+                            disabled={toggleFormatMutation.isPending}
+                            className={`px-1.5 py-0.5 text-[10px] border ${
+                              format.is_active
+                                ? 'border-green-200 bg-green-50 text-green-700'
+                                : 'border-[#E5E5E5] text-[#A3A3A3]'
+                            }`}
+                            title={format.is_active ? 'Stop using this format for new concepts' : 'Use this format for new concepts'}
+                          >
+                            {format.is_active ? 'Active' : 'Inactive'}
+                          </button>
+                        ) : (
+                          <span className="text-xs text-[#A3A3A3]">-</span>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="text-xs text-[#A3A3A3] mt-2">
+        {linkedCount} of {ads.length} ads in this period came from concepts. Win rate counts winners and super winners among ads with enough data to classify.
+      </p>
+    </div>
+  )
+}
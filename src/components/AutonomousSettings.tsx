@@ -15,73 +15,14 @@ import {
 } from 'lucide-react'
 import { Button } from './ui/button'
 import { useToast } from './ui/toast'
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
-
-interface AutonomousSetting {
-  name: string
-  description: string
-  type: string
-  default: unknown
-  value: unknown
-  category: string
-  min?: number
-  max?: number
-  step?: number
-  options?: string[]
-  deprecated?: boolean
-}
-
-interface FunnelStatus {
-  daily_target: number
-  concepts_today: number
-  remaining: number
-}
-
-interface AutonomousStatus {
-  enabled: boolean
-  daily_target: number
-  concepts_today: number
-  remaining: number
-  is_running: boolean
-  pending_jobs: number
-  auto_approval_enabled: boolean
-  diversity_enabled: boolean
-  tof?: FunnelStatus
-  bof?: FunnelStatus
-}
-
-async function fetchSettings(): Promise<Record<string, AutonomousSetting>> {
-  const res = await authFetch(`${API_BASE}/settings/autonomous`)
-  if (!res.ok) throw new Error('Failed to fetch settings')
-  return res.json()
-}
-
-async function fetchStatus(): Promise<AutonomousStatus> {
-  const res = await authFetch(`${API_BASE}/settings/autonomous/status`)
-  if (!res.ok) throw new Error('Failed to fetch status')
-  return res.json()
-}
-
-async function updateSettings(updates: Record<string, unknown>): Promise<void> {
-  const res = await authFetch(`${API_BASE}/settings/autonomous`, {
-    method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(updates),
-  })
-  if (!res.ok) throw new Error('Failed to update settings')
-}
-
-async function triggerGeneration(): Promise<{ job_id: string }> {
-  const res = await authFetch(`${API_BASE}/settings/autonomous/trigger`, {
-    method: 'POST',
-  })
-  if (!res.ok) {
-    const data = await res.json()
-    throw new Error(data.detail || 'Failed to trigger generation')
-  }
-  return res.json()
-}
+import { usePollingFallback } from '../realtime'
+import {
+  fetchAutonomousSettings,
+  fetchAutonomousStatus,
+  updateAutonomousSettings,
+  triggerAutonomousGeneration,
+} from '../api'
+import type { AutonomousSetting } from '../api'
 
 export function AutonomousSettings() {
   const queryClient = useQueryClient()
@@ -91,17 +32,17 @@ export function AutonomousSettings() {
 
   const { data: settings, isLoading: settingsLoading } = useQuery({
     queryKey: ['autonomous-settings'],
-    queryFn: fetchSettings,
+    queryFn: fetchAutonomousSettings,
   })
 
   const { data: status, isLoading: statusLoading } = useQuery({
     queryKey: ['autonomous-status'],
-    queryFn: fetchStatus,
-    refetchInterval: 10000, // Refresh every 10 seconds
+    queryFn: fetchAutonomousStatus,
+    refetchInterval: usePollingFallback(10000), // Pushed over the realtime socket; poll while it's down
   })
 
   const updateMutation = useMutation({
-    mutationFn: updateSettings,
+    mutationFn: updateAutonomousSettings,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['autonomous-settings'] })
       queryClient.invalidateQueries({ queryKey: ['autonomous-status'] })
@@ -114,7 +55,7 @@ export function AutonomousSettings() {
   })
 
   const triggerMutation = useMutation({
-    mutationFn: triggerGeneration,
+    mutationFn: triggerAutonomousGeneration,
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['autonomous-status'] })
       toast.success(`Job queued: ${data.job_id.slice(0, 8)}...`)
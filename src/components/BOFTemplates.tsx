@@ -3,50 +3,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { Loader2, Plus, Trash2, X, Upload, Palette, Layout, Type, Sparkles } from 'lucide-react'
 import { Button } from './ui/button'
 import { useToast } from './ui/toast'
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
-
-interface StyleAnalysis {
-  layout_type: string
-  color_scheme: string
-  typography_style: string
-  product_placement: string
-  overall_vibe: string
-}
-
-interface BOFTemplate {
-  id: string
-  name: string
-  description: string | null
-  template_url: string
-  style_analysis: StyleAnalysis | null
-  product_id: string | null
-  is_active: boolean
-  created_at: string
-}
-
-async function fetchTemplates(): Promise<BOFTemplate[]> {
-  const res = await authFetch(`${API_BASE}/bof-templates`)
-  if (!res.ok) throw new Error('Failed to fetch templates')
-  return res.json()
-}
-
-async function createTemplate(data: { name: string; image_data: string; description?: string }): Promise<BOFTemplate> {
-  const res = await authFetch(`${API_BASE}/bof-templates`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(data),
-  })
-  if (!res.ok) throw new Error('Failed to create template')
-  return res.json()
-}
-
-async function deleteTemplate(id: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/bof-templates/${id}`, {
-    method: 'DELETE',
-  })
-  if (!res.ok) throw new Error('Failed to delete template')
-}
+import { fetchBOFTemplates, createBOFTemplate, deleteBOFTemplate } from '../api'
 
 export function BOFTemplates() {
   const queryClient = useQueryClient()
@@ -61,11 +18,11 @@ export function BOFTemplates() {
 
   const { data: templates, isLoading } = useQuery({
     queryKey: ['bof-templates'],
-    queryFn: fetchTemplates,
+    queryFn: fetchBOFTemplates,
   })
 
   const createMutation = useMutation({
-    mutationFn: createTemplate,
+    mutationFn: createBOFTemplate,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['bof-templates'] })
       toast.success('Template added, analyzing style...')
@@ -77,7 +34,7 @@ export function BOFTemplates() {
   })
 
   const deleteMutation = useMutation({
-    mutationFn: deleteTemplate,
+    mutationFn: deleteBOFTemplate,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['bof-templates'] })
       toast.success('Template deleted')
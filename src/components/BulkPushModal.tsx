@@ -1,26 +1,8 @@
 import { useState, useEffect, useMemo } from 'react'
 import { X, Search, Loader2, Check, AlertTriangle } from 'lucide-react'
 import { Button } from './ui/button'
-import type { AdConcept } from '../App'
-
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
-
-interface FBCampaign {
-  id: string
-  name: string
-  status: string
-  objective: string
-}
-
-interface BulkPushResult {
-  concept_id: string
-  success: boolean
-  ad_id?: string
-  adset_id?: string
-  adset_name?: string
-  error?: string
-}
+import { fetchCampaigns, bulkPushConcepts } from '../api'
+import type { AdConcept, FBCampaign, BulkPushResult } from '../api'
 
 interface BulkPushModalProps {
   conceptIds: string[]
@@ -55,16 +37,13 @@ export function BulkPushModal({ conceptIds, concepts, onClose, onSuccess }: Bulk
 
   // Load campaigns on mount
   useEffect(() => {
-    fetchCampaigns()
+    loadCampaigns()
   }, [])
 
-  const fetchCampaigns = async () => {
+  const loadCampaigns = async () => {
     setIsLoadingCampaigns(true)
     try {
-      const res = await authFetch(`${API_BASE}/fb/campaigns`)
-      if (!res.ok) throw new Error('Failed to fetch campaigns')
-      const data = await res.json()
-      setCampaigns(data.campaigns || [])
+      setCampaigns(await fetchCampaigns())
     } catch (err) {
       console.error('Failed to load campaigns:', err)
     } finally {
@@ -87,27 +66,16 @@ export function BulkPushModal({ conceptIds, concepts, onClose, onSuccess }: Bulk
     setPushResults(null)
 
     try {
-      const res = await authFetch(`${API_BASE}/fb/bulk-push`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          concept_ids: approvedConcepts.map(c => c.id),
-          campaign_id: selectedCampaign.id,
-          link_url: linkUrl.trim(),
-          status: adStatus,
-        }),
+      const results = await bulkPushConcepts({
+        concept_ids: approvedConcepts.map(c => c.id),
+        campaign_id: selectedCampaign.id,
+        link_url: linkUrl.trim(),
+        status: adStatus,
       })
-
-      if (!res.ok) {
-        const err = await res.json()
-        throw new Error(err.detail || 'Failed to push concepts')
-      }
-
-      const data = await res.json()
-      setPushResults(data.results || [])
+      setPushResults(results)
 
       // Check if all succeeded
-      const allSuccess = data.results?.every((r: BulkPushResult) => r.success)
+      const allSuccess = results.length > 0 && results.every(r => r.success)
       if (allSuccess) {
         onSuccess()
       }
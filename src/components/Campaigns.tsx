@@ -2,38 +2,22 @@ import { useState, useEffect, useMemo } from 'react'
 import { Search, ChevronDown, ChevronRight, RefreshCw, Loader2, Copy } from 'lucide-react'
 import { Button } from './ui/button'
 
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
-
-interface Campaign {
-  id: string
-  name: string
-  status: string
-  objective: string
-  created_time: string
-}
-
-interface AdSet {
-  id: string
-  name: string
-  status: string
-  daily_budget: string
-  optimization_goal?: string
-}
+import { fetchCampaigns, fetchAdSets, duplicateAdSet } from '../api'
+import type { FBCampaign, FBAdSet } from '../api'
 
 export function Campaigns() {
-  const [campaigns, setCampaigns] = useState<Campaign[]>([])
+  const [campaigns, setCampaigns] = useState<FBCampaign[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [searchQuery, setSearchQuery] = useState('')
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [expandedCampaigns, setExpandedCampaigns] = useState<Set<string>>(new Set())
-  const [adsetsByCampaign, setAdsetsByCampaign] = useState<Record<string, AdSet[]>>({})
+  const [adsetsByCampaign, setAdsetsByCampaign] = useState<Record<string, FBAdSet[]>>({})
   const [loadingAdsets, setLoadingAdsets] = useState<Set<string>>(new Set())
   const [adsetErrors, setAdsetErrors] = useState<Record<string, string>>({})
   const [lastRefreshed, setLastRefreshed] = useState<Date | null>(null)
 
   // Duplicate adset state
-  const [duplicateModal, setDuplicateModal] = useState<{ adset: AdSet; campaignId: string } | null>(null)
+  const [duplicateModal, setDuplicateModal] = useState<{ adset: FBAdSet; campaignId: string } | null>(null)
   const [newAdsetName, setNewAdsetName] = useState('')
   const [newAdsetBudget, setNewAdsetBudget] = useState('')
   const [isDuplicating, setIsDuplicating] = useState(false)
@@ -41,23 +25,17 @@ export function Campaigns() {
   useEffect(() => {
     // Only fetch on first mount if no cached data
     if (campaigns.length === 0) {
-      fetchCampaigns()
+      loadCampaigns()
     }
   }, []) // eslint-disable-line react-hooks/exhaustive-deps
 
   const [error, setError] = useState<string | null>(null)
 
-  const fetchCampaigns = async (forceRefresh: boolean = false) => {
+  const loadCampaigns = async (forceRefresh: boolean = false) => {
     setIsLoading(true)
     setError(null)
     try {
-      const res = await authFetch(`${API_BASE}/fb/campaigns${forceRefresh ? '?refresh=true' : ''}`)
-      if (!res.ok) {
-        const data = await res.json().catch(() => ({}))
-        throw new Error(data.detail || 'Failed to fetch campaigns')
-      }
-      const data = await res.json()
-      setCampaigns(data.campaigns || [])
+      setCampaigns(await fetchCampaigns(forceRefresh))
       setLastRefreshed(new Date())
     } catch (err: any) {
       console.error('Failed to load campaigns:', err)
@@ -67,18 +45,13 @@ export function Campaigns() {
     }
   }
 
-  const fetchAdsets = async (campaignId: string, forceRefresh: boolean = false) => {
+  const loadAdsets = async (campaignId: string, forceRefresh: boolean = false) => {
     setLoadingAdsets(prev => new Set(prev).add(campaignId))
     setAdsetErrors(prev => ({ ...prev, [campaignId]: '' }))
     try {
-      const res = await authFetch(`${API_BASE}/fb/adsets?campaign_id=${campaignId}${forceRefresh ? '&refresh=true' : ''}`)
-      if (!res.ok) {
-        const data = await res.json().catch(() => ({}))
-        // Show actual error - don't hide it
-        throw new Error(data.detail || 'Failed to load ad sets')
-      }
-      const data = await res.json()
-      setAdsetsByCampaign(prev => ({ ...prev, [campaignId]: data.adsets || [] }))
+      // Errors carry the server's detail - show it, don't hide it
+      const adsets = await fetchAdSets(campaignId, forceRefresh)
+      setAdsetsByCampaign(prev => ({ ...prev, [campaignId]: adsets }))
     } catch (err: any) {
       console.error('Failed to load adsets:', err)
       setAdsetErrors(prev => ({ ...prev, [campaignId]: err.message || 'Failed to load' }))
@@ -99,7 +72,7 @@ export function Campaigns() {
       } else {
         next.add(campaignId)
         if (!adsetsByCampaign[campaignId]) {
-          fetchAdsets(campaignId)
+          loadAdsets(campaignId)
         }
       }
       return next
@@ -110,19 +83,14 @@ export function Campaigns() {
     if (!duplicateModal || !newAdsetName.trim()) return
     setIsDuplicating(true)
     try {
-      const res = await authFetch(`${API_BASE}/fb/adsets/duplicate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          source_adset_id: duplicateModal.adset.id,
-          new_name: newAdsetName.trim(),
-          daily_budget: newAdsetBudget ? parseInt(newAdsetBudget) : undefined,
-        }),
+      await duplicateAdSet({
+        source_adset_id: duplicateModal.adset.id,
+        new_name: newAdsetName.trim(),
+        daily_budget: newAdsetBudget ? parseInt(newAdsetBudget) : undefined,
       })
-      if (!res.ok) throw new Error('Failed to duplicate adset')
 
       // Refresh adsets for this campaign
-      await fetchAdsets(duplicateModal.campaignId)
+      await loadAdsets(duplicateModal.campaignId)
       setDuplicateModal(null)
       setNewAdsetName('')
       setNewAdsetBudget('')
@@ -181,7 +149,7 @@ export function Campaigns() {
               Updated {lastRefreshed.toLocaleTimeString()}
             </span>
           )}
-          <Button variant="outline" size="sm" onClick={() => fetchCampaigns(true)} disabled={isLoading}>
+          <Button variant="outline" size="sm" onClick={() => loadCampaigns(true)} disabled={isLoading}>
             <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
@@ -16,112 +16,31 @@ import {
 } from 'lucide-react'
 import { Button } from './ui/button'
 import { ConfirmationCard } from './ConfirmationCard'
-import { API_BASE } from '../config'
-import { authFetch, useAuth } from '../auth'
-
-interface Conversation {
-  id: string
-  title: string
-  created_at: string
-  updated_at: string
-}
-
-interface Message {
-  id: string
-  conversation_id: string
-  role: 'user' | 'assistant' | 'tool'
-  content: string | null
-  tool_calls?: any[]
-  tool_results?: any[]
-  attachments?: any[]
-  created_at: string
-}
-
-interface Confirmation {
-  id: string
-  conversation_id: string
-  action_type: string
-  action_data: any
-  status: string
-  created_at: string
-}
-
-interface Attachment {
-  file_name: string
-  type: string
-  data: string
-  size: number
-}
-
-interface ChatModel {
-  id: string
-  name: string
-  provider: string
-  supports_thinking?: boolean
-  thinking_enabled?: boolean
-}
-
-async function fetchConversations(): Promise<Conversation[]> {
-  const res = await authFetch(`${API_BASE}/chat/conversations`)
-  if (!res.ok) throw new Error('Failed to fetch conversations')
-  return res.json()
-}
-
-async function createConversation(title?: string): Promise<Conversation> {
-  const res = await authFetch(`${API_BASE}/chat/conversations`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ title }),
-  })
-  if (!res.ok) throw new Error('Failed to create conversation')
-  return res.json()
-}
-
-async function deleteConversation(id: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/chat/conversations/${id}`, {
-    method: 'DELETE',
-  })
-  if (!res.ok) throw new Error('Failed to delete conversation')
-}
-
-async function fetchMessages(conversationId: string): Promise<Message[]> {
-  const res = await authFetch(`${API_BASE}/chat/conversations/${conversationId}/messages`)
-  if (!res.ok) throw new Error('Failed to fetch messages')
-  return res.json()
-}
-
-async function fetchConfirmations(conversationId: string): Promise<Confirmation[]> {
-  const res = await authFetch(`${API_BASE}/chat/conversations/${conversationId}/confirmations`)
-  if (!res.ok) throw new Error('Failed to fetch confirmations')
-  return res.json()
-}
-
-async function uploadFile(conversationId: string, file: File): Promise<Attachment> {
-  const formData = new FormData()
-  formData.append('file', file)
-
-  const res = await authFetch(`${API_BASE}/chat/conversations/${conversationId}/upload`, {
-    method: 'POST',
-    body: formData,
-  })
-  if (!res.ok) throw new Error('Failed to upload file')
-  return res.json()
-}
-
-async function fetchChatModels(): Promise<{ models: ChatModel[]; current_model: string }> {
-  const res = await authFetch(`${API_BASE}/settings/chat-models`)
-  if (!res.ok) throw new Error('Failed to fetch chat models')
-  return res.json()
-}
+import { useAuth } from '../auth'
+import { usePollingFallback } from '../realtime'
+import { useRouteId } from '../router'
+import {
+  fetchConversations,
+  createConversation,
+  deleteConversation,
+  fetchMessages,
+  fetchConfirmations,
+  uploadChatFile,
+  streamMessage,
+  confirmAction,
+  cancelAction,
+  fetchChatModels,
+} from '../api'
+import type { ChatAttachment } from '../api'
 
 export function Chat() {
   const queryClient = useQueryClient()
   const { isAuthenticated } = useAuth()
-  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null)
+  const [selectedConversationId, setSelectedConversationId] = useRouteId('chat')
   const [message, setMessage] = useState('')
   const [isStreaming, setIsStreaming] = useState(false)
   const [streamContent, setStreamContent] = useState('')
-  const [attachments, setAttachments] = useState<Attachment[]>([])
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([])
   const [pendingUserMessage, setPendingUserMessage] = useState<string | null>(null)
   const [sidebarOpen, setSidebarOpen] = useState(true)
   const [selectedModel, setSelectedModel] = useState<string | null>(null)
@@ -138,12 +57,16 @@ export function Chat() {
     enabled: isAuthenticated,
   })
 
-  // Fetch messages for selected conversation
+  // Confirmations are pushed over the realtime socket; poll only while it's down
+  const confirmationsPollInterval = usePollingFallback(3000)
+
+  // Fetch messages for selected conversation. The socket doesn't push
+  // messages, so keep polling even while it's connected
   const { data: messages = [], isLoading: isLoadingMessages } = useQuery({
     queryKey: ['messages', selectedConversationId],
     queryFn: () => selectedConversationId ? fetchMessages(selectedConversationId) : Promise.resolve([]),
     enabled: !!selectedConversationId,
-    refetchInterval: isStreaming ? false : 5000, // Refresh every 5s when not streaming
+    refetchInterval: isStreaming ? false : 5000,
   })
 
   // Fetch confirmations
@@ -151,7 +74,7 @@ export function Chat() {
     queryKey: ['confirmations', selectedConversationId],
     queryFn: () => selectedConversationId ? fetchConfirmations(selectedConversationId) : Promise.resolve([]),
     enabled: !!selectedConversationId,
-    refetchInterval: 3000,
+    refetchInterval: confirmationsPollInterval,
   })
 
   // Fetch chat models
@@ -173,9 +96,9 @@ export function Chat() {
   // Auto-select first conversation or create one
   useEffect(() => {
     if (!selectedConversationId && conversations.length > 0) {
-      setSelectedConversationId(conversations[0].id)
+      setSelectedConversationId(conversations[0].id, { replace: true })
     }
-  }, [conversations, selectedConversationId])
+  }, [conversations, selectedConversationId, setSelectedConversationId])
 
   // Scroll to bottom on new messages
   useEffect(() => {
@@ -197,9 +120,9 @@ export function Chat() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['conversations'] })
       if (conversations.length > 1) {
-        setSelectedConversationId(conversations.find(c => c.id !== selectedConversationId)?.id || null)
+        setSelectedConversationId(conversations.find(c => c.id !== selectedConversationId)?.id || null, { replace: true })
       } else {
-        setSelectedConversationId(null)
+        setSelectedConversationId(null, { replace: true })
       }
     },
   })
@@ -211,7 +134,7 @@ export function Chat() {
 
     for (const file of files) {
       try {
-        const uploaded = await uploadFile(selectedConversationId, file)
+        const uploaded = await uploadChatFile(selectedConversationId, file)
         setAttachments(prev => [...prev, uploaded])
       } catch (error) {
         console.error('Failed to upload file:', error)
@@ -236,52 +159,24 @@ export function Chat() {
     setStreamContent('')
 
     try {
-      const response = await authFetch(`${API_BASE}/chat/conversations/${selectedConversationId}/messages`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      await streamMessage(
+        selectedConversationId,
+        {
           message: currentMessage,
           attachments: currentAttachments.length > 0 ? currentAttachments : undefined,
           model_id: selectedModel || undefined,
-        }),
-      })
-
-      if (!response.ok) throw new Error('Failed to send message')
-
-      const reader = response.body?.getReader()
-      if (!reader) throw new Error('No response body')
-
-      const decoder = new TextDecoder()
-      let buffer = ''
-
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        buffer += decoder.decode(value, { stream: true })
-
-        // Process complete SSE events
-        const lines = buffer.split('\n\n')
-        buffer = lines.pop() || '' // Keep incomplete line in buffer
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6))
-              if (data.type === 'content') {
-                setStreamContent(prev => prev + data.content)
-              } else if (data.type === 'done') {
-                // Refresh messages
-                queryClient.invalidateQueries({ queryKey: ['messages', selectedConversationId] })
-              } else if (data.type === 'error') {
-                console.error('Stream error:', data.error)
-              }
-            } catch (e) {
-              console.error('Failed to parse SSE data:', e)
-            }
+        },
+        (event) => {
+          if (event.type === 'content') {
+            setStreamContent(prev => prev + event.content)
+          } else if (event.type === 'done') {
+            // Refresh messages
+            queryClient.invalidateQueries({ queryKey: ['messages', selectedConversationId] })
+          } else if (event.type === 'error') {
+            console.error('Stream error:', event.error)
           }
         }
-      }
+      )
     } catch (error) {
       console.error('Failed to send message:', error)
     } finally {
@@ -472,16 +367,12 @@ export function Chat() {
                       key={conf.id}
                       confirmation={conf}
                       onConfirm={async () => {
-                        await authFetch(`${API_BASE}/chat/confirmations/${conf.id}/confirm`, {
-                          method: 'POST',
-                        })
+                        await confirmAction(conf.id)
                         queryClient.invalidateQueries({ queryKey: ['confirmations', selectedConversationId] })
                         queryClient.invalidateQueries({ queryKey: ['messages', selectedConversationId] })
                       }}
                       onCancel={async () => {
-                        await authFetch(`${API_BASE}/chat/confirmations/${conf.id}/cancel`, {
-                          method: 'POST',
-                        })
+                        await cancelAction(conf.id)
                         queryClient.invalidateQueries({ queryKey: ['confirmations', selectedConversationId] })
                       }}
                     />
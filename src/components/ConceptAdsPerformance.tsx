@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Loader2, BarChart3 } from 'lucide-react'
+import { fetchAdsByIds, fetchGoals, fetchProductGoals } from '../api'
+import type { AdConcept, AdInsights, DatePreset } from '../api'
+import { classifyAd, goalsForProduct } from '../utils/adTiers'
+import { formatNumber } from '../utils/metrics'
+import { useNavigate, buildPath } from '../router'
+import { AdTierBadge } from './AdTierBadge'
+
+interface ConceptAdsPerformanceProps {
+  concept: AdConcept
+}
+
+const PERIODS: Array<{ value: DatePreset; label: string }> = [
+  { value: 'last_7d', label: '7d' },
+  { value: 'last_30d', label: '30d' },
+]
+
+const STATS: Array<{ id: keyof AdInsights; label: string; format: (n: number) => string }> = [
+  { id: 'spend', label: 'Spend', format: n => `$${n.toFixed(2)}` },
+  { id: 'link_ctr', label: 'CTR', format: n => `${n.toFixed(2)}%` },
+  { id: 'link_cpc', label: 'CPC', format: n => `$${n.toFixed(2)}` },
+  { id: 'purchases', label: 'Purch', format: n => n.toString() },
+  { id: 'cost_per_purchase', label: 'CPA', format: n => `$${n.toFixed(2)}` },
+  { id: 'roas', label: 'ROAS', format: n => `${n.toFixed(2)}x` },
+]
+
+// Live insights for the Facebook ads pushed from a concept
+export function ConceptAdsPerformance({ concept }: ConceptAdsPerformanceProps) {
+  const navigate = useNavigate()
+  const [period, setPeriod] = useState<DatePreset>('last_7d')
+  const adIds = concept.fb_ad_ids || []
+
+  const { data: ads = [], isLoading, error } = useQuery({
+    queryKey: ['concept-ads', concept.id, adIds, period],
+    queryFn: () => fetchAdsByIds(adIds, period),
+    enabled: adIds.length > 0,
+  })
+
+  const { data: goals } = useQuery({ queryKey: ['goals'], queryFn: fetchGoals })
+  const { data: productGoals = [] } = useQuery({ queryKey: ['product-goals'], queryFn: fetchProductGoals })
+
+  const openInAnalytics = (adId: string) => {
+    navigate(buildPath('analytics', null, new URLSearchParams({ range: period, ad: adId })))
+  }
+
+  return (
+    <div className="border border-[#E5E5E5]">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-[#E5E5E5] bg-[#FAFAFA]">
+        <span className="text-xs text-[#737373]">
+          {adIds.length} ad{adIds.length !== 1 ? 's' : ''} on Facebook
+        </span>
+        <div className="flex items-center gap-1">
+          {PERIODS.map(p => (
+            <button
+              key={p.value}
+              onClick={() => setPeriod(p.value)}
+              className={`px-2 py-0.5 text-xs border ${
+                period === p.value ? 'bg-black text-white border-black' : 'bg-white text-[#737373] border-[#E5E5E5] hover:border-black'
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="py-6 text-center">
+          <Loader2 className="w-4 h-4 animate-spin mx-auto text-[#A3A3A3]" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600 p-3">{(error as Error).message}</p>
+      ) : (
+        <div className="divide-y divide-[#E5E5E5]">
+          {adIds.map(adId => {
+            const ad = ads.find(a => a.id === adId)
+            const tier = ad && goals
+              ? classifyAd(ad.insights, goalsForProduct(concept.product_id || null, goals, productGoals))
+              : null
+            return (
+              <div key={adId} className="p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-sm truncate">{ad?.name || adId}</span>
+                    {tier && <AdTierBadge tier={tier} />}
+                  </div>
+                  <button
+                    onClick={() => openInAnalytics(adId)}
+                    className="flex items-center gap-1 text-xs text-[#737373] hover:text-black flex-shrink-0"
+                  >
+                    <BarChart3 className="w-3 h-3" />
+                    Analytics
+                  </button>
+                </div>
+                {ad ? (
+                  <div className="grid grid-cols-6 gap-2">
+                    {STATS.map(stat => (
+                      <div key={stat.id}>
+                        <p className="text-[10px] text-[#A3A3A3]">{stat.label}</p>
+                        <p className="text-sm font-medium">{formatNumber(ad.insights?.[stat.id], stat.format)}</p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-[#A3A3A3]">No insights for this ad yet</p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+import { useState, useMemo, ReactNode } from 'react'
+import { ChevronDown, ChevronRight, CheckCircle, XCircle, Facebook } from 'lucide-react'
+import { Button } from './ui/button'
+import { FeedbackModal } from './FeedbackModal'
+import type { AdConcept, ConceptStatus, Product } from '../api'
+
+interface ConceptBatchGroupProps {
+  batchNumber: string
+  concepts: AdConcept[]
+  products: Product[]
+  children: ReactNode
+  defaultExpanded?: boolean
+  onBulkApprove?: (ids: string[]) => void
+  onBulkReject?: (ids: string[], feedback: string) => void | Promise<void>
+  onBulkPushFB?: (ids: string[]) => void
+}
+
+const statusOrder: ConceptStatus[] = ['ready', 'approved', 'rejected', 'researching', 'generating', 'reviewing']
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+
+function summarizeBatch(concepts: AdConcept[]) {
+  const statusCounts: Partial<Record<ConceptStatus, number>> = {}
+  concepts.forEach(c => {
+    statusCounts[c.status] = (statusCounts[c.status] || 0) + 1
+  })
+
+  const scores = concepts
+    .map(c => c.principle_check?.score)
+    .filter((s): s is number => s !== undefined)
+  const ratings = concepts
+    .map(c => c.rating)
+    .filter((r): r is number => !!r)
+
+  return {
+    statusCounts,
+    avgScore: average(scores),
+    avgRating: average(ratings),
+    formats: Array.from(new Set(concepts.map(c => c.format_id || c.hypothesis?.format_id).filter(Boolean))) as string[],
+    hypotheses: Array.from(new Set(concepts.map(c => c.hypothesis?.hypothesis).filter(Boolean))) as string[],
+    productIds: Array.from(new Set(concepts.map(c => c.product_id).filter(Boolean))) as string[],
+    // Ready concepts that passed the principle check can be approved in one go
+    passingReadyIds: concepts.filter(c => c.status === 'ready' && c.principle_check?.passed).map(c => c.id),
+    // Approved concepts may already be live on Facebook; reject those one by one
+    rejectableIds: concepts.filter(c => c.status === 'ready').map(c => c.id),
+    approvedIds: concepts.filter(c => c.status === 'approved').map(c => c.id),
+  }
+}
+
+export function ConceptBatchGroup({
+  batchNumber,
+  concepts,
+  products,
+  children,
+  defaultExpanded = true,
+  onBulkApprove,
+  onBulkReject,
+  onBulkPushFB,
+}: ConceptBatchGroupProps) {
+  const [expanded, setExpanded] = useState(defaultExpanded)
+  const [rejectOpen, setRejectOpen] = useState(false)
+  const [isRejecting, setIsRejecting] = useState(false)
+
+  const summary = useMemo(() => summarizeBatch(concepts), [concepts])
+  const productNames = summary.productIds
+    .map(id => products.find(p => p.id === id)?.name || id)
+    .join(', ')
+
+  const handleReject = async (feedback: string) => {
+    setIsRejecting(true)
+    try {
+      await onBulkReject?.(summary.rejectableIds, feedback)
+      setRejectOpen(false)
+    } finally {
+      setIsRejecting(false)
+    }
+  }
+
+  return (
+    <div className="border-b border-[#E5E5E5]">
+      {/* Batch header */}
+      <div className="px-3 py-2 bg-[#FAFAFA] space-y-1.5">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="w-full flex items-center gap-1 text-left"
+        >
+          {expanded ? (
+            <ChevronDown className="w-3 h-3 text-[#A3A3A3]" />
+          ) : (
+            <ChevronRight className="w-3 h-3 text-[#A3A3A3]" />
+          )}
+          <span className="text-sm font-medium">{batchNumber}</span>
+          <span className="text-xs text-[#A3A3A3] ml-1">{concepts.length}</span>
+          {productNames && (
+            <span className="text-xs text-[#737373] truncate ml-auto">{productNames}</span>
+          )}
+        </button>
+
+        <div className="flex flex-wrap gap-x-2 gap-y-0.5 text-[10px] text-[#737373]">
+          {statusOrder
+            .filter(status => summary.statusCounts[status])
+            .map(status => (
+              <span key={status}>{summary.statusCounts[status]} {status}</span>
+            ))}
+          {summary.avgScore !== null && <span>· score {Math.round(summary.avgScore)}</span>}
+          {summary.avgRating !== null && <span>· ★ {summary.avgRating.toFixed(1)}</span>}
+        </div>
+
+        {expanded && (summary.formats.length > 0 || summary.hypotheses.length > 0) && (
+          <div className="space-y-0.5">
+            {summary.formats.length > 0 && (
+              <p className="text-[10px] text-[#A3A3A3]">
+                Formats: <span className="text-[#8B5CF6]">{summary.formats.join(', ')}</span>
+              </p>
+            )}
+            {summary.hypotheses.map((h, i) => (
+              <p key={i} className="text-[10px] text-[#A3A3A3] line-clamp-1" title={h}>
+                {h}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {expanded && (
+          <div className="flex gap-1">
+            {onBulkApprove && summary.passingReadyIds.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 text-[10px] h-6 px-1"
+                onClick={() => onBulkApprove(summary.passingReadyIds)}
+                title="Approve ready concepts that passed the principle check"
+              >
+                <CheckCircle className="w-3 h-3 mr-1" />
+                Passing ({summary.passingReadyIds.length})
+              </Button>
+            )}
+            {onBulkReject && summary.rejectableIds.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 text-[10px] h-6 px-1"
+                onClick={() => setRejectOpen(true)}
+              >
+                <XCircle className="w-3 h-3 mr-1" />
+                Reject ready ({summary.rejectableIds.length})
+              </Button>
+            )}
+            {onBulkPushFB && summary.approvedIds.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 text-[10px] h-6 px-1"
+                onClick={() => onBulkPushFB(summary.approvedIds)}
+              >
+                <Facebook className="w-3 h-3 mr-1" />
+                Push ({summary.approvedIds.length})
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {expanded && children}
+
+      <FeedbackModal
+        open={rejectOpen}
+        onClose={() => setRejectOpen(false)}
+        onSubmit={handleReject}
+        isLoading={isRejecting}
+      />
+    </div>
+  )
+}
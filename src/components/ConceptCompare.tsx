@@ -0,0 +1,345 @@
+import { useState, useMemo, ReactNode } from 'react'
+import { X, Star, Check, AlertTriangle } from 'lucide-react'
+import { Button } from './ui/button'
+import { FeedbackModal } from './FeedbackModal'
+import type { AdConcept } from '../api'
+import { formatConfidence } from '../utils/confidence'
+
+interface ConceptCompareProps {
+  concepts: AdConcept[]
+  onClose: () => void
+  onApprove: (id: string) => void
+  onReject: (id: string, feedback: string) => void
+  onSetRating: (id: string, rating: number) => void
+  isApproving: boolean
+  isRejecting: boolean
+}
+
+export const MIN_COMPARE = 2
+export const MAX_COMPARE = 4
+
+const gridCols: Record<number, string> = {
+  2: 'grid-cols-2',
+  3: 'grid-cols-3',
+  4: 'grid-cols-4',
+}
+
+function imageSrc(img: string): string {
+  return img.startsWith('data:') || img.startsWith('http') ? img : `data:image/png;base64,${img}`
+}
+
+// One labelled row with a cell per concept, so sections line up across columns
+function CompareRow({ label, columns, children }: { label: string; columns: number; children: ReactNode }) {
+  return (
+    <div className="border-b border-[#E5E5E5]">
+      <h3 className="px-4 pt-3 text-xs font-medium text-[#737373] uppercase tracking-wide">{label}</h3>
+      <div className={`grid ${gridCols[columns]} divide-x divide-[#E5E5E5]`}>
+        {children}
+      </div>
+    </div>
+  )
+}
+
+export function ConceptCompare({
+  concepts,
+  onClose,
+  onApprove,
+  onReject,
+  onSetRating,
+  isApproving,
+  isRejecting,
+}: ConceptCompareProps) {
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const columns = concepts.length
+
+  // Principle-check differences across the compared concepts
+  const checkDiff = useMemo(() => {
+    const scores = concepts
+      .map(c => c.principle_check?.score)
+      .filter((s): s is number => s !== undefined)
+    const passedValues = new Set(concepts.map(c => !!c.principle_check?.passed))
+
+    // How many concepts flag each rule - a rule not shared by all is a difference
+    const ruleCounts = new Map<string, number>()
+    for (const c of concepts) {
+      const rules = new Set((c.principle_check?.issues || []).map(i => i.rule))
+      rules.forEach(rule => ruleCounts.set(rule, (ruleCounts.get(rule) || 0) + 1))
+    }
+
+    return {
+      bestScore: scores.length > 1 ? Math.max(...scores) : undefined,
+      worstScore: scores.length > 1 ? Math.min(...scores) : undefined,
+      passedDiffers: passedValues.size > 1,
+      isSharedRule: (rule: string) => ruleCounts.get(rule) === concepts.length,
+    }
+  }, [concepts])
+
+  const formatDiffers = new Set(concepts.map(c => c.format_id || c.hypothesis?.format_id || '')).size > 1
+
+  const handleReject = (feedback: string) => {
+    if (rejectingId) {
+      onReject(rejectingId, feedback)
+      setRejectingId(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/20 flex items-center justify-center z-50">
+      <div className="bg-white border border-[#E5E5E5] w-full h-full max-w-[1400px] max-h-[95vh] m-4 flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-[#E5E5E5] flex-shrink-0">
+          <div>
+            <h2 className="font-medium">Compare Concepts</h2>
+            <p className="text-xs text-[#A3A3A3]">
+              {columns} concepts side by side - differences in review results are highlighted
+            </p>
+          </div>
+          <button onClick={onClose} className="text-[#A3A3A3] hover:text-black">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {/* Column headers + actions */}
+          <div className={`grid ${gridCols[columns]} divide-x divide-[#E5E5E5] border-b border-[#E5E5E5] sticky top-0 bg-white z-10`}>
+            {concepts.map(concept => (
+              <div key={concept.id} className="p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-semibold">{concept.batch_number}</span>
+                  <span className="text-xs text-[#737373]">{concept.status}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <button
+                      key={star}
+                      onClick={() => onSetRating(concept.id, star)}
+                      className="p-0.5"
+                    >
+                      <Star
+                        className={`w-4 h-4 ${
+                          concept.rating && star <= concept.rating
+                            ? 'fill-black text-black'
+                            : 'text-[#D4D4D4] hover:text-[#A3A3A3]'
+                        }`}
+                      />
+                    </button>
+                  ))}
+                </div>
+                {concept.status === 'ready' && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 text-xs h-7"
+                      onClick={() => setRejectingId(concept.id)}
+                    >
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="flex-1 text-xs h-7"
+                      onClick={() => onApprove(concept.id)}
+                      disabled={isApproving}
+                    >
+                      Approve
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Principle check */}
+          <CompareRow label="Review" columns={columns}>
+            {concepts.map(concept => {
+              const check = concept.principle_check
+              const score = check?.score
+              const isBest = score !== undefined && checkDiff.bestScore !== checkDiff.worstScore && score === checkDiff.bestScore
+              const isWorst = score !== undefined && checkDiff.bestScore !== checkDiff.worstScore && score === checkDiff.worstScore
+
+              return (
+                <div key={concept.id} className="p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={`text-xs px-1.5 py-0.5 ${
+                        checkDiff.passedDiffers
+                          ? check?.passed ? 'bg-black text-white' : 'bg-red-50 text-red-600'
+                          : 'bg-[#F5F5F5] text-[#737373]'
+                      }`}
+                    >
+                      {check?.passed ? 'Passed' : 'Failed'}
+                    </span>
+                    {score !== undefined && (
+                      <span
+                        className={`text-sm ${
+                          isBest ? 'font-semibold text-black' : isWorst ? 'text-red-600' : 'text-[#737373]'
+                        }`}
+                      >
+                        {score}/100
+                        {isBest && <span className="text-xs font-normal text-[#A3A3A3] ml-1">best</span>}
+                        {!isBest && checkDiff.bestScore !== undefined && score !== checkDiff.bestScore && (
+                          <span className="text-xs font-normal text-[#A3A3A3] ml-1">
+                            {score - checkDiff.bestScore}
+                          </span>
+                        )}
+                      </span>
+                    )}
+                  </div>
+
+                  {check?.issues && check.issues.length > 0 ? (
+                    <ul className="space-y-2">
+                      {check.issues.map((issue, i) => {
+                        const shared = checkDiff.isSharedRule(issue.rule)
+                        return (
+                          <li
+                            key={i}
+                            className={`text-xs p-2 ${shared ? 'text-[#737373]' : 'bg-[#FEF3C7] text-black'}`}
+                          >
+                            <span className="font-medium">{issue.rule}:</span> {issue.problem}
+                            {!shared && columns > 1 && (
+                              <span className="block text-[10px] text-[#A16207] mt-0.5">Only flagged on some concepts</span>
+                            )}
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  ) : (
+                    <p className="text-xs text-[#A3A3A3] flex items-center gap-1">
+                      <Check className="w-3 h-3" /> No issues
+                    </p>
+                  )}
+
+                  {check?.ai_slop_detected && check.ai_slop_detected.length > 0 && (
+                    <p className="text-xs flex items-start gap-1">
+                      <AlertTriangle className="w-3 h-3 text-red-600 flex-shrink-0 mt-0.5" />
+                      <span className="text-red-600">{check.ai_slop_detected.join(', ')}</span>
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </CompareRow>
+
+          {/* Format */}
+          <CompareRow label="Format" columns={columns}>
+            {concepts.map(concept => {
+              const formatId = concept.format_id || concept.hypothesis?.format_id
+              return (
+                <div key={concept.id} className="p-4">
+                  <p className={`text-sm ${formatId ? 'font-medium text-[#8B5CF6]' : 'text-[#A3A3A3]'} ${formatDiffers ? 'underline decoration-dotted' : ''}`}>
+                    {formatId || 'No format'}
+                  </p>
+                  {concept.hypothesis?.image_preset_id && (
+                    <p className="text-xs text-[#A3A3A3] mt-1">Preset: {concept.hypothesis.image_preset_id}</p>
+                  )}
+                </div>
+              )
+            })}
+          </CompareRow>
+
+          {/* Hypothesis */}
+          <CompareRow label="Hypothesis" columns={columns}>
+            {concepts.map(concept => (
+              <div key={concept.id} className="p-4 space-y-1">
+                {concept.hypothesis ? (
+                  <>
+                    <p className="text-sm">{concept.hypothesis.hypothesis}</p>
+                    {concept.hypothesis.angle && (
+                      <p className="text-xs text-[#A3A3A3]">Angle: {concept.hypothesis.angle}</p>
+                    )}
+                    {concept.hypothesis.awareness_stage && (
+                      <p className="text-xs text-[#A3A3A3]">Awareness: {concept.hypothesis.awareness_stage}</p>
+                    )}
+                    {typeof concept.hypothesis.confidence === 'number' && (
+                      <p className="text-xs text-[#A3A3A3]">Confidence: {formatConfidence(concept.hypothesis.confidence)}</p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-xs text-[#A3A3A3]">No hypothesis</p>
+                )}
+              </div>
+            ))}
+          </CompareRow>
+
+          {/* Patterns */}
+          <CompareRow label="Patterns" columns={columns}>
+            {concepts.map(concept => (
+              <div key={concept.id} className="p-4 space-y-2">
+                {concept.patterns_used?.length ? (
+                  concept.patterns_used.map((pattern, i) => (
+                    <div key={i} className="text-xs">
+                      <p className="font-medium">{pattern.pattern}</p>
+                      <p className="text-[#A3A3A3]">
+                        {pattern.mentions} mentions | {pattern.emotional_valence}
+                      </p>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-xs text-[#A3A3A3]">No patterns</p>
+                )}
+              </div>
+            ))}
+          </CompareRow>
+
+          {/* Headlines */}
+          <CompareRow label="Headlines" columns={columns}>
+            {concepts.map(concept => (
+              <div key={concept.id} className="p-4 space-y-1">
+                {concept.headlines?.map((headline, i) => (
+                  <p key={i} className="text-sm">
+                    <span className="text-xs text-[#A3A3A3] mr-1">V{String(i + 1).padStart(2, '0')}</span>
+                    {headline}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </CompareRow>
+
+          {/* Primary texts */}
+          <CompareRow label="Primary Text" columns={columns}>
+            {concepts.map(concept => (
+              <div key={concept.id} className="p-4 space-y-3">
+                {concept.primary_texts?.map((text, i) => (
+                  <div key={i} className="space-y-1">
+                    <span className="text-xs text-[#A3A3A3]">V{String(i + 1).padStart(2, '0')}</span>
+                    <p className="text-sm whitespace-pre-wrap">{text}</p>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </CompareRow>
+
+          {/* Images */}
+          <CompareRow label="Images" columns={columns}>
+            {concepts.map(concept => (
+              <div key={concept.id} className="p-4 flex flex-wrap gap-2">
+                {concept.images?.length ? (
+                  concept.images.map((img, i) => (
+                    <a
+                      key={i}
+                      href={imageSrc(img)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="border border-[#E5E5E5] hover:border-[#D4D4D4] transition-colors"
+                    >
+                      <img src={imageSrc(img)} alt={`Generated ${i + 1}`} className="w-24 h-24 object-cover" />
+                    </a>
+                  ))
+                ) : (
+                  <p className="text-xs text-[#A3A3A3]">No images</p>
+                )}
+              </div>
+            ))}
+          </CompareRow>
+        </div>
+      </div>
+
+      <FeedbackModal
+        open={rejectingId !== null}
+        onClose={() => setRejectingId(null)}
+        onSubmit={handleReject}
+        isLoading={isRejecting}
+      />
+    </div>
+  )
+}
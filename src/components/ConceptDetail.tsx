@@ -1,9 +1,16 @@
 import { useState } from 'react'
-import { ChevronDown, ChevronUp, X, Star, Copy, Check, Download, Trash2, Send } from 'lucide-react'
+import { useQueryClient } from '@tanstack/react-query'
+import { ChevronDown, ChevronUp, X, Star, Copy, Download, Trash2, Send, ThumbsUp, ThumbsDown } from 'lucide-react'
 import { Button } from './ui/button'
 import { PushToFBWizard } from './PushToFBWizard'
 import { LLMLogsViewer } from './LLMLogsViewer'
-import type { AdConcept, Product } from '../App'
+import { CopyButton } from './CopyButton'
+import { EditableVariantList } from './EditableVariantList'
+import { CopyVersionHistory } from './CopyVersionHistory'
+import { ConceptAdsPerformance } from './ConceptAdsPerformance'
+import type { AdConcept, Product, UpdateCopyInput } from '../api'
+import { useNavigate, buildPath } from '../router'
+import { formatConfidence } from '../utils/confidence'
 
 interface ConceptDetailProps {
   concept: AdConcept | null
@@ -13,34 +20,11 @@ interface ConceptDetailProps {
   onAddNotes: (id: string, notes: string) => void
   onSetRating: (id: string, rating: number) => void
   onDelete: (id: string) => void
+  onUpdateCopy: (id: string, input: UpdateCopyInput) => void
+  onRevertCopy: (id: string, versionId: string) => void
   isApproving: boolean
   isDeleting?: boolean
-}
-
-// Copy button with feedback
-function CopyButton({ text, className = '' }: { text: string; className?: string }) {
-  const [copied, setCopied] = useState(false)
-
-  const handleCopy = async (e: React.MouseEvent) => {
-    e.stopPropagation()
-    try {
-      await navigator.clipboard.writeText(text)
-      setCopied(true)
-      setTimeout(() => setCopied(false), 2000)
-    } catch (err) {
-      console.error('Failed to copy:', err)
-    }
-  }
-
-  return (
-    <button
-      onClick={handleCopy}
-      className={`p-1 transition-colors ${copied ? 'text-black' : 'text-[#A3A3A3] hover:text-black'} ${className}`}
-      title={copied ? 'Copied!' : 'Copy to clipboard'}
-    >
-      {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-    </button>
-  )
+  isSavingCopy?: boolean
 }
 
 export function ConceptDetail({
@@ -51,10 +35,12 @@ export function ConceptDetail({
   onAddNotes,
   onSetRating,
   onDelete,
+  onUpdateCopy,
+  onRevertCopy,
   isApproving,
-  isDeleting = false
+  isDeleting = false,
+  isSavingCopy = false
 }: ConceptDetailProps) {
-  const [expandedText, setExpandedText] = useState<number | null>(null)
   const [rejectModalOpen, setRejectModalOpen] = useState(false)
   const [notesModalOpen, setNotesModalOpen] = useState(false)
   const [deleteModalOpen, setDeleteModalOpen] = useState(false)
@@ -62,13 +48,18 @@ export function ConceptDetail({
   const [notes, setNotes] = useState('')
   const [enlargedImage, setEnlargedImage] = useState<{ url: string; prompt?: string } | null>(null)
   const [researchExpanded, setResearchExpanded] = useState(false)
+  const [learningsExpanded, setLearningsExpanded] = useState(false)
   const [originalExpanded, setOriginalExpanded] = useState(false)
   const [changelogExpanded, setChangelogExpanded] = useState(false)
   const [reviewExpanded, setReviewExpanded] = useState(false)
   const [llmLogsExpanded, setLlmLogsExpanded] = useState(false)
+  const [historyExpanded, setHistoryExpanded] = useState(false)
+  const [performanceExpanded, setPerformanceExpanded] = useState(true)
 
   // Facebook Push wizard
   const [fbWizardOpen, setFbWizardOpen] = useState(false)
+  const queryClient = useQueryClient()
+  const navigate = useNavigate()
 
   if (!concept) {
     return (
@@ -80,6 +71,8 @@ export function ConceptDetail({
 
   const isReady = concept.status === 'ready'
   const isProcessing = ['researching', 'generating', 'reviewing'].includes(concept.status)
+  // Copy stays editable until the concept is rejected back to the AI
+  const isEditable = concept.status === 'ready' || concept.status === 'approved'
 
   const handleReject = () => {
     if (feedback.trim()) {
@@ -228,9 +221,9 @@ export function ConceptDetail({
                     {(concept.hypothesis as any).reasoning && (
                       <p className="text-xs text-[#737373]">{(concept.hypothesis as any).reasoning}</p>
                     )}
-                    {(concept.hypothesis as any).confidence && (
+                    {typeof (concept.hypothesis as any).confidence === 'number' && (
                       <p className="text-xs text-[#A3A3A3]">
-                        Confidence: {(concept.hypothesis as any).confidence}%
+                        Confidence: {formatConfidence((concept.hypothesis as any).confidence)}
                       </p>
                     )}
                     {(concept.hypothesis as any).awareness_stage && (
@@ -292,6 +285,50 @@ export function ConceptDetail({
           </div>
         )}
 
+        {/* Learnings injected into generation */}
+        {(concept.applied_learnings?.length || 0) > 0 && (
+          <div className="space-y-2">
+            <button
+              onClick={() => setLearningsExpanded(!learningsExpanded)}
+              className="w-full flex items-center justify-between text-left"
+            >
+              <h3 className="text-xs font-medium text-[#737373] uppercase tracking-wide">
+                Learnings Applied ({concept.applied_learnings!.length})
+              </h3>
+              {learningsExpanded ? (
+                <ChevronUp className="w-4 h-4 text-[#A3A3A3]" />
+              ) : (
+                <ChevronDown className="w-4 h-4 text-[#A3A3A3]" />
+              )}
+            </button>
+
+            {learningsExpanded && (
+              <div className="border border-[#E5E5E5] divide-y divide-[#F5F5F5]">
+                {concept.applied_learnings!.map(learning => (
+                  <button
+                    key={learning.id}
+                    onClick={() => navigate(buildPath('learnings', learning.id))}
+                    className="w-full flex items-start gap-2 p-3 text-left hover:bg-[#FAFAFA]"
+                    title="Open in Learnings"
+                  >
+                    {learning.type === 'do' ? (
+                      <ThumbsUp className="w-3.5 h-3.5 mt-0.5 text-green-600 flex-shrink-0" />
+                    ) : (
+                      <ThumbsDown className="w-3.5 h-3.5 mt-0.5 text-red-600 flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm">{learning.insight}</p>
+                      <p className="text-xs text-[#A3A3A3] mt-0.5">
+                        {learning.category} · {Math.round(learning.confidence * 100)}% confidence at generation
+                      </p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Processing state */}
         {isProcessing && (
           <div className="py-12 text-center">
@@ -335,42 +372,18 @@ export function ConceptDetail({
         )}
 
         {/* Primary Text (Revised) */}
-        {concept.primary_texts && concept.primary_texts.length > 0 && (
+        {(isEditable || concept.primary_texts?.length > 0) && (
           <div className="space-y-3">
             <h3 className="text-xs font-medium text-[#737373] uppercase tracking-wide">
               Primary Text {concept.revision_changelog && concept.revision_changelog.length > 0 ? '(Revised)' : ''}
             </h3>
-            {concept.primary_texts.map((text, i) => {
-              const isExpanded = expandedText === i
-              return (
-                <div key={i} className="border border-[#E5E5E5]">
-                  <div className="p-4 flex items-start justify-between gap-4">
-                    <button
-                      onClick={() => setExpandedText(isExpanded ? null : i)}
-                      className="flex-1 text-left"
-                    >
-                      <span className="text-xs text-[#A3A3A3] mb-1 block">V{String(i + 1).padStart(2, '0')}</span>
-                      <p className={`text-sm ${isExpanded ? 'whitespace-pre-wrap' : 'line-clamp-3'}`}>
-                        {text}
-                      </p>
-                    </button>
-                    <div className="flex items-center gap-1 flex-shrink-0">
-                      <CopyButton text={text} />
-                      <button
-                        onClick={() => setExpandedText(isExpanded ? null : i)}
-                        className="p-1 text-[#A3A3A3]"
-                      >
-                        {isExpanded ? (
-                          <ChevronUp className="w-4 h-4" />
-                        ) : (
-                          <ChevronDown className="w-4 h-4" />
-                        )}
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              )
-            })}
+            <EditableVariantList
+              variants={concept.primary_texts || []}
+              multiline
+              editable={isEditable}
+              isSaving={isSavingCopy}
+              onSave={(values, action) => onUpdateCopy(concept.id, { field: 'primary_texts', values, action })}
+            />
           </div>
         )}
 
@@ -443,20 +456,66 @@ export function ConceptDetail({
         )}
 
         {/* Headlines */}
-        {concept.headlines && concept.headlines.length > 0 && (
+        {(isEditable || concept.headlines?.length > 0) && (
           <div className="space-y-2">
             <h3 className="text-xs font-medium text-[#737373] uppercase tracking-wide">Headlines</h3>
-            <div className="space-y-2">
-              {concept.headlines.map((headline, i) => (
-                <div key={i} className="border border-[#E5E5E5] p-3 flex items-center justify-between">
-                  <div className="flex-1">
-                    <span className="text-xs text-[#A3A3A3] mr-2">V{String(i + 1).padStart(2, '0')}</span>
-                    <span className="text-sm">{headline}</span>
-                  </div>
-                  <CopyButton text={headline} />
-                </div>
-              ))}
-            </div>
+            <EditableVariantList
+              variants={concept.headlines || []}
+              editable={isEditable}
+              isSaving={isSavingCopy}
+              onSave={(values, action) => onUpdateCopy(concept.id, { field: 'headlines', values, action })}
+            />
+          </div>
+        )}
+
+        {/* Copy Version History */}
+        {!isProcessing && (
+          <div className="space-y-2">
+            <button
+              onClick={() => setHistoryExpanded(!historyExpanded)}
+              className="w-full flex items-center justify-between text-left"
+            >
+              <h3 className="text-xs font-medium text-[#737373] uppercase tracking-wide">
+                Version History
+              </h3>
+              {historyExpanded ? (
+                <ChevronUp className="w-4 h-4 text-[#A3A3A3]" />
+              ) : (
+                <ChevronDown className="w-4 h-4 text-[#A3A3A3]" />
+              )}
+            </button>
+
+            {historyExpanded && (
+              <CopyVersionHistory
+                conceptId={concept.id}
+                currentValues={{ primary_texts: concept.primary_texts || [], headlines: concept.headlines || [] }}
+                changelog={concept.revision_changelog}
+                onRevert={(versionId) => onRevertCopy(concept.id, versionId)}
+                canRevert={isEditable}
+                isReverting={isSavingCopy}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Live Performance */}
+        {(concept.fb_ad_ids?.length || 0) > 0 && (
+          <div className="space-y-2">
+            <button
+              onClick={() => setPerformanceExpanded(!performanceExpanded)}
+              className="w-full flex items-center justify-between text-left"
+            >
+              <h3 className="text-xs font-medium text-[#737373] uppercase tracking-wide">
+                Live Performance
+              </h3>
+              {performanceExpanded ? (
+                <ChevronUp className="w-4 h-4 text-[#A3A3A3]" />
+              ) : (
+                <ChevronDown className="w-4 h-4 text-[#A3A3A3]" />
+              )}
+            </button>
+
+            {performanceExpanded && <ConceptAdsPerformance concept={concept} />}
           </div>
         )}
 
@@ -742,7 +801,8 @@ export function ConceptDetail({
         isOpen={fbWizardOpen}
         onClose={() => setFbWizardOpen(false)}
         onSuccess={() => {
-          // Could trigger a refetch of concept here if needed
+          // Pick up the new ad in fb_ad_ids
+          queryClient.invalidateQueries({ queryKey: ['concepts'] })
         }}
       />
     </div>
@@ -0,0 +1,217 @@
+import { useState, useMemo } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Trash2, Save, Users } from 'lucide-react'
+import { Button } from './ui/button'
+import { useToast } from './ui/toast'
+import { useAuth } from '../auth'
+import { fetchFilterPresets, createFilterPreset, deleteFilterPreset } from '../api'
+import type { AdConcept, ConceptFilters, Product } from '../api'
+import { conceptFormat } from '../utils/conceptFilters'
+
+interface ConceptFilterPanelProps {
+  filters: ConceptFilters
+  concepts: AdConcept[]
+  products: Product[]
+  onChange: (updates: Partial<ConceptFilters>) => void
+  onApplyPreset: (filters: ConceptFilters) => void
+}
+
+const selectClass = 'w-full px-2 py-1 text-xs border border-[#E5E5E5] bg-white focus:outline-none focus:border-black'
+const inputClass = 'w-full px-2 py-1 text-xs border border-[#E5E5E5] focus:outline-none focus:border-black'
+
+const parseScore = (value: string) => (value === '' ? null : Math.max(0, Math.min(100, Number(value))))
+
+export function ConceptFilterPanel({ filters, concepts, products, onChange, onApplyPreset }: ConceptFilterPanelProps) {
+  const queryClient = useQueryClient()
+  const toast = useToast()
+  const { user } = useAuth()
+  const [presetName, setPresetName] = useState('')
+  const [sharePreset, setSharePreset] = useState(false)
+
+  const { data: presets = [] } = useQuery({
+    queryKey: ['concept-filter-presets'],
+    queryFn: fetchFilterPresets,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: createFilterPreset,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['concept-filter-presets'] })
+      setPresetName('')
+      setSharePreset(false)
+      toast.success('Preset saved')
+    },
+    onError: () => {
+      toast.error('Failed to save preset')
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteFilterPreset,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['concept-filter-presets'] })
+    },
+    onError: () => {
+      toast.error('Failed to delete preset')
+    },
+  })
+
+  // Only formats that actually appear on concepts
+  const formatOptions = useMemo(
+    () => Array.from(new Set(concepts.map(conceptFormat).filter(Boolean))).sort() as string[],
+    [concepts]
+  )
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return
+    createMutation.mutate({ name: presetName.trim(), filters, shared: sharePreset })
+  }
+
+  return (
+    <div className="border border-[#E5E5E5] p-2 space-y-2">
+      {/* Presets */}
+      {presets.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-[10px] font-medium text-[#A3A3A3] uppercase tracking-wide">Presets</span>
+          <div className="flex flex-wrap gap-1">
+            {presets.map(preset => (
+              <div key={preset.id} className="flex items-center border border-[#E5E5E5] hover:border-black">
+                <button
+                  onClick={() => onApplyPreset(preset.filters)}
+                  className="px-1.5 py-0.5 text-xs flex items-center gap-1"
+                  title={preset.owner_id !== user?.id ? `Shared by ${preset.owner_name || 'a teammate'}` : undefined}
+                >
+                  {preset.shared && <Users className="w-2.5 h-2.5 text-[#A3A3A3]" />}
+                  {preset.name}
+                </button>
+                {preset.owner_id === user?.id && (
+                  <button
+                    onClick={() => deleteMutation.mutate(preset.id)}
+                    className="px-1 text-[#A3A3A3] hover:text-red-600"
+                    title="Delete preset"
+                  >
+                    <Trash2 className="w-2.5 h-2.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="grid grid-cols-2 gap-1">
+        <select
+          value={filters.product_id}
+          onChange={(e) => onChange({ product_id: e.target.value })}
+          className={selectClass}
+        >
+          <option value="">Any Product</option>
+          {products.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.format_id}
+          onChange={(e) => onChange({ format_id: e.target.value })}
+          className={selectClass}
+        >
+          <option value="">Any Format</option>
+          {formatOptions.map(f => (
+            <option key={f} value={f}>{f}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.check}
+          onChange={(e) => onChange({ check: e.target.value as ConceptFilters['check'] })}
+          className={selectClass}
+        >
+          <option value="">Any Review</option>
+          <option value="passed">Check passed</option>
+          <option value="failed">Check failed</option>
+        </select>
+
+        <select
+          value={filters.pushed}
+          onChange={(e) => onChange({ pushed: e.target.value as ConceptFilters['pushed'] })}
+          className={selectClass}
+        >
+          <option value="">Pushed or not</option>
+          <option value="pushed">Pushed to FB</option>
+          <option value="not_pushed">Not pushed</option>
+        </select>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <span className="text-xs text-[#A3A3A3] w-10">Score</span>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={filters.min_score ?? ''}
+          onChange={(e) => onChange({ min_score: parseScore(e.target.value) })}
+          placeholder="Min"
+          className={inputClass}
+        />
+        <span className="text-xs text-[#A3A3A3]">–</span>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={filters.max_score ?? ''}
+          onChange={(e) => onChange({ max_score: parseScore(e.target.value) })}
+          placeholder="Max"
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex items-center gap-1">
+        <span className="text-xs text-[#A3A3A3] w-10">Date</span>
+        <input
+          type="date"
+          value={filters.date_from}
+          onChange={(e) => onChange({ date_from: e.target.value })}
+          className={inputClass}
+        />
+        <span className="text-xs text-[#A3A3A3]">–</span>
+        <input
+          type="date"
+          value={filters.date_to}
+          onChange={(e) => onChange({ date_to: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+
+      {/* Save current filters */}
+      <div className="flex items-center gap-1 pt-2 border-t border-[#F5F5F5]">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+          placeholder="Save as preset..."
+          className={inputClass}
+        />
+        <label className="flex items-center gap-1 text-xs text-[#737373] flex-shrink-0" title="Visible to the whole team">
+          <input
+            type="checkbox"
+            checked={sharePreset}
+            onChange={(e) => setSharePreset(e.target.checked)}
+          />
+          Share
+        </label>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={handleSavePreset}
+          disabled={!presetName.trim() || createMutation.isPending}
+        >
+          <Save className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,18 @@
 import { useState, useMemo } from 'react'
-import { Plus, Sparkles, X, Search, Grid, List, Star, Check, Trash2, CheckCircle, Facebook } from 'lucide-react'
+import { Plus, Sparkles, X, Search, Grid, List, Star, Check, Trash2, CheckCircle, Facebook, Columns3, Keyboard, Layers, SlidersHorizontal, Download } from 'lucide-react'
 import { Skeleton } from './ui/skeleton'
 import { Button } from './ui/button'
-import type { AdConcept } from '../App'
+import { MIN_COMPARE, MAX_COMPARE } from './ConceptCompare'
+import { ConceptBatchGroup } from './ConceptBatchGroup'
+import { ConceptFilterPanel } from './ConceptFilterPanel'
+import { ExportConceptsModal } from './ExportConceptsModal'
+import type { AdConcept, ConceptFilters, Product } from '../api'
+import { useSearchParam } from '../router'
+import { EMPTY_FILTERS, matchesFilters, countAdvancedFilters } from '../utils/conceptFilters'
 
 interface ConceptListProps {
   concepts: AdConcept[]
+  products?: Product[]
   selectedId: string | null
   onSelect: (id: string) => void
   isLoading?: boolean
@@ -13,11 +20,14 @@ interface ConceptListProps {
   onCreateConcept?: (ideas?: string) => void
   onSetRating?: (id: string, rating: number) => void
   onBulkApprove?: (ids: string[]) => void
+  onBulkReject?: (ids: string[], feedback: string) => void | Promise<void>
   onBulkDelete?: (ids: string[]) => void
   onBulkPushFB?: (ids: string[]) => void
+  onCompare?: (ids: string[]) => void
+  onStartReview?: () => void
 }
 
-type ViewMode = 'list' | 'grid'
+type ViewMode = 'list' | 'grid' | 'batch'
 type SortBy = 'created_at' | 'rating' | 'batch_number'
 type SortOrder = 'asc' | 'desc'
 
@@ -69,6 +79,7 @@ const ratingOptions = [
 
 export function ConceptList({
   concepts,
+  products = [],
   selectedId,
   onSelect,
   isLoading = false,
@@ -76,19 +87,24 @@ export function ConceptList({
   onCreateConcept,
   onSetRating,
   onBulkApprove,
+  onBulkReject,
   onBulkDelete,
   onBulkPushFB,
+  onCompare,
+  onStartReview,
 }: ConceptListProps) {
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [ideas, setIdeas] = useState('')
-  const [searchQuery, setSearchQuery] = useState('')
-  const [statusFilter, setStatusFilter] = useState<string>('')
-  const [minRating, setMinRating] = useState(0)
+  // Status lives in the URL; everything else is local (or loaded from a preset)
+  const [statusFilter, setStatusFilter] = useSearchParam<string>('status', '')
+  const [filters, setFilters] = useState<ConceptFilters>(EMPTY_FILTERS)
+  const [showAdvanced, setShowAdvanced] = useState(false)
   const [viewMode, setViewMode] = useState<ViewMode>('list')
   const [sortBy, setSortBy] = useState<SortBy>('created_at')
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc')
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [showExport, setShowExport] = useState(false)
 
   const handleCreate = () => {
     if (onCreateConcept) {
@@ -99,28 +115,8 @@ export function ConceptList({
   }
 
   const filteredConcepts = useMemo(() => {
-    let result = [...concepts]
-
-    // Search filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase()
-      result = result.filter(c =>
-        c.batch_number.toLowerCase().includes(query) ||
-        c.primary_texts?.some(t => t.toLowerCase().includes(query)) ||
-        c.headlines?.some(h => h.toLowerCase().includes(query)) ||
-        (c.hypothesis as any)?.hypothesis?.toLowerCase().includes(query)
-      )
-    }
-
-    // Status filter
-    if (statusFilter) {
-      result = result.filter(c => c.status === statusFilter)
-    }
-
-    // Rating filter
-    if (minRating > 0) {
-      result = result.filter(c => (c.rating || 0) >= minRating)
-    }
+    // Search + status + advanced filters
+    const result = concepts.filter(c => matchesFilters(c, { ...filters, status: statusFilter }))
 
     // Sort
     result.sort((a, b) => {
@@ -136,7 +132,16 @@ export function ConceptList({
     })
 
     return result
-  }, [concepts, searchQuery, statusFilter, minRating, sortBy, sortOrder])
+  }, [concepts, filters, statusFilter, sortBy, sortOrder])
+
+  // Batch view: filtered concepts grouped by batch, newest batch first
+  const batches = useMemo(() => {
+    const groups = new Map<string, AdConcept[]>()
+    filteredConcepts.forEach(c => {
+      groups.set(c.batch_number, [...(groups.get(c.batch_number) || []), c])
+    })
+    return Array.from(groups.entries()).sort(([a], [b]) => b.localeCompare(a))
+  }, [filteredConcepts])
 
   const toggleSelection = (id: string, e?: React.MouseEvent) => {
     e?.stopPropagation()
@@ -157,13 +162,22 @@ export function ConceptList({
     }
   }
 
+  const updateFilters = (updates: Partial<ConceptFilters>) => {
+    setFilters(prev => ({ ...prev, ...updates }))
+  }
+
+  const applyFilters = (next: ConceptFilters) => {
+    setFilters({ ...EMPTY_FILTERS, ...next })
+    setStatusFilter(next.status || '')
+  }
+
   const clearFilters = () => {
-    setSearchQuery('')
+    setFilters(EMPTY_FILTERS)
     setStatusFilter('')
-    setMinRating(0)
   }
 
-  const hasActiveFilters = searchQuery || statusFilter || minRating > 0
+  const advancedCount = countAdvancedFilters(filters)
+  const hasActiveFilters = filters.query || statusFilter || filters.min_rating > 0 || advancedCount > 0
 
   const handleBulkApprove = () => {
     if (onBulkApprove && selectedIds.size > 0) {
@@ -186,6 +200,16 @@ export function ConceptList({
     }
   }
 
+  const readyCount = useMemo(() => concepts.filter(c => c.status === 'ready').length, [concepts])
+
+  const canCompare = selectedIds.size >= MIN_COMPARE && selectedIds.size <= MAX_COMPARE
+
+  const handleCompare = () => {
+    if (onCompare && canCompare) {
+      onCompare(Array.from(selectedIds))
+    }
+  }
+
   // Count how many selected are approved (for push to FB)
   const selectedApprovedCount = useMemo(() => {
     return Array.from(selectedIds).filter(id => {
@@ -194,6 +218,73 @@ export function ConceptList({
     }).length
   }, [selectedIds, concepts])
 
+  const renderListRow = (concept: AdConcept) => {
+    const isSelected = concept.id === selectedId
+    const isChecked = selectedIds.has(concept.id)
+    const isReady = concept.status === 'ready'
+
+    return (
+      <div
+        key={concept.id}
+        className={`
+          w-full text-left px-3 py-2 border-b border-[#E5E5E5] transition-colors flex items-start gap-2
+          ${isSelected ? 'border-l-2 border-l-black bg-[#FAFAFA]' : 'border-l-2 border-l-transparent hover:bg-[#FAFAFA]'}
+        `}
+      >
+        {/* Checkbox */}
+        <button
+          onClick={(e) => toggleSelection(concept.id, e)}
+          className={`w-4 h-4 border flex items-center justify-center flex-shrink-0 mt-0.5 ${
+            isChecked ? 'bg-black border-black text-white' : 'border-[#D4D4D4] hover:border-[#A3A3A3]'
+          }`}
+        >
+          {isChecked && <Check className="w-3 h-3" />}
+        </button>
+
+        {/* Content */}
+        <button
+          onClick={() => onSelect(concept.id)}
+          className="flex-1 text-left min-w-0"
+        >
+          <div className="flex items-center gap-2">
+            <span className={`text-sm font-medium ${isSelected || isReady ? 'text-black' : 'text-[#737373]'}`}>
+              {concept.batch_number}
+            </span>
+            <span className={`text-xs ${statusColors[concept.status]}`}>
+              {statusLabels[concept.status]}
+            </span>
+          </div>
+          {concept.headlines?.[0] && (
+            <p className="text-xs text-[#A3A3A3] truncate mt-0.5">
+              {concept.headlines[0]}
+            </p>
+          )}
+        </button>
+
+        {/* Rating */}
+        {onSetRating && (
+          <div className="flex items-center gap-0.5 flex-shrink-0">
+            {[1, 2, 3, 4, 5].map((star) => (
+              <button
+                key={star}
+                onClick={(e) => { e.stopPropagation(); onSetRating(concept.id, star); }}
+                className="p-0.5"
+              >
+                <Star
+                  className={`w-3 h-3 ${
+                    concept.rating && star <= concept.rating
+                      ? 'fill-black text-black'
+                      : 'text-[#E5E5E5] hover:text-[#A3A3A3]'
+                  }`}
+                />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
   return (
     <div className="h-full flex flex-col">
       {/* Create Concept Section */}
@@ -237,6 +328,16 @@ export function ConceptList({
             </Button>
           </div>
         )}
+        {onStartReview && readyCount > 0 && !showCreateForm && (
+          <Button
+            size="sm"
+            className="w-full justify-center gap-2 mt-2"
+            onClick={onStartReview}
+          >
+            <Keyboard className="w-4 h-4" />
+            Review {readyCount} ready
+          </Button>
+        )}
       </div>
 
       {/* Search & Filters */}
@@ -247,9 +348,9 @@ export function ConceptList({
             <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-[#A3A3A3]" />
             <input
               type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search..."
+              value={filters.query}
+              onChange={(e) => updateFilters({ query: e.target.value })}
+              placeholder="Search copy, hypotheses, notes..."
               className="w-full pl-7 pr-2 py-1 text-xs border border-[#E5E5E5] focus:outline-none focus:border-black"
             />
           </div>
@@ -266,6 +367,13 @@ export function ConceptList({
             >
               <Grid className="w-3 h-3" />
             </button>
+            <button
+              onClick={() => setViewMode('batch')}
+              className={`p-1 ${viewMode === 'batch' ? 'bg-black text-white' : 'text-[#737373] hover:text-black'}`}
+              title="Group by batch"
+            >
+              <Layers className="w-3 h-3" />
+            </button>
           </div>
         </div>
 
@@ -282,16 +390,37 @@ export function ConceptList({
           </select>
 
           <select
-            value={minRating}
-            onChange={(e) => setMinRating(Number(e.target.value))}
+            value={filters.min_rating}
+            onChange={(e) => updateFilters({ min_rating: Number(e.target.value) })}
             className="flex-1 px-2 py-1 text-xs border border-[#E5E5E5] bg-white focus:outline-none focus:border-black"
           >
             {ratingOptions.map(opt => (
               <option key={opt.value} value={opt.value}>{opt.label}</option>
             ))}
           </select>
+
+          <button
+            onClick={() => setShowAdvanced(!showAdvanced)}
+            className={`px-2 py-1 text-xs border flex items-center gap-1 ${
+              showAdvanced || advancedCount > 0 ? 'border-black text-black' : 'border-[#E5E5E5] text-[#737373] hover:border-black'
+            }`}
+            title="Advanced filters & presets"
+          >
+            <SlidersHorizontal className="w-3 h-3" />
+            {advancedCount > 0 && advancedCount}
+          </button>
         </div>
 
+        {showAdvanced && (
+          <ConceptFilterPanel
+            filters={{ ...filters, status: statusFilter }}
+            concepts={concepts}
+            products={products}
+            onChange={updateFilters}
+            onApplyPreset={applyFilters}
+          />
+        )}
+
         {/* Sort Row */}
         <div className="flex items-center gap-1">
           <select
@@ -360,72 +489,21 @@ export function ConceptList({
             </p>
           </div>
         ) : viewMode === 'list' ? (
-          filteredConcepts.map((concept) => {
-            const isSelected = concept.id === selectedId
-            const isChecked = selectedIds.has(concept.id)
-            const isReady = concept.status === 'ready'
-
-            return (
-              <div
-                key={concept.id}
-                className={`
-                  w-full text-left px-3 py-2 border-b border-[#E5E5E5] transition-colors flex items-start gap-2
-                  ${isSelected ? 'border-l-2 border-l-black bg-[#FAFAFA]' : 'border-l-2 border-l-transparent hover:bg-[#FAFAFA]'}
-                `}
-              >
-                {/* Checkbox */}
-                <button
-                  onClick={(e) => toggleSelection(concept.id, e)}
-                  className={`w-4 h-4 border flex items-center justify-center flex-shrink-0 mt-0.5 ${
-                    isChecked ? 'bg-black border-black text-white' : 'border-[#D4D4D4] hover:border-[#A3A3A3]'
-                  }`}
-                >
-                  {isChecked && <Check className="w-3 h-3" />}
-                </button>
-
-                {/* Content */}
-                <button
-                  onClick={() => onSelect(concept.id)}
-                  className="flex-1 text-left min-w-0"
-                >
-                  <div className="flex items-center gap-2">
-                    <span className={`text-sm font-medium ${isSelected || isReady ? 'text-black' : 'text-[#737373]'}`}>
-                      {concept.batch_number}
-                    </span>
-                    <span className={`text-xs ${statusColors[concept.status]}`}>
-                      {statusLabels[concept.status]}
-                    </span>
-                  </div>
-                  {concept.headlines?.[0] && (
-                    <p className="text-xs text-[#A3A3A3] truncate mt-0.5">
-                      {concept.headlines[0]}
-                    </p>
-                  )}
-                </button>
-
-                {/* Rating */}
-                {onSetRating && (
-                  <div className="flex items-center gap-0.5 flex-shrink-0">
-                    {[1, 2, 3, 4, 5].map((star) => (
-                      <button
-                        key={star}
-                        onClick={(e) => { e.stopPropagation(); onSetRating(concept.id, star); }}
-                        className="p-0.5"
-                      >
-                        <Star
-                          className={`w-3 h-3 ${
-                            concept.rating && star <= concept.rating
-                              ? 'fill-black text-black'
-                              : 'text-[#E5E5E5] hover:text-[#A3A3A3]'
-                          }`}
-                        />
-                      </button>
-                    ))}
-                  </div>
-                )}
-              </div>
-            )
-          })
+          filteredConcepts.map(renderListRow)
+        ) : viewMode === 'batch' ? (
+          batches.map(([batchNumber, batchConcepts]) => (
+            <ConceptBatchGroup
+              key={batchNumber}
+              batchNumber={batchNumber}
+              concepts={batchConcepts}
+              products={products}
+              onBulkApprove={onBulkApprove}
+              onBulkReject={onBulkReject}
+              onBulkPushFB={onBulkPushFB}
+            >
+              {batchConcepts.map(renderListRow)}
+            </ConceptBatchGroup>
+          ))
         ) : (
           // Grid View
           <div className="p-2 grid grid-cols-2 gap-2">
@@ -518,6 +596,19 @@ export function ConceptList({
                 Approve
               </Button>
             )}
+            {onCompare && selectedIds.size >= MIN_COMPARE && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 text-xs h-7"
+                onClick={handleCompare}
+                disabled={!canCompare}
+                title={canCompare ? 'Compare side by side' : `Select up to ${MAX_COMPARE} to compare`}
+              >
+                <Columns3 className="w-3 h-3 mr-1" />
+                Compare
+              </Button>
+            )}
             {onBulkPushFB && selectedApprovedCount > 0 && (
               <Button
                 variant="outline"
@@ -529,6 +620,15 @@ export function ConceptList({
                 Push ({selectedApprovedCount})
               </Button>
             )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-xs h-7"
+              onClick={() => setShowExport(true)}
+              title="Export selected"
+            >
+              <Download className="w-3 h-3" />
+            </Button>
             {onBulkDelete && (
               <Button
                 variant="outline"
@@ -543,6 +643,14 @@ export function ConceptList({
         </div>
       )}
 
+      {/* Export Modal */}
+      {showExport && (
+        <ExportConceptsModal
+          concepts={concepts.filter(c => selectedIds.has(c.id))}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -1,15 +1,7 @@
 import { useState } from 'react'
 import { Check, X, Loader2, AlertCircle, Image as ImageIcon, FileText, BarChart3 } from 'lucide-react'
 import { Button } from './ui/button'
-
-interface Confirmation {
-  id: string
-  conversation_id: string
-  action_type: string
-  action_data: any
-  status: string
-  created_at: string
-}
+import type { Confirmation } from '../api'
 
 interface ConfirmationCardProps {
   confirmation: Confirmation
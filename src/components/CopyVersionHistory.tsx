@@ -0,0 +1,211 @@
+import { useState, useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { RotateCcw, User, Bot } from 'lucide-react'
+import { Button } from './ui/button'
+import { Skeleton } from './ui/skeleton'
+import { fetchCopyHistory } from '../api'
+import type { ChangelogEntry, CopyField, CopyVersion } from '../api'
+import { diffWords } from '../utils/textDiff'
+
+interface CopyVersionHistoryProps {
+  conceptId: string
+  currentValues: Record<CopyField, string[]>
+  changelog?: ChangelogEntry[]
+  onRevert: (versionId: string) => void
+  canRevert?: boolean
+  isReverting?: boolean
+}
+
+const fieldLabels: Record<CopyField, string> = {
+  primary_texts: 'Primary Text',
+  headlines: 'Headlines',
+}
+
+const actionLabels: Record<CopyVersion['action'], string> = {
+  generated: 'Generated',
+  reviewed: 'Revised by review agent',
+  edited: 'Edited',
+  added: 'Variant added',
+  deleted: 'Variant deleted',
+  reverted: 'Reverted',
+}
+
+const sameValues = (a: string[], b: string[]) => a.length === b.length && a.every((v, i) => v === b[i])
+
+// Variant-by-variant word diff between two versions of a field
+function VersionDiff({ before, after }: { before: string[]; after: string[] }) {
+  const count = Math.max(before.length, after.length)
+  const rows = Array.from({ length: count }, (_, i) => ({ i, before: before[i], after: after[i] }))
+    .filter(row => row.before !== row.after)
+
+  if (rows.length === 0) {
+    return <p className="text-xs text-[#A3A3A3]">No differences</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.map(row => (
+        <div key={row.i} className="space-y-1">
+          <span className="text-xs text-[#A3A3A3]">
+            V{String(row.i + 1).padStart(2, '0')}
+            {row.before === undefined && ' (new)'}
+            {row.after === undefined && ' (removed)'}
+          </span>
+          <p className="text-sm whitespace-pre-wrap">
+            {diffWords(row.before ?? '', row.after ?? '').map((part, j) => (
+              <span
+                key={j}
+                className={
+                  part.type === 'added'
+                    ? 'bg-green-50 text-green-600'
+                    : part.type === 'removed'
+                      ? 'bg-red-50 text-red-600 line-through'
+                      : ''
+                }
+              >
+                {part.text}
+              </span>
+            ))}
+          </p>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function CopyVersionHistory({
+  conceptId,
+  currentValues,
+  changelog,
+  onRevert,
+  canRevert = true,
+  isReverting = false,
+}: CopyVersionHistoryProps) {
+  const [field, setField] = useState<CopyField>('primary_texts')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  // Diff against the previous version, or against what's live now
+  const [compareTo, setCompareTo] = useState<'previous' | 'current'>('previous')
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ['copy-history', conceptId],
+    queryFn: () => fetchCopyHistory(conceptId),
+  })
+
+  // Newest first, each paired with the version it replaced
+  const fieldVersions = useMemo(() => {
+    const ofField = versions.filter(v => v.field === field)
+    return ofField
+      .map((version, i) => ({ version, previous: ofField[i - 1] }))
+      .reverse()
+  }, [versions, field])
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex border border-[#E5E5E5]">
+          {(Object.keys(fieldLabels) as CopyField[]).map(f => (
+            <button
+              key={f}
+              onClick={() => { setField(f); setExpandedId(null) }}
+              className={`px-3 py-1 text-xs ${field === f ? 'bg-black text-white' : 'text-[#737373] hover:text-black'}`}
+            >
+              {fieldLabels[f]}
+            </button>
+          ))}
+        </div>
+        <select
+          value={compareTo}
+          onChange={(e) => setCompareTo(e.target.value as 'previous' | 'current')}
+          className="px-2 py-1 text-xs border border-[#E5E5E5] bg-white focus:outline-none focus:border-black"
+        >
+          <option value="previous">Diff vs previous</option>
+          <option value="current">Diff vs current</option>
+        </select>
+      </div>
+
+      {fieldVersions.length === 0 ? (
+        <p className="text-xs text-[#A3A3A3]">No history yet</p>
+      ) : (
+        <div className="border border-[#E5E5E5] divide-y divide-[#F5F5F5]">
+          {fieldVersions.map(({ version, previous }, i) => {
+            const isLatest = i === 0
+            const isExpanded = expandedId === version.id
+            const isCurrent = sameValues(version.values, currentValues[field])
+            const before = compareTo === 'previous' ? previous?.values ?? [] : version.values
+            const after = compareTo === 'previous' ? version.values : currentValues[field]
+
+            return (
+              <div key={version.id} className="p-3 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : version.id)}
+                    className="flex-1 text-left space-y-0.5"
+                  >
+                    <div className="flex items-center gap-2 text-sm">
+                      {version.source === 'ai' ? (
+                        <Bot className="w-3 h-3 text-[#A3A3A3]" />
+                      ) : (
+                        <User className="w-3 h-3 text-[#A3A3A3]" />
+                      )}
+                      <span className="font-medium">{actionLabels[version.action]}</span>
+                      {isLatest && <span className="text-xs px-1.5 py-0.5 bg-[#F5F5F5] text-[#737373]">latest</span>}
+                    </div>
+                    <p className="text-xs text-[#A3A3A3]">
+                      {version.author || (version.source === 'ai' ? 'AI' : 'Unknown')} · {new Date(version.created_at).toLocaleString()}
+                      {' · '}{version.values.length} variant{version.values.length !== 1 ? 's' : ''}
+                    </p>
+                    {version.reason && (
+                      <p className="text-xs text-[#737373] italic">{version.reason}</p>
+                    )}
+                  </button>
+                  {canRevert && !isCurrent && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-xs h-7 flex-shrink-0"
+                      onClick={() => onRevert(version.id)}
+                      disabled={isReverting}
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Revert
+                    </Button>
+                  )}
+                </div>
+
+                {isExpanded && (
+                  <div className="border-t border-[#F5F5F5] pt-2 space-y-3">
+                    <VersionDiff before={before} after={after} />
+
+                    {/* The review agent's own notes for the revision it made */}
+                    {version.action === 'reviewed' && changelog && changelog.length > 0 && (
+                      <div className="space-y-1">
+                        <p className="text-xs font-medium text-[#A3A3A3]">Review agent changes</p>
+                        {changelog.map((change, j) => (
+                          <p key={j} className="text-xs text-[#737373]">
+                            <span className="text-red-600 line-through">{change.original}</span>
+                            {' → '}
+                            <span className="text-green-600">{change.revised}</span>
+                            <span className="block italic">{change.reason}</span>
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Loader2, Sparkles } from 'lucide-react'
+import { fetchAdsDailyInsights } from '../api'
+import type { AdConcept, FBAd } from '../api'
+import { trailingRange } from '../utils/dateRange'
+import {
+  FATIGUE_SIGNAL_LABELS,
+  FATIGUE_STATUS_LABELS,
+  FATIGUE_THRESHOLDS,
+  FATIGUE_WINDOW_DAYS,
+  detectFatigue,
+  variationIdeas,
+  type FatigueReport,
+  type FatigueStatus,
+} from '../utils/fatigue'
+
+interface CreativeFatigueProps {
+  ads: FBAd[]
+  conceptByAdId: Map<string, AdConcept>
+  onGenerateVariations: (productId: string | null, ideas: string) => void
+  isGenerating: boolean
+}
+
+const STATUS_STYLES: Record<FatigueStatus, string> = {
+  fatigued: 'bg-red-50 text-red-700 border-red-200',
+  watch: 'bg-orange-50 text-orange-700 border-orange-200',
+  healthy: 'bg-green-50 text-green-700 border-green-200',
+  insufficient_data: 'bg-[#FAFAFA] text-[#A3A3A3] border-[#E5E5E5]',
+}
+
+const formatChange = (value: number | null) => {
+  if (value === null) return '-'
+  if (!isFinite(value)) return 'No sales'
+  return `${value > 0 ? '+' : ''}${(value * 100).toFixed(0)}%`
+}
+
+// Live ads losing steam over the last two weeks, whatever period is selected
+export function CreativeFatigue({ ads, conceptByAdId, onGenerateVariations, isGenerating }: CreativeFatigueProps) {
+  const liveAdIds = useMemo(
+    () => ads.filter(ad => parseFloat(String(ad.insights?.spend ?? 0)) > 0).map(ad => ad.id).sort(),
+    [ads]
+  )
+
+  const { data: adDays = [], isLoading } = useQuery({
+    queryKey: ['fb-daily', 'fatigue', liveAdIds],
+    queryFn: () => fetchAdsDailyInsights(trailingRange(FATIGUE_WINDOW_DAYS), liveAdIds),
+    enabled: liveAdIds.length > 0,
+  })
+
+  const reports = useMemo(() => {
+    const rank: Record<FatigueStatus, number> = { fatigued: 0, watch: 1, healthy: 2, insufficient_data: 3 }
+    return adDays
+      .map(entry => ({
+        ad: ads.find(a => a.id === entry.id),
+        report: detectFatigue(entry.days),
+      }))
+      .filter((r): r is { ad: FBAd; report: FatigueReport } => !!r.ad)
+      .sort((a, b) => rank[a.report.status] - rank[b.report.status])
+  }, [adDays, ads])
+
+  const flagged = reports.filter(r => r.report.status === 'fatigued' || r.report.status === 'watch')
+  const healthyCount = reports.filter(r => r.report.status === 'healthy').length
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-medium text-[#737373]">CREATIVE FATIGUE</h2>
+        <span className="text-xs text-[#A3A3A3]">
+          Last {FATIGUE_WINDOW_DAYS} days · {healthyCount} healthy
+        </span>
+      </div>
+
+      {isLoading ? (
+        <div className="border border-[#E5E5E5] py-8 text-center">
+          <Loader2 className="w-5 h-5 animate-spin mx-auto text-[#A3A3A3]" />
+        </div>
+      ) : flagged.length === 0 ? (
+        <div className="border border-[#E5E5E5] py-8 text-center">
+          <p className="text-sm text-[#A3A3A3]">No live ads are showing signs of fatigue</p>
+        </div>
+      ) : (
+        <div className="border border-[#E5E5E5] overflow-x-auto">
+          <table className="w-full min-w-[700px]">
+            <thead>
+              <tr className="border-b border-[#E5E5E5] bg-[#FAFAFA]">
+                <th className="text-left text-xs font-medium text-[#737373] p-3">Ad</th>
+                <th className="text-left text-xs font-medium text-[#737373] p-3">Status</th>
+                <th className="text-right text-xs font-medium text-[#737373] p-3">Frequency</th>
+                <th className="text-right text-xs font-medium text-[#737373] p-3">CTR</th>
+                <th className="text-right text-xs font-medium text-[#737373] p-3">CPA</th>
+                <th className="text-right text-xs font-medium text-[#737373] p-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {flagged.map(({ ad, report }) => {
+                const concept = conceptByAdId.get(ad.id)
+                return (
+                  <tr key={ad.id} className="border-b border-[#E5E5E5] last:border-0">
+                    <td className="p-3 text-sm max-w-[260px] truncate" title={ad.name}>{ad.name}</td>
+                    <td className="p-3">
+                      <span
+                        className={`inline-block px-1.5 py-0.5 text-[10px] font-medium border whitespace-nowrap ${STATUS_STYLES[report.status]}`}
+                        title={report.signals.map(s => FATIGUE_SIGNAL_LABELS[s]).join(', ')}
+                      >
+                        {FATIGUE_STATUS_LABELS[report.status]}
+                      </span>
+                    </td>
+                    <td className={`p-3 text-right text-sm ${report.signals.includes('frequency') ? 'text-red-600' : ''}`}>
+                      {report.frequency !== null ? report.frequency.toFixed(2) : '-'}
+                    </td>
+                    <td className={`p-3 text-right text-sm ${report.signals.includes('ctr_decay') ? 'text-red-600' : ''}`}>
+                      {formatChange(report.ctrChange)}
+                    </td>
+                    <td className={`p-3 text-right text-sm ${report.signals.includes('cpa_rise') ? 'text-red-600' : ''}`}>
+                      {formatChange(report.cpaChange)}
+                    </td>
+                    <td className="p-3 text-right">
+                      {concept ? (
+                        <button
+                          onClick={() => onGenerateVariations(concept.product_id || null, variationIdeas(concept, ad, report))}
+                          disabled={isGenerating}
+                          className="inline-flex items-center gap-1 text-xs text-[#737373] hover:text-black disabled:opacity-50"
+                          title={`Generate new concepts seeded with batch ${concept.batch_number}`}
+                        >
+                          <Sparkles className="w-3 h-3" />
+                          Generate variations
+                        </button>
+                      ) : (
+                        <span className="text-xs text-[#A3A3A3]">Not from a concept</span>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="text-xs text-[#A3A3A3] mt-2">
+        Compares each ad's last {Math.floor(FATIGUE_WINDOW_DAYS / 2)} days with the {Math.ceil(FATIGUE_WINDOW_DAYS / 2)} before.
+        Flags frequency of {FATIGUE_THRESHOLDS.frequency}+, CTR down {FATIGUE_THRESHOLDS.ctrDrop * 100}% or CPA up {FATIGUE_THRESHOLDS.cpaRise * 100}%.
+      </p>
+    </div>
+  )
+}
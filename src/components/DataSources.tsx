@@ -1,16 +1,14 @@
 import { useState, useRef } from 'react'
 import { Upload, FileText, Trash2, RefreshCw, X } from 'lucide-react'
 import { Button } from './ui/button'
-import type { DataSource } from '../App'
+import { createDataSource, deleteDataSource } from '../api'
+import type { DataSource } from '../api'
 
 interface DataSourcesProps {
   sources: DataSource[]
   onRefresh: () => void
 }
 
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
-
 type AddMode = 'file' | 'text'
 
 export function DataSources({ sources, onRefresh }: DataSourcesProps) {
@@ -29,32 +27,30 @@ export function DataSources({ sources, onRefresh }: DataSourcesProps) {
 
     setIsSubmitting(true)
     try {
-      const res = await authFetch(`${API_BASE}/data-sources`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name: name.trim(),
-          source_type: addModal.mode === 'file' ? 'file' : 'text',
-          file_type: fileType,
-          content: content.trim(),
-        }),
+      await createDataSource({
+        name: name.trim(),
+        source_type: addModal.mode === 'file' ? 'file' : 'text',
+        file_type: fileType,
+        content: content.trim(),
       })
-      if (res.ok) {
-        setAddModal({ open: false, mode: null })
-        setName('')
-        setContent('')
-        setFileType(null)
-        onRefresh()
-      }
+      setAddModal({ open: false, mode: null })
+      setName('')
+      setContent('')
+      setFileType(null)
+      onRefresh()
+    } catch (error) {
+      console.error('Failed to add source:', error)
     } finally {
       setIsSubmitting(false)
     }
   }
 
   const handleDelete = async (id: string) => {
-    const res = await authFetch(`${API_BASE}/data-sources/${id}`, { method: 'DELETE' })
-    if (res.ok) {
+    try {
+      await deleteDataSource(id)
       onRefresh()
+    } catch (error) {
+      console.error('Failed to delete source:', error)
     }
   }
 
@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react'
+import { ChevronDown, ChevronUp, Pencil, Trash2, Plus } from 'lucide-react'
+import { Button } from './ui/button'
+import { CopyButton } from './CopyButton'
+import type { UpdateCopyInput } from '../api'
+
+interface EditableVariantListProps {
+  variants: string[]
+  // Primary texts are long and collapsible; headlines are single-line
+  multiline?: boolean
+  editable: boolean
+  isSaving?: boolean
+  onSave: (values: string[], action: UpdateCopyInput['action']) => void
+}
+
+const variantLabel = (i: number) => `V${String(i + 1).padStart(2, '0')}`
+
+export function EditableVariantList({
+  variants,
+  multiline = false,
+  editable,
+  isSaving = false,
+  onSave,
+}: EditableVariantListProps) {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null)
+  // Index being edited; variants.length means a new variant is being added
+  const [editingIndex, setEditingIndex] = useState<number | null>(null)
+  const [draft, setDraft] = useState('')
+
+  // Drop any open editor when the variants change underneath it (e.g. a revert)
+  useEffect(() => {
+    setEditingIndex(null)
+  }, [variants])
+
+  const startEdit = (i: number) => {
+    setEditingIndex(i)
+    setDraft(variants[i] ?? '')
+  }
+
+  const cancelEdit = () => {
+    setEditingIndex(null)
+    setDraft('')
+  }
+
+  const handleSave = () => {
+    if (editingIndex === null || !draft.trim()) return
+    const isNew = editingIndex >= variants.length
+    if (!isNew && draft.trim() === variants[editingIndex]) {
+      cancelEdit()
+      return
+    }
+    const next = [...variants]
+    next[editingIndex] = draft.trim()
+    onSave(next, isNew ? 'added' : 'edited')
+  }
+
+  const handleDelete = (i: number) => {
+    if (variants.length <= 1) return
+    onSave(variants.filter((_, idx) => idx !== i), 'deleted')
+  }
+
+  const renderEditor = () => (
+    <div className="border border-black p-3 space-y-2">
+      {multiline ? (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          autoFocus
+          className="w-full h-40 p-2 text-sm border border-[#E5E5E5] resize-y focus:outline-none focus:border-black"
+        />
+      ) : (
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave()
+            if (e.key === 'Escape') cancelEdit()
+          }}
+          autoFocus
+          className="w-full px-2 py-1.5 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black"
+        />
+      )}
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-[#A3A3A3]">{draft.length} characters</span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={cancelEdit} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!draft.trim() || isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+
+  const renderActions = (text: string, i: number) => (
+    <>
+      <CopyButton text={text} />
+      {editable && (
+        <>
+          <button
+            onClick={() => startEdit(i)}
+            className="p-1 text-[#A3A3A3] hover:text-black transition-colors"
+            title="Edit"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          {variants.length > 1 && (
+            <button
+              onClick={() => handleDelete(i)}
+              disabled={isSaving}
+              className="p-1 text-[#A3A3A3] hover:text-red-600 transition-colors"
+              title="Delete variant"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </>
+      )}
+    </>
+  )
+
+  return (
+    <div className={multiline ? 'space-y-3' : 'space-y-2'}>
+      {variants.map((text, i) => {
+        if (editingIndex === i) {
+          return <div key={i}>{renderEditor()}</div>
+        }
+
+        if (!multiline) {
+          return (
+            <div key={i} className="border border-[#E5E5E5] p-3 flex items-center justify-between">
+              <div className="flex-1">
+                <span className="text-xs text-[#A3A3A3] mr-2">{variantLabel(i)}</span>
+                <span className="text-sm">{text}</span>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">{renderActions(text, i)}</div>
+            </div>
+          )
+        }
+
+        const isExpanded = expandedIndex === i
+        return (
+          <div key={i} className="border border-[#E5E5E5]">
+            <div className="p-4 flex items-start justify-between gap-4">
+              <button
+                onClick={() => setExpandedIndex(isExpanded ? null : i)}
+                className="flex-1 text-left"
+              >
+                <span className="text-xs text-[#A3A3A3] mb-1 block">{variantLabel(i)}</span>
+                <p className={`text-sm ${isExpanded ? 'whitespace-pre-wrap' : 'line-clamp-3'}`}>
+                  {text}
+                </p>
+              </button>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {renderActions(text, i)}
+                <button
+                  onClick={() => setExpandedIndex(isExpanded ? null : i)}
+                  className="p-1 text-[#A3A3A3]"
+                >
+                  {isExpanded ? (
+                    <ChevronUp className="w-4 h-4" />
+                  ) : (
+                    <ChevronDown className="w-4 h-4" />
+                  )}
+                </button>
+              </div>
+            </div>
+          </div>
+        )
+      })}
+
+      {editingIndex === variants.length && renderEditor()}
+
+      {editable && editingIndex === null && (
+        <button
+          onClick={() => startEdit(variants.length)}
+          className="flex items-center gap-1 text-xs text-[#737373] hover:text-black"
+        >
+          <Plus className="w-3 h-3" />
+          Add variant
+        </button>
+      )}
+    </div>
+  )
+}
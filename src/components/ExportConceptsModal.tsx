@@ -0,0 +1,184 @@
+import { useState } from 'react'
+import { X, Loader2, Download } from 'lucide-react'
+import { Button } from './ui/button'
+import { useToast } from './ui/toast'
+import type { AdConcept } from '../api'
+import { exportConcepts, CALL_TO_ACTIONS } from '../utils/conceptExport'
+import type { ExportFormat, FBSheetOptions } from '../utils/conceptExport'
+
+interface ExportConceptsModalProps {
+  concepts: AdConcept[]
+  onClose: () => void
+}
+
+const formatOptions: Array<{ value: ExportFormat; label: string; description: string }> = [
+  { value: 'csv', label: 'CSV', description: 'One row per concept with every field' },
+  { value: 'json', label: 'JSON', description: 'Full concept objects' },
+  { value: 'fb_bulk', label: 'Facebook bulk sheet', description: 'Ads Manager import layout, approved concepts only. One ad per image, using the first headline and primary text' },
+]
+
+export function ExportConceptsModal({ concepts, onClose }: ExportConceptsModalProps) {
+  const toast = useToast()
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [includeImages, setIncludeImages] = useState(true)
+  const [fbSheet, setFbSheet] = useState<FBSheetOptions>({
+    campaign_name: '',
+    adset_name: '',
+    link_url: '',
+    call_to_action: 'SHOP_NOW',
+    status: 'PAUSED',
+  })
+  const [isExporting, setIsExporting] = useState(false)
+
+  // Ads Manager can only take finished ads
+  const exportable = format === 'fb_bulk' ? concepts.filter(c => c.status === 'approved') : concepts
+  const canExport =
+    exportable.length > 0 &&
+    (format !== 'fb_bulk' || (fbSheet.campaign_name.trim() !== '' && fbSheet.link_url.trim() !== ''))
+
+  const handleExport = async () => {
+    if (!canExport) return
+    setIsExporting(true)
+    try {
+      const failed = await exportConcepts(exportable, {
+        format,
+        includeImages,
+        fbSheet: format === 'fb_bulk' ? fbSheet : undefined,
+      })
+      if (failed.length > 0) {
+        toast.error(`Exported, but ${failed.length} image${failed.length !== 1 ? 's' : ''} couldn't be bundled`)
+      } else {
+        toast.success(`Exported ${exportable.length} concept${exportable.length !== 1 ? 's' : ''}`)
+      }
+      onClose()
+    } catch (err) {
+      console.error('Export failed:', err)
+      toast.error('Export failed')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/20 flex items-center justify-center z-50">
+      <div className="bg-white border border-[#E5E5E5] w-full max-w-md m-4">
+        <div className="flex items-center justify-between p-4 border-b border-[#E5E5E5]">
+          <div>
+            <h3 className="font-medium">Export Concepts</h3>
+            <p className="text-xs text-[#A3A3A3]">
+              {exportable.length} of {concepts.length} selected will be exported
+            </p>
+          </div>
+          <button onClick={onClose} className="text-[#A3A3A3] hover:text-black">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Format */}
+          <div className="space-y-2">
+            {formatOptions.map(opt => (
+              <label
+                key={opt.value}
+                className={`flex items-start gap-2 p-2 border cursor-pointer ${
+                  format === opt.value ? 'border-black' : 'border-[#E5E5E5] hover:border-[#D4D4D4]'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="export-format"
+                  checked={format === opt.value}
+                  onChange={() => setFormat(opt.value)}
+                  className="mt-0.5"
+                />
+                <div>
+                  <p className="text-sm">{opt.label}</p>
+                  <p className="text-xs text-[#A3A3A3]">{opt.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {/* Ads Manager fields */}
+          {format === 'fb_bulk' && (
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={fbSheet.campaign_name}
+                onChange={(e) => setFbSheet({ ...fbSheet, campaign_name: e.target.value })}
+                placeholder="Campaign name"
+                className="w-full px-3 py-2 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black"
+              />
+              <input
+                type="text"
+                value={fbSheet.adset_name}
+                onChange={(e) => setFbSheet({ ...fbSheet, adset_name: e.target.value })}
+                placeholder="Ad set name (default: one per batch)"
+                className="w-full px-3 py-2 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black"
+              />
+              <input
+                type="url"
+                value={fbSheet.link_url}
+                onChange={(e) => setFbSheet({ ...fbSheet, link_url: e.target.value })}
+                placeholder="https://example.com/product"
+                className="w-full px-3 py-2 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black"
+              />
+              <div className="flex gap-2">
+                <select
+                  value={fbSheet.call_to_action}
+                  onChange={(e) => setFbSheet({ ...fbSheet, call_to_action: e.target.value })}
+                  className="flex-1 px-2 py-2 text-sm border border-[#E5E5E5] bg-white focus:outline-none focus:border-black"
+                >
+                  {CALL_TO_ACTIONS.map(cta => (
+                    <option key={cta} value={cta}>{cta}</option>
+                  ))}
+                </select>
+                <select
+                  value={fbSheet.status}
+                  onChange={(e) => setFbSheet({ ...fbSheet, status: e.target.value as FBSheetOptions['status'] })}
+                  className="flex-1 px-2 py-2 text-sm border border-[#E5E5E5] bg-white focus:outline-none focus:border-black"
+                >
+                  <option value="PAUSED">Paused</option>
+                  <option value="ACTIVE">Active</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={includeImages}
+              onChange={(e) => setIncludeImages(e.target.checked)}
+            />
+            Bundle images in a zip
+          </label>
+          {!includeImages && (
+            <p className="text-xs text-[#A3A3A3]">
+              Hosted images are referenced by URL. Generated images only exist inside the app, so they're left out.
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            <Button variant="outline" className="flex-1" onClick={onClose} disabled={isExporting}>
+              Cancel
+            </Button>
+            <Button className="flex-1" onClick={handleExport} disabled={!canExport || isExporting}>
+              {isExporting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Exporting...
+                </>
+              ) : (
+                <>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { X, Loader2, Download } from 'lucide-react'
+import { Button } from './ui/button'
+import { useToast } from './ui/toast'
+import { fetchLearnings, fetchProducts } from '../api'
+import { buildPack, exportPack, filterForPack, type PackFilters, type PackFormat } from '../utils/learningPack'
+
+interface ExportLearningsModalProps {
+  categories: string[]
+  appliesToOptions: string[]
+  initialFilters: Pick<PackFilters, 'category' | 'applies_to'>
+  onClose: () => void
+}
+
+const formatOptions: Array<{ value: PackFormat; label: string; description: string }> = [
+  { value: 'json', label: 'JSON pack', description: 'Full learnings with evidence; can be imported into another product' },
+  { value: 'markdown', label: 'Markdown', description: 'Readable write-up for docs and briefs' },
+]
+
+export function ExportLearningsModal({ categories, appliesToOptions, initialFilters, onClose }: ExportLearningsModalProps) {
+  const toast = useToast()
+  const [format, setFormat] = useState<PackFormat>('json')
+  const [filters, setFilters] = useState<PackFilters>({ ...initialFilters, product_id: '', type: '' })
+
+  const { data: learnings = [], isLoading } = useQuery({
+    queryKey: ['learnings'],
+    queryFn: () => fetchLearnings(),
+  })
+  const { data: products = [] } = useQuery({ queryKey: ['products'], queryFn: fetchProducts })
+
+  const selected = filterForPack(learnings, filters)
+
+  const handleExport = () => {
+    const source =
+      filters.product_id === 'account'
+        ? 'account-wide learnings'
+        : products.find(p => p.id === filters.product_id)?.name || 'all products'
+    exportPack(buildPack(selected, source), format)
+    toast.success(`Exported ${selected.length} learning${selected.length !== 1 ? 's' : ''}`)
+    onClose()
+  }
+
+  const selectClass = 'w-full px-2 py-2 text-sm border border-[#E5E5E5] bg-white focus:outline-none focus:border-black'
+
+  return (
+    <div className="fixed inset-0 bg-black/20 flex items-center justify-center z-50">
+      <div className="bg-white border border-[#E5E5E5] w-full max-w-md m-4">
+        <div className="flex items-center justify-between p-4 border-b border-[#E5E5E5]">
+          <div>
+            <h3 className="font-medium">Export Learnings</h3>
+            <p className="text-xs text-[#A3A3A3]">
+              {isLoading ? 'Loading...' : `${selected.length} of ${learnings.length} learnings match`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-[#A3A3A3] hover:text-black">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <label className="text-xs text-[#737373]">Category</label>
+              <select value={filters.category} onChange={(e) => setFilters({ ...filters, category: e.target.value })} className={selectClass}>
+                <option value="">All</option>
+                {categories.map(cat => (
+                  <option key={cat} value={cat}>{cat}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-[#737373]">Applies to</label>
+              <select value={filters.applies_to} onChange={(e) => setFilters({ ...filters, applies_to: e.target.value })} className={selectClass}>
+                <option value="">All</option>
+                {appliesToOptions.map(opt => (
+                  <option key={opt} value={opt}>{opt}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-[#737373]">Product</label>
+              <select value={filters.product_id} onChange={(e) => setFilters({ ...filters, product_id: e.target.value })} className={selectClass}>
+                <option value="">Any</option>
+                <option value="account">Account-wide only</option>
+                {products.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-[#737373]">Type</label>
+              <select
+                value={filters.type}
+                onChange={(e) => setFilters({ ...filters, type: e.target.value as PackFilters['type'] })}
+                className={selectClass}
+              >
+                <option value="">Do and avoid</option>
+                <option value="do">Do</option>
+                <option value="avoid">Avoid</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {formatOptions.map(opt => (
+              <label
+                key={opt.value}
+                className={`flex items-start gap-2 p-2 border cursor-pointer ${
+                  format === opt.value ? 'border-black' : 'border-[#E5E5E5] hover:border-[#D4D4D4]'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="pack-format"
+                  checked={format === opt.value}
+                  onChange={() => setFormat(opt.value)}
+                  className="mt-0.5"
+                />
+                <div>
+                  <p className="text-sm">{opt.label}</p>
+                  <p className="text-xs text-[#A3A3A3]">{opt.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex gap-3">
+            <Button variant="outline" className="flex-1" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button className="flex-1" onClick={handleExport} disabled={isLoading || selected.length === 0}>
+              {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              Export
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
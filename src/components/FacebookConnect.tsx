@@ -4,89 +4,15 @@ import { Check, LogOut, Key } from 'lucide-react'
 import { Button } from './ui/button'
 import { useToast } from './ui/toast'
 
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
-
-interface FBUser {
-  id: string
-  name: string
-}
-
-interface FBAdAccount {
-  id: string
-  name: string
-  account_status: number
-  currency: string
-  business_name?: string
-}
-
-interface FBPage {
-  id: string
-  name: string
-  category?: string
-  access_token?: string
-}
-
-interface ConnectionStatus {
-  connected: boolean
-  user: FBUser | null
-  ad_account_id: string | null
-  page_id: string | null
-}
-
-async function getAuthStatus(): Promise<ConnectionStatus> {
-  const res = await authFetch(`${API_BASE}/fb/auth/status`)
-  if (!res.ok) throw new Error('Failed to get auth status')
-  return res.json()
-}
-
-async function getAdAccounts(): Promise<{ accounts: FBAdAccount[]; selected: string | null }> {
-  const res = await authFetch(`${API_BASE}/fb/ad-accounts`)
-  if (!res.ok) throw new Error('Failed to get ad accounts')
-  return res.json()
-}
-
-async function getPages(): Promise<{ pages: FBPage[]; selected: string | null }> {
-  const res = await authFetch(`${API_BASE}/fb/pages`)
-  if (!res.ok) throw new Error('Failed to get pages')
-  return res.json()
-}
-
-async function selectAccount(accountId: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/fb/select-account`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ account_id: accountId }),
-  })
-  if (!res.ok) throw new Error('Failed to select account')
-}
-
-async function selectPage(pageId: string, pageToken?: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/fb/select-page`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ page_id: pageId, page_token: pageToken }),
-  })
-  if (!res.ok) throw new Error('Failed to select page')
-}
-
-async function disconnect(): Promise<void> {
-  const res = await authFetch(`${API_BASE}/fb/auth/disconnect`, { method: 'POST' })
-  if (!res.ok) throw new Error('Failed to disconnect')
-}
-
-async function setToken(token: string): Promise<{ user: FBUser }> {
-  const res = await authFetch(`${API_BASE}/fb/auth/set-token`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ token }),
-  })
-  if (!res.ok) {
-    const err = await res.json()
-    throw new Error(err.detail || 'Failed to set token')
-  }
-  return res.json()
-}
+import {
+  fetchFBAuthStatus,
+  fetchAdAccounts,
+  fetchPages,
+  selectAdAccount,
+  selectPage,
+  disconnectFacebook,
+  setFacebookToken,
+} from '../api'
 
 export function FacebookConnect() {
   const queryClient = useQueryClient()
@@ -96,23 +22,23 @@ export function FacebookConnect() {
 
   const { data: status, isLoading: statusLoading } = useQuery({
     queryKey: ['fb-status'],
-    queryFn: getAuthStatus,
+    queryFn: fetchFBAuthStatus,
   })
 
   const { data: accountsData } = useQuery({
     queryKey: ['fb-accounts'],
-    queryFn: getAdAccounts,
+    queryFn: fetchAdAccounts,
     enabled: !!status?.connected,
   })
 
   const { data: pagesData } = useQuery({
     queryKey: ['fb-pages'],
-    queryFn: getPages,
+    queryFn: fetchPages,
     enabled: !!status?.connected,
   })
 
   const setTokenMutation = useMutation({
-    mutationFn: setToken,
+    mutationFn: setFacebookToken,
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['fb-status'] })
       queryClient.invalidateQueries({ queryKey: ['fb-accounts'] })
@@ -125,7 +51,7 @@ export function FacebookConnect() {
   })
 
   const selectAccountMutation = useMutation({
-    mutationFn: selectAccount,
+    mutationFn: selectAdAccount,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['fb-accounts'] })
       queryClient.invalidateQueries({ queryKey: ['fb-status'] })
@@ -146,7 +72,7 @@ export function FacebookConnect() {
   })
 
   const disconnectMutation = useMutation({
-    mutationFn: disconnect,
+    mutationFn: disconnectFacebook,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['fb-status'] })
       queryClient.invalidateQueries({ queryKey: ['fb-accounts'] })
@@ -16,114 +16,17 @@ import {
 } from 'lucide-react'
 import { Button } from './ui/button'
 import { useToast } from './ui/toast'
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
-
-interface AdFormat {
-  id: string
-  format_id: string
-  name: string
-  description: string | null
-  // New simplified schema
-  prompt: string | null
-  text_examples: string | null
-  // Old schema (deprecated, for backward compat)
-  structure: string
-  voice_notes: string | null
-  pacing: string | null
-  do_list: string[]
-  dont_list: string[]
-  // Shared fields
-  linked_swipe_ids: string[]
-  reference_image_urls: string[]
-  is_active: boolean
-}
-
-interface SwipeFile {
-  id: string
-  reference_code: string
-  name: string
-  swipe_type: string
-  transcript?: string
-}
-
-// API functions
-async function fetchFormats(): Promise<AdFormat[]> {
-  const res = await authFetch(`${API_BASE}/settings/formats`)
-  if (!res.ok) throw new Error('Failed to fetch formats')
-  const data = await res.json()
-  return data.formats
-}
-
-async function fetchSwipes(): Promise<SwipeFile[]> {
-  const res = await authFetch(`${API_BASE}/swipes`)
-  if (!res.ok) throw new Error('Failed to fetch swipes')
-  const data = await res.json()
-  return data.swipes || data
-}
-
-async function seedFormats(): Promise<void> {
-  const res = await authFetch(`${API_BASE}/settings/formats/seed`, {
-    method: 'POST',
-  })
-  if (!res.ok) throw new Error('Failed to seed formats')
-}
-
-async function createFormat(data: Partial<AdFormat>): Promise<void> {
-  const res = await authFetch(`${API_BASE}/settings/formats`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(data),
-  })
-  if (!res.ok) throw new Error('Failed to create format')
-}
-
-async function updateFormat(
-  format_id: string,
-  data: Partial<AdFormat>
-): Promise<void> {
-  const res = await authFetch(`${API_BASE}/settings/formats/${format_id}`, {
-    method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(data),
-  })
-  if (!res.ok) throw new Error('Failed to update format')
-}
-
-async function deleteFormat(format_id: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/settings/formats/${format_id}`, {
-    method: 'DELETE',
-  })
-  if (!res.ok) throw new Error('Failed to delete format')
-}
-
-async function addReferenceImage(
-  format_id: string,
-  image_data: string
-): Promise<{ image_url: string; reference_image_urls: string[] }> {
-  const res = await authFetch(
-    `${API_BASE}/settings/formats/${format_id}/add-reference-image`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ image_data }),
-    }
-  )
-  if (!res.ok) throw new Error('Failed to upload image')
-  return res.json()
-}
-
-async function removeReferenceImage(
-  format_id: string,
-  image_url: string
-): Promise<{ reference_image_urls: string[] }> {
-  const res = await authFetch(
-    `${API_BASE}/settings/formats/${format_id}/remove-reference-image?image_url=${encodeURIComponent(image_url)}`,
-    { method: 'DELETE' }
-  )
-  if (!res.ok) throw new Error('Failed to remove image')
-  return res.json()
-}
+import {
+  fetchFormats,
+  fetchSwipes,
+  seedFormats,
+  createFormat,
+  updateFormat,
+  deleteFormat,
+  addFormatReferenceImage,
+  removeFormatReferenceImage,
+} from '../api'
+import type { AdFormat } from '../api'
 
 // Format Card Component
 function FormatCard({
@@ -198,7 +101,7 @@ function SwipeSelectorModal({
 
   const { data: swipes = [], isLoading } = useQuery({
     queryKey: ['swipes'],
-    queryFn: fetchSwipes,
+    queryFn: () => fetchSwipes(),
   })
 
   const filteredSwipes = swipes.filter(
@@ -328,7 +231,7 @@ function FormatEditorModal({
 
       setIsUploadingImage(true)
       try {
-        const result = await addReferenceImage(format.format_id, imageData)
+        const result = await addFormatReferenceImage(format.format_id, imageData)
         setFormData((prev) => ({
           ...prev,
           reference_image_urls: result.reference_image_urls,
@@ -422,7 +325,7 @@ function FormatEditorModal({
       if (!format) return
 
       try {
-        const result = await removeReferenceImage(format.format_id, imageUrl)
+        const result = await removeFormatReferenceImage(format.format_id, imageUrl)
         setFormData((prev) => ({
           ...prev,
           reference_image_urls: result.reference_image_urls,
@@ -12,25 +12,9 @@ import {
 } from 'lucide-react'
 import { Button } from './ui/button'
 import { useToast } from './ui/toast'
-import { API_BASE } from '../config'
-import { authFetch, useAuth } from '../auth'
-
-interface StylePreset {
-  id: string
-  name: string
-  description: string
-}
-
-interface GeneratedImage {
-  id: string
-  image_url: string
-  prompt: string
-  style_preset: string
-  aspect_ratio: string
-  model_used: string
-  generation_time_ms: number
-  created_at: string
-}
+import { useAuth } from '../auth'
+import { fetchImageStyles, fetchImageHistory, generateImages, deleteImage } from '../api'
+import type { GeneratedImage } from '../api'
 
 const ASPECT_RATIOS = [
   { id: '1:1', name: 'Square (1:1)', description: 'Best for Facebook feed' },
@@ -39,44 +23,6 @@ const ASPECT_RATIOS = [
   { id: '16:9', name: 'Wide (16:9)', description: 'Cinematic wide' },
 ]
 
-async function fetchStyles(): Promise<StylePreset[]> {
-  const res = await authFetch(`${API_BASE}/images/styles`)
-  if (!res.ok) throw new Error('Failed to fetch styles')
-  const data = await res.json()
-  return data.styles
-}
-
-async function fetchHistory(): Promise<GeneratedImage[]> {
-  const res = await authFetch(`${API_BASE}/images/history?limit=50`)
-  if (!res.ok) throw new Error('Failed to fetch history')
-  const data = await res.json()
-  return data.images
-}
-
-async function generateImages(params: {
-  prompt: string
-  style_preset: string
-  aspect_ratio: string
-  quantity: number
-  reference_images?: string[]
-}): Promise<{ images: GeneratedImage[]; errors?: string[] }> {
-  const res = await authFetch(`${API_BASE}/images/generate`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(params),
-  })
-  if (!res.ok) {
-    const error = await res.json()
-    throw new Error(error.detail || 'Generation failed')
-  }
-  return res.json()
-}
-
-async function deleteImage(id: string): Promise<void> {
-  const res = await authFetch(`${API_BASE}/images/${id}`, { method: 'DELETE' })
-  if (!res.ok) throw new Error('Failed to delete')
-}
-
 export function ImageStudio() {
   const queryClient = useQueryClient()
   const toast = useToast()
@@ -92,13 +38,13 @@ export function ImageStudio() {
 
   const { data: styles = [] } = useQuery({
     queryKey: ['image-styles'],
-    queryFn: fetchStyles,
+    queryFn: fetchImageStyles,
     enabled: isAuthenticated,
   })
 
   const { data: history = [], isLoading: isLoadingHistory } = useQuery({
     queryKey: ['image-history'],
-    queryFn: fetchHistory,
+    queryFn: () => fetchImageHistory(),
     enabled: isAuthenticated,
   })
 
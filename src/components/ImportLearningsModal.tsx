@@ -0,0 +1,200 @@
+import { useMemo, useRef, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { X, Loader2, Upload } from 'lucide-react'
+import { Button } from './ui/button'
+import { useToast } from './ui/toast'
+import { fetchLearnings, fetchProducts, importLearnings } from '../api'
+import { diffPack, parsePack, type LearningPack, type PackItemStatus } from '../utils/learningPack'
+
+interface ImportLearningsModalProps {
+  onClose: () => void
+  onImported: () => void
+}
+
+const STATUS_LABELS: Record<PackItemStatus, string> = {
+  new: 'New',
+  duplicate: 'Duplicate',
+  conflict: 'Conflict',
+}
+
+const STATUS_STYLES: Record<PackItemStatus, string> = {
+  new: 'bg-green-50 text-green-700 border-green-200',
+  duplicate: 'bg-blue-50 text-blue-700 border-blue-200',
+  conflict: 'bg-orange-50 text-orange-700 border-orange-200',
+}
+
+export function ImportLearningsModal({ onClose, onImported }: ImportLearningsModalProps) {
+  const toast = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [pack, setPack] = useState<LearningPack | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [targetProductId, setTargetProductId] = useState('')
+  // Indexes into pack.learnings; null until the user changes the default
+  // selection, which is every learning the diff marks as new
+  const [picked, setPicked] = useState<Set<number> | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const { data: existing = [], isLoading: isLoadingExisting } = useQuery({
+    queryKey: ['learnings'],
+    queryFn: () => fetchLearnings(),
+  })
+  const { data: products = [] } = useQuery({ queryKey: ['products'], queryFn: fetchProducts })
+
+  const diff = useMemo(
+    () => (pack ? diffPack(pack, existing, targetProductId || null) : []),
+    [pack, existing, targetProductId]
+  )
+  const selected = useMemo(
+    () => picked ?? new Set(diff.flatMap((item, i) => (item.status === 'new' ? [i] : []))),
+    [picked, diff]
+  )
+  const counts = diff.reduce(
+    (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    { new: 0, duplicate: 0, conflict: 0 } as Record<PackItemStatus, number>
+  )
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      try {
+        const parsed = parsePack(event.target?.result as string)
+        setPack(parsed)
+        setPicked(null)
+        setFileError(null)
+      } catch (err) {
+        setPack(null)
+        setFileError(err instanceof Error ? err.message : 'Could not read this file')
+      }
+    }
+    reader.readAsText(file)
+  }
+
+  const toggle = (index: number) => {
+    const next = new Set(selected)
+    if (next.has(index)) {
+      next.delete(index)
+    } else {
+      next.add(index)
+    }
+    setPicked(next)
+  }
+
+  // What counts as new depends on the target, so start over from the default
+  const changeTarget = (productId: string) => {
+    setTargetProductId(productId)
+    setPicked(null)
+  }
+
+  const handleImport = async () => {
+    if (!pack || selected.size === 0) return
+    setIsImporting(true)
+    try {
+      const created = await importLearnings(
+        targetProductId || null,
+        pack.learnings.filter((_, i) => selected.has(i)),
+        pack.source
+      )
+      toast.success(`Imported ${created.length} learning${created.length !== 1 ? 's' : ''}`)
+      onImported()
+    } catch (err) {
+      console.error('Import failed:', err)
+      toast.error('Failed to import learnings')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/20 flex items-center justify-center z-50">
+      <div className="bg-white border border-[#E5E5E5] w-full max-w-2xl m-4 max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-[#E5E5E5]">
+          <div>
+            <h3 className="font-medium">Import Learnings</h3>
+            <p className="text-xs text-[#A3A3A3]">
+              {pack
+                ? `${pack.learnings.length} learnings from ${pack.source}${pack.exported_at ? `, exported ${new Date(pack.exported_at).toLocaleDateString()}` : ''}`
+                : 'Choose a JSON pack exported from Learnings'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-[#A3A3A3] hover:text-black">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 border-b border-[#E5E5E5]">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              {pack ? 'Choose another file' : 'Choose file'}
+            </Button>
+            <select
+              value={targetProductId}
+              onChange={(e) => changeTarget(e.target.value)}
+              className="flex-1 h-8 px-2 text-sm border border-[#E5E5E5] bg-white focus:outline-none focus:border-black"
+            >
+              <option value="">Import as account-wide learnings</option>
+              {products.map(p => (
+                <option key={p.id} value={p.id}>Import into {p.name}</option>
+              ))}
+            </select>
+          </div>
+          <input type="file" ref={fileInputRef} onChange={handleFile} accept=".json,application/json" className="hidden" />
+          {fileError && <p className="text-xs text-red-600">{fileError}</p>}
+          {pack && (
+            <p className="text-xs text-[#737373]">
+              {counts.new} new · {counts.duplicate} duplicate{counts.duplicate !== 1 ? 's' : ''} · {counts.conflict} conflict
+              {counts.conflict !== 1 ? 's' : ''} with existing learnings. Imported learnings start as hypotheses.
+            </p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-[#E5E5E5]">
+          {isLoadingExisting ? (
+            <div className="py-8 text-center">
+              <Loader2 className="w-5 h-5 animate-spin mx-auto text-[#A3A3A3]" />
+            </div>
+          ) : (
+            diff.map((item, i) => (
+              <label key={i} className="flex items-start gap-3 p-3 cursor-pointer hover:bg-[#FAFAFA]">
+                <input type="checkbox" checked={selected.has(i)} onChange={() => toggle(i)} className="mt-1" />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-1.5 py-0.5 text-[10px] font-medium border ${STATUS_STYLES[item.status]}`}>
+                      {STATUS_LABELS[item.status]}
+                    </span>
+                    <span className={`text-xs font-medium ${item.learning.type === 'do' ? 'text-green-700' : 'text-red-700'}`}>
+                      {item.learning.type === 'do' ? 'DO' : 'AVOID'}
+                    </span>
+                    <span className="text-xs text-[#A3A3A3]">
+                      {item.learning.category} · {item.learning.applies_to} · {Math.round(item.learning.confidence * 100)}%
+                    </span>
+                  </div>
+                  <p className="text-sm">{item.learning.insight}</p>
+                  {item.match && (
+                    <p className="text-xs text-[#737373]">
+                      {item.status === 'duplicate' ? 'Same as' : 'Contradicts'} existing {item.match.type}:{' '}
+                      <span className="italic">{item.match.insight}</span>
+                    </p>
+                  )}
+                </div>
+              </label>
+            ))
+          )}
+        </div>
+
+        <div className="flex gap-3 p-4 border-t border-[#E5E5E5]">
+          <Button variant="outline" className="flex-1" onClick={onClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button className="flex-1" onClick={handleImport} disabled={!pack || isLoadingExisting || selected.size === 0 || isImporting}>
+            {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Import {selected.size}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
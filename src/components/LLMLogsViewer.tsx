@@ -1,32 +1,14 @@
 import { useState, useEffect } from 'react'
 import { ChevronDown, ChevronRight, Clock, Cpu, Brain, AlertCircle } from 'lucide-react'
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
+import { fetchAnalysisRunLLMLogs, fetchConceptLLMLogs } from '../api'
+import type { LLMLog } from '../api'
 
-interface LLMLog {
-  id: string
-  concept_id: string | null
-  call_name: string
-  model_id: string
-  thinking_enabled: boolean
-  thinking_budget: number | null
-  system_prompt: string | null
-  user_prompt: string
-  response_text: string | null
-  thinking_text: string | null
-  input_tokens: number | null
-  output_tokens: number | null
-  thinking_tokens: number | null
-  latency_ms: number | null
-  error: string | null
-  created_at: string
-}
-
-interface LLMLogsViewerProps {
-  conceptId: string
-}
+// Logs for a concept, or for an analyze-ads run
+type LLMLogsViewerProps = { conceptId: string } | { analysisRunId: string }
 
-export function LLMLogsViewer({ conceptId }: LLMLogsViewerProps) {
+export function LLMLogsViewer(props: LLMLogsViewerProps) {
+  const conceptId = 'conceptId' in props ? props.conceptId : null
+  const analysisRunId = 'analysisRunId' in props ? props.analysisRunId : null
   const [logs, setLogs] = useState<LLMLog[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [expandedLog, setExpandedLog] = useState<string | null>(null)
@@ -34,14 +16,14 @@ export function LLMLogsViewer({ conceptId }: LLMLogsViewerProps) {
 
   useEffect(() => {
     fetchLogs()
-  }, [conceptId])
+  }, [conceptId, analysisRunId])
 
   const fetchLogs = async () => {
     try {
-      const res = await authFetch(`${API_BASE}/settings/llm-logs/concept/${conceptId}`)
-      if (res.ok) {
-        const data = await res.json()
-        setLogs(data.logs || [])
+      if (analysisRunId) {
+        setLogs(await fetchAnalysisRunLLMLogs(analysisRunId))
+      } else if (conceptId) {
+        setLogs(await fetchConceptLLMLogs(conceptId))
       }
     } catch (error) {
       console.error('Failed to fetch LLM logs:', error)
@@ -75,6 +57,8 @@ export function LLMLogsViewer({ conceptId }: LLMLogsViewerProps) {
     switch (callName) {
       case 'pattern_analysis':
         return 'text-blue-600 bg-blue-50'
+      case 'learning_extraction':
+        return 'text-teal-600 bg-teal-50'
       case 'hypothesis_generation':
         return 'text-purple-600 bg-purple-50'
       case 'copywriter':
@@ -96,7 +80,7 @@ export function LLMLogsViewer({ conceptId }: LLMLogsViewerProps) {
 
   if (logs.length === 0) {
     return (
-      <div className="text-sm text-[#A3A3A3] py-4">No LLM logs found for this concept.</div>
+      <div className="text-sm text-[#A3A3A3] py-4">No LLM logs found for this {analysisRunId ? 'run' : 'concept'}.</div>
     )
   }
 
@@ -0,0 +1,69 @@
+import type { LearningImpact } from '../utils/learningImpact'
+
+const formatRate = (value: number | null) => (value === null ? '-' : `${Math.round(value * 100)}%`)
+const formatCurrency = (value: number | null) => (value === null ? '-' : `$${value.toFixed(2)}`)
+const formatRoas = (value: number | null) => (value === null ? '-' : `${value.toFixed(2)}x`)
+
+// Green when the concepts using the learning do better; higher is better unless `lowerIsBetter`
+function compare(used: number | null, notUsed: number | null, lowerIsBetter = false): string {
+  if (used === null || notUsed === null || used === notUsed) return ''
+  return used > notUsed !== lowerIsBetter ? 'text-green-600' : 'text-red-600'
+}
+
+// One-line summary for the learning card
+export function impactSummary(impact: LearningImpact | undefined): string {
+  if (!impact || impact.used.concepts === 0) return 'Not used in any concept yet'
+  const { used } = impact
+  return [
+    `Used in ${used.concepts} concept${used.concepts !== 1 ? 's' : ''}`,
+    used.approvalRate !== null && `${formatRate(used.approvalRate)} approved`,
+    used.roas !== null && `${formatRoas(used.roas)} ROAS`,
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+// Concepts generated with the learning next to comparable ones without it,
+// with ad performance over periodLabel (e.g. "Last 30 days")
+export function LearningImpactPanel({ impact, periodLabel }: { impact: LearningImpact; periodLabel: string }) {
+  const { used, notUsed } = impact
+  const rows: Array<{ label: string; used: string; notUsed: string; className: string }> = [
+    { label: 'Concepts', used: String(used.concepts), notUsed: String(notUsed.concepts), className: '' },
+    {
+      label: 'Approval rate',
+      used: formatRate(used.approvalRate),
+      notUsed: formatRate(notUsed.approvalRate),
+      className: compare(used.approvalRate, notUsed.approvalRate),
+    },
+    { label: 'Live ads', used: String(used.ads), notUsed: String(notUsed.ads), className: '' },
+    { label: 'Spend', used: formatCurrency(used.spend), notUsed: formatCurrency(notUsed.spend), className: '' },
+    { label: 'CPA', used: formatCurrency(used.cpa), notUsed: formatCurrency(notUsed.cpa), className: compare(used.cpa, notUsed.cpa, true) },
+    { label: 'ROAS', used: formatRoas(used.roas), notUsed: formatRoas(notUsed.roas), className: compare(used.roas, notUsed.roas) },
+  ]
+
+  return (
+    <div className="space-y-2">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[#737373]">
+            <th className="text-left font-medium pb-1"></th>
+            <th className="text-right font-medium pb-1">With it</th>
+            <th className="text-right font-medium pb-1">Without it</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label} className="border-t border-[#E5E5E5]">
+              <td className="py-1 text-[#737373]">{row.label}</td>
+              <td className={`py-1 text-right font-medium ${row.className}`}>{row.used}</td>
+              <td className="py-1 text-right">{row.notUsed}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-[#A3A3A3]">
+        Without it: concepts for the same products generated since this learning was added. Ad performance is the {periodLabel.toLowerCase()}.
+      </p>
+    </div>
+  )
+}
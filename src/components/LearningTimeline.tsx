@@ -0,0 +1,100 @@
+import { useQuery } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { fetchLearningHistory } from '../api'
+import type { LearningEventKind, LearningStatus } from '../api'
+
+export const LEARNING_STATUS_LABELS: Record<LearningStatus, string> = {
+  hypothesis: 'Hypothesis',
+  validated: 'Validated',
+  contradicted: 'Contradicted',
+  retired: 'Retired',
+}
+
+export const LEARNING_STATUS_STYLES: Record<LearningStatus, string> = {
+  hypothesis: 'bg-[#FAFAFA] text-[#737373] border-[#E5E5E5]',
+  validated: 'bg-green-50 text-green-700 border-green-200',
+  contradicted: 'bg-red-50 text-red-700 border-red-200',
+  retired: 'bg-[#F5F5F5] text-[#A3A3A3] border-[#E5E5E5]',
+}
+
+const EVENT_LABELS: Record<LearningEventKind, string> = {
+  created: 'Created',
+  supported: 'Supported',
+  contradicted: 'Contradicted',
+  decayed: 'Decayed',
+  status_changed: 'Status changed',
+  edited: 'Edited',
+  merged: 'Merged',
+}
+
+const EVENT_DOTS: Record<LearningEventKind, string> = {
+  created: 'bg-black',
+  supported: 'bg-green-600',
+  contradicted: 'bg-red-600',
+  decayed: 'bg-orange-500',
+  status_changed: 'bg-[#737373]',
+  edited: 'bg-[#A3A3A3]',
+  merged: 'bg-blue-600',
+}
+
+// How a learning's confidence and evidence changed, newest first
+export function LearningTimeline({ learningId }: { learningId: string }) {
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: ['learning-history', learningId],
+    queryFn: () => fetchLearningHistory(learningId),
+  })
+
+  if (isLoading) {
+    return (
+      <div className="py-3 text-center">
+        <Loader2 className="w-4 h-4 animate-spin mx-auto text-[#A3A3A3]" />
+      </div>
+    )
+  }
+
+  if (events.length === 0) {
+    return <p className="text-xs text-[#A3A3A3] py-2">No history recorded yet</p>
+  }
+
+  return (
+    <ol className="space-y-3">
+      {events.map((event, i) => {
+        const previous = events[i + 1]
+        const change = previous ? event.confidence - previous.confidence : 0
+        return (
+          <li key={event.id} className="flex gap-3 text-xs">
+            <span className={`w-2 h-2 mt-1 flex-shrink-0 ${EVENT_DOTS[event.kind]}`} />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{EVENT_LABELS[event.kind]}</span>
+                <span className="text-[#A3A3A3]">{new Date(event.created_at).toLocaleDateString()}</span>
+                <span className={`ml-auto px-1.5 py-0.5 text-[10px] border ${LEARNING_STATUS_STYLES[event.status]}`}>
+                  {LEARNING_STATUS_LABELS[event.status]}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="flex-1 h-1 bg-[#E5E5E5]">
+                  <div className="h-1 bg-black" style={{ width: `${Math.round(event.confidence * 100)}%` }} />
+                </div>
+                <span className="w-20 text-right text-[#737373]">
+                  {Math.round(event.confidence * 100)}%
+                  {Math.round(change * 100) !== 0 && (
+                    <span className={change > 0 ? 'text-green-600' : 'text-red-600'}>
+                      {' '}({change > 0 ? '+' : ''}{Math.round(change * 100)})
+                    </span>
+                  )}
+                </span>
+              </div>
+              <p className="text-[#525252]">{event.note}</p>
+              {event.ad_names && event.ad_names.length > 0 && (
+                <p className="text-[#A3A3A3] truncate" title={event.ad_names.join(', ')}>
+                  {event.ad_names.join(', ')}
+                </p>
+              )}
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -1,52 +1,29 @@
-import { useState, useEffect, useRef, useCallback, useLayoutEffect } from 'react'
-import { RefreshCw, Plus, ThumbsUp, ThumbsDown, Trash2, Edit2, X, Video, Image as ImageIcon, MessageSquare, Sparkles, Play, ChevronDown, ChevronUp, DollarSign, Target, TrendingUp, Loader2 } from 'lucide-react'
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
-import { getCachedAds, type CachedAd } from '../utils/analyticsCache'
-
-interface AdMetric {
-  ad_name: string
-  spend: number
-  cpa: number | null
-  roas: number | null
-}
-
-interface Evidence {
-  ad_ids?: string[]
-  ad_names?: string[]
-  ad_metrics?: AdMetric[]
-  metrics_comparison?: string
-  specific_examples?: string[]
-  supporting_ads?: string[]
-}
-
-interface Learning {
-  id: string
-  insight: string
-  category: string
-  type: 'do' | 'avoid'
-  confidence: number
-  applies_to: string
-  product_id: string | null
-  evidence: Evidence | null
-  is_active: boolean
-  created_at: string
-  source_type?: string
-}
-
-interface LearningsResponse {
-  learnings: Learning[]
-  total: number
-}
-
-interface AnalysisResult {
-  success: boolean
-  ads_analyzed: number
-  winners: number
-  losers: number
-  learnings_created: number
-  summary: string
-}
+import { useState, useEffect, useMemo, useRef, useCallback, useLayoutEffect } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { RefreshCw, Plus, ThumbsUp, ThumbsDown, Trash2, Edit2, X, Video, Image as ImageIcon, MessageSquare, Sparkles, Play, ChevronDown, ChevronUp, DollarSign, Target, TrendingUp, Loader2, Link2, History, RotateCw, Copy, AlertTriangle, Merge, BarChart3, Download, Upload } from 'lucide-react'
+import {
+  fetchLearnings,
+  createLearning,
+  updateLearning,
+  deleteLearning,
+  analyzeAds,
+  reevaluateLearnings,
+  fetchConcepts,
+  fetchInsightsSnapshot,
+  isApiError,
+} from '../api'
+import type { DatePreset, FBAd, Learning, LearningStatus, AnalysisResult } from '../api'
+import { useRouteId } from '../router'
+import { useToast } from './ui/toast'
+import { LearningTimeline, LEARNING_STATUS_LABELS, LEARNING_STATUS_STYLES } from './LearningTimeline'
+import { MergeLearningsModal } from './MergeLearningsModal'
+import { ExportLearningsModal } from './ExportLearningsModal'
+import { ImportLearningsModal } from './ImportLearningsModal'
+import { AnalysisRunsModal } from './AnalysisRunsModal'
+import { LearningImpactPanel, impactSummary } from './LearningImpactPanel'
+import { findContradictions, findDuplicateClusters } from '../utils/learningOverlap'
+import { APPLIES_TO_OPTIONS, LEARNING_CATEGORIES } from '../utils/learningPack'
+import { buildLearningImpacts } from '../utils/learningImpact'
 
 interface AdForSelection {
   id: string
@@ -58,8 +35,23 @@ interface AdForSelection {
   roas?: number
 }
 
-const CATEGORIES = ['visual', 'copy', 'hook', 'cta', 'targeting', 'offer', 'format', 'mechanism', 'avatar']
-const APPLIES_TO_OPTIONS = ['all', 'video', 'image', 'text']
+function toAdForSelection(ad: FBAd): AdForSelection {
+  return {
+    id: ad.id,
+    name: ad.name || '',
+    thumbnail_url: ad.thumbnail_url,
+    primary_text: ad.primary_text || '',
+    spend: ad.insights?.spend ? parseFloat(String(ad.insights.spend)) : 0,
+    cpa: ad.insights?.cost_per_purchase ? parseFloat(String(ad.insights.cost_per_purchase)) : undefined,
+    roas: ad.insights?.roas ? parseFloat(String(ad.insights.roas)) : undefined,
+  }
+}
+
+// Analysis picks from, and impact is measured on, this window of synced ads
+const ADS_PERIOD: DatePreset = 'last_30d'
+const ADS_PERIOD_LABEL = 'Last 30 days'
+
+const STATUSES: LearningStatus[] = ['hypothesis', 'validated', 'contradicted', 'retired']
 
 const CATEGORY_COLORS: Record<string, string> = {
   visual: 'bg-purple-100 text-purple-800',
@@ -88,15 +80,30 @@ function AppliesTo({ value }: { value: string }) {
   )
 }
 
+const daysSince = (iso: string) => Math.floor((Date.now() - new Date(iso).getTime()) / (24 * 60 * 60 * 1000))
+
 export function Learnings() {
+  const queryClient = useQueryClient()
+  const toast = useToast()
   const [learnings, setLearnings] = useState<Learning[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [categoryFilter, setCategoryFilter] = useState<string>('')
   const [appliesToFilter, setAppliesToFilter] = useState<string>('')
+  // Empty shows everything except retired learnings
+  const [statusFilter, setStatusFilter] = useState<LearningStatus | ''>('')
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingLearning, setEditingLearning] = useState<Learning | null>(null)
   const [isSaving, setIsSaving] = useState(false)
   const [expandedEvidence, setExpandedEvidence] = useState<Set<string>>(new Set())
+  const [expandedHistory, setExpandedHistory] = useState<Set<string>>(new Set())
+  const [expandedImpact, setExpandedImpact] = useState<Set<string>>(new Set())
+  const [isReevaluating, setIsReevaluating] = useState(false)
+  const [mergingLearnings, setMergingLearnings] = useState<Learning[] | null>(null)
+  const [showExportModal, setShowExportModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
+  // Run to open the run history on; null opens it on the latest run
+  const [viewingRunId, setViewingRunId] = useState<string | null | undefined>(undefined)
+  const [focusedLearningId, setFocusedLearningId] = useRouteId('learnings')
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null)
 
@@ -105,6 +112,7 @@ export function Learnings() {
   const [availableAds, setAvailableAds] = useState<AdForSelection[]>([])
   const [selectedAdIds, setSelectedAdIds] = useState<Set<string>>(new Set())
   const [isLoadingAds, setIsLoadingAds] = useState(false)
+  const [adsSyncedAt, setAdsSyncedAt] = useState<string | null>(null)
   const [adSearchQuery, setAdSearchQuery] = useState('')
 
   // Form state
@@ -113,19 +121,26 @@ export function Learnings() {
   const [formType, setFormType] = useState<'do' | 'avoid'>('do')
   const [formConfidence, setFormConfidence] = useState(0.8)
   const [formAppliesTo, setFormAppliesTo] = useState('all')
+  const [formStatus, setFormStatus] = useState<LearningStatus>('hypothesis')
 
-  const fetchLearnings = async () => {
+  // Concepts record which learnings they were generated with
+  const { data: concepts = [] } = useQuery({ queryKey: ['concepts'], queryFn: fetchConcepts })
+  const { data: impactSnapshot } = useQuery({
+    queryKey: ['insights-snapshot', ADS_PERIOD],
+    queryFn: () => fetchInsightsSnapshot(ADS_PERIOD),
+  })
+
+  const loadLearnings = async () => {
     setIsLoading(true)
+    // Every learning change reloads through here; keep the shared cache the
+    // export, import and report modals read in step
+    queryClient.invalidateQueries({ queryKey: ['learnings'] })
     try {
-      const params = new URLSearchParams()
-      if (categoryFilter) params.set('category', categoryFilter)
-      if (appliesToFilter) params.set('applies_to', appliesToFilter)
-
-      const res = await authFetch(`${API_BASE}/analysis/learnings/v2?${params}`)
-      if (res.ok) {
-        const data: LearningsResponse = await res.json()
-        setLearnings(data.learnings)
-      }
+      setLearnings(await fetchLearnings({
+        category: categoryFilter || undefined,
+        applies_to: appliesToFilter || undefined,
+        status: statusFilter || undefined,
+      }))
     } catch (error) {
       console.error('Failed to fetch learnings:', error)
     } finally {
@@ -134,50 +149,25 @@ export function Learnings() {
   }
 
   useEffect(() => {
-    fetchLearnings()
-  }, [categoryFilter, appliesToFilter])
-
-  const loadAdsFromCache = () => {
-    // First try to get from analytics cache (instant, no API call)
-    const cachedAds = getCachedAds()
-    if (cachedAds.length > 0) {
-      const ads: AdForSelection[] = cachedAds.map((ad: CachedAd) => ({
-        id: ad.id,
-        name: ad.name || '',
-        thumbnail_url: ad.thumbnail_url,
-        primary_text: ad.primary_text || '',
-        spend: ad.insights?.spend ? parseFloat(String(ad.insights.spend)) : 0,
-        cpa: ad.insights?.cost_per_purchase ? parseFloat(String(ad.insights.cost_per_purchase)) : undefined,
-        roas: ad.insights?.roas ? parseFloat(String(ad.insights.roas)) : undefined,
-      }))
-      // Sort by spend descending
-      ads.sort((a, b) => (b.spend || 0) - (a.spend || 0))
-      setAvailableAds(ads)
-      return true
-    }
-    return false
-  }
+    loadLearnings()
+  }, [categoryFilter, appliesToFilter, statusFilter])
 
-  const fetchAdsFromApi = async () => {
+  // Expand and scroll to a deep-linked learning (/learnings/<id>) once loaded
+  useEffect(() => {
+    if (!focusedLearningId || isLoading) return
+    setExpandedEvidence(prev => new Set(prev).add(focusedLearningId))
+    document.getElementById(`learning-${focusedLearningId}`)?.scrollIntoView({ block: 'center' })
+  }, [focusedLearningId, isLoading])
+
+  const fetchAdsFromSnapshot = async () => {
     setIsLoadingAds(true)
     try {
-      // Fetch last 60 days of ads
-      const res = await authFetch(`${API_BASE}/fb/ads/with-insights?date_preset=last_30d&limit=200`)
-      if (res.ok) {
-        const data = await res.json()
-        const ads: AdForSelection[] = data.map((ad: any) => ({
-          id: ad.id,
-          name: ad.name || '',
-          thumbnail_url: ad.thumbnail_url,
-          primary_text: ad.primary_text || '',
-          spend: ad.spend ? parseFloat(ad.spend) : 0,
-          cpa: ad.cpa ? parseFloat(ad.cpa) : undefined,
-          roas: ad.roas ? parseFloat(ad.roas) : undefined,
-        }))
-        // Sort by spend descending
-        ads.sort((a, b) => (b.spend || 0) - (a.spend || 0))
-        setAvailableAds(ads)
-      }
+      const snapshot = await fetchInsightsSnapshot(ADS_PERIOD)
+      const ads = snapshot.ads.map(toAdForSelection)
+      // Sort by spend descending
+      ads.sort((a, b) => (b.spend || 0) - (a.spend || 0))
+      setAvailableAds(ads)
+      setAdsSyncedAt(snapshot.synced_at)
     } catch (error) {
       console.error('Failed to fetch ads:', error)
     } finally {
@@ -185,13 +175,10 @@ export function Learnings() {
     }
   }
 
-  // Load ads when modal opens - try cache first, fallback to API
+  // Load ads from the latest insights snapshot when the modal opens
   useEffect(() => {
     if (showAnalysisModal && availableAds.length === 0) {
-      const loadedFromCache = loadAdsFromCache()
-      if (!loadedFromCache) {
-        fetchAdsFromApi()
-      }
+      fetchAdsFromSnapshot()
     }
   }, [showAnalysisModal])
 
@@ -207,28 +194,42 @@ export function Learnings() {
     setAnalysisResult(null)
 
     try {
-      const res = await authFetch(`${API_BASE}/analysis/analyze-ads`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ad_ids: adIds }),
-      })
-
-      if (res.ok) {
-        const data = await res.json()
-        setAnalysisResult(data)
-        fetchLearnings()
-      } else {
-        const error = await res.json()
-        alert(`Analysis failed: ${error.detail || 'Unknown error'}`)
-      }
+      setAnalysisResult(await analyzeAds(adIds))
+      queryClient.invalidateQueries({ queryKey: ['analysis-runs'] })
+      loadLearnings()
     } catch (error) {
       console.error('Analysis failed:', error)
-      alert('Analysis failed. Check console for details.')
+      if (isApiError(error)) {
+        alert(`Analysis failed: ${error.detail || 'Unknown error'}`)
+      } else {
+        alert('Analysis failed. Check console for details.')
+      }
     } finally {
       setIsAnalyzing(false)
     }
   }
 
+  const runReevaluation = async () => {
+    setIsReevaluating(true)
+    try {
+      const result = await reevaluateLearnings()
+      const changed = result.supported + result.contradicted + result.decayed
+      toast.success(
+        changed === 0
+          ? `Re-evaluated ${result.evaluated} learnings, nothing changed`
+          : `Re-evaluated ${result.evaluated} learnings: ${result.supported} supported, ${result.contradicted} contradicted, ${result.decayed} decayed` +
+              (result.retired > 0 ? ` (${result.retired} retired)` : '')
+      )
+      queryClient.invalidateQueries({ queryKey: ['learning-history'] })
+      loadLearnings()
+    } catch (error) {
+      console.error('Re-evaluation failed:', error)
+      toast.error('Re-evaluation failed')
+    } finally {
+      setIsReevaluating(false)
+    }
+  }
+
   const toggleAdSelection = (adId: string) => {
     setSelectedAdIds(prev => {
       const next = new Set(prev)
@@ -260,6 +261,7 @@ export function Learnings() {
     setFormType('do')
     setFormConfidence(0.8)
     setFormAppliesTo('all')
+    setFormStatus('hypothesis')
     setIsModalOpen(true)
   }
 
@@ -270,6 +272,7 @@ export function Learnings() {
     setFormType(learning.type)
     setFormConfidence(learning.confidence)
     setFormAppliesTo(learning.applies_to)
+    setFormStatus(learning.status)
     setIsModalOpen(true)
   }
 
@@ -285,21 +288,14 @@ export function Learnings() {
       }
 
       if (editingLearning) {
-        await authFetch(`${API_BASE}/analysis/learnings/${editingLearning.id}`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(payload),
-        })
+        await updateLearning(editingLearning.id, { ...payload, status: formStatus })
+        queryClient.invalidateQueries({ queryKey: ['learning-history', editingLearning.id] })
       } else {
-        await authFetch(`${API_BASE}/analysis/learnings/v2`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(payload),
-        })
+        await createLearning(payload)
       }
 
       setIsModalOpen(false)
-      fetchLearnings()
+      loadLearnings()
     } catch (error) {
       console.error('Failed to save learning:', error)
     } finally {
@@ -307,12 +303,24 @@ export function Learnings() {
     }
   }
 
-  const deleteLearning = async (id: string) => {
+  const retireLearning = async (learning: Learning) => {
+    try {
+      await updateLearning(learning.id, { status: 'retired' })
+      queryClient.invalidateQueries({ queryKey: ['learning-history', learning.id] })
+      toast.success('Learning retired')
+      loadLearnings()
+    } catch (error) {
+      console.error('Failed to retire learning:', error)
+      toast.error('Failed to retire learning')
+    }
+  }
+
+  const handleDeleteLearning = async (id: string) => {
     if (!confirm('Delete this learning?')) return
 
     try {
-      await authFetch(`${API_BASE}/analysis/learnings/${id}/hard`, { method: 'DELETE' })
-      fetchLearnings()
+      await deleteLearning(id)
+      loadLearnings()
     } catch (error) {
       console.error('Failed to delete learning:', error)
     }
@@ -340,6 +348,30 @@ export function Learnings() {
     })
   }, [])
 
+  const toggleImpact = (id: string) => {
+    setExpandedImpact(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const toggleHistory = (id: string) => {
+    setExpandedHistory(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
   // Restore scroll position after expand/collapse
   useLayoutEffect(() => {
     if (pendingScrollRef.current && scrollContainerRef.current) {
@@ -354,6 +386,30 @@ export function Learnings() {
     }
   }, [expandedEvidence])
 
+  // Retired learnings no longer count as duplicates or conflicts
+  const { duplicateClusters, contradictions } = useMemo(() => {
+    const current = learnings.filter(l => l.status !== 'retired')
+    return { duplicateClusters: findDuplicateClusters(current), contradictions: findContradictions(current) }
+  }, [learnings])
+
+  const overlapNotes = useMemo(() => {
+    const notes = new Map<string, { duplicates: number; conflicts: number }>()
+    const note = (id: string) => notes.get(id) || notes.set(id, { duplicates: 0, conflicts: 0 }).get(id)!
+    for (const cluster of duplicateClusters) {
+      for (const learning of cluster.learnings) note(learning.id).duplicates = cluster.learnings.length - 1
+    }
+    for (const { doLearning, avoidLearning } of contradictions) {
+      note(doLearning.id).conflicts++
+      note(avoidLearning.id).conflicts++
+    }
+    return notes
+  }, [duplicateClusters, contradictions])
+
+  const impacts = useMemo(
+    () => buildLearningImpacts(learnings, concepts, impactSnapshot?.ads || []),
+    [learnings, concepts, impactSnapshot]
+  )
+
   const doLearnings = learnings.filter(l => l.type === 'do')
   const avoidLearnings = learnings.filter(l => l.type === 'avoid')
 
@@ -364,13 +420,36 @@ export function Learnings() {
       learning.evidence.metrics_comparison
     )
     const isExpanded = expandedEvidence.has(learning.id)
+    const isHistoryOpen = expandedHistory.has(learning.id)
+    const overlap = overlapNotes.get(learning.id)
+    const impact = impacts.get(learning.id)
+    const isImpactOpen = expandedImpact.has(learning.id)
 
     return (
-      <div className="border border-[#E5E5E5] bg-white">
+      <div
+        id={`learning-${learning.id}`}
+        className={`border bg-white ${focusedLearningId === learning.id ? 'border-black' : 'border-[#E5E5E5]'} ${
+          learning.status === 'retired' ? 'opacity-60' : ''
+        }`}
+      >
         <div className="p-4 space-y-3">
           <div className="flex items-start justify-between gap-2">
             <p className="text-sm flex-1 leading-relaxed">{learning.insight}</p>
             <div className="flex items-center gap-1 flex-shrink-0">
+              <button
+                onClick={() => setFocusedLearningId(learning.id)}
+                className="p-1 text-[#A3A3A3] hover:text-black"
+                title="Link to this learning"
+              >
+                <Link2 className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => toggleHistory(learning.id)}
+                className={`p-1 hover:text-black ${isHistoryOpen ? 'text-black' : 'text-[#A3A3A3]'}`}
+                title="History"
+              >
+                <History className="w-3.5 h-3.5" />
+              </button>
               <button
                 onClick={() => openEditModal(learning)}
                 className="p-1 text-[#A3A3A3] hover:text-black"
@@ -378,7 +457,7 @@ export function Learnings() {
                 <Edit2 className="w-3.5 h-3.5" />
               </button>
               <button
-                onClick={() => deleteLearning(learning.id)}
+                onClick={() => handleDeleteLearning(learning.id)}
                 className="p-1 text-[#A3A3A3] hover:text-red-500"
               >
                 <Trash2 className="w-3.5 h-3.5" />
@@ -391,7 +470,17 @@ export function Learnings() {
               {learning.category}
             </span>
             <AppliesTo value={learning.applies_to} />
-            <span className="text-xs text-[#A3A3A3]">
+            <span className={`px-1.5 py-0.5 text-xs border ${LEARNING_STATUS_STYLES[learning.status]}`}>
+              {LEARNING_STATUS_LABELS[learning.status]}
+            </span>
+            <span
+              className="text-xs text-[#A3A3A3]"
+              title={
+                learning.last_evidence_at
+                  ? `Last new evidence ${daysSince(learning.last_evidence_at)} days ago`
+                  : 'No evidence from new ads yet'
+              }
+            >
               {Math.round(learning.confidence * 100)}%
             </span>
             {(learning.source_type === 'analysis' || learning.source_type === 'comparison') && (
@@ -399,8 +488,35 @@ export function Learnings() {
                 data-backed
               </span>
             )}
+            {overlap && overlap.duplicates > 0 && (
+              <span
+                className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs bg-blue-50 text-blue-700 border border-blue-200"
+                title={`Says the same as ${overlap.duplicates} other learning${overlap.duplicates !== 1 ? 's' : ''}`}
+              >
+                <Copy className="w-3 h-3" />
+                duplicate
+              </span>
+            )}
+            {overlap && overlap.conflicts > 0 && (
+              <span
+                className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs bg-orange-50 text-orange-700 border border-orange-200"
+                title={`Conflicts with ${overlap.conflicts} ${learning.type === 'do' ? 'avoid' : 'do'} learning${overlap.conflicts !== 1 ? 's' : ''}`}
+              >
+                <AlertTriangle className="w-3 h-3" />
+                conflict
+              </span>
+            )}
           </div>
 
+          <button
+            onClick={() => toggleImpact(learning.id)}
+            disabled={!impact || impact.used.concepts === 0}
+            className="flex items-center gap-1 text-xs text-[#737373] hover:text-black disabled:text-[#A3A3A3] disabled:hover:text-[#A3A3A3]"
+          >
+            <BarChart3 className="w-3 h-3" />
+            {impactSummary(impact)}
+          </button>
+
           {hasEvidence && (
             <button
               onClick={(e) => toggleEvidence(learning.id, e)}
@@ -412,6 +528,18 @@ export function Learnings() {
           )}
         </div>
 
+        {impact && isImpactOpen && (
+          <div className="px-4 py-3 border-t border-[#E5E5E5] bg-[#FAFAFA]">
+            <LearningImpactPanel impact={impact} periodLabel={ADS_PERIOD_LABEL} />
+          </div>
+        )}
+
+        {isHistoryOpen && (
+          <div className="px-4 py-3 border-t border-[#E5E5E5] bg-[#FAFAFA]">
+            <LearningTimeline learningId={learning.id} />
+          </div>
+        )}
+
         {hasEvidence && isExpanded && (
           <div className="px-4 pb-4 pt-0 border-t border-[#E5E5E5] mt-0 bg-[#FAFAFA]">
             <div className="pt-3 space-y-3">
@@ -490,11 +618,42 @@ export function Learnings() {
           </div>
           <div className="flex items-center gap-2">
             <button
-              onClick={fetchLearnings}
+              onClick={loadLearnings}
               className="p-2 text-[#A3A3A3] hover:text-black transition-colors"
             >
               <RefreshCw className="w-4 h-4" />
             </button>
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="p-2 text-[#A3A3A3] hover:text-black transition-colors"
+              title="Import a learnings pack"
+            >
+              <Upload className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setShowExportModal(true)}
+              className="p-2 text-[#A3A3A3] hover:text-black transition-colors"
+              title="Export learnings"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+            <button
+              onClick={runReevaluation}
+              disabled={isReevaluating}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm border border-[#E5E5E5] text-[#737373] hover:border-black hover:text-black disabled:opacity-50"
+              title="Check learnings against ads that came in since the last pass"
+            >
+              <RotateCw className={`w-4 h-4 ${isReevaluating ? 'animate-spin' : ''}`} />
+              Re-evaluate
+            </button>
+            <button
+              onClick={() => setViewingRunId(null)}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm border border-[#E5E5E5] text-[#737373] hover:border-black hover:text-black"
+              title="Past analysis runs with their inputs"
+            >
+              <History className="w-4 h-4" />
+              Runs
+            </button>
             <button
               onClick={() => setShowAnalysisModal(true)}
               className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm border border-black text-black hover:bg-black hover:text-white transition-colors"
@@ -522,7 +681,7 @@ export function Learnings() {
               className="text-sm border border-[#E5E5E5] px-2 py-1 bg-white"
             >
               <option value="">All</option>
-              {CATEGORIES.map(cat => (
+              {LEARNING_CATEGORIES.map(cat => (
                 <option key={cat} value={cat}>{cat}</option>
               ))}
             </select>
@@ -540,8 +699,86 @@ export function Learnings() {
               ))}
             </select>
           </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-[#737373]">Status:</span>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as LearningStatus | '')}
+              className="text-sm border border-[#E5E5E5] px-2 py-1 bg-white"
+            >
+              <option value="">Current</option>
+              {STATUSES.map(status => (
+                <option key={status} value={status}>{LEARNING_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
         </div>
 
+        {/* Duplicates and do/avoid conflicts */}
+        {(duplicateClusters.length > 0 || contradictions.length > 0) && (
+          <div className="border border-[#E5E5E5] divide-y divide-[#E5E5E5]">
+            {duplicateClusters.map(cluster => (
+              <div key={cluster.learnings.map(l => l.id).join('-')} className="flex items-start gap-3 p-3">
+                <Copy className="w-4 h-4 mt-0.5 text-blue-600 flex-shrink-0" />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-xs text-[#737373]">
+                    {cluster.learnings.length} similar {cluster.learnings[0].type} learnings in {cluster.learnings[0].category} ·{' '}
+                    {Math.round(cluster.similarity * 100)}% overlap
+                  </p>
+                  {cluster.learnings.map(learning => (
+                    <button
+                      key={learning.id}
+                      onClick={() => setFocusedLearningId(learning.id)}
+                      className="block w-full text-left text-sm truncate hover:underline"
+                      title={learning.insight}
+                    >
+                      {learning.insight}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setMergingLearnings(cluster.learnings)}
+                  className="inline-flex items-center gap-1 px-2 py-1 text-xs border border-[#E5E5E5] hover:border-black flex-shrink-0"
+                >
+                  <Merge className="w-3 h-3" />
+                  Merge
+                </button>
+              </div>
+            ))}
+            {contradictions.map(({ doLearning, avoidLearning, similarity }) => (
+              <div key={`${doLearning.id}-${avoidLearning.id}`} className="flex items-start gap-3 p-3">
+                <AlertTriangle className="w-4 h-4 mt-0.5 text-orange-600 flex-shrink-0" />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-xs text-[#737373]">
+                    Do and avoid learnings disagree in {doLearning.category} · {Math.round(similarity * 100)}% overlap
+                  </p>
+                  {[doLearning, avoidLearning].map(learning => (
+                    <div key={learning.id} className="flex items-center gap-2">
+                      <span className={`text-xs font-medium w-10 flex-shrink-0 ${learning.type === 'do' ? 'text-green-700' : 'text-red-700'}`}>
+                        {learning.type === 'do' ? 'DO' : 'AVOID'}
+                      </span>
+                      <button
+                        onClick={() => setFocusedLearningId(learning.id)}
+                        className="flex-1 min-w-0 text-left text-sm truncate hover:underline"
+                        title={learning.insight}
+                      >
+                        {learning.insight}
+                      </button>
+                      <span className="text-xs text-[#A3A3A3] flex-shrink-0">{Math.round(learning.confidence * 100)}%</span>
+                      <button
+                        onClick={() => retireLearning(learning)}
+                        className="text-xs text-[#737373] hover:text-black flex-shrink-0"
+                      >
+                        Retire
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Two Column Layout */}
         <div className="grid grid-cols-2 gap-6">
           {/* DO column */}
@@ -604,6 +841,8 @@ export function Learnings() {
                     <div className="flex items-center justify-between mt-2">
                       <span className="text-xs text-[#737373]">
                         {selectedAdIds.size} selected • Mix winners and losers for best results
+                        {` • ${ADS_PERIOD_LABEL}`}
+                        {adsSyncedAt && `, synced ${new Date(adsSyncedAt).toLocaleString()}`}
                       </span>
                       {selectedAdIds.size > 0 && (
                         <button
@@ -742,6 +981,19 @@ export function Learnings() {
                     >
                       Analyze More
                     </button>
+                    {analysisResult.run_id && (
+                      <button
+                        onClick={() => {
+                          setViewingRunId(analysisResult.run_id)
+                          setShowAnalysisModal(false)
+                          setAnalysisResult(null)
+                          setSelectedAdIds(new Set())
+                        }}
+                        className="px-4 py-2 text-sm text-[#737373] hover:text-black"
+                      >
+                        View Run
+                      </button>
+                    )}
                     <button
                       onClick={() => {
                         setShowAnalysisModal(false)
@@ -759,6 +1011,50 @@ export function Learnings() {
           </div>
         )}
 
+        {mergingLearnings && (
+          <MergeLearningsModal
+            learnings={mergingLearnings}
+            onClose={() => setMergingLearnings(null)}
+            onMerged={(merged) => {
+              setMergingLearnings(null)
+              queryClient.invalidateQueries({ queryKey: ['learning-history'] })
+              setFocusedLearningId(merged.id)
+              loadLearnings()
+            }}
+          />
+        )}
+
+        {viewingRunId !== undefined && (
+          <AnalysisRunsModal
+            initialRunId={viewingRunId}
+            onClose={() => setViewingRunId(undefined)}
+            onRerun={loadLearnings}
+            onFocusLearning={(id) => {
+              setViewingRunId(undefined)
+              setFocusedLearningId(id)
+            }}
+          />
+        )}
+
+        {showExportModal && (
+          <ExportLearningsModal
+            categories={LEARNING_CATEGORIES}
+            appliesToOptions={APPLIES_TO_OPTIONS}
+            initialFilters={{ category: categoryFilter, applies_to: appliesToFilter }}
+            onClose={() => setShowExportModal(false)}
+          />
+        )}
+
+        {showImportModal && (
+          <ImportLearningsModal
+            onClose={() => setShowImportModal(false)}
+            onImported={() => {
+              setShowImportModal(false)
+              loadLearnings()
+            }}
+          />
+        )}
+
         {/* Add/Edit Manual Learning Modal */}
         {isModalOpen && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -815,7 +1111,7 @@ export function Learnings() {
                       onChange={(e) => setFormCategory(e.target.value)}
                       className="w-full border border-[#E5E5E5] px-3 py-2 text-sm bg-white"
                     >
-                      {CATEGORIES.map(cat => (
+                      {LEARNING_CATEGORIES.map(cat => (
                         <option key={cat} value={cat}>{cat}</option>
                       ))}
                     </select>
@@ -847,6 +1143,24 @@ export function Learnings() {
                     className="w-full"
                   />
                 </div>
+
+                {editingLearning && (
+                  <div>
+                    <label className="block text-xs text-[#737373] mb-1">Status</label>
+                    <select
+                      value={formStatus}
+                      onChange={(e) => setFormStatus(e.target.value as LearningStatus)}
+                      className="w-full border border-[#E5E5E5] px-3 py-2 text-sm bg-white"
+                    >
+                      {STATUSES.map(status => (
+                        <option key={status} value={status}>{LEARNING_STATUS_LABELS[status]}</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-[#A3A3A3] mt-1">
+                      Only hypothesis and validated learnings are used when generating concepts
+                    </p>
+                  </div>
+                )}
               </div>
 
               <div className="flex justify-end gap-2 pt-4 border-t border-[#E5E5E5]">
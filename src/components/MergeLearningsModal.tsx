@@ -0,0 +1,186 @@
+import { useMemo, useState } from 'react'
+import { X, Loader2, Merge } from 'lucide-react'
+import { Button } from './ui/button'
+import { useToast } from './ui/toast'
+import { mergeLearnings } from '../api'
+import type { Learning } from '../api'
+import { combineEvidence, combinedConfidence } from '../utils/learningOverlap'
+
+interface MergeLearningsModalProps {
+  learnings: Learning[]
+  onClose: () => void
+  onMerged: (learning: Learning) => void
+}
+
+export function MergeLearningsModal({ learnings, onClose, onMerged }: MergeLearningsModalProps) {
+  const toast = useToast()
+  const [included, setIncluded] = useState<Set<string>>(() => new Set(learnings.map(l => l.id)))
+  // The kept learning's id, history and product scope survive the merge, so an
+  // account-wide learning is kept over product ones
+  const initialKept = learnings.find(l => !l.product_id) || learnings[0]
+  const [keepId, setKeepId] = useState(initialKept.id)
+  const [insight, setInsight] = useState(initialKept.insight)
+  const [isMerging, setIsMerging] = useState(false)
+
+  const selected = useMemo(() => learnings.filter(l => included.has(l.id)), [learnings, included])
+  const evidence = useMemo(() => combineEvidence(selected), [selected])
+  const confidence = useMemo(() => combinedConfidence(selected), [selected])
+  const hasAccountWide = selected.some(l => !l.product_id)
+  const canKeep = (learning: Learning) => !learning.product_id || !hasAccountWide
+  // A cluster can reach two products through an account-wide learning, but
+  // one learning can't carry both products' evidence
+  const spansProducts = new Set(selected.map(l => l.product_id).filter(Boolean)).size > 1
+  const kept = learnings.find(l => l.id === keepId)
+  const canMerge =
+    selected.length > 1 && included.has(keepId) && !!kept && canKeep(kept) && !spansProducts && insight.trim() !== ''
+
+  const toggleIncluded = (id: string) => {
+    setIncluded(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const chooseKept = (learning: Learning) => {
+    setKeepId(learning.id)
+    setInsight(learning.insight)
+    setIncluded(prev => new Set(prev).add(learning.id))
+  }
+
+  const handleMerge = async () => {
+    if (!canMerge) return
+    setIsMerging(true)
+    try {
+      const merged = await mergeLearnings({
+        keep_id: keepId,
+        merge_ids: selected.map(l => l.id).filter(id => id !== keepId),
+        insight: insight.trim(),
+        confidence,
+        evidence,
+      })
+      toast.success(`Merged ${selected.length} learnings`)
+      onMerged(merged)
+    } catch (err) {
+      console.error('Merge failed:', err)
+      toast.error('Failed to merge learnings')
+    } finally {
+      setIsMerging(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/20 flex items-center justify-center z-50">
+      <div className="bg-white border border-[#E5E5E5] w-full max-w-xl m-4 max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-[#E5E5E5]">
+          <div>
+            <h3 className="font-medium">Merge Learnings</h3>
+            <p className="text-xs text-[#A3A3A3]">Pick the wording to keep; the others are retired</p>
+          </div>
+          <button onClick={onClose} className="text-[#A3A3A3] hover:text-black">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="space-y-2">
+            {learnings.map(learning => (
+              <div
+                key={learning.id}
+                className={`flex items-start gap-2 p-2 border ${keepId === learning.id ? 'border-black' : 'border-[#E5E5E5]'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={included.has(learning.id)}
+                  onChange={() => toggleIncluded(learning.id)}
+                  disabled={keepId === learning.id}
+                  className="mt-1"
+                  title="Include in merge"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm ${included.has(learning.id) ? '' : 'text-[#A3A3A3]'}`}>{learning.insight}</p>
+                  <p className="text-xs text-[#A3A3A3] mt-0.5">
+                    {learning.product_id ? 'Product' : 'Account-wide'} · {Math.round(learning.confidence * 100)}% ·{' '}
+                    {learning.evidence?.ad_names?.length || 0} ads ·{' '}
+                    {new Date(learning.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <label className="flex items-center gap-1 text-xs text-[#737373] cursor-pointer flex-shrink-0">
+                  <input
+                    type="radio"
+                    name="keep-learning"
+                    checked={keepId === learning.id}
+                    onChange={() => chooseKept(learning)}
+                    disabled={!canKeep(learning)}
+                  />
+                  Keep
+                </label>
+              </div>
+            ))}
+          </div>
+
+          {kept && !canKeep(kept) && (
+            <p className="text-xs text-orange-700">
+              Keep the account-wide learning. Merging it into a product learning would drop it for every other product.
+            </p>
+          )}
+          {spansProducts && (
+            <p className="text-xs text-orange-700">
+              These learnings belong to different products. Leave out the learnings from all but one product.
+            </p>
+          )}
+
+          <div>
+            <label className="block text-xs text-[#737373] mb-1">Merged insight</label>
+            <textarea
+              value={insight}
+              onChange={(e) => setInsight(e.target.value)}
+              rows={3}
+              className="w-full border border-[#E5E5E5] px-3 py-2 text-sm focus:outline-none focus:border-black resize-none"
+            />
+          </div>
+
+          <div className="grid grid-cols-4 gap-2 text-center">
+            <div className="border border-[#E5E5E5] p-2">
+              <p className="text-lg font-semibold">{Math.round(confidence * 100)}%</p>
+              <p className="text-xs text-[#A3A3A3]">Confidence</p>
+            </div>
+            <div className="border border-[#E5E5E5] p-2">
+              <p className="text-lg font-semibold">{evidence.ad_names?.length || evidence.ad_ids?.length || 0}</p>
+              <p className="text-xs text-[#A3A3A3]">Ads</p>
+            </div>
+            <div className="border border-[#E5E5E5] p-2">
+              <p className="text-lg font-semibold">{evidence.ad_metrics?.length || 0}</p>
+              <p className="text-xs text-[#A3A3A3]">Ad metrics</p>
+            </div>
+            <div className="border border-[#E5E5E5] p-2">
+              <p className="text-lg font-semibold">{evidence.specific_examples?.length || 0}</p>
+              <p className="text-xs text-[#A3A3A3]">Examples</p>
+            </div>
+          </div>
+          <p className="text-xs text-[#A3A3A3]">
+            Confidence is the evidence-weighted average, raised for each learning that reached the same conclusion.
+          </p>
+        </div>
+
+        <div className="flex gap-3 p-4 border-t border-[#E5E5E5]">
+          <Button variant="outline" className="flex-1" onClick={onClose} disabled={isMerging}>
+            Cancel
+          </Button>
+          <Button className="flex-1" onClick={handleMerge} disabled={!canMerge || isMerging}>
+            {isMerging ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Merge className="w-4 h-4 mr-2" />
+            )}
+            Merge {selected.length}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
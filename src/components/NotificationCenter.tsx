@@ -0,0 +1,229 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Bell, BellOff, Check, Loader2 } from 'lucide-react'
+import { fetchAlerts, fetchAlertRules, markAlertRead, markAllAlertsRead, snoozeAlert } from '../api'
+import type { Alert } from '../api'
+import { usePollingFallback, useRealtimeEvent } from '../realtime'
+import { useNavigate, buildPath } from '../router'
+import { useToast } from './ui/toast'
+
+const SNOOZE_OPTIONS: Array<{ hours: number; label: string }> = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '1 week' },
+]
+
+const timeAgo = (iso: string) => {
+  const diffMins = Math.floor((Date.now() - new Date(iso).getTime()) / 60000)
+  if (diffMins < 1) return 'just now'
+  if (diffMins < 60) return `${diffMins}m ago`
+  if (diffMins < 24 * 60) return `${Math.floor(diffMins / 60)}h ago`
+  return `${Math.floor(diffMins / (24 * 60))}d ago`
+}
+
+const isSnoozed = (alert: Alert) => !!alert.snoozed_until && new Date(alert.snoozed_until).getTime() > Date.now()
+
+// Header bell: unread alerts plus the full alert history
+export function NotificationCenter() {
+  const queryClient = useQueryClient()
+  const toast = useToast()
+  const navigate = useNavigate()
+  const [isOpen, setIsOpen] = useState(false)
+  const [tab, setTab] = useState<'unread' | 'all'>('unread')
+  const [ruleFilter, setRuleFilter] = useState('')
+  const [snoozingId, setSnoozingId] = useState<string | null>(null)
+
+  // Pushed as `alert` events; only poll while the socket is down
+  const pollInterval = usePollingFallback(60000)
+
+  const { data: unreadAlerts = [], isLoading: isLoadingUnread } = useQuery({
+    queryKey: ['alerts', 'unread'],
+    queryFn: () => fetchAlerts({ unread: true }),
+    refetchInterval: pollInterval,
+  })
+
+  const { data: history = [], isLoading: isLoadingHistory } = useQuery({
+    queryKey: ['alerts', 'history', ruleFilter],
+    queryFn: () => fetchAlerts({ rule_id: ruleFilter || undefined, limit: 100 }),
+    enabled: isOpen && tab === 'all',
+  })
+
+  const { data: rules = [] } = useQuery({
+    queryKey: ['alert-rules'],
+    queryFn: fetchAlertRules,
+    enabled: isOpen,
+  })
+
+  useRealtimeEvent('alert', ({ alert }) => {
+    const show = alert.severity === 'critical' ? toast.error : toast.info
+    show(alert.message, { label: 'View', onClick: () => setIsOpen(true) })
+  })
+
+  const invalidateAlerts = () => queryClient.invalidateQueries({ queryKey: ['alerts'] })
+
+  const readMutation = useMutation({
+    mutationFn: markAlertRead,
+    onSuccess: invalidateAlerts,
+  })
+
+  const readAllMutation = useMutation({
+    mutationFn: markAllAlertsRead,
+    onSuccess: invalidateAlerts,
+    onError: () => toast.error('Failed to mark alerts as read'),
+  })
+
+  const snoozeMutation = useMutation({
+    mutationFn: ({ id, hours }: { id: string; hours: number }) => snoozeAlert(id, hours),
+    onSuccess: (_, { hours }) => {
+      invalidateAlerts()
+      setSnoozingId(null)
+      toast.success(`Snoozed for ${SNOOZE_OPTIONS.find(o => o.hours === hours)?.label || `${hours}h`}`)
+    },
+    onError: () => toast.error('Failed to snooze alert'),
+  })
+
+  const unreadCount = unreadAlerts.length
+  const visibleAlerts = tab === 'unread' ? unreadAlerts : history
+  const isLoading = tab === 'unread' ? isLoadingUnread : isLoadingHistory
+
+  const openAlert = (alert: Alert) => {
+    if (!alert.read_at) readMutation.mutate(alert.id)
+    setIsOpen(false)
+    const search = new URLSearchParams({ range: 'last_7d' })
+    if (alert.ad_id) search.set('ad', alert.ad_id)
+    navigate(buildPath('analytics', null, search))
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-1.5 text-[#737373] hover:text-black"
+        title="Alerts"
+      >
+        <Bell className="w-4 h-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 bg-red-600 text-white text-[9px] font-medium flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-1 w-96 bg-white border border-[#E5E5E5] shadow-lg z-20 flex flex-col max-h-[70vh]">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-[#E5E5E5]">
+              <div className="flex items-center gap-1">
+                {(['unread', 'all'] as const).map(t => (
+                  <button
+                    key={t}
+                    onClick={() => setTab(t)}
+                    className={`px-2 py-0.5 text-xs border ${
+                      tab === t ? 'bg-black text-white border-black' : 'bg-white text-[#737373] border-[#E5E5E5] hover:border-black'
+                    }`}
+                  >
+                    {t === 'unread' ? `Unread (${unreadCount})` : 'History'}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => readAllMutation.mutate()}
+                disabled={unreadCount === 0 || readAllMutation.isPending}
+                className="flex items-center gap-1 text-xs text-[#737373] hover:text-black disabled:opacity-50"
+              >
+                <Check className="w-3 h-3" />
+                Mark all read
+              </button>
+            </div>
+
+            {tab === 'all' && rules.length > 0 && (
+              <div className="px-3 py-2 border-b border-[#E5E5E5]">
+                <select
+                  value={ruleFilter}
+                  onChange={(e) => setRuleFilter(e.target.value)}
+                  className="w-full h-7 px-2 text-xs border border-[#E5E5E5] bg-white focus:outline-none focus:border-black"
+                >
+                  <option value="">All rules</option>
+                  {rules.map(rule => (
+                    <option key={rule.id} value={rule.id}>{rule.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto divide-y divide-[#E5E5E5]">
+              {isLoading ? (
+                <div className="py-6 text-center">
+                  <Loader2 className="w-4 h-4 animate-spin mx-auto text-[#A3A3A3]" />
+                </div>
+              ) : visibleAlerts.length === 0 ? (
+                <p className="text-sm text-[#A3A3A3] text-center py-6">
+                  {tab === 'unread' ? 'No unread alerts' : 'No alerts yet'}
+                </p>
+              ) : (
+                visibleAlerts.map(alert => (
+                  <div key={alert.id} className={`p-3 ${alert.read_at ? '' : 'bg-[#FAFAFA]'}`}>
+                    <div className="flex items-start gap-2">
+                      <span
+                        className={`w-2 h-2 mt-1.5 flex-shrink-0 ${alert.severity === 'critical' ? 'bg-red-600' : 'bg-orange-500'}`}
+                      />
+                      <button onClick={() => openAlert(alert)} className="flex-1 min-w-0 text-left">
+                        <p className={`text-sm ${alert.read_at ? 'text-[#737373]' : 'font-medium'}`}>{alert.message}</p>
+                        <p className="text-xs text-[#A3A3A3] mt-0.5 truncate">
+                          {alert.rule_name}
+                          {alert.ad_name && ` · ${alert.ad_name}`}
+                          {` · ${timeAgo(alert.triggered_at)}`}
+                          {alert.delivered_to.length > 0 && ` · sent by ${alert.delivered_to.join(', ')}`}
+                        </p>
+                        {isSnoozed(alert) && (
+                          <p className="text-xs text-[#A3A3A3] mt-0.5 flex items-center gap-1">
+                            <BellOff className="w-3 h-3" />
+                            Snoozed until {new Date(alert.snoozed_until!).toLocaleString()}
+                          </p>
+                        )}
+                      </button>
+                      <div className="relative flex-shrink-0">
+                        <button
+                          onClick={() => setSnoozingId(snoozingId === alert.id ? null : alert.id)}
+                          className="p-1 text-[#A3A3A3] hover:text-black"
+                          title="Snooze this rule"
+                        >
+                          <BellOff className="w-3.5 h-3.5" />
+                        </button>
+                        {snoozingId === alert.id && (
+                          <div className="absolute right-0 top-full mt-1 bg-white border border-[#E5E5E5] shadow-lg z-30 min-w-[120px]">
+                            {SNOOZE_OPTIONS.map(option => (
+                              <button
+                                key={option.hours}
+                                onClick={() => snoozeMutation.mutate({ id: alert.id, hours: option.hours })}
+                                disabled={snoozeMutation.isPending}
+                                className="w-full text-left px-3 py-1.5 text-xs hover:bg-[#F5F5F5]"
+                              >
+                                {option.label}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <button
+              onClick={() => {
+                setIsOpen(false)
+                navigate(buildPath('settings'))
+              }}
+              className="px-3 py-2 border-t border-[#E5E5E5] text-xs text-[#737373] hover:text-black text-left"
+            >
+              Manage alert rules
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,22 +1,32 @@
 import { useState, useRef, useEffect } from 'react'
 import { RefreshCw, Trash2, Plus, X, Edit2, Upload, ChevronDown, ChevronUp, Search, Zap, FileText, Users, BookOpen, Lightbulb, Check, Image, Palette, Tag } from 'lucide-react'
 import { Button } from './ui/button'
-import type { Product, DataSource } from '../App'
+import {
+  addProductImage,
+  createDataSource,
+  createProduct,
+  deleteDataSource,
+  deleteProduct,
+  fetchProductDataSources,
+  quickAddDataSource,
+  removeProductImage,
+  updateDataSource,
+  updateProduct,
+} from '../api'
+import type { Product, DataSource, DataSourceCategory } from '../api'
+import { useRouteId } from '../router'
 
 interface ProductsProps {
   products: Product[]
   onRefresh: () => void
 }
 
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
-
 // Extended DataSource with category
 interface CategorizedDataSource extends DataSource {
-  category: 'hook' | 'example' | 'reviews' | 'survey' | 'document' | 'brand_guide' | 'offers'
+  category: DataSourceCategory
 }
 
-type CategoryKey = 'hook' | 'example' | 'reviews' | 'survey' | 'document' | 'brand_guide' | 'offers'
+type CategoryKey = DataSourceCategory
 
 const CATEGORY_CONFIG: Record<CategoryKey, { label: string; icon: typeof Lightbulb; color: string; description: string }> = {
   hook: { label: 'Hooks & Angles', icon: Zap, color: 'text-amber-600', description: 'One-liners, openers, viral concepts' },
@@ -32,7 +42,7 @@ export function Products({ products, onRefresh }: ProductsProps) {
   const [modalOpen, setModalOpen] = useState(false)
   const [editingProduct, setEditingProduct] = useState<Product | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [selectedProductId, setSelectedProductId] = useState<string | null>(null)
+  const [selectedProductId, setSelectedProductId] = useRouteId('products')
   const [productSources, setProductSources] = useState<Record<string, CategorizedDataSource[]>>({})
 
   // Form state
@@ -79,7 +89,7 @@ export function Products({ products, onRefresh }: ProductsProps) {
   // Auto-select first product
   useEffect(() => {
     if (products.length > 0 && !selectedProductId) {
-      setSelectedProductId(products[0].id)
+      setSelectedProductId(products[0].id, { replace: true })
     }
   }, [products])
 
@@ -92,11 +102,8 @@ export function Products({ products, onRefresh }: ProductsProps) {
 
   const fetchProductSources = async (productId: string) => {
     try {
-      const res = await authFetch(`${API_BASE}/data-sources/product/${productId}`)
-      if (res.ok) {
-        const sources = await res.json()
-        setProductSources(prev => ({ ...prev, [productId]: sources }))
-      }
+      const sources = await fetchProductDataSources(productId)
+      setProductSources(prev => ({ ...prev, [productId]: sources as CategorizedDataSource[] }))
     } catch (error) {
       console.error('Failed to fetch product sources:', error)
     }
@@ -146,25 +153,22 @@ export function Products({ products, onRefresh }: ProductsProps) {
 
     setIsSubmitting(true)
     try {
-      const url = editingProduct
-        ? `${API_BASE}/products/${editingProduct.id}`
-        : `${API_BASE}/products`
-
-      const res = await authFetch(url, {
-        method: editingProduct ? 'PUT' : 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name: name.trim(),
-          landing_page_url: landingPageUrl.trim() || null,
-          mechanism: mechanism.trim() || null,
-          ingredients: ingredients.trim() || null,
-        }),
-      })
+      const input = {
+        name: name.trim(),
+        landing_page_url: landingPageUrl.trim() || null,
+        mechanism: mechanism.trim() || null,
+        ingredients: ingredients.trim() || null,
+      }
 
-      if (res.ok) {
-        setModalOpen(false)
-        onRefresh()
+      if (editingProduct) {
+        await updateProduct(editingProduct.id, input)
+      } else {
+        await createProduct(input)
       }
+      setModalOpen(false)
+      onRefresh()
+    } catch (error) {
+      console.error('Failed to save product:', error)
     } finally {
       setIsSubmitting(false)
     }
@@ -172,12 +176,14 @@ export function Products({ products, onRefresh }: ProductsProps) {
 
   const handleDelete = async (id: string) => {
     if (!confirm('Delete this product and all its data sources?')) return
-    const res = await authFetch(`${API_BASE}/products/${id}`, { method: 'DELETE' })
-    if (res.ok) {
+    try {
+      await deleteProduct(id)
       if (selectedProductId === id) {
-        setSelectedProductId(products.find(p => p.id !== id)?.id || null)
+        setSelectedProductId(products.find(p => p.id !== id)?.id || null, { replace: true })
       }
       onRefresh()
+    } catch (error) {
+      console.error('Failed to delete product:', error)
     }
   }
 
@@ -191,14 +197,10 @@ export function Products({ products, onRefresh }: ProductsProps) {
     reader.onload = async (event) => {
       setUploadingImage(true)
       try {
-        const res = await authFetch(`${API_BASE}/products/${selectedProductId}/images`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ image_data: event.target?.result }),
-        })
-        if (res.ok) {
-          onRefresh()
-        }
+        await addProductImage(selectedProductId, event.target?.result as string)
+        onRefresh()
+      } catch (error) {
+        console.error('Failed to upload product image:', error)
       } finally {
         setUploadingImage(false)
         if (productImageInputRef.current) {
@@ -211,11 +213,11 @@ export function Products({ products, onRefresh }: ProductsProps) {
 
   const handleRemoveProductImage = async (index: number) => {
     if (!selectedProductId) return
-    const res = await authFetch(`${API_BASE}/products/${selectedProductId}/images/${index}`, {
-      method: 'DELETE',
-    })
-    if (res.ok) {
+    try {
+      await removeProductImage(selectedProductId, index)
       onRefresh()
+    } catch (error) {
+      console.error('Failed to remove product image:', error)
     }
   }
 
@@ -225,18 +227,11 @@ export function Products({ products, onRefresh }: ProductsProps) {
 
     setQuickAddSubmitting(true)
     try {
-      const res = await authFetch(`${API_BASE}/data-sources/quick-add`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          content: quickAddContent.trim(),
-          product_id: selectedProductId,
-        }),
-      })
-      if (res.ok) {
-        setQuickAddContent('')
-        fetchProductSources(selectedProductId)
-      }
+      await quickAddDataSource(selectedProductId, quickAddContent.trim())
+      setQuickAddContent('')
+      fetchProductSources(selectedProductId)
+    } catch (error) {
+      console.error('Failed to quick add source:', error)
     } finally {
       setQuickAddSubmitting(false)
     }
@@ -270,25 +265,21 @@ export function Products({ products, onRefresh }: ProductsProps) {
 
     setIsSubmitting(true)
     try {
-      const res = await authFetch(`${API_BASE}/data-sources`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name,
-          source_type: uploadFileType ? 'file' : 'text',
-          file_type: uploadFileType,
-          content: uploadContent.trim(),
-          product_id: selectedProductId,
-          category: uploadCategory,
-        }),
+      await createDataSource({
+        name,
+        source_type: uploadFileType ? 'file' : 'text',
+        file_type: uploadFileType,
+        content: uploadContent.trim(),
+        product_id: selectedProductId,
+        category: uploadCategory,
       })
-      if (res.ok) {
-        setUploadModalOpen(false)
-        setUploadName('')
-        setUploadContent('')
-        setUploadFileType(null)
-        fetchProductSources(selectedProductId)
-      }
+      setUploadModalOpen(false)
+      setUploadName('')
+      setUploadContent('')
+      setUploadFileType(null)
+      fetchProductSources(selectedProductId)
+    } catch (error) {
+      console.error('Failed to add source:', error)
     } finally {
       setIsSubmitting(false)
     }
@@ -312,18 +303,14 @@ export function Products({ products, onRefresh }: ProductsProps) {
 
     setIsSubmitting(true)
     try {
-      const res = await authFetch(`${API_BASE}/data-sources/${editingSourceId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name: editingSourceName.trim(),
-          content: editingSourceContent.trim(),
-        }),
+      await updateDataSource(editingSourceId, {
+        name: editingSourceName.trim(),
+        content: editingSourceContent.trim(),
       })
-      if (res.ok) {
-        cancelEditSource()
-        fetchProductSources(selectedProductId)
-      }
+      cancelEditSource()
+      fetchProductSources(selectedProductId)
+    } catch (error) {
+      console.error('Failed to update source:', error)
     } finally {
       setIsSubmitting(false)
     }
@@ -331,9 +318,11 @@ export function Products({ products, onRefresh }: ProductsProps) {
 
   const handleDeleteSource = async (sourceId: string) => {
     if (!selectedProductId) return
-    const res = await authFetch(`${API_BASE}/data-sources/${sourceId}`, { method: 'DELETE' })
-    if (res.ok) {
+    try {
+      await deleteDataSource(sourceId)
       fetchProductSources(selectedProductId)
+    } catch (error) {
+      console.error('Failed to delete source:', error)
     }
   }
 
@@ -1,26 +1,18 @@
 import { useState, useEffect, useMemo } from 'react'
 import { X, Search, ChevronRight, ChevronLeft, Loader2, Plus, Copy, AlertTriangle } from 'lucide-react'
 import { Button } from './ui/button'
-import type { AdConcept, Product } from '../App'
-
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
-
-interface FBCampaign {
-  id: string
-  name: string
-  status: string
-  objective: string
-}
-
-interface FBAdSet {
-  id: string
-  name: string
-  status: string
-  daily_budget: string
-  targeting?: any
-  optimization_goal?: string
-}
+import {
+  fetchCampaigns,
+  createCampaign,
+  fetchCampaignBudgetType,
+  fetchAdSets,
+  createAdSet,
+  duplicateAdSet,
+  fetchSuggestedNames,
+  pushConcept,
+  isApiError,
+} from '../api'
+import type { AdConcept, Product, FBCampaign, FBAdSet } from '../api'
 
 interface PushToFBWizardProps {
   concept: AdConcept
@@ -68,8 +60,8 @@ export function PushToFBWizard({ concept, product, isOpen, onClose, onSuccess }:
   // Load campaigns and suggested names on open
   useEffect(() => {
     if (isOpen) {
-      fetchCampaigns()
-      fetchSuggestedNames()
+      loadCampaigns()
+      loadSuggestedNames()
       // Pre-fill link URL from product
       if (product?.landing_page_url) {
         setLinkUrl(product.landing_page_url)
@@ -77,18 +69,14 @@ export function PushToFBWizard({ concept, product, isOpen, onClose, onSuccess }:
     }
   }, [isOpen, product])
 
-  const fetchSuggestedNames = async () => {
+  const loadSuggestedNames = async () => {
     try {
-      const lp = product?.landing_page_url || ''
-      const res = await authFetch(`${API_BASE}/fb/concept/${concept.id}/suggested-names?link_url=${encodeURIComponent(lp)}`)
-      if (res.ok) {
-        const data = await res.json()
-        setSuggestedAdsetName(data.adset_name || '')
-        setHasNamingData(data.has_naming_data || false)
-        // Pre-fill the adset name if we have naming data
-        if (data.has_naming_data && data.adset_name) {
-          setNewAdsetName(data.adset_name)
-        }
+      const data = await fetchSuggestedNames(concept.id, product?.landing_page_url || '')
+      setSuggestedAdsetName(data.adset_name || '')
+      setHasNamingData(data.has_naming_data || false)
+      // Pre-fill the adset name if we have naming data
+      if (data.has_naming_data && data.adset_name) {
+        setNewAdsetName(data.adset_name)
       }
     } catch (err) {
       console.error('Failed to fetch suggested names:', err)
@@ -98,7 +86,7 @@ export function PushToFBWizard({ concept, product, isOpen, onClose, onSuccess }:
   // Load adsets when campaign selected
   useEffect(() => {
     if (selectedCampaign) {
-      fetchAdsets(selectedCampaign.id)
+      loadAdsets(selectedCampaign.id)
     }
   }, [selectedCampaign])
 
@@ -122,13 +110,10 @@ export function PushToFBWizard({ concept, product, isOpen, onClose, onSuccess }:
     }
   }, [isOpen])
 
-  const fetchCampaigns = async () => {
+  const loadCampaigns = async () => {
     setIsLoadingCampaigns(true)
     try {
-      const res = await authFetch(`${API_BASE}/fb/campaigns`)
-      if (!res.ok) throw new Error('Failed to fetch campaigns')
-      const data = await res.json()
-      setCampaigns(data.campaigns || [])
+      setCampaigns(await fetchCampaigns())
     } catch (err) {
       console.error('Failed to load campaigns:', err)
     } finally {
@@ -136,32 +121,26 @@ export function PushToFBWizard({ concept, product, isOpen, onClose, onSuccess }:
     }
   }
 
-  const fetchAdsets = async (campaignId: string) => {
+  const loadAdsets = async (campaignId: string) => {
     setIsLoadingAdsets(true)
     setAdsetError(null)
     try {
       // Fetch adsets and check if campaign is CBO in parallel
-      const [adsetsRes, budgetRes] = await Promise.all([
-        authFetch(`${API_BASE}/fb/adsets?campaign_id=${campaignId}`),
-        authFetch(`${API_BASE}/fb/campaigns/${campaignId}/budget-type`).catch(() => null)
+      const [fetchedAdsets, budgetType] = await Promise.all([
+        fetchAdSets(campaignId),
+        fetchCampaignBudgetType(campaignId).catch(() => null)
       ])
-
-      if (!adsetsRes.ok) {
-        const data = await adsetsRes.json().catch(() => ({}))
-        const isRateLimit = data.detail?.includes('rate') || data.detail?.includes('limit') || data.detail?.includes('Too Many')
-        throw new Error(isRateLimit ? 'Rate limit hit - wait a moment and try again' : 'Failed to fetch adsets')
-      }
-      const data = await adsetsRes.json()
-      setAdsets(data.adsets || [])
+      setAdsets(fetchedAdsets)
 
       // Check if CBO
-      if (budgetRes && budgetRes.ok) {
-        const budgetData = await budgetRes.json()
-        setIsCBO(budgetData.is_cbo || false)
+      if (budgetType) {
+        setIsCBO(budgetType.is_cbo || false)
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error('Failed to load adsets:', err)
-      setAdsetError(err.message || 'Failed to load adsets')
+      const detail = isApiError(err) ? err.detail : undefined
+      const isRateLimit = detail?.includes('rate') || detail?.includes('limit') || detail?.includes('Too Many')
+      setAdsetError(isRateLimit ? 'Rate limit hit - wait a moment and try again' : 'Failed to fetch adsets')
     } finally {
       setIsLoadingAdsets(false)
     }
@@ -171,16 +150,10 @@ export function PushToFBWizard({ concept, product, isOpen, onClose, onSuccess }:
     if (!newCampaignName.trim()) return
     setIsCreatingCampaign(true)
     try {
-      const res = await authFetch(`${API_BASE}/fb/campaigns`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: newCampaignName.trim() }),
-      })
-      if (!res.ok) throw new Error('Failed to create campaign')
-      const data = await res.json()
+      const data = await createCampaign(newCampaignName.trim())
 
       // Refresh campaigns and select new one
-      await fetchCampaigns()
+      await loadCampaigns()
       const newCampaign = campaigns.find(c => c.id === data.campaign_id)
       if (newCampaign) {
         setSelectedCampaign(newCampaign)
@@ -201,17 +174,11 @@ export function PushToFBWizard({ concept, product, isOpen, onClose, onSuccess }:
     const budgetToCreate = isCBO ? 100 : (parseInt(newAdsetBudget) || 500)
 
     try {
-      const res = await authFetch(`${API_BASE}/fb/adsets`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          campaign_id: selectedCampaign.id,
-          name: adsetNameToCreate,
-          daily_budget: budgetToCreate,
-        }),
+      const data = await createAdSet({
+        campaign_id: selectedCampaign.id,
+        name: adsetNameToCreate,
+        daily_budget: budgetToCreate,
       })
-      if (!res.ok) throw new Error('Failed to create adset')
-      const data = await res.json()
       const newAdsetId = data.adset_id
 
       // OPTIMISTIC UPDATE: Add the new adset to the list immediately
@@ -229,17 +196,13 @@ export function PushToFBWizard({ concept, product, isOpen, onClose, onSuccess }:
 
       // Also fetch from API in background to sync any other changes
       // but don't block the UI on it
-      authFetch(`${API_BASE}/fb/adsets?campaign_id=${selectedCampaign.id}&refresh=true`)
-        .then(async (adsetsRes) => {
-          if (adsetsRes.ok) {
-            const adsetsData = await adsetsRes.json()
-            const freshAdsets = adsetsData.adsets || []
-            // Only update if the new adset is in the list (Facebook caught up)
-            // Otherwise keep our optimistic version
-            const hasNewAdset = freshAdsets.some((a: FBAdSet) => a.id === newAdsetId)
-            if (hasNewAdset) {
-              setAdsets(freshAdsets)
-            }
+      fetchAdSets(selectedCampaign.id, true)
+        .then((freshAdsets) => {
+          // Only update if the new adset is in the list (Facebook caught up)
+          // Otherwise keep our optimistic version
+          const hasNewAdset = freshAdsets.some(a => a.id === newAdsetId)
+          if (hasNewAdset) {
+            setAdsets(freshAdsets)
           }
         })
         .catch(() => {}) // Ignore background refresh errors
@@ -261,17 +224,11 @@ export function PushToFBWizard({ concept, product, isOpen, onClose, onSuccess }:
     const budgetToCreate = isCBO ? undefined : (parseInt(newAdsetBudget) || undefined)
 
     try {
-      const res = await authFetch(`${API_BASE}/fb/adsets/duplicate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          source_adset_id: duplicateSource.id,
-          new_name: adsetNameToCreate,
-          daily_budget: budgetToCreate,
-        }),
+      const data = await duplicateAdSet({
+        source_adset_id: duplicateSource.id,
+        new_name: adsetNameToCreate,
+        daily_budget: budgetToCreate,
       })
-      if (!res.ok) throw new Error('Failed to duplicate adset')
-      const data = await res.json()
       const newAdsetId = data.adset_id
 
       // OPTIMISTIC UPDATE: Add the new adset to the list immediately
@@ -288,15 +245,11 @@ export function PushToFBWizard({ concept, product, isOpen, onClose, onSuccess }:
 
       // Background refresh to sync
       if (selectedCampaign) {
-        authFetch(`${API_BASE}/fb/adsets?campaign_id=${selectedCampaign.id}&refresh=true`)
-          .then(async (adsetsRes) => {
-            if (adsetsRes.ok) {
-              const adsetsData = await adsetsRes.json()
-              const freshAdsets = adsetsData.adsets || []
-              const hasNewAdset = freshAdsets.some((a: FBAdSet) => a.id === newAdsetId)
-              if (hasNewAdset) {
-                setAdsets(freshAdsets)
-              }
+        fetchAdSets(selectedCampaign.id, true)
+          .then((freshAdsets) => {
+            const hasNewAdset = freshAdsets.some(a => a.id === newAdsetId)
+            if (hasNewAdset) {
+              setAdsets(freshAdsets)
             }
           })
           .catch(() => {})
@@ -318,22 +271,14 @@ export function PushToFBWizard({ concept, product, isOpen, onClose, onSuccess }:
     setIsPushing(true)
     setPushError(null)
     try {
-      const res = await authFetch(`${API_BASE}/fb/push-concept`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          concept_id: concept.id,
-          adset_id: selectedAdset.id,
-          link_url: linkUrl.trim(),
-          primary_text_index: 0,
-          headline_index: 0,
-          status: adStatus,
-        }),
+      await pushConcept({
+        concept_id: concept.id,
+        adset_id: selectedAdset.id,
+        link_url: linkUrl.trim(),
+        primary_text_index: 0,
+        headline_index: 0,
+        status: adStatus,
       })
-      if (!res.ok) {
-        const err = await res.json()
-        throw new Error(err.detail || 'Failed to push to Facebook')
-      }
       onSuccess()
       onClose()
     } catch (err: any) {
@@ -594,7 +539,7 @@ export function PushToFBWizard({ concept, product, isOpen, onClose, onSuccess }:
                   {adsetError && !isLoadingAdsets && (
                     <div className="text-center py-4">
                       <p className="text-sm text-red-500 mb-2">{adsetError}</p>
-                      <Button variant="outline" size="sm" onClick={() => selectedCampaign && fetchAdsets(selectedCampaign.id)}>
+                      <Button variant="outline" size="sm" onClick={() => selectedCampaign && loadAdsets(selectedCampaign.id)}>
                         Retry
                       </Button>
                     </div>
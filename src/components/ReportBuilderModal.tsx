@@ -0,0 +1,356 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { X, Loader2, Download, Printer, Save } from 'lucide-react'
+import { Button } from './ui/button'
+import { useToast } from './ui/toast'
+import { fetchInsightsSnapshot, fetchLearnings, fetchReportTemplates, saveReportTemplate } from '../api'
+import type { AdConcept, InsightsPeriod, Product, ReportTemplate, ReportTemplateInput } from '../api'
+import { isValidRange, periodKey, resolvePeriod, toISODate } from '../utils/dateRange'
+import { DEFAULT_REPORT_TEMPLATE, REPORT_SECTIONS, printReport, renderReportHtml } from '../utils/analyticsReport'
+import { downloadBlob } from '../utils/conceptExport'
+import type { OverviewMetricConfig } from './Analytics'
+
+interface ReportBuilderModalProps {
+  period: InsightsPeriod
+  overviewMetrics: OverviewMetricConfig[]
+  products: Product[]
+  conceptByAdId: Map<string, AdConcept>
+  onClose: () => void
+}
+
+const toInput = (template: ReportTemplate): ReportTemplateInput => ({
+  title: template.title,
+  brand_name: template.brand_name,
+  brand_color: template.brand_color,
+  logo_url: template.logo_url,
+  intro: template.intro,
+  sections: template.sections,
+  overview_metrics: template.overview_metrics,
+  ads_count: template.ads_count,
+})
+
+export function ReportBuilderModal({ period, overviewMetrics, products, conceptByAdId, onClose }: ReportBuilderModalProps) {
+  const queryClient = useQueryClient()
+  const toast = useToast()
+  const [productId, setProductId] = useState('')
+  const [range, setRange] = useState(() => resolvePeriod(period))
+  const [draft, setDraft] = useState<ReportTemplateInput | null>(null)
+
+  const { data: templates, isLoading: isLoadingTemplates } = useQuery({
+    queryKey: ['report-templates'],
+    queryFn: fetchReportTemplates,
+  })
+
+  // Same cache entry as Analytics when the range matches a custom period
+  const hasRange = isValidRange(range)
+  const { data: snapshot, isLoading: isLoadingSnapshot } = useQuery({
+    queryKey: ['insights-snapshot', periodKey(range)],
+    queryFn: () => fetchInsightsSnapshot(range),
+    enabled: hasRange,
+  })
+
+  const { data: learnings = [] } = useQuery({
+    queryKey: ['learnings'],
+    queryFn: () => fetchLearnings(),
+  })
+
+  // A product without its own template starts from the default, and the
+  // default from the built-in one until it's been saved
+  const savedTemplate = templates?.find(t => t.product_id === (productId || null))
+  const baseTemplate = savedTemplate || templates?.find(t => t.product_id === null)
+  useEffect(() => {
+    if (baseTemplate) setDraft(toInput(baseTemplate))
+    else if (templates) setDraft(DEFAULT_REPORT_TEMPLATE)
+  }, [baseTemplate, templates])
+
+  const product = products.find(p => p.id === productId) || null
+
+  const reportAds = useMemo(() => {
+    const ads = snapshot?.ads || []
+    return productId ? ads.filter(ad => conceptByAdId.get(ad.id)?.product_id === productId) : ads
+  }, [snapshot, productId, conceptByAdId])
+
+  const reportLearnings = useMemo(
+    () =>
+      learnings.filter(l => {
+        const day = l.created_at.slice(0, 10)
+        return (
+          l.is_active &&
+          day >= range.since &&
+          day <= range.until &&
+          (!productId || !l.product_id || l.product_id === productId)
+        )
+      }),
+    [learnings, range, productId]
+  )
+
+  // Empty overview_metrics follows the visible Analytics cards
+  const selectedMetricIds = useMemo(
+    () =>
+      draft && draft.overview_metrics.length > 0
+        ? draft.overview_metrics
+        : overviewMetrics.filter(m => m.visible).map(m => m.id),
+    [draft, overviewMetrics]
+  )
+
+  const html = useMemo(() => {
+    if (!draft || !hasRange) return ''
+    return renderReportHtml({
+      template: draft,
+      productName: product?.name || null,
+      range,
+      insights: snapshot?.insights || null,
+      metrics: selectedMetricIds
+        .map(id => overviewMetrics.find(m => m.id === id))
+        .filter((m): m is OverviewMetricConfig => !!m),
+      ads: reportAds,
+      learnings: reportLearnings,
+    })
+  }, [draft, hasRange, product, range, snapshot, selectedMetricIds, overviewMetrics, reportAds, reportLearnings])
+
+  const saveMutation = useMutation({
+    mutationFn: (input: ReportTemplateInput) => saveReportTemplate(productId || null, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-templates'] })
+      toast.success(`Template saved for ${product?.name || 'all products'}`)
+    },
+    onError: () => toast.error('Failed to save template'),
+  })
+
+  const updateDraft = (changes: Partial<ReportTemplateInput>) => setDraft(d => (d ? { ...d, ...changes } : d))
+
+  const toggleSection = (id: ReportTemplate['sections'][number]) => {
+    if (!draft) return
+    const next = new Set(draft.sections)
+    if (next.has(id)) next.delete(id)
+    else next.add(id)
+    updateDraft({ sections: REPORT_SECTIONS.map(s => s.id).filter(s => next.has(s)) })
+  }
+
+  const toggleMetric = (id: string) => {
+    const next = selectedMetricIds.includes(id)
+      ? selectedMetricIds.filter(m => m !== id)
+      : overviewMetrics.map(m => m.id).filter(m => m === id || selectedMetricIds.includes(m))
+    updateDraft({ overview_metrics: next })
+  }
+
+  const fileName = `${(draft?.title || 'report').toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${range.since}_${range.until}.html`
+  const isLoading = isLoadingTemplates || (hasRange && isLoadingSnapshot)
+
+  return (
+    <div className="fixed inset-0 bg-black/20 flex items-center justify-center z-50">
+      <div className="bg-white border border-[#E5E5E5] w-full max-w-5xl h-[85vh] m-4 flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-[#E5E5E5]">
+          <div>
+            <h3 className="font-medium">Share Report</h3>
+            <p className="text-xs text-[#A3A3A3]">
+              {!templates
+                ? 'Loading templates...'
+                : savedTemplate
+                ? `Using the ${savedTemplate.product_id ? 'product' : 'default'} template`
+                : 'No template for this product yet, starting from the default'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-[#A3A3A3] hover:text-black">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-80 flex-shrink-0 border-r border-[#E5E5E5] overflow-y-auto p-4 space-y-4">
+            <div className="space-y-1">
+              <label className="text-xs text-[#737373]">Product</label>
+              <select
+                value={productId}
+                onChange={(e) => setProductId(e.target.value)}
+                className="w-full px-2 py-2 text-sm border border-[#E5E5E5] bg-white focus:outline-none focus:border-black"
+              >
+                <option value="">All products</option>
+                {products.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs text-[#737373]">Date range</label>
+              <div className="flex items-center gap-1">
+                <input
+                  type="date"
+                  value={range.since}
+                  max={range.until || toISODate(new Date())}
+                  onChange={(e) => setRange({ ...range, since: e.target.value })}
+                  className="flex-1 min-w-0 h-8 px-2 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black"
+                />
+                <span className="text-xs text-[#A3A3A3]">–</span>
+                <input
+                  type="date"
+                  value={range.until}
+                  min={range.since || undefined}
+                  max={toISODate(new Date())}
+                  onChange={(e) => setRange({ ...range, until: e.target.value })}
+                  className="flex-1 min-w-0 h-8 px-2 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black"
+                />
+              </div>
+            </div>
+
+            {draft && (
+              <>
+                <div className="space-y-2">
+                  <label className="text-xs text-[#737373]">Branding</label>
+                  <input
+                    type="text"
+                    value={draft.title}
+                    onChange={(e) => updateDraft({ title: e.target.value })}
+                    placeholder="Report title"
+                    className="w-full px-3 py-2 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black"
+                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={draft.brand_name}
+                      onChange={(e) => updateDraft({ brand_name: e.target.value })}
+                      placeholder="Brand name"
+                      className="flex-1 min-w-0 px-3 py-2 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black"
+                    />
+                    <input
+                      type="color"
+                      value={draft.brand_color}
+                      onChange={(e) => updateDraft({ brand_color: e.target.value })}
+                      className="w-10 h-9 border border-[#E5E5E5] bg-white cursor-pointer"
+                      title="Brand color"
+                    />
+                  </div>
+                  <input
+                    type="url"
+                    value={draft.logo_url || ''}
+                    onChange={(e) => updateDraft({ logo_url: e.target.value || null })}
+                    placeholder="Logo URL"
+                    className="w-full px-3 py-2 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black"
+                  />
+                  <textarea
+                    value={draft.intro}
+                    onChange={(e) => updateDraft({ intro: e.target.value })}
+                    placeholder="Intro note for stakeholders"
+                    rows={3}
+                    className="w-full px-3 py-2 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black resize-none"
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <label className="text-xs text-[#737373]">Sections</label>
+                  {REPORT_SECTIONS.map(section => (
+                    <label key={section.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={draft.sections.includes(section.id)}
+                        onChange={() => toggleSection(section.id)}
+                      />
+                      {section.label}
+                    </label>
+                  ))}
+                </div>
+
+                {draft.sections.includes('overview') && (
+                  <div className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <label className="text-xs text-[#737373]">Overview metrics</label>
+                      {draft.overview_metrics.length > 0 && (
+                        <button
+                          onClick={() => updateDraft({ overview_metrics: [] })}
+                          className="text-xs text-[#A3A3A3] hover:text-black"
+                        >
+                          Match Analytics
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {overviewMetrics.map(metric => (
+                        <button
+                          key={metric.id}
+                          onClick={() => toggleMetric(metric.id)}
+                          className={`px-2 py-0.5 text-xs border ${
+                            selectedMetricIds.includes(metric.id)
+                              ? 'bg-black text-white border-black'
+                              : 'bg-white text-[#737373] border-[#E5E5E5] hover:border-black'
+                          }`}
+                        >
+                          {metric.label}
+                        </button>
+                      ))}
+                    </div>
+                    {productId && (
+                      <p className="text-xs text-[#A3A3A3]">Overview metrics cover the whole ad account</p>
+                    )}
+                  </div>
+                )}
+
+                {(draft.sections.includes('top_ads') || draft.sections.includes('bottom_ads')) && (
+                  <div className="flex items-center justify-between">
+                    <label className="text-xs text-[#737373]">Ads per list</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={draft.ads_count}
+                      onChange={(e) => updateDraft({ ads_count: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) })}
+                      className="w-16 h-8 px-2 text-sm border border-[#E5E5E5] focus:outline-none focus:border-black"
+                    />
+                  </div>
+                )}
+
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => saveMutation.mutate(draft)}
+                  disabled={saveMutation.isPending}
+                >
+                  {saveMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="w-4 h-4 mr-2" />
+                  )}
+                  Save as {product ? `${product.name} template` : 'default template'}
+                </Button>
+              </>
+            )}
+          </div>
+
+          <div className="flex-1 bg-[#FAFAFA] p-4 min-w-0">
+            {isLoading ? (
+              <div className="h-full flex items-center justify-center">
+                <Loader2 className="w-5 h-5 animate-spin text-[#A3A3A3]" />
+              </div>
+            ) : html ? (
+              <iframe srcDoc={html} title="Report preview" className="w-full h-full bg-white border border-[#E5E5E5]" />
+            ) : (
+              <div className="h-full flex items-center justify-center">
+                <p className="text-sm text-[#A3A3A3]">Pick a date range to preview the report</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-[#E5E5E5]">
+          <p className="text-xs text-[#A3A3A3]">
+            {reportAds.length} ad{reportAds.length !== 1 ? 's' : ''} · {reportLearnings.length} new learning{reportLearnings.length !== 1 ? 's' : ''}
+          </p>
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={() => downloadBlob(new Blob([html], { type: 'text/html' }), fileName)}
+              disabled={!html}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download HTML
+            </Button>
+            <Button onClick={() => printReport(html)} disabled={!html}>
+              <Printer className="w-4 h-4 mr-2" />
+              Save as PDF
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,359 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { X, Star, ChevronLeft, ChevronRight, CheckCircle, Loader2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { FeedbackModal } from './FeedbackModal'
+import type { AdConcept } from '../api'
+
+interface ReviewQueueProps {
+  concepts: AdConcept[]
+  onClose: () => void
+  // Resolve once the decision is saved; a rejected promise leaves the
+  // concept undecided in the queue
+  onApprove: (id: string) => Promise<unknown>
+  onReject: (id: string, feedback: string) => Promise<unknown>
+  onSetRating: (id: string, rating: number) => void
+  isApproving: boolean
+  isRejecting: boolean
+}
+
+type Decision = 'approved' | 'rejected' | 'skipped'
+
+const shortcuts = [
+  { keys: 'A', label: 'Approve' },
+  { keys: 'R', label: 'Reject' },
+  { keys: '1-5', label: 'Rate' },
+  { keys: 'S', label: 'Skip' },
+  { keys: '← →', label: 'Image' },
+  { keys: '↑ ↓', label: 'Primary text' },
+  { keys: 'Esc', label: 'Exit' },
+]
+
+function imageSrc(img: string): string {
+  return img.startsWith('data:') || img.startsWith('http') ? img : `data:image/png;base64,${img}`
+}
+
+export function ReviewQueue({
+  concepts,
+  onClose,
+  onApprove,
+  onReject,
+  onSetRating,
+  isApproving,
+  isRejecting,
+}: ReviewQueueProps) {
+  // The queue is fixed when the session starts so approvals don't reshuffle it
+  const [queueIds] = useState(() => concepts.filter(c => c.status === 'ready').map(c => c.id))
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({})
+  const [position, setPosition] = useState(0)
+  const [imageIndex, setImageIndex] = useState(0)
+  const [textIndex, setTextIndex] = useState(0)
+  const [rejectOpen, setRejectOpen] = useState(false)
+
+  const currentId = queueIds[position]
+  const concept = concepts.find(c => c.id === currentId) || null
+
+  const counts = useMemo(() => {
+    const values = Object.values(decisions)
+    return {
+      approved: values.filter(d => d === 'approved').length,
+      rejected: values.filter(d => d === 'rejected').length,
+      skipped: values.filter(d => d === 'skipped').length,
+    }
+  }, [decisions])
+  const decided = counts.approved + counts.rejected
+  const remaining = queueIds.length - decided
+  const isDone = queueIds.length === 0 || remaining === 0
+  // Hold the queue still until the current decision is saved
+  const isSaving = isApproving || isRejecting
+
+  useEffect(() => {
+    setImageIndex(0)
+    setTextIndex(0)
+  }, [currentId])
+
+  // Next concept still waiting for a decision, wrapping round to skipped ones
+  const advance = useCallback((next: Record<string, Decision>) => {
+    for (let step = 1; step <= queueIds.length; step++) {
+      const i = (position + step) % queueIds.length
+      const decision = next[queueIds[i]]
+      if (decision !== 'approved' && decision !== 'rejected') {
+        setPosition(i)
+        return
+      }
+    }
+  }, [position, queueIds])
+
+  const decide = useCallback((decision: Decision) => {
+    if (!currentId) return
+    const next = { ...decisions, [currentId]: decision }
+    setDecisions(next)
+    advance(next)
+  }, [currentId, decisions, advance])
+
+  const handleApprove = useCallback(async () => {
+    if (!concept || isSaving) return
+    try {
+      await onApprove(concept.id)
+      decide('approved')
+    } catch {
+      // Already reported by the caller; the concept stays undecided
+    }
+  }, [concept, isSaving, onApprove, decide])
+
+  const handleReject = async (feedback: string) => {
+    if (!concept) return
+    try {
+      await onReject(concept.id, feedback)
+      setRejectOpen(false)
+      decide('rejected')
+    } catch {
+      // Already reported by the caller; the concept stays undecided
+    }
+  }
+
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    const target = e.target as HTMLElement
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || rejectOpen) return
+    // Leave browser and OS shortcuts (Cmd+R, Ctrl+A...) alone
+    if (e.metaKey || e.ctrlKey || e.altKey) return
+
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+      return
+    }
+    if (!concept || isDone) return
+
+    const imageCount = concept.images?.length || 0
+    const textCount = concept.primary_texts?.length || 0
+
+    switch (e.key) {
+      case 'a':
+        e.preventDefault()
+        handleApprove()
+        break
+      case 'r':
+        e.preventDefault()
+        if (!isSaving) setRejectOpen(true)
+        break
+      case 's':
+        e.preventDefault()
+        if (!isSaving) decide('skipped')
+        break
+      case '1':
+      case '2':
+      case '3':
+      case '4':
+      case '5':
+        e.preventDefault()
+        onSetRating(concept.id, parseInt(e.key))
+        break
+      case 'ArrowRight':
+        if (imageCount > 1) {
+          e.preventDefault()
+          setImageIndex(i => (i + 1) % imageCount)
+        }
+        break
+      case 'ArrowLeft':
+        if (imageCount > 1) {
+          e.preventDefault()
+          setImageIndex(i => (i - 1 + imageCount) % imageCount)
+        }
+        break
+      case 'ArrowDown':
+        if (textCount > 1) {
+          e.preventDefault()
+          setTextIndex(i => (i + 1) % textCount)
+        }
+        break
+      case 'ArrowUp':
+        if (textCount > 1) {
+          e.preventDefault()
+          setTextIndex(i => (i - 1 + textCount) % textCount)
+        }
+        break
+    }
+  }, [concept, isDone, isSaving, rejectOpen, onClose, onSetRating, handleApprove, decide])
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleKeyDown])
+
+  const image = concept?.images?.[imageIndex]
+  const primaryText = concept?.primary_texts?.[textIndex]
+
+  return (
+    <div className="fixed inset-0 bg-black/20 flex items-center justify-center z-50">
+      <div className="bg-white border border-[#E5E5E5] w-full h-full max-w-[1100px] max-h-[95vh] m-4 flex flex-col">
+        {/* Header + progress */}
+        <div className="p-4 border-b border-[#E5E5E5] flex-shrink-0 space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="font-medium">Review Queue</h2>
+              <p className="text-xs text-[#A3A3A3]">
+                {decided} of {queueIds.length} reviewed · {remaining} remaining
+                {counts.skipped > 0 && ` · ${counts.skipped} skipped`}
+              </p>
+            </div>
+            <button onClick={onClose} className="text-[#A3A3A3] hover:text-black">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="h-1 bg-[#F5F5F5]">
+            <div
+              className="h-full bg-black transition-all"
+              style={{ width: `${queueIds.length ? (decided / queueIds.length) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+
+        {isDone || !concept ? (
+          <div className="flex-1 flex flex-col items-center justify-center gap-3">
+            <CheckCircle className="w-8 h-8 text-[#A3A3A3]" />
+            <p className="text-sm">
+              {queueIds.length === 0 ? 'No concepts waiting for review' : 'Queue complete'}
+            </p>
+            {queueIds.length > 0 && (
+              <p className="text-xs text-[#737373]">
+                {counts.approved} approved · {counts.rejected} rejected
+              </p>
+            )}
+            <Button variant="outline" size="sm" onClick={onClose}>
+              Back to concepts
+            </Button>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto">
+            <div className="grid grid-cols-2 divide-x divide-[#E5E5E5] min-h-full">
+              {/* Left: image */}
+              <div className="p-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-semibold">{concept.batch_number}</h3>
+                    {concept.hypothesis?.angle && (
+                      <p className="text-xs text-[#A3A3A3]">{concept.hypothesis.angle}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {[1, 2, 3, 4, 5].map((star) => (
+                      <button key={star} onClick={() => onSetRating(concept.id, star)} className="p-0.5">
+                        <Star
+                          className={`w-4 h-4 ${
+                            concept.rating && star <= concept.rating
+                              ? 'fill-black text-black'
+                              : 'text-[#D4D4D4] hover:text-[#A3A3A3]'
+                          }`}
+                        />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {image ? (
+                  <div className="space-y-2">
+                    <div className="relative border border-[#E5E5E5]">
+                      <img src={imageSrc(image)} alt={`Image ${imageIndex + 1}`} className="w-full aspect-square object-contain bg-[#FAFAFA]" />
+                      {concept.images.length > 1 && (
+                        <>
+                          <button
+                            onClick={() => setImageIndex((imageIndex - 1 + concept.images.length) % concept.images.length)}
+                            className="absolute left-2 top-1/2 -translate-y-1/2 p-1 bg-white/80 hover:bg-white"
+                          >
+                            <ChevronLeft className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => setImageIndex((imageIndex + 1) % concept.images.length)}
+                            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 bg-white/80 hover:bg-white"
+                          >
+                            <ChevronRight className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                    <p className="text-xs text-[#A3A3A3] text-center">
+                      Image {imageIndex + 1} of {concept.images.length}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="aspect-square border border-[#E5E5E5] flex items-center justify-center">
+                    <p className="text-xs text-[#A3A3A3]">No images</p>
+                  </div>
+                )}
+              </div>
+
+              {/* Right: copy + review */}
+              <div className="p-6 space-y-6">
+                {primaryText && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-xs font-medium text-[#737373] uppercase tracking-wide">Primary Text</h3>
+                      <span className="text-xs text-[#A3A3A3]">
+                        V{String(textIndex + 1).padStart(2, '0')} of {concept.primary_texts.length}
+                      </span>
+                    </div>
+                    <p className="text-sm whitespace-pre-wrap border border-[#E5E5E5] p-4">{primaryText}</p>
+                  </div>
+                )}
+
+                {concept.headlines?.length > 0 && (
+                  <div className="space-y-2">
+                    <h3 className="text-xs font-medium text-[#737373] uppercase tracking-wide">Headlines</h3>
+                    {concept.headlines.map((headline, i) => (
+                      <p key={i} className="text-sm">
+                        <span className="text-xs text-[#A3A3A3] mr-2">V{String(i + 1).padStart(2, '0')}</span>
+                        {headline}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {concept.principle_check && (
+                  <div className="space-y-2">
+                    <h3 className="text-xs font-medium text-[#737373] uppercase tracking-wide">
+                      Review {concept.principle_check.score !== undefined && `(${concept.principle_check.score}/100)`}
+                    </h3>
+                    {concept.principle_check.issues?.map((issue, i) => (
+                      <p key={i} className="text-xs text-[#737373]">
+                        <span className="font-medium">{issue.rule}:</span> {issue.problem}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex gap-3 pt-4 border-t border-[#E5E5E5]">
+                  <Button variant="outline" className="flex-1" onClick={() => decide('skipped')} disabled={isSaving}>
+                    Skip
+                  </Button>
+                  <Button variant="outline" className="flex-1" onClick={() => setRejectOpen(true)} disabled={isSaving}>
+                    Reject
+                  </Button>
+                  <Button className="flex-1" onClick={handleApprove} disabled={isSaving}>
+                    {isApproving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Shortcut legend */}
+        <div className="px-4 py-2 border-t border-[#E5E5E5] flex-shrink-0 flex items-center gap-4 text-xs text-[#A3A3A3]">
+          {shortcuts.map(s => (
+            <span key={s.keys}>
+              <kbd className="px-1 border border-[#E5E5E5] text-[#737373] font-sans">{s.keys}</kbd> {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <FeedbackModal
+        open={rejectOpen}
+        onClose={() => setRejectOpen(false)}
+        onSubmit={handleReject}
+        isLoading={isRejecting}
+      />
+    </div>
+  )
+}
@@ -5,48 +5,29 @@ import { Button } from './ui/button'
 import { AdvancedSettings } from './AdvancedSettings'
 import { AutonomousSettings } from './AutonomousSettings'
 import { FormatsSection } from './FormatsSection'
+import { AlertRulesSection } from './AlertRulesSection'
 import { UsageTracking } from './UsageTracking'
 import { BOFTemplates } from './BOFTemplates'
 
-interface SettingsData {
-  image_generation_enabled: boolean
-  image_aspect_ratio: string
-}
-
-interface ModelOption {
-  id: string
-  name: string
-  provider: string
-  thinking_enabled?: boolean
-  supports_thinking?: boolean
-}
-
-interface ThinkingSettings {
-  thinking_budget: number
-  min_budget: number
-  max_budget: number
-  default_budget: number
-}
-
-interface ModelSettings {
-  available_models: Record<string, ModelOption[]>
-  current_models: Record<string, string>
-}
-
-interface PerformanceGoals {
-  id: string | null
-  product_id: string | null
-  target_cpa: number
-  target_roas: number
-  super_winner_min_spend: number
-  winner_min_spend: number
-  promising_max_spend: number
-  promising_min_sales: number
-  loser_min_spend: number
-}
-
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
+import {
+  fetchSettings,
+  updateSettings,
+  fetchModelSettings,
+  updateModel,
+  fetchGoals,
+  updateGoals,
+  fetchProductGoals,
+  updateProductGoals,
+  deleteProductGoals,
+  fetchProducts,
+  fetchCopywritingPrinciples,
+  updateCopywritingPrinciples,
+  fetchThinkingSettings,
+  updateThinkingBudget,
+  fetchUrlTags,
+  updateUrlTags,
+} from '../api'
+import type { SettingsData, ModelSettings, ThinkingSettings, PerformanceGoals, Product } from '../api'
 
 // URL Tags (UTM Parameters) Component
 function UrlTagsField() {
@@ -56,35 +37,24 @@ function UrlTagsField() {
   const [isLoading, setIsLoading] = useState(true)
 
   useEffect(() => {
-    const fetchUrlTags = async () => {
+    const loadUrlTags = async () => {
       try {
-        const res = await authFetch(`${API_BASE}/settings/url-tags`)
-        if (res.ok) {
-          const data = await res.json()
-          setUrlTags(data.default_url_tags || '')
-          setOriginalUrlTags(data.default_url_tags || '')
-        }
+        const tags = await fetchUrlTags()
+        setUrlTags(tags)
+        setOriginalUrlTags(tags)
       } catch (error) {
         console.error('Failed to fetch URL tags:', error)
       } finally {
         setIsLoading(false)
       }
     }
-    fetchUrlTags()
+    loadUrlTags()
   }, [])
 
   const saveUrlTags = async () => {
     setIsSaving(true)
     try {
-      const res = await authFetch(`${API_BASE}/settings/url-tags`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ default_url_tags: urlTags || null }),
-      })
-      if (res.ok) {
-        const data = await res.json()
-        setOriginalUrlTags(data.default_url_tags || '')
-      }
+      setOriginalUrlTags(await updateUrlTags(urlTags || null))
     } catch (error) {
       console.error('Failed to save URL tags:', error)
     } finally {
@@ -159,6 +129,10 @@ export function Settings() {
   const [modelSettings, setModelSettings] = useState<ModelSettings | null>(null)
   const [thinkingSettings, setThinkingSettings] = useState<ThinkingSettings | null>(null)
   const [goals, setGoals] = useState<PerformanceGoals | null>(null)
+  const [productGoals, setProductGoals] = useState<PerformanceGoals[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  // '' edits the account-wide goals, otherwise that product's override
+  const [goalsProductId, setGoalsProductId] = useState('')
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
   const [savingModel, setSavingModel] = useState<string | null>(null)
@@ -175,41 +149,33 @@ export function Settings() {
   // Local thinking budget for slider
   const [localThinkingBudget, setLocalThinkingBudget] = useState<number>(10000)
 
-  const fetchSettings = async () => {
+  const loadSettings = async () => {
     try {
-      const [settingsRes, modelsRes, goalsRes, principlesRes, thinkingRes] = await Promise.all([
-        authFetch(`${API_BASE}/settings`),
-        authFetch(`${API_BASE}/settings/models`),
-        authFetch(`${API_BASE}/settings/goals`),
-        authFetch(`${API_BASE}/settings/copywriting-principles`),
-        authFetch(`${API_BASE}/settings/thinking`),
+      // Each section loads independently - one failing shouldn't blank the page
+      const [settingsData, models, goalsData, productGoalsData, productsData, principles, thinking] = await Promise.all([
+        fetchSettings().catch(() => null),
+        fetchModelSettings().catch(() => null),
+        fetchGoals().catch(() => null),
+        fetchProductGoals().catch(() => null),
+        fetchProducts().catch(() => null),
+        fetchCopywritingPrinciples().catch(() => null),
+        fetchThinkingSettings().catch(() => null),
       ])
 
-      if (settingsRes.ok) {
-        const data = await settingsRes.json()
-        setSettings(data)
-      }
-
-      if (modelsRes.ok) {
-        const data = await modelsRes.json()
-        setModelSettings(data)
-      }
-
-      if (goalsRes.ok) {
-        const data = await goalsRes.json()
-        setGoals(data)
-      }
+      if (settingsData) setSettings(settingsData)
+      if (models) setModelSettings(models)
+      if (goalsData) setGoals(goalsData)
+      if (productGoalsData) setProductGoals(productGoalsData)
+      if (productsData) setProducts(productsData)
 
-      if (principlesRes.ok) {
-        const data = await principlesRes.json()
-        setCopywritingPrinciples(data.principles)
-        setOriginalPrinciples(data.principles)
+      if (principles !== null) {
+        setCopywritingPrinciples(principles)
+        setOriginalPrinciples(principles)
       }
 
-      if (thinkingRes.ok) {
-        const data = await thinkingRes.json()
-        setThinkingSettings(data)
-        setLocalThinkingBudget(data.thinking_budget)
+      if (thinking) {
+        setThinkingSettings(thinking)
+        setLocalThinkingBudget(thinking.thinking_budget)
       }
     } catch (error) {
       console.error('Failed to fetch settings:', error)
@@ -218,18 +184,11 @@ export function Settings() {
     }
   }
 
-  const updateThinkingBudget = async (budget: number) => {
+  const saveThinkingBudget = async (budget: number) => {
     setSavingThinking(true)
     try {
-      const res = await authFetch(`${API_BASE}/settings/thinking/budget`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ budget }),
-      })
-      if (res.ok) {
-        const data = await res.json()
-        setThinkingSettings(prev => prev ? { ...prev, thinking_budget: data.thinking_budget } : null)
-      }
+      const data = await updateThinkingBudget(budget)
+      setThinkingSettings(prev => prev ? { ...prev, thinking_budget: data.thinking_budget } : null)
     } catch (error) {
       console.error('Failed to update thinking budget:', error)
     } finally {
@@ -240,14 +199,8 @@ export function Settings() {
   const savePrinciples = async () => {
     setSavingPrinciples(true)
     try {
-      const res = await authFetch(`${API_BASE}/settings/copywriting-principles`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ principles: copywritingPrinciples }),
-      })
-      if (res.ok) {
-        setOriginalPrinciples(copywritingPrinciples)
-      }
+      await updateCopywritingPrinciples(copywritingPrinciples)
+      setOriginalPrinciples(copywritingPrinciples)
     } catch (error) {
       console.error('Failed to save principles:', error)
     } finally {
@@ -255,17 +208,15 @@ export function Settings() {
     }
   }
 
-  const updateGoals = async (updates: Partial<PerformanceGoals>) => {
+  const saveGoals = async (updates: Partial<PerformanceGoals>) => {
     setSavingGoals(true)
     try {
-      const res = await authFetch(`${API_BASE}/settings/goals`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updates),
-      })
-      if (res.ok) {
-        const data = await res.json()
-        setGoals(data)
+      if (goalsProductId) {
+        // The first edit creates the product's override
+        const saved = await updateProductGoals(goalsProductId, updates)
+        setProductGoals(prev => [...prev.filter(g => g.product_id !== goalsProductId), saved])
+      } else {
+        setGoals(await updateGoals(updates))
       }
     } catch (error) {
       console.error('Failed to update goals:', error)
@@ -274,22 +225,30 @@ export function Settings() {
     }
   }
 
+  const resetProductGoals = async () => {
+    if (!goalsProductId) return
+    setSavingGoals(true)
+    try {
+      await deleteProductGoals(goalsProductId)
+      setProductGoals(prev => prev.filter(g => g.product_id !== goalsProductId))
+    } catch (error) {
+      console.error('Failed to reset product goals:', error)
+    } finally {
+      setSavingGoals(false)
+    }
+  }
+
+  const productOverride = goalsProductId ? productGoals.find(g => g.product_id === goalsProductId) : undefined
+  const activeGoals = productOverride || goals
+
   useEffect(() => {
-    fetchSettings()
+    loadSettings()
   }, [])
 
   const updateSetting = async (key: keyof SettingsData, value: boolean | string) => {
     setIsSaving(true)
     try {
-      const res = await authFetch(`${API_BASE}/settings`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ [key]: value }),
-      })
-      if (res.ok) {
-        const data = await res.json()
-        setSettings(data)
-      }
+      setSettings(await updateSettings({ [key]: value }))
     } catch (error) {
       console.error('Failed to update setting:', error)
     } finally {
@@ -297,20 +256,14 @@ export function Settings() {
     }
   }
 
-  const updateModel = async (task: string, modelId: string) => {
+  const saveModel = async (task: string, modelId: string) => {
     setSavingModel(task)
     try {
-      const res = await authFetch(`${API_BASE}/settings/models`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ task, model_id: modelId }),
-      })
-      if (res.ok) {
-        setModelSettings(prev => prev ? {
-          ...prev,
-          current_models: { ...prev.current_models, [task]: modelId }
-        } : null)
-      }
+      await updateModel(task, modelId)
+      setModelSettings(prev => prev ? {
+        ...prev,
+        current_models: { ...prev.current_models, [task]: modelId }
+      } : null)
     } catch (error) {
       console.error('Failed to update model:', error)
     } finally {
@@ -336,7 +289,7 @@ export function Settings() {
             <h2 className="text-lg font-semibold">Settings</h2>
           </div>
           <button
-            onClick={fetchSettings}
+            onClick={loadSettings}
             className="p-2 text-[#A3A3A3] hover:text-black transition-colors"
           >
             <RefreshCw className="w-4 h-4" />
@@ -380,7 +333,7 @@ export function Settings() {
           <UsageTracking />
 
           {/* Performance Goals */}
-          {goals && (
+          {activeGoals && (
             <div className="border border-[#E5E5E5] p-4">
               <div className="flex items-center gap-2 mb-4">
                 <Target className="w-4 h-4 text-[#737373]" />
@@ -390,6 +343,36 @@ export function Settings() {
               </div>
 
               <div className="space-y-4">
+                {/* Scope */}
+                {products.length > 0 && (
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={goalsProductId}
+                        onChange={(e) => setGoalsProductId(e.target.value)}
+                        className="flex-1 border border-[#E5E5E5] px-2 py-1.5 text-sm bg-white focus:outline-none focus:border-black"
+                      >
+                        <option value="">All products (account goals)</option>
+                        {products.map(p => (
+                          <option key={p.id} value={p.id}>
+                            {p.name}{productGoals.some(g => g.product_id === p.id) ? ' (custom)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                      {productOverride && (
+                        <Button variant="outline" size="sm" onClick={resetProductGoals} disabled={savingGoals}>
+                          Reset to account goals
+                        </Button>
+                      )}
+                    </div>
+                    {goalsProductId && !productOverride && (
+                      <p className="text-xs text-[#A3A3A3] mt-1">
+                        Using the account goals. Changing a value saves custom goals for this product.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* Main Goals */}
                 <div className="grid grid-cols-2 gap-4">
                   <div>
@@ -400,8 +383,8 @@ export function Settings() {
                       <DollarSign className="w-4 h-4 text-[#A3A3A3]" />
                       <input
                         type="number"
-                        value={goals.target_cpa}
-                        onChange={(e) => updateGoals({ target_cpa: parseFloat(e.target.value) || 0 })}
+                        value={activeGoals.target_cpa}
+                        onChange={(e) => saveGoals({ target_cpa: parseFloat(e.target.value) || 0 })}
                         disabled={savingGoals}
                         className="w-full border border-[#E5E5E5] px-3 py-1.5 text-sm focus:outline-none focus:border-black"
                       />
@@ -417,8 +400,8 @@ export function Settings() {
                       <input
                         type="number"
                         step="0.1"
-                        value={goals.target_roas}
-                        onChange={(e) => updateGoals({ target_roas: parseFloat(e.target.value) || 0 })}
+                        value={activeGoals.target_roas}
+                        onChange={(e) => saveGoals({ target_roas: parseFloat(e.target.value) || 0 })}
                         disabled={savingGoals}
                         className="w-full border border-[#E5E5E5] px-3 py-1.5 text-sm focus:outline-none focus:border-black"
                       />
@@ -443,8 +426,8 @@ export function Settings() {
                           <label className="block text-xs text-[#737373] mb-1">Super Winner Min Spend</label>
                           <input
                             type="number"
-                            value={goals.super_winner_min_spend}
-                            onChange={(e) => updateGoals({ super_winner_min_spend: parseFloat(e.target.value) || 0 })}
+                            value={activeGoals.super_winner_min_spend}
+                            onChange={(e) => saveGoals({ super_winner_min_spend: parseFloat(e.target.value) || 0 })}
                             disabled={savingGoals}
                             className="w-full border border-[#E5E5E5] px-2 py-1 text-sm"
                           />
@@ -453,8 +436,8 @@ export function Settings() {
                           <label className="block text-xs text-[#737373] mb-1">Winner Min Spend</label>
                           <input
                             type="number"
-                            value={goals.winner_min_spend}
-                            onChange={(e) => updateGoals({ winner_min_spend: parseFloat(e.target.value) || 0 })}
+                            value={activeGoals.winner_min_spend}
+                            onChange={(e) => saveGoals({ winner_min_spend: parseFloat(e.target.value) || 0 })}
                             disabled={savingGoals}
                             className="w-full border border-[#E5E5E5] px-2 py-1 text-sm"
                           />
@@ -463,8 +446,8 @@ export function Settings() {
                           <label className="block text-xs text-[#737373] mb-1">Promising Max Spend</label>
                           <input
                             type="number"
-                            value={goals.promising_max_spend}
-                            onChange={(e) => updateGoals({ promising_max_spend: parseFloat(e.target.value) || 0 })}
+                            value={activeGoals.promising_max_spend}
+                            onChange={(e) => saveGoals({ promising_max_spend: parseFloat(e.target.value) || 0 })}
                             disabled={savingGoals}
                             className="w-full border border-[#E5E5E5] px-2 py-1 text-sm"
                           />
@@ -473,8 +456,8 @@ export function Settings() {
                           <label className="block text-xs text-[#737373] mb-1">Promising Min Sales</label>
                           <input
                             type="number"
-                            value={goals.promising_min_sales}
-                            onChange={(e) => updateGoals({ promising_min_sales: parseInt(e.target.value) || 0 })}
+                            value={activeGoals.promising_min_sales}
+                            onChange={(e) => saveGoals({ promising_min_sales: parseInt(e.target.value) || 0 })}
                             disabled={savingGoals}
                             className="w-full border border-[#E5E5E5] px-2 py-1 text-sm"
                           />
@@ -483,8 +466,8 @@ export function Settings() {
                           <label className="block text-xs text-[#737373] mb-1">Loser Min Spend</label>
                           <input
                             type="number"
-                            value={goals.loser_min_spend}
-                            onChange={(e) => updateGoals({ loser_min_spend: parseFloat(e.target.value) || 0 })}
+                            value={activeGoals.loser_min_spend}
+                            onChange={(e) => saveGoals({ loser_min_spend: parseFloat(e.target.value) || 0 })}
                             disabled={savingGoals}
                             className="w-full border border-[#E5E5E5] px-2 py-1 text-sm"
                           />
@@ -524,7 +507,7 @@ export function Settings() {
                       </div>
                       <select
                         value={currentModel || ''}
-                        onChange={(e) => updateModel(task, e.target.value)}
+                        onChange={(e) => saveModel(task, e.target.value)}
                         disabled={savingModel === task}
                         className={`text-sm border border-[#E5E5E5] px-2 py-1 bg-white focus:outline-none focus:border-black min-w-[200px] ${
                           savingModel === task ? 'opacity-50' : ''
@@ -569,8 +552,8 @@ export function Settings() {
                       step={1000}
                       value={localThinkingBudget}
                       onChange={(e) => setLocalThinkingBudget(parseInt(e.target.value))}
-                      onMouseUp={() => updateThinkingBudget(localThinkingBudget)}
-                      onTouchEnd={() => updateThinkingBudget(localThinkingBudget)}
+                      onMouseUp={() => saveThinkingBudget(localThinkingBudget)}
+                      onTouchEnd={() => saveThinkingBudget(localThinkingBudget)}
                       className="flex-1 h-2 bg-[#E5E5E5] rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-black"
                     />
                     <span className="text-xs text-[#A3A3A3]">128K</span>
@@ -598,6 +581,9 @@ export function Settings() {
           {/* Ad Copy Formats */}
           <FormatsSection />
 
+          {/* Analytics Alerts */}
+          <AlertRulesSection />
+
           {/* Copywriting Principles */}
           <div className="border border-[#E5E5E5] p-4">
             <div className="flex items-center justify-between mb-4">
@@ -1,70 +1,43 @@
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { RefreshCw, Plus, X, Link, Trash2, ExternalLink, Tag, Copy, Check, Loader2, FileText, Upload, Pencil, Save, FolderPlus } from 'lucide-react'
 import { Button } from './ui/button'
 import { useToast } from './ui/toast'
 import ReactMarkdown from 'react-markdown'
 
-import { API_BASE, WS_BASE } from '../config'
-import { authFetch } from '../auth'
-
-interface Swipe {
-  id: string
-  name: string
-  swipe_type: 'ad_text' | 'ad_image' | 'ad_video' | 'landing_page' | 'raw_text'
-  reference_code: string
-  transcript?: string
-  visual_description?: string
-  source_url?: string
-  source_platform?: string
-  thumbnail_url?: string
-  video_url?: string
-  tags?: string[]
-  category?: string
-  funnel_position?: 'TOF' | 'BOF' | 'all'
-  times_referenced: number
-  created_at: string
-  metadata?: {
-    status?: 'processing' | 'ready' | 'failed'
-    error?: string
-    [key: string]: unknown
-  }
-}
-
-interface Job {
-  id: string
-  status: 'queued' | 'processing' | 'done' | 'failed'
-  progress: number
-  progress_message: string
-  input_type: string
-  input_data: {
-    url?: string
-    text?: string
-    filename?: string
-  }
-  result_swipe_id?: string
-  error_message?: string
-  created_at: string
-}
+import {
+  fetchSwipes,
+  fetchSwipeJobs,
+  queueSwipeJob,
+  uploadSwipeFile,
+  updateSwipe,
+  deleteSwipe,
+  fetchFormats,
+  linkSwipeToFormat,
+  isApiError,
+} from '../api'
+import type { Swipe, SwipeJob, AdFormat } from '../api'
+import { usePollingFallback, useRealtimeEvent } from '../realtime'
+import { useRouteId, useSearchParam } from '../router'
 
 type SwipeTypeFilter = 'all' | 'ad_text' | 'ad_image' | 'ad_video' | 'landing_page' | 'raw_text'
 type FunnelFilter = 'all' | 'TOF' | 'BOF'
-type AddMode = 'url' | 'text' | 'file'
 
-interface AdFormat {
-  format_id: string
-  name: string
-  description: string
-  linked_swipe_ids: string[]
-}
+const TYPE_FILTERS: SwipeTypeFilter[] = ['all', 'ad_text', 'ad_image', 'ad_video', 'landing_page', 'raw_text']
+const FUNNEL_FILTERS: FunnelFilter[] = ['all', 'TOF', 'BOF']
+type AddMode = 'url' | 'text' | 'file'
 
 export function SwipeFile() {
   const [swipes, setSwipes] = useState<Swipe[]>([])
-  const [jobs, setJobs] = useState<Job[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const [typeFilter, setTypeFilter] = useState<SwipeTypeFilter>('all')
-  const [funnelFilter, setFunnelFilter] = useState<FunnelFilter>('all')
+  // Filters and the open swipe are kept in the URL (/swipes/<id>?type=ad_video&funnel=TOF)
+  const [typeParam, setTypeFilter] = useSearchParam<SwipeTypeFilter>('type', 'all')
+  const [funnelParam, setFunnelFilter] = useSearchParam<FunnelFilter>('funnel', 'all')
+  const typeFilter = TYPE_FILTERS.includes(typeParam) ? typeParam : 'all'
+  const funnelFilter = FUNNEL_FILTERS.includes(funnelParam) ? funnelParam : 'all'
   const [searchQuery, setSearchQuery] = useState('')
   const toast = useToast()
+  const queryClient = useQueryClient()
 
   // Add modal state
   const [addModalOpen, setAddModalOpen] = useState(false)
@@ -78,7 +51,8 @@ export function SwipeFile() {
   const [tagInput, setTagInput] = useState('')
 
   // Detail modal state
-  const [selectedSwipe, setSelectedSwipe] = useState<Swipe | null>(null)
+  const [selectedSwipeId, setSelectedSwipeId] = useRouteId('swipes')
+  const selectedSwipe = swipes.find(s => s.id === selectedSwipeId) || null
   const [copiedCode, setCopiedCode] = useState<string | null>(null)
 
   // Edit mode state
@@ -93,108 +67,40 @@ export function SwipeFile() {
   const [formats, setFormats] = useState<AdFormat[]>([])
   const [isLinkingSwipe, setIsLinkingSwipe] = useState(false)
 
-  // WebSocket ref
-  const wsRef = useRef<WebSocket | null>(null)
-  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
-
-  // Connect WebSocket
-  const connectWebSocket = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) return
-
-    const ws = new WebSocket(`${WS_BASE}/swipes/ws`)
-
-    ws.onopen = () => {
-      console.log('WebSocket connected')
-    }
-
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data)
-
-        if (data.type === 'initial_state') {
-          setJobs(data.jobs.filter((j: Job) => j.status === 'queued' || j.status === 'processing'))
-        } else if (data.type === 'job_update') {
-          // Update job progress
-          setJobs(prev => {
-            const exists = prev.find(j => j.id === data.job_id)
-            if (exists) {
-              return prev.map(j =>
-                j.id === data.job_id
-                  ? { ...j, progress: data.progress, progress_message: data.message, status: data.status }
-                  : j
-              )
-            }
-            return prev
-          })
-
-          // If job completed, refresh swipes list and show toast
-          if (data.status === 'done') {
-            fetchSwipes()
-            toast.success(`Swipe ready!`)
-            // Remove from jobs list after delay
-            setTimeout(() => {
-              setJobs(prev => prev.filter(j => j.id !== data.job_id))
-            }, 2000)
-          } else if (data.status === 'failed') {
-            toast.error(`Processing failed: ${data.message}`)
-            setTimeout(() => {
-              setJobs(prev => prev.filter(j => j.id !== data.job_id))
-            }, 5000)
-          }
-        } else if (data.type === 'ping') {
-          ws.send(JSON.stringify({ type: 'pong' }))
-        }
-      } catch (e) {
-        console.error('WebSocket message error:', e)
-      }
-    }
-
-    ws.onclose = () => {
-      console.log('WebSocket disconnected, reconnecting...')
-      reconnectTimeoutRef.current = setTimeout(connectWebSocket, 3000)
-    }
-
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error)
+  // Job progress is pushed over the realtime socket into ['swipe-jobs']
+  const { data: jobs = [] } = useQuery({
+    queryKey: ['swipe-jobs'],
+    queryFn: () => fetchSwipeJobs(20),
+    refetchInterval: usePollingFallback(3000),
+  })
+  const activeJobs = jobs.filter(j => j.status === 'queued' || j.status === 'processing')
+
+  useRealtimeEvent('job_update', (data) => {
+    if (data.status === 'done') {
+      loadSwipes()
+      toast.success(`Swipe ready!`)
+    } else if (data.status === 'failed') {
+      toast.error(`Processing failed: ${data.message}`)
     }
+  })
 
-    wsRef.current = ws
-  }, [toast])
-
-  // Cleanup WebSocket on unmount
-  useEffect(() => {
-    connectWebSocket()
-
-    return () => {
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current)
-      }
-      wsRef.current?.close()
-    }
-  }, [connectWebSocket])
+  // Show a queued job immediately, before the first progress update arrives
+  const addJob = (job: SwipeJob) => {
+    queryClient.setQueryData<SwipeJob[]>(['swipe-jobs'], prev => [job, ...(prev || [])])
+  }
 
   useEffect(() => {
-    fetchSwipes()
-    fetchJobs()
+    loadSwipes()
   }, [typeFilter, funnelFilter])
 
-  const fetchSwipes = async () => {
+  const loadSwipes = async () => {
     setIsLoading(true)
     try {
-      const params = new URLSearchParams()
-      if (typeFilter !== 'all') {
-        params.set('swipe_type', typeFilter)
-      }
-      if (funnelFilter !== 'all') {
-        params.set('funnel_position', funnelFilter)
-      }
-      params.set('limit', '100')
-
-      const res = await authFetch(`${API_BASE}/swipes?${params}`)
-      if (res.ok) {
-        const data = await res.json()
-        setSwipes(data.swipes || [])
-      }
+      setSwipes(await fetchSwipes({
+        swipe_type: typeFilter !== 'all' ? typeFilter : undefined,
+        funnel_position: funnelFilter !== 'all' ? funnelFilter : undefined,
+        limit: 100,
+      }))
     } catch (error) {
       console.error('Failed to fetch swipes:', error)
     } finally {
@@ -202,17 +108,8 @@ export function SwipeFile() {
     }
   }
 
-  const fetchJobs = async () => {
-    try {
-      const res = await authFetch(`${API_BASE}/swipes/jobs?limit=20`)
-      if (res.ok) {
-        const data = await res.json()
-        // Only keep active jobs
-        setJobs(data.jobs.filter((j: Job) => j.status === 'queued' || j.status === 'processing'))
-      }
-    } catch (error) {
-      console.error('Failed to fetch jobs:', error)
-    }
+  const loadJobs = () => {
+    queryClient.invalidateQueries({ queryKey: ['swipe-jobs'] })
   }
 
   const handleAddUrl = async () => {
@@ -221,23 +118,13 @@ export function SwipeFile() {
     setIsSubmitting(true)
 
     try {
-      const res = await authFetch(`${API_BASE}/swipes/jobs`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          input_type: 'url',
-          url: urlInput.trim(),
-        }),
-      })
-
-      const data = await res.json()
+      const data = await queueSwipeJob({ input_type: 'url', url: urlInput.trim() })
 
       if (data.success) {
         setAddModalOpen(false)
         resetAddForm()
         toast.success('Processing started...')
-        // Add to local jobs for immediate feedback
-        setJobs(prev => [{
+        addJob({
           id: data.job_id,
           status: 'queued',
           progress: 0,
@@ -245,13 +132,13 @@ export function SwipeFile() {
           input_type: 'url',
           input_data: { url: urlInput.trim() },
           created_at: new Date().toISOString()
-        }, ...prev])
+        })
       } else {
         toast.error(data.detail || 'Failed to queue URL')
       }
     } catch (error) {
       console.error('Failed to queue URL:', error)
-      toast.error('Failed to add URL')
+      toast.error(isApiError(error) ? error.message : 'Failed to add URL')
     } finally {
       setIsSubmitting(false)
     }
@@ -263,22 +150,13 @@ export function SwipeFile() {
     setIsSubmitting(true)
 
     try {
-      const res = await authFetch(`${API_BASE}/swipes/jobs`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          input_type: 'text',
-          text: textInput.trim(),
-        }),
-      })
-
-      const data = await res.json()
+      const data = await queueSwipeJob({ input_type: 'text', text: textInput.trim() })
 
       if (data.success) {
         setAddModalOpen(false)
         resetAddForm()
         toast.success('Processing text...')
-        setJobs(prev => [{
+        addJob({
           id: data.job_id,
           status: 'queued',
           progress: 0,
@@ -286,13 +164,13 @@ export function SwipeFile() {
           input_type: 'text',
           input_data: { text: textInput.trim().substring(0, 50) + '...' },
           created_at: new Date().toISOString()
-        }, ...prev])
+        })
       } else {
         toast.error(data.detail || 'Failed to queue text')
       }
     } catch (error) {
       console.error('Failed to queue text:', error)
-      toast.error('Failed to add text')
+      toast.error(isApiError(error) ? error.message : 'Failed to add text')
     } finally {
       setIsSubmitting(false)
     }
@@ -305,21 +183,13 @@ export function SwipeFile() {
     setIsSubmitting(true)
 
     try {
-      const formData = new FormData()
-      formData.append('file', file)
-
-      const res = await authFetch(`${API_BASE}/swipes/jobs/upload`, {
-        method: 'POST',
-        body: formData,
-      })
-
-      const data = await res.json()
+      const data = await uploadSwipeFile(file)
 
       if (data.success) {
         setAddModalOpen(false)
         resetAddForm()
         toast.success(`Processing ${file.name}...`)
-        setJobs(prev => [{
+        addJob({
           id: data.job_id,
           status: 'queued',
           progress: 0,
@@ -327,13 +197,13 @@ export function SwipeFile() {
           input_type: 'file',
           input_data: { filename: file.name },
           created_at: new Date().toISOString()
-        }, ...prev])
+        })
       } else {
         toast.error(data.detail || 'Failed to upload file')
       }
     } catch (error) {
       console.error('Failed to upload file:', error)
-      toast.error('Failed to upload file')
+      toast.error(isApiError(error) ? error.message : 'Failed to upload file')
     } finally {
       setIsSubmitting(false)
     }
@@ -341,12 +211,10 @@ export function SwipeFile() {
 
   const handleDelete = async (id: string) => {
     try {
-      const res = await authFetch(`${API_BASE}/swipes/${id}`, { method: 'DELETE' })
-      if (res.ok) {
-        setSelectedSwipe(null)
-        fetchSwipes()
-        toast.success('Deleted')
-      }
+      await deleteSwipe(id)
+      setSelectedSwipeId(null)
+      loadSwipes()
+      toast.success('Deleted')
     } catch (error) {
       console.error('Failed to delete swipe:', error)
     }
@@ -373,25 +241,14 @@ export function SwipeFile() {
 
     setIsSaving(true)
     try {
-      const res = await authFetch(`${API_BASE}/swipes/${selectedSwipe.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name: editedName,
-          transcript: editedTranscript,
-          funnel_position: editedFunnelPosition,
-        }),
+      const updated = await updateSwipe(selectedSwipe.id, {
+        name: editedName,
+        transcript: editedTranscript,
+        funnel_position: editedFunnelPosition,
       })
-
-      if (res.ok) {
-        const updated = await res.json()
-        setSelectedSwipe(updated)
-        setSwipes(prev => prev.map(s => s.id === updated.id ? updated : s))
-        setIsEditing(false)
-        toast.success('Saved')
-      } else {
-        toast.error('Failed to save')
-      }
+      setSwipes(prev => prev.map(s => s.id === updated.id ? updated : s))
+      setIsEditing(false)
+      toast.success('Saved')
     } catch (error) {
       console.error('Failed to save swipe:', error)
       toast.error('Failed to save')
@@ -408,13 +265,9 @@ export function SwipeFile() {
     setAddMode('url')
   }
 
-  const fetchFormats = async () => {
+  const loadFormats = async () => {
     try {
-      const res = await authFetch(`${API_BASE}/settings/formats`)
-      if (res.ok) {
-        const data = await res.json()
-        setFormats(data.formats || [])
-      }
+      setFormats(await fetchFormats())
     } catch (error) {
       console.error('Failed to fetch formats:', error)
     }
@@ -425,17 +278,10 @@ export function SwipeFile() {
 
     setIsLinkingSwipe(true)
     try {
-      const res = await authFetch(
-        `${API_BASE}/settings/formats/${formatId}/link-swipe?swipe_id=${selectedSwipe.id}`,
-        { method: 'POST' }
-      )
-      if (res.ok) {
-        const formatName = formats.find(f => f.format_id === formatId)?.name || formatId
-        toast.success(`Linked to ${formatName}`)
-        setShowFormatSelector(false)
-      } else {
-        toast.error('Failed to link swipe')
-      }
+      await linkSwipeToFormat(formatId, selectedSwipe.id)
+      const formatName = formats.find(f => f.format_id === formatId)?.name || formatId
+      toast.success(`Linked to ${formatName}`)
+      setShowFormatSelector(false)
     } catch (error) {
       console.error('Failed to link swipe:', error)
       toast.error('Failed to link swipe')
@@ -445,7 +291,7 @@ export function SwipeFile() {
   }
 
   const openFormatSelector = () => {
-    fetchFormats()
+    loadFormats()
     setShowFormatSelector(true)
   }
 
@@ -526,7 +372,7 @@ export function SwipeFile() {
           <h2 className="text-lg font-semibold">Swipe File</h2>
           <div className="flex gap-2">
             <button
-              onClick={() => { fetchSwipes(); fetchJobs() }}
+              onClick={() => { loadSwipes(); loadJobs() }}
               className="p-2 text-[#A3A3A3] hover:text-black transition-colors"
             >
               <RefreshCw className="w-4 h-4" />
@@ -542,7 +388,7 @@ export function SwipeFile() {
         <div className="flex flex-col gap-3">
           <div className="flex gap-4 items-center">
             <div className="flex gap-1">
-              {(['all', 'ad_text', 'ad_image', 'ad_video', 'landing_page', 'raw_text'] as const).map(type => (
+              {TYPE_FILTERS.map(type => (
                 <button
                   key={type}
                   onClick={() => setTypeFilter(type)}
@@ -561,7 +407,7 @@ export function SwipeFile() {
 
             {/* Funnel Filter */}
             <div className="flex gap-1">
-              {(['all', 'TOF', 'BOF'] as const).map(funnel => (
+              {FUNNEL_FILTERS.map(funnel => (
                 <button
                   key={funnel}
                   onClick={() => setFunnelFilter(funnel)}
@@ -594,11 +440,11 @@ export function SwipeFile() {
         </p>
 
         {/* Processing Jobs */}
-        {jobs.length > 0 && (
+        {activeJobs.length > 0 && (
           <div className="space-y-2">
             <span className="text-xs font-medium text-[#737373] uppercase">Processing</span>
             <div className="space-y-2">
-              {jobs.map(job => (
+              {activeJobs.map(job => (
                 <div key={job.id} className="border border-[#E5E5E5] p-3 bg-[#FAFAFA]">
                   <div className="flex items-center justify-between mb-2">
                     <span className="text-sm font-medium truncate max-w-[200px]">
@@ -636,7 +482,7 @@ export function SwipeFile() {
             {filteredSwipes.map(swipe => (
               <div
                 key={swipe.id}
-                onClick={() => setSelectedSwipe(swipe)}
+                onClick={() => setSelectedSwipeId(swipe.id)}
                 className="border border-[#E5E5E5] hover:border-[#D4D4D4] cursor-pointer transition-colors"
               >
                 {/* Thumbnail */}
@@ -893,7 +739,7 @@ export function SwipeFile() {
               </div>
               <button
                 onClick={() => {
-                  setSelectedSwipe(null)
+                  setSelectedSwipeId(null)
                   handleCancelEdit()
                 }}
                 className="text-[#A3A3A3] hover:text-black"
@@ -966,7 +812,7 @@ export function SwipeFile() {
                 <span className="text-xs font-medium text-[#737373] uppercase">Funnel Position</span>
                 {isEditing ? (
                   <div className="mt-2 flex gap-2">
-                    {(['all', 'TOF', 'BOF'] as const).map(funnel => (
+                    {FUNNEL_FILTERS.map(funnel => (
                       <button
                         key={funnel}
                         onClick={() => setEditedFunnelPosition(funnel)}
@@ -0,0 +1,198 @@
+import { useState, useRef, useEffect } from 'react'
+
+export interface ChartSeries {
+  id: string
+  label: string
+  color: string
+  // One value per date; null leaves a gap in the line
+  values: Array<number | null>
+}
+
+export interface ChartMarker {
+  date: string
+  label: string
+  color: string
+}
+
+interface TimeSeriesChartProps {
+  dates: string[]
+  series: ChartSeries[]
+  markers?: ChartMarker[]
+  formatValue: (value: number) => string
+  height?: number
+}
+
+const PADDING = { top: 16, right: 16, bottom: 24, left: 56 }
+const TICKS = 4
+
+// Rounds the axis max up to 1, 2 or 5 times a power of ten
+function niceMax(value: number): number {
+  if (value <= 0) return 1
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)))
+  const step = [1, 2, 5, 10].find(s => s * magnitude >= value) || 10
+  return step * magnitude
+}
+
+const shortDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+
+export function TimeSeriesChart({ dates, series, markers = [], formatValue, height = 240 }: TimeSeriesChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [width, setWidth] = useState(600)
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+
+  // Track the container so the chart fills the available width
+  useEffect(() => {
+    const el = containerRef.current
+    if (!el) return
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.max(200, entries[0].contentRect.width))
+    })
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [])
+
+  const plotWidth = width - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+  const step = dates.length > 1 ? plotWidth / (dates.length - 1) : 0
+  const x = (i: number) => PADDING.left + (dates.length > 1 ? i * step : plotWidth / 2)
+
+  const allValues = series.flatMap(s => s.values).filter((v): v is number => v !== null)
+  const yMax = niceMax(Math.max(0, ...allValues))
+  const y = (value: number) => PADDING.top + plotHeight - (value / yMax) * plotHeight
+
+  // Break the line wherever a day has no value
+  const linePath = (values: Array<number | null>) => {
+    let path = ''
+    let penDown = false
+    values.forEach((v, i) => {
+      if (v === null) {
+        penDown = false
+        return
+      }
+      path += `${penDown ? 'L' : 'M'}${x(i).toFixed(1)},${y(v).toFixed(1)} `
+      penDown = true
+    })
+    return path
+  }
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (dates.length === 0) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const mx = e.clientX - rect.left
+    const index = step ? Math.round((mx - PADDING.left) / step) : 0
+    setHoverIndex(Math.max(0, Math.min(dates.length - 1, index)))
+  }
+
+  // Up to ~6 evenly spaced date labels
+  const labelEvery = Math.max(1, Math.ceil(dates.length / 6))
+  const hoverMarkers = hoverIndex !== null ? markers.filter(m => m.date === dates[hoverIndex]) : []
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      <svg
+        width={width}
+        height={height}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+        className="block"
+      >
+        {/* Grid and y axis */}
+        {Array.from({ length: TICKS + 1 }, (_, i) => {
+          const value = (yMax / TICKS) * i
+          return (
+            <g key={i}>
+              <line x1={PADDING.left} x2={width - PADDING.right} y1={y(value)} y2={y(value)} stroke="#F5F5F5" />
+              <text x={PADDING.left - 8} y={y(value)} textAnchor="end" dominantBaseline="middle" fontSize={10} fill="#A3A3A3">
+                {formatValue(value)}
+              </text>
+            </g>
+          )
+        })}
+
+        {/* X axis labels */}
+        {dates.map((date, i) =>
+          i % labelEvery === 0 ? (
+            <text key={date} x={x(i)} y={height - 6} textAnchor="middle" fontSize={10} fill="#A3A3A3">
+              {shortDate(date)}
+            </text>
+          ) : null
+        )}
+
+        {/* Markers */}
+        {markers.map(marker => {
+          const i = dates.indexOf(marker.date)
+          if (i === -1) return null
+          return (
+            <g key={`${marker.date}-${marker.label}`}>
+              <line
+                x1={x(i)}
+                x2={x(i)}
+                y1={PADDING.top}
+                y2={PADDING.top + plotHeight}
+                stroke={marker.color}
+                strokeDasharray="4 3"
+              />
+              <circle cx={x(i)} cy={PADDING.top} r={3} fill={marker.color} />
+            </g>
+          )
+        })}
+
+        {/* Lines */}
+        {series.map(s => (
+          <path key={s.id} d={linePath(s.values)} fill="none" stroke={s.color} strokeWidth={1.5} />
+        ))}
+
+        {/* Hover guide */}
+        {hoverIndex !== null && (
+          <g>
+            <line
+              x1={x(hoverIndex)}
+              x2={x(hoverIndex)}
+              y1={PADDING.top}
+              y2={PADDING.top + plotHeight}
+              stroke="#D4D4D4"
+            />
+            {series.map(s => {
+              const v = s.values[hoverIndex]
+              return v === null ? null : (
+                <circle key={s.id} cx={x(hoverIndex)} cy={y(v)} r={3} fill="white" stroke={s.color} strokeWidth={1.5} />
+              )
+            })}
+          </g>
+        )}
+      </svg>
+
+      {/* Tooltip */}
+      {hoverIndex !== null && (
+        <div
+          className="absolute top-2 bg-white border border-[#E5E5E5] p-2 text-xs pointer-events-none shadow-sm min-w-[140px]"
+          style={
+            x(hoverIndex) > width / 2
+              ? { right: width - x(hoverIndex) + 8 }
+              : { left: x(hoverIndex) + 8 }
+          }
+        >
+          <p className="font-medium mb-1">{shortDate(dates[hoverIndex])}</p>
+          {series.map(s => {
+            const v = s.values[hoverIndex]
+            return (
+              <div key={s.id} className="flex items-center justify-between gap-3">
+                <span className="flex items-center gap-1 text-[#737373] truncate max-w-[160px]">
+                  <span className="w-2 h-2 flex-shrink-0" style={{ backgroundColor: s.color }} />
+                  {s.label}
+                </span>
+                <span className="font-medium">{v === null ? '-' : formatValue(v)}</span>
+              </div>
+            )
+          })}
+          {hoverMarkers.map(m => (
+            <p key={m.label} className="mt-1 pt-1 border-t border-[#F5F5F5]" style={{ color: m.color }}>
+              {m.label}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,38 +1,7 @@
 import { useState, useEffect } from 'react'
 import { DollarSign, Loader2, RefreshCw, ChevronDown, ChevronUp } from 'lucide-react'
-import { API_BASE } from '../config'
-import { authFetch } from '../auth'
-
-interface UsageSummary {
-  total_cost: number
-  total_input_tokens: number
-  total_output_tokens: number
-  total_images: number
-  count: number
-}
-
-interface ModelUsage {
-  cost: number
-  input_tokens: number
-  output_tokens: number
-  images: number
-  count: number
-}
-
-interface TaskUsage {
-  cost: number
-  input_tokens: number
-  output_tokens: number
-  images: number
-  count: number
-}
-
-interface ModelPricing {
-  input: number
-  output: number
-  image?: number
-  provider: string
-}
+import { fetchUsageSummary, fetchUsageByModel, fetchUsageByTask, fetchModelPricing } from '../api'
+import type { UsageSummary, UsageBreakdown, ModelPricing } from '../api'
 
 const TASK_LABELS: Record<string, string> = {
   copywriter: 'Ad Copy Generation',
@@ -72,8 +41,8 @@ function formatTokens(tokens: number): string {
 
 export function UsageTracking() {
   const [summary, setSummary] = useState<UsageSummary | null>(null)
-  const [byModel, setByModel] = useState<Record<string, ModelUsage>>({})
-  const [byTask, setByTask] = useState<Record<string, TaskUsage>>({})
+  const [byModel, setByModel] = useState<Record<string, UsageBreakdown>>({})
+  const [byTask, setByTask] = useState<Record<string, UsageBreakdown>>({})
   const [pricing, setPricing] = useState<Record<string, ModelPricing>>({})
   const [isLoading, setIsLoading] = useState(true)
   const [isExpanded, setIsExpanded] = useState(false)
@@ -82,29 +51,17 @@ export function UsageTracking() {
   const fetchUsage = async () => {
     setIsLoading(true)
     try {
-      const params = timeRange ? `?days=${timeRange}` : ''
-      const [summaryRes, modelRes, taskRes, pricingRes] = await Promise.all([
-        authFetch(`${API_BASE}/settings/usage/summary${params}`),
-        authFetch(`${API_BASE}/settings/usage/by-model${params}`),
-        authFetch(`${API_BASE}/settings/usage/by-task${params}`),
-        authFetch(`${API_BASE}/settings/usage/pricing`),
+      const [summaryData, modelData, taskData, pricingData] = await Promise.all([
+        fetchUsageSummary(timeRange).catch(() => null),
+        fetchUsageByModel(timeRange).catch(() => null),
+        fetchUsageByTask(timeRange).catch(() => null),
+        fetchModelPricing().catch(() => null),
       ])
 
-      if (summaryRes.ok) {
-        setSummary(await summaryRes.json())
-      }
-      if (modelRes.ok) {
-        const data = await modelRes.json()
-        setByModel(data.by_model || {})
-      }
-      if (taskRes.ok) {
-        const data = await taskRes.json()
-        setByTask(data.by_task || {})
-      }
-      if (pricingRes.ok) {
-        const data = await pricingRes.json()
-        setPricing(data.pricing || {})
-      }
+      if (summaryData) setSummary(summaryData)
+      if (modelData) setByModel(modelData)
+      if (taskData) setByTask(taskData)
+      if (pricingData) setPricing(pricingData)
     } catch (error) {
       console.error('Failed to fetch usage:', error)
     } finally {
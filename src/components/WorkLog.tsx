@@ -1,7 +1,7 @@
 import { useRef, useEffect } from 'react'
 import { Search, Lightbulb, Sparkles, CheckCircle, AlertCircle, Info, Brain, FileSearch } from 'lucide-react'
 import { ScrollArea } from './ui/scroll-area'
-import type { WorkLogEntry } from '../App'
+import type { WorkLogEntry } from '../api'
 
 interface WorkLogProps {
   entries: WorkLogEntry[]
@@ -1,5 +1,5 @@
 import { ChevronUp, ChevronDown } from 'lucide-react'
-import type { WorkLogEntry } from '../App'
+import type { WorkLogEntry } from '../api'
 
 interface WorkLogDrawerProps {
   entries: WorkLogEntry[]
@@ -3,3 +3,6 @@ export const API_BASE = import.meta.env.VITE_API_URL || '/api'
 // Derive WebSocket URL from API_BASE
 const apiUrl = import.meta.env.VITE_API_URL || window.location.origin + '/api'
 export const WS_BASE = apiUrl.replace(/^http/, 'ws')
+
+// Serve every request from in-memory fixtures instead of the backend (VITE_MOCK_API=true)
+export const MOCK_API = import.meta.env.VITE_MOCK_API === 'true'
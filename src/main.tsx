@@ -3,6 +3,8 @@ import ReactDOM from 'react-dom/client'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { ToastProvider } from './components/ui/toast'
 import { AuthProvider } from './auth'
+import { RealtimeProvider } from './realtime'
+import { RouterProvider } from './router'
 import App from './App'
 import './index.css'
 
@@ -61,13 +63,17 @@ const queryClient = new QueryClient({
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <ErrorBoundary>
-      <AuthProvider>
-        <QueryClientProvider client={queryClient}>
-          <ToastProvider>
-            <App />
-          </ToastProvider>
-        </QueryClientProvider>
-      </AuthProvider>
+      <RouterProvider>
+        <AuthProvider>
+          <QueryClientProvider client={queryClient}>
+            <RealtimeProvider>
+              <ToastProvider>
+                <App />
+              </ToastProvider>
+            </RealtimeProvider>
+          </QueryClientProvider>
+        </AuthProvider>
+      </RouterProvider>
     </ErrorBoundary>
   </React.StrictMode>,
 )
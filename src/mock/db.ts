@@ -0,0 +1,126 @@
+// In-memory state for mock mode. Handlers read and mutate this directly;
+// a page reload resets everything to the seed fixtures.
+import type {
+  AdConcept,
+  AnalysisRun,
+  Alert,
+  AlertRule,
+  AdFormat,
+  AutonomousSetting,
+  BOFTemplate,
+  ChatMessage,
+  ConceptFilterPreset,
+  Confirmation,
+  Conversation,
+  CopyVersion,
+  DataSource,
+  FBAdSet,
+  FBCampaign,
+  GeneratedImage,
+  Learning,
+  LearningEvent,
+  PerformanceGoals,
+  SnapshotStatus,
+  Product,
+  PromptCustomization,
+  ReportTemplate,
+  SettingsData,
+  StylePreset,
+  Swipe,
+  SwipeJob,
+  WorkLogEntry,
+} from '../api/types'
+import {
+  seedAdSets,
+  seedAnalysisRuns,
+  seedAlertRules,
+  seedAlerts,
+  seedAutonomousSettings,
+  seedBOFTemplates,
+  seedCampaigns,
+  seedConcepts,
+  seedFilterPresets,
+  seedConfirmations,
+  seedConversations,
+  seedDataSources,
+  seedFormats,
+  seedGeneratedImages,
+  seedGoals,
+  seedProductGoals,
+  seedReportTemplates,
+  seedSnapshotStatus,
+  seedLearnings,
+  seedLearningEvents,
+  seedMessages,
+  seedProducts,
+  seedPrompts,
+  seedStylePresets,
+  seedSwipeJobs,
+  seedSwipes,
+  seedWorkLog,
+} from './fixtures'
+
+export const db = {
+  concepts: seedConcepts() as AdConcept[],
+  filterPresets: seedFilterPresets() as ConceptFilterPreset[],
+  workLog: seedWorkLog() as WorkLogEntry[],
+  isWorking: false,
+  products: seedProducts() as Product[],
+  dataSources: seedDataSources() as Record<string, DataSource[]>,
+  fb: {
+    connected: true,
+    adAccountId: 'act_1000' as string | null,
+    pageId: 'page_1' as string | null,
+    campaigns: seedCampaigns() as FBCampaign[],
+    adSets: seedAdSets() as Record<string, FBAdSet[]>,
+    snapshots: seedSnapshotStatus() as SnapshotStatus,
+  },
+  alertRules: seedAlertRules() as AlertRule[],
+  alerts: seedAlerts() as Alert[],
+  swipes: seedSwipes() as Swipe[],
+  swipeJobs: seedSwipeJobs() as SwipeJob[],
+  settings: { image_generation_enabled: true, image_aspect_ratio: '1:1' } as SettingsData,
+  currentModels: {
+    orchestrator: 'claude-sonnet-4-5',
+    copywriter: 'claude-sonnet-4-5',
+    visual_analyzer: 'gemini-3-pro-preview',
+    image_generator: 'gemini-3-pro-image-preview',
+  } as Record<string, string>,
+  thinkingBudget: 8000,
+  goals: seedGoals() as PerformanceGoals,
+  productGoals: seedProductGoals() as PerformanceGoals[],
+  reportTemplates: seedReportTemplates() as ReportTemplate[],
+  principles: 'Write like a person, not a brand.\nBe specific: numbers, timeframes, names.\nNo hype words ("game-changer", "revolutionary").',
+  urlTags: 'utm_source=facebook&utm_medium=paid' as string | null,
+  formats: seedFormats() as AdFormat[],
+  prompts: seedPrompts() as PromptCustomization[],
+  stylePresets: seedStylePresets() as StylePreset[],
+  autonomous: seedAutonomousSettings() as Record<string, AutonomousSetting>,
+  bofTemplates: seedBOFTemplates() as BOFTemplate[],
+  learnings: seedLearnings() as Learning[],
+  learningEvents: seedLearningEvents() as LearningEvent[],
+  analysisRuns: seedAnalysisRuns() as AnalysisRun[],
+  conversations: seedConversations() as Conversation[],
+  messages: seedMessages() as Record<string, ChatMessage[]>,
+  confirmations: seedConfirmations() as Record<string, Confirmation[]>,
+  images: seedGeneratedImages() as GeneratedImage[],
+  // Keyed by concept id; seeded from the concept on first read
+  copyHistory: {} as Record<string, CopyVersion[]>,
+}
+
+export function findOr404<T extends { id: string }>(items: T[], id: string, label: string): T {
+  const item = items.find(i => i.id === id)
+  if (!item) throw new MockHttpError(404, `${label} not found`)
+  return item
+}
+
+// Thrown from a handler to produce a `{ detail }` error response
+export class MockHttpError extends Error {
+  status: number
+
+  constructor(status: number, detail: string) {
+    super(detail)
+    this.name = 'MockHttpError'
+    this.status = status
+  }
+}
@@ -0,0 +1,1168 @@
+// Seed data for mock mode. Everything here is generated fresh on page load
+// and mutated in memory by the mock handlers.
+import type {
+  AdConcept,
+  AnalysisRun,
+  AnalysisRunAd,
+  AppliedLearning,
+  Alert,
+  AlertRule,
+  AdFormat,
+  AdInsights,
+  AutonomousSetting,
+  BOFTemplate,
+  BreakdownDimension,
+  BreakdownRow,
+  ChatMessage,
+  ConceptFilterPreset,
+  ConceptFilters,
+  Confirmation,
+  Conversation,
+  DataSource,
+  DailyInsights,
+  DatePreset,
+  FBAd,
+  FBAdDailyInsights,
+  FBAdSet,
+  FBCampaign,
+  GeneratedImage,
+  InsightsPeriod,
+  Learning,
+  LearningEvent,
+  PerformanceGoals,
+  Product,
+  PromptCustomization,
+  ReportTemplate,
+  SnapshotStatus,
+  StylePreset,
+  Swipe,
+  SwipeJob,
+  WorkLogEntry,
+} from '../api/types'
+import { eachDay, resolvePeriod } from '../utils/dateRange'
+
+export const DAY = 24 * 60 * 60 * 1000
+
+export function daysAgo(days: number, hours = 0): string {
+  return new Date(Date.now() - days * DAY - hours * 60 * 60 * 1000).toISOString()
+}
+
+export function mockId(prefix: string): string {
+  return `${prefix}_${Math.random().toString(36).slice(2, 10)}`
+}
+
+// Inline SVG so images render without network access
+export function placeholderImage(label: string, color: string, size = 600): string {
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">` +
+    `<rect width="100%" height="100%" fill="${color}"/>` +
+    `<text x="50%" y="50%" font-family="sans-serif" font-size="${size / 14}" fill="#fff" ` +
+    `text-anchor="middle" dominant-baseline="middle">${label}</text></svg>`
+  return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`
+}
+
+const COLORS = ['#8B5CF6', '#0EA5E9', '#F59E0B', '#10B981', '#EF4444', '#6366F1', '#EC4899', '#14B8A6']
+
+// ============ Products & Data Sources ============
+
+export const MOCK_USER = { id: 'mock-user', email: 'demo@example.com', name: 'Demo User' }
+
+export function seedProducts(): Product[] {
+  return [
+    {
+      id: 'prod_gummies',
+      name: 'Daily Balance Gummies',
+      landing_page_url: 'https://example.com/products/gummies',
+      mechanism: 'Clinically studied probiotic strains that support a healthy microbiome from the inside out.',
+      ingredients: 'L. crispatus, L. rhamnosus GR-1, L. reuteri RC-14, cranberry extract, vitamin C',
+      image_urls: [placeholderImage('Gummies', '#EC4899')],
+      created_at: daysAgo(90),
+      updated_at: daysAgo(3),
+    },
+    {
+      id: 'prod_capsules',
+      name: 'Gut Reset Capsules',
+      landing_page_url: 'https://example.com/products/capsules',
+      mechanism: 'Delayed-release capsules deliver spore-based probiotics past stomach acid.',
+      ingredients: 'Bacillus coagulans, Saccharomyces boulardii, inulin',
+      image_urls: [],
+      created_at: daysAgo(45),
+      updated_at: daysAgo(10),
+    },
+  ]
+}
+
+export function seedDataSources(): Record<string, DataSource[]> {
+  return {
+    prod_gummies: [
+      {
+        id: 'ds_hooks',
+        name: 'Top performing hooks',
+        type: 'document',
+        category: 'hook',
+        content: '"I stopped dreading my gym days."\n"My doctor asked what I changed."\n"Three weeks in and I finally get it."',
+        created_at: daysAgo(30),
+      },
+      {
+        id: 'ds_reviews',
+        name: 'Trustpilot reviews export',
+        type: 'sheet',
+        category: 'reviews',
+        content: 'rating,review\n5,"Honestly did not expect this to work. It did."\n5,"No more embarrassing odor after workouts."\n4,"Took two weeks but worth it."',
+        created_at: daysAgo(28),
+      },
+      {
+        id: 'ds_offer',
+        name: 'Spring bundle',
+        type: 'document',
+        category: 'offers',
+        content: 'Buy 2 get 1 free + free shipping. Ends Sunday.',
+        created_at: daysAgo(2),
+      },
+    ],
+    prod_capsules: [
+      {
+        id: 'ds_survey',
+        name: 'Post-purchase survey',
+        type: 'sheet',
+        category: 'survey',
+        content: 'Q: What made you buy?\nA: Bloating every afternoon\nA: Tried everything else',
+        created_at: daysAgo(20),
+      },
+    ],
+  }
+}
+
+// ============ Concepts & Work ============
+
+const PRIMARY_TEXTS = [
+  "I used to plan my whole day around how I'd feel by 3pm.\n\nBloated, uncomfortable, skipping plans.\n\nThen my friend handed me a bottle of these and said \"just try it for 3 weeks.\"\n\nWeek 1: nothing.\nWeek 2: huh.\nWeek 3: I forgot I used to have a problem.\n\nTap to see why 40,000+ women switched.",
+  "My gynecologist asked what I changed.\n\nI told her: two gummies a day.\n\nThat's it. No creams, no awkward pharmacy trips.\n\nThe probiotic strains in these are the same ones in clinical studies — just in a form I actually remember to take.",
+  "Stop treating the symptom. Start supporting the source.\n\nMost products mask odor for a few hours. These gummies support your microbiome so you're not chasing it every day.",
+  "\"Is it weird that I'm excited about a probiotic?\"\n\n— me, three weeks ago, and every morning since.",
+]
+
+const HEADLINES = [
+  'Finally Feel Fresh All Day',
+  'The 2-Gummy Morning Routine',
+  'Your Doctor Will Ask What Changed',
+  'Buy 2, Get 1 Free This Week',
+]
+
+function buildConcept(index: number, overrides: Partial<AdConcept>): AdConcept {
+  const batch = `B${String(120 + Math.floor(index / 3)).padStart(4, '0')}`
+  const score = 70 + ((index * 7) % 28)
+  const passed = score >= 80
+  return {
+    id: `concept_${index + 1}`,
+    batch_number: batch,
+    product_id: index < 6 ? 'prod_gummies' : 'prod_capsules',
+    status: 'ready',
+    patterns_used: [
+      {
+        id: `pattern_${index}_a`,
+        source: index % 2 === 0 ? 'reviews' : 'survey',
+        pattern: index % 2 === 0 ? 'Embarrassment during workouts' : 'Afternoon bloating ruins plans',
+        mentions: 40 + index * 3,
+        emotional_valence: index % 3 === 0 ? 'negative' : 'positive',
+        example_quotes: ['"I avoided the gym for months"', '"I thought this was just normal"'],
+      },
+    ],
+    hypothesis: {
+      id: `hyp_${index}`,
+      pattern_id: `pattern_${index}_a`,
+      hypothesis: 'Framing the product as a quiet routine change will resonate with women tired of quick fixes.',
+      reasoning: 'Reviews repeatedly mention trying "everything" before finding something that lasts.',
+      confidence: 55 + (index % 4) * 10,
+      format_id: ['testimonial', 'doctor_asked', 'us_vs_them', 'listicle'][index % 4],
+      format_reasoning: 'First-person story formats have the highest CTR in the last 30 days.',
+      awareness_stage: ['problem_aware', 'solution_aware', 'product_aware'][index % 3],
+      angle: ['routine', 'authority', 'contrast'][index % 3],
+      image_preset_id: ['native_ugc', 'studio_clean', 'notes_app'][(index + 1) % 3],
+    },
+    original_primary_text: PRIMARY_TEXTS[index % PRIMARY_TEXTS.length].replace('Tap to see', 'Click to see'),
+    primary_texts: [PRIMARY_TEXTS[index % PRIMARY_TEXTS.length], PRIMARY_TEXTS[(index + 1) % PRIMARY_TEXTS.length]],
+    revision_changelog: [
+      { original: 'Click to see', revised: 'Tap to see', reason: 'Most traffic is mobile' },
+    ],
+    headlines: [HEADLINES[index % HEADLINES.length], HEADLINES[(index + 2) % HEADLINES.length]],
+    images: [
+      placeholderImage(`${batch} · A`, COLORS[index % COLORS.length]),
+      placeholderImage(`${batch} · B`, COLORS[(index + 3) % COLORS.length]),
+    ],
+    image_prompts: ['Candid phone photo of a woman laughing at brunch, natural light, product bottle on the table'],
+    principle_check: {
+      passed,
+      score,
+      issues: passed
+        ? []
+        : [{ rule: 'Specificity', problem: 'Claim "works fast" is vague', fix: 'Name the timeframe customers report (2–3 weeks)' }],
+      strengths: ['Opens with a relatable moment', 'No hype words'],
+      ai_slop_detected: passed ? [] : ['"game-changer"'],
+      overall: passed ? 'Strong, natural voice.' : 'Good story, one vague claim to tighten.',
+    },
+    created_at: daysAgo(Math.floor(index / 2), index),
+    format_id: ['testimonial', 'doctor_asked', 'us_vs_them', 'listicle'][index % 4],
+    ...overrides,
+  }
+}
+
+// As injected at generation time; confidences lag the learnings' current ones
+const APPLIED_LEARNINGS: Record<string, AppliedLearning> = {
+  timeframe: {
+    id: 'learning_1',
+    insight: 'First-person stories that name a specific timeframe ("week 3") outperform generic before/after claims.',
+    type: 'do',
+    category: 'copy',
+    confidence: 0.74,
+  },
+  clinical: {
+    id: 'learning_2',
+    insight: 'Avoid opening with clinical terminology; hooks that start with "microbiome" had half the CTR.',
+    type: 'avoid',
+    category: 'hook',
+    confidence: 0.72,
+  },
+  candid: {
+    id: 'learning_3',
+    insight: 'Candid phone-shot visuals beat polished studio images for cold traffic.',
+    type: 'do',
+    category: 'visual',
+    confidence: 0.66,
+  },
+}
+
+export function seedConcepts(): AdConcept[] {
+  const { timeframe, clinical, candid } = APPLIED_LEARNINGS
+  return [
+    buildConcept(0, { status: 'ready', applied_learnings: [timeframe, clinical, candid] }),
+    buildConcept(1, { status: 'ready', applied_learnings: [timeframe, clinical, candid] }),
+    buildConcept(2, { status: 'ready', rating: 4, applied_learnings: [timeframe, candid] }),
+    buildConcept(3, { status: 'approved', rating: 5, user_notes: 'Love the opener. Push to the Spring campaign.', fb_ad_ids: ['ad_1'], applied_learnings: [timeframe, candid] }),
+    buildConcept(4, { status: 'approved', rating: 4, fb_ad_ids: ['ad_3'], applied_learnings: [clinical] }),
+    buildConcept(5, { status: 'rejected', rating: 2, user_notes: 'Too clinical.', applied_learnings: [candid] }),
+    buildConcept(6, { status: 'ready' }),
+    buildConcept(7, { status: 'reviewing' }),
+    buildConcept(8, { status: 'approved', fb_ad_ids: ['ad_2', 'ad_4'] }),
+  ]
+}
+
+export function seedFilterPresets(): ConceptFilterPreset[] {
+  const base: ConceptFilters = {
+    query: '',
+    status: '',
+    product_id: '',
+    format_id: '',
+    check: '',
+    min_score: null,
+    max_score: null,
+    min_rating: 0,
+    date_from: '',
+    date_to: '',
+    pushed: '',
+  }
+  return [
+    {
+      id: 'preset_ready_passing',
+      name: 'Ready & passing',
+      filters: { ...base, status: 'ready', check: 'passed' },
+      owner_id: 'user_teammate',
+      owner_name: 'Sam',
+      shared: true,
+      created_at: daysAgo(10),
+    },
+    {
+      id: 'preset_unpushed_winners',
+      name: 'Approved, not pushed',
+      filters: { ...base, status: 'approved', pushed: 'not_pushed', min_rating: 4 },
+      owner_id: MOCK_USER.id,
+      owner_name: MOCK_USER.name,
+      shared: false,
+      created_at: daysAgo(3),
+    },
+  ]
+}
+
+export function seedWorkLog(): WorkLogEntry[] {
+  const entries: Array<[WorkLogEntry['type'], string, string?]> = [
+    ['info', 'Started working on Daily Balance Gummies'],
+    ['research', 'Analyzing 3 data sources', 'hooks, reviews, offers'],
+    ['pattern', 'Found pattern: "Embarrassment during workouts" (47 mentions)'],
+    ['hypothesis', 'Hypothesis: quiet routine change beats quick-fix framing'],
+    ['generation', 'Writing primary texts for B0122'],
+    ['review', 'Principle check passed (score 86)'],
+    ['ready', 'Concept B0122 ready for review'],
+  ]
+  return entries.map(([type, message, details], i) => ({
+    id: `log_${i}`,
+    timestamp: daysAgo(0, entries.length - i),
+    type,
+    message,
+    details,
+  }))
+}
+
+// ============ Facebook ============
+
+export function seedCampaigns(): FBCampaign[] {
+  return [
+    { id: 'camp_1', name: 'TOF | Broad | Gummies', status: 'ACTIVE', objective: 'OUTCOME_SALES', created_time: daysAgo(60) },
+    { id: 'camp_2', name: 'TOF | Testing | ABO', status: 'ACTIVE', objective: 'OUTCOME_SALES', created_time: daysAgo(30) },
+    { id: 'camp_3', name: 'BOF | Retargeting', status: 'PAUSED', objective: 'OUTCOME_SALES', created_time: daysAgo(90) },
+  ]
+}
+
+export function seedAdSets(): Record<string, FBAdSet[]> {
+  return {
+    camp_1: [
+      { id: 'adset_1', name: 'Broad | 25-54 F | US', status: 'ACTIVE', daily_budget: '50000', optimization_goal: 'OFFSITE_CONVERSIONS' },
+    ],
+    camp_2: [
+      { id: 'adset_2', name: 'B0120 | Testimonial', status: 'ACTIVE', daily_budget: '5000', optimization_goal: 'OFFSITE_CONVERSIONS' },
+      { id: 'adset_3', name: 'B0121 | Doctor Asked', status: 'ACTIVE', daily_budget: '5000', optimization_goal: 'OFFSITE_CONVERSIONS' },
+    ],
+    camp_3: [],
+  }
+}
+
+// Spend/result profiles, scaled per date preset
+// fatigue: how fast CTR and conversions decay per day since launch
+const AD_PROFILES: Array<{ name: string; ai: boolean; spend: number; purchases: number; ctr: number; fatigue?: number }> = [
+  { name: 'B0120--Gummies--Testimonial--v1', ai: true, spend: 1840, purchases: 61, ctr: 1.9 },
+  { name: 'B0121--Gummies--DoctorAsked--v1', ai: true, spend: 960, purchases: 22, ctr: 1.4, fatigue: 0.12 },
+  { name: 'B0122--Gummies--UsVsThem--v2', ai: true, spend: 420, purchases: 6, ctr: 0.9 },
+  { name: 'B0123--Gummies--Listicle--v1', ai: true, spend: 75, purchases: 2, ctr: 1.2 },
+  { name: 'UGC--Sarah--Unboxing', ai: false, spend: 2310, purchases: 58, ctr: 1.6, fatigue: 0.03 },
+  { name: 'Static--Offer--B2G1', ai: false, spend: 640, purchases: 11, ctr: 0.8 },
+  { name: 'UGC--Maya--GymStory', ai: false, spend: 180, purchases: 0, ctr: 0.6 },
+]
+
+const PRESET_SCALE: Record<DatePreset, number> = {
+  yesterday: 1 / 30,
+  last_7d: 7 / 30,
+  last_30d: 1,
+  this_month: 0.6,
+}
+
+const AOV = 54
+
+// Custom ranges scale by length, with a per-range wobble so comparisons
+// against the previous period show movement
+function periodScale(period: InsightsPeriod, adIndex = 0): number {
+  if (typeof period === 'string') return PRESET_SCALE[period]
+  const days = Math.round((Date.parse(period.until) - Date.parse(period.since)) / DAY) + 1
+  const seed = Date.parse(period.since) / DAY + adIndex * 7
+  return (days / 30) * (1 + 0.2 * Math.sin(seed))
+}
+
+function buildInsights(spend: number, purchases: number, ctr: number, frequency = 1 / 0.72): AdInsights {
+  const impressions = Math.round(spend * 45)
+  const linkClicks = Math.round((impressions * ctr) / 100)
+  const lpv = Math.round(linkClicks * 0.78)
+  const atc = Math.max(purchases, Math.round(lpv * 0.09))
+  const ic = Math.max(purchases, Math.round(atc * 0.6))
+  return {
+    spend: spend.toFixed(2),
+    impressions,
+    reach: Math.round(impressions / frequency),
+    frequency: frequency.toFixed(2),
+    link_clicks: linkClicks,
+    link_ctr: ctr.toFixed(2),
+    link_cpc: linkClicks ? (spend / linkClicks).toFixed(2) : 0,
+    landing_page_views: lpv,
+    add_to_cart: atc,
+    initiate_checkout: ic,
+    purchases,
+    cost_per_landing_page_view: lpv ? spend / lpv : null,
+    cost_per_add_to_cart: atc ? spend / atc : null,
+    cost_per_initiate_checkout: ic ? spend / ic : null,
+    cost_per_purchase: purchases ? spend / purchases : null,
+    roas: spend ? (purchases * AOV) / spend : null,
+    traffic_quality: linkClicks ? lpv / linkClicks : null,
+    atc_purchase_ratio: atc ? (purchases / atc) * 100 : null,
+  }
+}
+
+export function buildAds(period: InsightsPeriod): FBAd[] {
+  return AD_PROFILES.map((profile, i) => ({
+    id: `ad_${i + 1}`,
+    name: profile.name,
+    is_ai_generated: profile.ai,
+    thumbnail_url: placeholderImage(profile.name.split('--')[0], COLORS[i % COLORS.length], 120),
+    primary_text: PRIMARY_TEXTS[i % PRIMARY_TEXTS.length],
+    created_time: adCreatedTime(i),
+    insights: buildInsights(
+      profile.spend * periodScale(period),
+      Math.round(profile.purchases * periodScale(period, i)),
+      profile.ctr
+    ),
+  }))
+}
+
+export function buildAccountInsights(period: InsightsPeriod): AdInsights {
+  const scale = periodScale(period)
+  const spend = AD_PROFILES.reduce((sum, p) => sum + p.spend, 0) * scale
+  const purchases = Math.round(AD_PROFILES.reduce((sum, p) => sum + p.purchases, 0) * scale)
+  return buildInsights(spend, purchases, 1.35)
+}
+
+// [value, share of spend, conversion multiplier, CTR multiplier]
+const BREAKDOWN_SEGMENTS: Record<BreakdownDimension, Array<[string, number, number, number]>> = {
+  age: [
+    ['18-24', 0.08, 0.4, 1.2],
+    ['25-34', 0.22, 0.8, 1.1],
+    ['35-44', 0.27, 1.1, 1],
+    ['45-54', 0.24, 1.25, 0.95],
+    ['55-64', 0.14, 1.1, 0.9],
+    ['65+', 0.05, 0.7, 0.8],
+  ],
+  gender: [
+    ['female', 0.71, 1.15, 1.05],
+    ['male', 0.27, 0.65, 0.9],
+    ['unknown', 0.02, 0.5, 0.8],
+  ],
+  publisher_platform: [
+    ['facebook', 0.58, 1.1, 0.95],
+    ['instagram', 0.38, 0.9, 1.1],
+    ['audience_network', 0.03, 0.2, 1.6],
+    ['messenger', 0.01, 0.5, 0.7],
+  ],
+  placement: [
+    ['facebook_feed', 0.41, 1.2, 1],
+    ['facebook_reels', 0.12, 0.8, 0.9],
+    ['instagram_feed', 0.18, 1, 1.05],
+    ['instagram_stories', 0.12, 0.85, 1.2],
+    ['instagram_reels', 0.13, 0.75, 1.1],
+    ['audience_network_classic', 0.04, 0.2, 1.6],
+  ],
+  device_platform: [
+    ['mobile_app', 0.86, 1, 1],
+    ['mobile_web', 0.06, 0.8, 0.9],
+    ['desktop', 0.08, 1.3, 1.1],
+  ],
+  region: [
+    ['California', 0.18, 1.05, 1],
+    ['Texas', 0.12, 1, 1],
+    ['Florida', 0.1, 1.15, 0.95],
+    ['New York', 0.08, 0.9, 1.05],
+    ['Illinois', 0.05, 1, 1],
+    ['Other', 0.47, 0.97, 0.99],
+  ],
+}
+
+export function buildBreakdown(period: InsightsPeriod, dimension: BreakdownDimension, adId?: string | null): BreakdownRow[] {
+  const adIndex = adId ? AD_PROFILES.findIndex((_, i) => `ad_${i + 1}` === adId) : -1
+  if (adId && adIndex < 0) return []
+  const profile = adIndex >= 0
+    ? AD_PROFILES[adIndex]
+    : {
+        spend: AD_PROFILES.reduce((sum, p) => sum + p.spend, 0),
+        purchases: AD_PROFILES.reduce((sum, p) => sum + p.purchases, 0),
+        ctr: 1.35,
+      }
+  const scale = periodScale(period, Math.max(adIndex, 0))
+  return (BREAKDOWN_SEGMENTS[dimension] || []).map(([value, share, conversion, ctr]) => ({
+    value,
+    ...buildInsights(
+      profile.spend * scale * share,
+      Math.round(profile.purchases * scale * share * conversion),
+      profile.ctr * ctr
+    ),
+  }))
+}
+
+export function seedSnapshotStatus(): SnapshotStatus {
+  const tomorrow = new Date(Date.now() + DAY)
+  tomorrow.setHours(6, 0, 0, 0)
+  return {
+    last_synced_at: daysAgo(0, 3),
+    next_sync_at: tomorrow.toISOString(),
+    oldest_date: daysAgo(90).slice(0, 10),
+    latest_date: daysAgo(1).slice(0, 10),
+    is_syncing: false,
+  }
+}
+
+// Staggered launches so recent ones start partway through the chart
+function adCreatedTime(adIndex: number): string {
+  return daysAgo(4 + adIndex * 5, 10)
+}
+
+// Profile totals are per 30 days; each day wobbles around the average
+function buildDays(
+  period: InsightsPeriod,
+  profile: { spend: number; purchases: number; ctr: number; fatigue?: number },
+  seed: number,
+  launched?: string
+): DailyInsights[] {
+  const launchDate = launched?.slice(0, 10)
+  return eachDay(resolvePeriod(period))
+    .filter(date => !launchDate || date >= launchDate)
+    .map(date => {
+      const day = Date.parse(date) / DAY + seed
+      // Fatiguing ads lose CTR and sales as the same people keep seeing them
+      const age = launchDate ? (Date.parse(date) - Date.parse(launchDate)) / DAY : 0
+      const decay = 1 / (1 + (profile.fatigue || 0) * age)
+      const spend = (profile.spend / 30) * (1 + 0.25 * Math.sin(day / 3))
+      const purchases = Math.max(0, Math.round((profile.purchases / 30) * decay * decay * (1 + 0.4 * Math.sin(day / 2 + 1))))
+      const ctr = profile.ctr * decay * (1 + 0.1 * Math.sin(day))
+      const frequency = 1.3 + (profile.fatigue || 0.01) * age * 2
+      return { date, ...buildInsights(spend, purchases, ctr, frequency) }
+    })
+}
+
+export function buildAccountDays(period: InsightsPeriod): DailyInsights[] {
+  const spend = AD_PROFILES.reduce((sum, p) => sum + p.spend, 0)
+  const purchases = AD_PROFILES.reduce((sum, p) => sum + p.purchases, 0)
+  return buildDays(period, { spend, purchases, ctr: 1.35 }, 0)
+}
+
+export function buildAdDays(period: InsightsPeriod, adIds: string[]): FBAdDailyInsights[] {
+  return AD_PROFILES.map((profile, i) => ({ profile, i, id: `ad_${i + 1}` }))
+    .filter(({ id }) => adIds.includes(id))
+    .map(({ profile, i, id }) => ({
+      id,
+      name: profile.name,
+      created_time: adCreatedTime(i),
+      days: buildDays(period, profile, i * 7, adCreatedTime(i)),
+    }))
+}
+
+// ============ Alerts ============
+
+export function seedAlertRules(): AlertRule[] {
+  const base = { consecutive_days: 1, email: null, webhook_url: null, is_active: true }
+  return [
+    {
+      ...base,
+      id: 'rule_cpa',
+      name: 'CPA above target',
+      kind: 'cpa_above_target',
+      scope: 'ad',
+      consecutive_days: 2,
+      channels: ['in_app', 'email'],
+      email: 'team@example.com',
+      created_at: daysAgo(20),
+    },
+    {
+      ...base,
+      id: 'rule_roas',
+      name: 'Account ROAS below target',
+      kind: 'roas_below_target',
+      scope: 'account',
+      consecutive_days: 3,
+      channels: ['in_app'],
+      created_at: daysAgo(20),
+    },
+    {
+      ...base,
+      id: 'rule_spike',
+      name: 'Spend spike',
+      kind: 'spend_spike',
+      scope: 'account',
+      spike_percent: 50,
+      channels: ['in_app', 'webhook'],
+      webhook_url: 'https://hooks.example.com/ads-alerts',
+      created_at: daysAgo(12),
+    },
+    {
+      ...base,
+      id: 'rule_rejected',
+      name: 'Ad rejected',
+      kind: 'ad_rejected',
+      scope: 'ad',
+      channels: ['in_app', 'email'],
+      email: 'team@example.com',
+      created_at: daysAgo(12),
+    },
+  ]
+}
+
+export function seedAlerts(): Alert[] {
+  return [
+    {
+      id: 'alert_1',
+      rule_id: 'rule_cpa',
+      rule_name: 'CPA above target',
+      kind: 'cpa_above_target',
+      severity: 'warning',
+      message: 'CPA $48.20 is above the $30.00 target for 2 days',
+      ad_id: 'ad_2',
+      ad_name: AD_PROFILES[1].name,
+      value: 48.2,
+      threshold: 30,
+      triggered_at: daysAgo(0, 4),
+      read_at: null,
+      delivered_to: ['email'],
+    },
+    {
+      id: 'alert_2',
+      rule_id: 'rule_rejected',
+      rule_name: 'Ad rejected',
+      kind: 'ad_rejected',
+      severity: 'critical',
+      message: 'Facebook rejected the ad: "Personal health" policy',
+      ad_id: 'ad_4',
+      ad_name: AD_PROFILES[3].name,
+      triggered_at: daysAgo(1, 2),
+      read_at: null,
+      delivered_to: ['email'],
+    },
+    {
+      id: 'alert_3',
+      rule_id: 'rule_spike',
+      rule_name: 'Spend spike',
+      kind: 'spend_spike',
+      severity: 'warning',
+      message: 'Spend $412.00 is 64% above the 7-day average of $251.00',
+      value: 412,
+      threshold: 251,
+      triggered_at: daysAgo(3, 5),
+      read_at: daysAgo(3, 1),
+      delivered_to: ['webhook'],
+    },
+    {
+      id: 'alert_4',
+      rule_id: 'rule_cpa',
+      rule_name: 'CPA above target',
+      kind: 'cpa_above_target',
+      severity: 'warning',
+      message: 'CPA $62.10 is above the $30.00 target for 2 days',
+      ad_id: 'ad_7',
+      ad_name: AD_PROFILES[6].name,
+      value: 62.1,
+      threshold: 30,
+      triggered_at: daysAgo(6, 3),
+      read_at: daysAgo(6),
+      snoozed_until: daysAgo(-1),
+      delivered_to: ['email'],
+    },
+  ]
+}
+
+// ============ Swipes ============
+
+export function seedSwipes(): Swipe[] {
+  return [
+    {
+      id: 'swipe_1',
+      name: 'Competitor testimonial - bloating',
+      swipe_type: 'ad_video',
+      reference_code: 'SW-001',
+      transcript: "I used to think feeling like this every afternoon was just... normal. Then I tried this.",
+      visual_description: 'Selfie video in a car, natural light, product shown at 0:08.',
+      source_url: 'https://www.facebook.com/ads/library/?id=000000',
+      source_platform: 'facebook',
+      thumbnail_url: placeholderImage('SW-001', '#0EA5E9', 300),
+      tags: ['testimonial', 'ugc'],
+      category: 'health',
+      funnel_position: 'TOF',
+      times_referenced: 7,
+      created_at: daysAgo(21),
+      metadata: { status: 'ready' },
+    },
+    {
+      id: 'swipe_2',
+      name: 'Us vs Them static',
+      swipe_type: 'ad_image',
+      reference_code: 'SW-002',
+      transcript: 'Them: masks odor for hours. Us: supports your microbiome all day.',
+      visual_description: 'Split layout, muted left side vs bright right side with product.',
+      thumbnail_url: placeholderImage('SW-002', '#F59E0B', 300),
+      tags: ['comparison'],
+      funnel_position: 'BOF',
+      times_referenced: 3,
+      created_at: daysAgo(12),
+      metadata: { status: 'ready' },
+    },
+    {
+      id: 'swipe_3',
+      name: 'Long-form story hook',
+      swipe_type: 'ad_text',
+      reference_code: 'SW-003',
+      transcript: 'My doctor asked me what I changed. I told her the truth — and she wrote it down.',
+      tags: ['authority', 'story'],
+      funnel_position: 'TOF',
+      times_referenced: 11,
+      created_at: daysAgo(5),
+      metadata: { status: 'ready' },
+    },
+    {
+      id: 'swipe_4',
+      name: 'Advertorial landing page',
+      swipe_type: 'landing_page',
+      reference_code: 'SW-004',
+      source_url: 'https://example.com/advertorial',
+      visual_description: 'Editorial-style page with doctor quote above the fold.',
+      funnel_position: 'all',
+      times_referenced: 1,
+      created_at: daysAgo(2),
+      metadata: { status: 'ready' },
+    },
+  ]
+}
+
+export function seedSwipeJobs(): SwipeJob[] {
+  return []
+}
+
+// ============ Settings ============
+
+export function seedGoals(): PerformanceGoals {
+  return {
+    id: 'goals_default',
+    product_id: null,
+    target_cpa: 35,
+    target_roas: 1.8,
+    super_winner_min_spend: 1000,
+    winner_min_spend: 300,
+    promising_max_spend: 300,
+    promising_min_sales: 2,
+    loser_min_spend: 100,
+  }
+}
+
+export function seedProductGoals(): PerformanceGoals[] {
+  return [
+    { ...seedGoals(), id: 'goals_gummies', product_id: 'prod_gummies', target_cpa: 30, target_roas: 2 },
+  ]
+}
+
+export function seedReportTemplates(): ReportTemplate[] {
+  return [
+    {
+      id: 'report_default',
+      product_id: null,
+      title: 'Weekly Performance Report',
+      brand_name: 'Nuora',
+      brand_color: '#000000',
+      logo_url: null,
+      intro: '',
+      sections: ['overview', 'ai_vs_manual', 'top_ads', 'bottom_ads', 'learnings'],
+      overview_metrics: [],
+      ads_count: 3,
+      updated_at: daysAgo(14),
+    },
+  ]
+}
+
+export function seedFormats(): AdFormat[] {
+  const base = {
+    structure: '',
+    voice_notes: null,
+    pacing: null,
+    do_list: [],
+    dont_list: [],
+    reference_image_urls: [],
+    is_active: true,
+  }
+  return [
+    {
+      ...base,
+      id: 'fmt_1',
+      format_id: 'testimonial',
+      name: 'Testimonial',
+      description: 'First-person customer story',
+      prompt: 'Write as a real customer describing life before and after.',
+      text_examples: PRIMARY_TEXTS[0],
+      linked_swipe_ids: ['swipe_1'],
+    },
+    {
+      ...base,
+      id: 'fmt_2',
+      format_id: 'doctor_asked',
+      name: 'Doctor Asked',
+      description: 'Authority figure notices the change',
+      prompt: 'Open with a doctor or expert noticing the result.',
+      text_examples: PRIMARY_TEXTS[1],
+      linked_swipe_ids: ['swipe_3'],
+    },
+    {
+      ...base,
+      id: 'fmt_3',
+      format_id: 'us_vs_them',
+      name: 'Us vs Them',
+      description: 'Contrast with the usual alternatives',
+      prompt: 'Contrast the product with the quick fixes readers already tried.',
+      text_examples: PRIMARY_TEXTS[2],
+      linked_swipe_ids: ['swipe_2'],
+    },
+    {
+      ...base,
+      id: 'fmt_4',
+      format_id: 'listicle',
+      name: 'Listicle',
+      description: 'Numbered reasons',
+      prompt: 'Three to five short numbered reasons.',
+      text_examples: null,
+      linked_swipe_ids: [],
+      is_active: false,
+    },
+  ]
+}
+
+export function seedPrompts(): PromptCustomization[] {
+  return [
+    {
+      key: 'copywriter_system',
+      name: 'Copywriter system prompt',
+      description: 'Voice and rules for primary text generation',
+      category: 'copy',
+      value: 'You write direct-response Facebook ads in a natural, conversational voice...',
+      is_default: true,
+    },
+    {
+      key: 'ad_analysis',
+      name: 'Ad analysis prompt',
+      description: 'Used when extracting learnings from ad performance',
+      category: 'analysis',
+      value: 'Compare winners and losers and extract specific, testable learnings...',
+      is_default: false,
+    },
+    {
+      key: 'visual_brief',
+      name: 'Visual brief prompt',
+      description: 'Turns a concept into an image prompt',
+      category: 'visual',
+      value: 'Describe a candid, phone-shot scene that matches the ad copy...',
+      is_default: true,
+    },
+  ]
+}
+
+export function seedStylePresets(): StylePreset[] {
+  return [
+    { id: 'native_ugc', name: 'Native UGC', description: 'Looks like a phone photo', template: 'Candid iPhone photo, {subject}, natural light', is_custom: false, is_default: true },
+    { id: 'studio_clean', name: 'Studio Clean', description: 'Product on seamless background', template: 'Studio product shot of {subject}, soft shadows', is_custom: false, is_default: true },
+    { id: 'notes_app', name: 'Notes App', description: 'Screenshot of a notes app', template: 'iOS Notes screenshot with the text: {subject}', is_custom: true, is_default: false },
+  ]
+}
+
+export function seedAutonomousSettings(): Record<string, AutonomousSetting> {
+  return {
+    enabled: { name: 'Enabled', description: 'Generate concepts automatically every day', type: 'boolean', default: false, value: true, category: 'quota' },
+    daily_target: { name: 'Daily target', description: 'Concepts to generate per day', type: 'number', default: 10, value: 12, category: 'quota', min: 1, max: 50, step: 1 },
+    auto_approval_enabled: { name: 'Auto-approve', description: 'Approve concepts scoring above the threshold', type: 'boolean', default: false, value: false, category: 'quality' },
+    auto_approval_threshold: { name: 'Auto-approve threshold', description: 'Minimum principle score', type: 'number', default: 90, value: 90, category: 'quality', min: 50, max: 100, step: 1 },
+    diversity_enabled: { name: 'Format diversity', description: 'Rotate formats across a batch', type: 'boolean', default: true, value: true, category: 'diversity' },
+    learnings_enabled: { name: 'Use learnings', description: 'Inject active learnings into prompts', type: 'boolean', default: true, value: true, category: 'learnings' },
+  }
+}
+
+export function seedBOFTemplates(): BOFTemplate[] {
+  return [
+    {
+      id: 'bof_1',
+      name: 'Offer banner',
+      description: 'Bold offer headline over product shot',
+      template_url: placeholderImage('B2G1', '#EF4444', 400),
+      style_analysis: {
+        layout_type: 'Centered product with top banner',
+        color_scheme: 'Red and white',
+        typography_style: 'Heavy sans-serif',
+        product_placement: 'Center',
+        overall_vibe: 'Urgent, promotional',
+      },
+      product_id: null,
+      is_active: true,
+      created_at: daysAgo(14),
+    },
+  ]
+}
+
+// ============ Learnings ============
+
+export function seedLearnings(): Learning[] {
+  return [
+    {
+      id: 'learning_1',
+      insight: 'First-person stories that name a specific timeframe ("week 3") outperform generic before/after claims.',
+      category: 'copy',
+      type: 'do',
+      confidence: 0.86,
+      applies_to: 'all',
+      product_id: null,
+      evidence: {
+        ad_names: ['B0120--Gummies--Testimonial--v1', 'UGC--Sarah--Unboxing'],
+        ad_metrics: [
+          { ad_name: 'B0120--Gummies--Testimonial--v1', spend: 1840, cpa: 30.16, roas: 1.79 },
+          { ad_name: 'UGC--Sarah--Unboxing', spend: 2310, cpa: 39.83, roas: 1.36 },
+        ],
+        metrics_comparison: 'Winners averaged $33 CPA vs $70 for generic claims.',
+      },
+      is_active: true,
+      status: 'validated',
+      last_evidence_at: daysAgo(2),
+      last_evaluated_at: daysAgo(2),
+      created_at: daysAgo(6),
+      source_type: 'analysis',
+    },
+    {
+      id: 'learning_2',
+      insight: 'Avoid opening with clinical terminology; hooks that start with "microbiome" had half the CTR.',
+      category: 'hook',
+      type: 'avoid',
+      confidence: 0.72,
+      applies_to: 'all',
+      product_id: null,
+      evidence: {
+        ad_names: ['B0122--Gummies--UsVsThem--v2'],
+        ad_metrics: [{ ad_name: 'B0122--Gummies--UsVsThem--v2', spend: 420, cpa: 70, roas: 0.77 }],
+      },
+      is_active: true,
+      status: 'hypothesis',
+      last_evidence_at: daysAgo(6),
+      last_evaluated_at: daysAgo(2),
+      created_at: daysAgo(6),
+      source_type: 'analysis',
+    },
+    {
+      id: 'learning_3',
+      insight: 'Candid phone-shot visuals beat polished studio images for cold traffic.',
+      category: 'visual',
+      type: 'do',
+      confidence: 0.64,
+      applies_to: 'image',
+      product_id: null,
+      evidence: null,
+      is_active: true,
+      status: 'hypothesis',
+      last_evidence_at: null,
+      last_evaluated_at: daysAgo(2),
+      created_at: daysAgo(20),
+      source_type: 'manual',
+    },
+    {
+      id: 'learning_4',
+      insight: 'Testimonials that mention a specific timeframe like "week 3" beat generic before/after claims.',
+      category: 'copy',
+      type: 'do',
+      confidence: 0.7,
+      applies_to: 'all',
+      product_id: null,
+      evidence: {
+        ad_names: ['B0120--Gummies--Testimonial--v1'],
+        ad_metrics: [{ ad_name: 'B0120--Gummies--Testimonial--v1', spend: 1840, cpa: 30.16, roas: 1.79 }],
+        specific_examples: ['By week 3 I stopped needing my afternoon coffee.'],
+      },
+      is_active: true,
+      status: 'hypothesis',
+      last_evidence_at: daysAgo(3),
+      last_evaluated_at: daysAgo(2),
+      created_at: daysAgo(3),
+      source_type: 'analysis',
+    },
+    {
+      id: 'learning_5',
+      insight: 'Open hooks with the microbiome science angle; clinical terminology builds trust with skeptics.',
+      category: 'hook',
+      type: 'do',
+      confidence: 0.55,
+      applies_to: 'all',
+      product_id: null,
+      evidence: {
+        ad_names: ['B0121--Gummies--DoctorAsked--v1'],
+        ad_metrics: [{ ad_name: 'B0121--Gummies--DoctorAsked--v1', spend: 960, cpa: 43.64, roas: 1.24 }],
+      },
+      is_active: true,
+      status: 'hypothesis',
+      last_evidence_at: daysAgo(3),
+      last_evaluated_at: daysAgo(2),
+      created_at: daysAgo(3),
+      source_type: 'analysis',
+    },
+  ]
+}
+
+export function seedLearningEvents(): LearningEvent[] {
+  return [
+    {
+      id: 'levent_1',
+      learning_id: 'learning_1',
+      kind: 'created',
+      confidence: 0.74,
+      status: 'hypothesis',
+      note: 'Created by ad analysis',
+      ad_names: ['B0120--Gummies--Testimonial--v1', 'UGC--Sarah--Unboxing'],
+      created_at: daysAgo(6),
+    },
+    {
+      id: 'levent_2',
+      learning_id: 'learning_1',
+      kind: 'supported',
+      confidence: 0.86,
+      status: 'validated',
+      note: '1 new ad beat the ROAS target',
+      ad_names: ['B0120--Gummies--Testimonial--v1'],
+      created_at: daysAgo(2),
+    },
+    {
+      id: 'levent_3',
+      learning_id: 'learning_2',
+      kind: 'created',
+      confidence: 0.72,
+      status: 'hypothesis',
+      note: 'Created by ad analysis',
+      ad_names: ['B0122--Gummies--UsVsThem--v2'],
+      created_at: daysAgo(6),
+    },
+    {
+      id: 'levent_4',
+      learning_id: 'learning_3',
+      kind: 'created',
+      confidence: 0.7,
+      status: 'hypothesis',
+      note: 'Added manually',
+      created_at: daysAgo(20),
+    },
+    {
+      id: 'levent_5',
+      learning_id: 'learning_3',
+      kind: 'decayed',
+      confidence: 0.64,
+      status: 'hypothesis',
+      note: 'No new evidence in 18 days',
+      created_at: daysAgo(2),
+    },
+    {
+      id: 'levent_6',
+      learning_id: 'learning_4',
+      kind: 'created',
+      confidence: 0.7,
+      status: 'hypothesis',
+      note: 'Created by ad analysis',
+      ad_names: ['B0120--Gummies--Testimonial--v1'],
+      created_at: daysAgo(3),
+    },
+    {
+      id: 'levent_7',
+      learning_id: 'learning_5',
+      kind: 'created',
+      confidence: 0.55,
+      status: 'hypothesis',
+      note: 'Created by ad analysis',
+      ad_names: ['B0121--Gummies--DoctorAsked--v1'],
+      created_at: daysAgo(3),
+    },
+  ]
+}
+
+function runAd(adId: string, adName: string, spend: number, purchases: number, ctr: number, targetRoas: number): AnalysisRunAd {
+  const roas = spend ? (purchases * AOV) / spend : null
+  return {
+    ad_id: adId,
+    ad_name: adName,
+    spend,
+    purchases,
+    cpa: purchases ? spend / purchases : null,
+    roas,
+    ctr,
+    verdict: (roas || 0) >= targetRoas ? 'winner' : 'loser',
+  }
+}
+
+const runLearning = (learning: Learning): AppliedLearning => ({
+  id: learning.id,
+  insight: learning.insight,
+  type: learning.type,
+  category: learning.category,
+  confidence: learning.confidence,
+})
+
+export function seedAnalysisRuns(): AnalysisRun[] {
+  const learnings = seedLearnings()
+  const byId = (id: string) => runLearning(learnings.find(l => l.id === id)!)
+  // The first run predates the current goals
+  const earlyGoals = { ...seedGoals(), target_cpa: 40, target_roas: 1.3 }
+  const goals = seedGoals()
+  return [
+    {
+      id: 'run_2',
+      ads: [
+        runAd('ad_1', 'B0120--Gummies--Testimonial--v1', 1700, 58, 1.9, goals.target_roas),
+        runAd('ad_2', 'B0121--Gummies--DoctorAsked--v1', 960, 22, 1.4, goals.target_roas),
+        runAd('ad_3', 'B0122--Gummies--UsVsThem--v2', 420, 6, 0.9, goals.target_roas),
+      ],
+      goals,
+      model_id: 'claude-sonnet-4-5',
+      ads_analyzed: 3,
+      winners: 1,
+      losers: 2,
+      summary: 'Analyzed 3 ads: 1 winner, 2 losers. The timeframe testimonial held up; the science-led hook did not.',
+      learnings: [byId('learning_4'), byId('learning_5')],
+      rerun_of: null,
+      created_at: daysAgo(3),
+    },
+    {
+      id: 'run_1',
+      ads: [
+        runAd('ad_1', 'B0120--Gummies--Testimonial--v1', 1840, 61, 1.9, earlyGoals.target_roas),
+        runAd('ad_5', 'UGC--Sarah--Unboxing', 2310, 58, 1.6, earlyGoals.target_roas),
+        runAd('ad_3', 'B0122--Gummies--UsVsThem--v2', 420, 6, 0.9, earlyGoals.target_roas),
+        runAd('ad_7', 'UGC--Maya--GymStory', 180, 0, 0.6, earlyGoals.target_roas),
+      ],
+      goals: earlyGoals,
+      model_id: 'claude-sonnet-4-5',
+      ads_analyzed: 4,
+      winners: 2,
+      losers: 2,
+      summary: 'Analyzed 4 ads: 2 winners, 2 losers. Personal, time-specific stories beat clinical openers.',
+      learnings: [byId('learning_1'), byId('learning_2')],
+      rerun_of: null,
+      created_at: daysAgo(6),
+    },
+  ]
+}
+
+// ============ Chat ============
+
+export function seedConversations(): Conversation[] {
+  return [
+    { id: 'conv_1', title: 'Ideas for spring offer', created_at: daysAgo(1), updated_at: daysAgo(1) },
+    { id: 'conv_2', title: 'Why is B0122 underperforming?', created_at: daysAgo(4), updated_at: daysAgo(3) },
+  ]
+}
+
+export function seedMessages(): Record<string, ChatMessage[]> {
+  return {
+    conv_1: [
+      { id: 'msg_1', conversation_id: 'conv_1', role: 'user', content: 'Give me three angles for the buy-2-get-1 offer.', created_at: daysAgo(1) },
+      {
+        id: 'msg_2',
+        conversation_id: 'conv_1',
+        role: 'assistant',
+        content: 'Here are three angles:\n\n1. **Stock up before it sells out** — scarcity around the bundle.\n2. **Share with a friend** — the free bottle as a gift.\n3. **The 90-day routine** — three bottles = one full cycle.',
+        created_at: daysAgo(1),
+      },
+    ],
+    conv_2: [
+      { id: 'msg_3', conversation_id: 'conv_2', role: 'user', content: 'Why is B0122 underperforming?', created_at: daysAgo(4) },
+      {
+        id: 'msg_4',
+        conversation_id: 'conv_2',
+        role: 'assistant',
+        content: 'B0122 has a 0.9% link CTR versus 1.6% for your winners. The hook leads with "microbiome", which your learnings flag as a weak opener.',
+        created_at: daysAgo(3),
+      },
+    ],
+  }
+}
+
+export function seedConfirmations(): Record<string, Confirmation[]> {
+  return {}
+}
+
+// ============ Images ============
+
+export function seedGeneratedImages(): GeneratedImage[] {
+  return [1, 2, 3].map(i => ({
+    id: `img_${i}`,
+    image_url: placeholderImage(`Studio ${i}`, COLORS[i], 512),
+    prompt: 'Woman holding the gummy bottle in a sunny kitchen',
+    style_preset: 'native_ugc',
+    aspect_ratio: '1:1',
+    model_used: 'mock-image-model',
+    generation_time_ms: 4200,
+    created_at: daysAgo(i),
+  }))
+}
@@ -0,0 +1,1428 @@
+// Route table for mock mode. Each handler receives the parsed request and
+// returns a JSON-serialisable value, or a Response for streaming endpoints.
+import type {
+  AdConcept,
+  AdFormat,
+  AlertRuleInput,
+  AnalysisResult,
+  AnalysisRun,
+  AnalysisRunAd,
+  Alert,
+  AlertRule,
+  AutonomousStatus,
+  BreakdownDimension,
+  BulkPushInput,
+  ChatMessage,
+  ChatStreamEvent,
+  ConceptFilterPreset,
+  ConceptFilterPresetInput,
+  Confirmation,
+  CopyField,
+  CopyVersion,
+  DataSource,
+  DataSourceInput,
+  DatePreset,
+  GenerateImagesInput,
+  InsightsPeriod,
+  Learning,
+  LearningEvent,
+  LearningInput,
+  LearningMergeInput,
+  LearningStatus,
+  PortableLearning,
+  Product,
+  ReevaluationResult,
+  ReportTemplateInput,
+  ModelOption,
+  PerformanceGoals,
+  PushConceptInput,
+  SendMessageInput,
+  SettingsData,
+  StylePreset,
+  SwipeJob,
+  SwipeUpdate,
+  UpdateCopyInput,
+  WorkLogEntry,
+} from '../api/types'
+import { db, findOr404, MockHttpError } from './db'
+import {
+  DAY,
+  MOCK_USER,
+  buildAccountDays,
+  buildAccountInsights,
+  buildAdDays,
+  buildBreakdown,
+  buildAds,
+  daysAgo,
+  mockId,
+  placeholderImage,
+} from './fixtures'
+import { broadcast, simulateSwipeJob } from './socket'
+import { resolvePeriod } from '../utils/dateRange'
+
+export interface MockRequest {
+  params: Record<string, string>
+  query: URLSearchParams
+  body: unknown
+}
+
+type Handler = (req: MockRequest) => unknown
+
+interface Route {
+  method: string
+  pattern: RegExp
+  keys: string[]
+  handler: Handler
+}
+
+const routes: Route[] = []
+
+function route(method: string, path: string, handler: Handler) {
+  const keys: string[] = []
+  const pattern = new RegExp(
+    '^' + path.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key)
+      return '([^/]+)'
+    }) + '$'
+  )
+  routes.push({ method, pattern, keys, handler })
+}
+
+export function matchRoute(method: string, path: string): { handler: Handler; params: Record<string, string> } | null {
+  for (const r of routes) {
+    if (r.method !== method) continue
+    const match = r.pattern.exec(path)
+    if (!match) continue
+    const params: Record<string, string> = {}
+    r.keys.forEach((key, i) => {
+      params[key] = decodeURIComponent(match[i + 1])
+    })
+    return { handler: r.handler, params }
+  }
+  return null
+}
+
+const ok = { success: true }
+
+// ============ Auth ============
+
+const MOCK_TOKENS = { access_token: 'mock-access-token', refresh_token: 'mock-refresh-token' }
+
+route('GET', '/auth/me', () => MOCK_USER)
+route('POST', '/auth/refresh', () => MOCK_TOKENS)
+route('POST', '/auth/login/email', () => ({ message: 'Mock mode: enter any 6-digit code' }))
+route('POST', '/auth/verify/otp', ({ body }) => ({
+  ...MOCK_TOKENS,
+  user: { id: MOCK_USER.id, email: (body as { email?: string }).email || MOCK_USER.email, user_metadata: { full_name: MOCK_USER.name } },
+}))
+
+// ============ Concepts & Work ============
+
+function updateConcept(id: string, updates: Partial<AdConcept>) {
+  const concept = findOr404(db.concepts, id, 'Concept')
+  Object.assign(concept, updates)
+  broadcast({ type: 'concept_update', concept })
+  return ok
+}
+
+route('GET', '/concepts', () => db.concepts)
+route('POST', '/concepts/:id/approve', ({ params }) => updateConcept(params.id, { status: 'approved' }))
+route('POST', '/concepts/:id/reject', ({ params, body }) =>
+  updateConcept(params.id, { status: 'rejected', user_notes: (body as { feedback?: string } | undefined)?.feedback || undefined })
+)
+route('POST', '/concepts/:id/notes', ({ params, body }) => updateConcept(params.id, { user_notes: (body as { notes: string }).notes }))
+route('POST', '/concepts/:id/rating', ({ params, body }) => updateConcept(params.id, { rating: (body as { rating: number }).rating }))
+route('DELETE', '/concepts/:id', ({ params }) => {
+  findOr404(db.concepts, params.id, 'Concept')
+  db.concepts = db.concepts.filter(c => c.id !== params.id)
+  broadcast({ type: 'concept_deleted', concept_id: params.id })
+  return ok
+})
+// AI versions first: the draft before review (if any), then the current copy
+function copyHistoryFor(concept: AdConcept): CopyVersion[] {
+  if (!db.copyHistory[concept.id]) {
+    const versions: CopyVersion[] = []
+    const aiVersion = (field: CopyField, values: string[], action: CopyVersion['action'], reason?: string) => {
+      versions.push({
+        id: mockId('ver'),
+        field,
+        values,
+        source: 'ai',
+        action,
+        reason,
+        created_at: concept.created_at,
+      })
+    }
+    if (concept.original_primary_text) {
+      aiVersion('primary_texts', [concept.original_primary_text], 'generated')
+      aiVersion(
+        'primary_texts',
+        [...concept.primary_texts],
+        'reviewed',
+        concept.revision_changelog?.map(c => c.reason).join('; ') || undefined
+      )
+    } else {
+      aiVersion('primary_texts', [...concept.primary_texts], 'generated')
+    }
+    aiVersion('headlines', [...concept.headlines], 'generated')
+    db.copyHistory[concept.id] = versions
+  }
+  return db.copyHistory[concept.id]
+}
+
+function saveCopy(concept: AdConcept, version: Omit<CopyVersion, 'id' | 'source' | 'author' | 'created_at'>) {
+  copyHistoryFor(concept).push({
+    ...version,
+    id: mockId('ver'),
+    source: 'human',
+    author: MOCK_USER.email,
+    created_at: new Date().toISOString(),
+  })
+  concept[version.field] = [...version.values]
+  broadcast({ type: 'concept_update', concept })
+  return concept
+}
+
+route('PUT', '/concepts/:id/copy', ({ params, body }) => {
+  const input = body as UpdateCopyInput
+  const concept = findOr404(db.concepts, params.id, 'Concept')
+  if (input.field !== 'primary_texts' && input.field !== 'headlines') {
+    throw new MockHttpError(400, `Unknown copy field: ${input.field}`)
+  }
+  if (!Array.isArray(input.values) || input.values.length === 0) {
+    throw new MockHttpError(400, 'At least one variant is required')
+  }
+  return saveCopy(concept, { field: input.field, values: input.values, action: input.action || 'edited' })
+})
+route('GET', '/concepts/:id/copy-history', ({ params }) => ({
+  versions: copyHistoryFor(findOr404(db.concepts, params.id, 'Concept')),
+}))
+route('POST', '/concepts/:id/copy-history/:versionId/revert', ({ params }) => {
+  const concept = findOr404(db.concepts, params.id, 'Concept')
+  const target = findOr404(copyHistoryFor(concept), params.versionId, 'Version')
+  return saveCopy(concept, { field: target.field, values: target.values, action: 'reverted', reverted_to: target.id })
+})
+// Own presets plus teammates' shared ones
+route('GET', '/concepts/filter-presets', () => ({
+  presets: db.filterPresets.filter(p => p.owner_id === MOCK_USER.id || p.shared),
+}))
+route('POST', '/concepts/filter-presets', ({ body }) => {
+  const input = body as ConceptFilterPresetInput
+  if (!input.name?.trim()) throw new MockHttpError(400, 'Preset name is required')
+  const preset: ConceptFilterPreset = {
+    id: mockId('preset'),
+    name: input.name.trim(),
+    filters: input.filters,
+    owner_id: MOCK_USER.id,
+    owner_name: MOCK_USER.name,
+    shared: !!input.shared,
+    created_at: new Date().toISOString(),
+  }
+  db.filterPresets.push(preset)
+  return preset
+})
+route('DELETE', '/concepts/filter-presets/:id', ({ params }) => {
+  const preset = findOr404(db.filterPresets, params.id, 'Preset')
+  if (preset.owner_id !== MOCK_USER.id) throw new MockHttpError(403, 'Only the owner can delete a preset')
+  db.filterPresets = db.filterPresets.filter(p => p.id !== params.id)
+  return ok
+})
+route('GET', '/settings/llm-logs/concept/:id', ({ params }) => ({
+  logs: [
+    {
+      id: mockId('llm'),
+      concept_id: params.id,
+      call_name: 'write_primary_texts',
+      model_id: db.currentModels.copywriter,
+      thinking_enabled: true,
+      thinking_budget: db.thinkingBudget,
+      system_prompt: db.prompts[0]?.value || null,
+      user_prompt: 'Write two primary texts for the hypothesis below...',
+      response_text: db.concepts.find(c => c.id === params.id)?.primary_texts[0] || null,
+      thinking_text: 'The reviews emphasise a slow, quiet change. Lead with a relatable moment, not a claim.',
+      input_tokens: 3120,
+      output_tokens: 640,
+      thinking_tokens: 1800,
+      latency_ms: 14200,
+      error: null,
+      created_at: daysAgo(0, 2),
+    },
+  ],
+}))
+
+route('GET', '/work-log', () => db.workLog)
+
+function logWork(type: WorkLogEntry['type'], message: string, details?: string) {
+  const entry: WorkLogEntry = { id: mockId('log'), timestamp: new Date().toISOString(), type, message, details }
+  db.workLog.push(entry)
+  broadcast({ type: 'work_log', entry })
+}
+
+function setWorking(isWorking: boolean) {
+  db.isWorking = isWorking
+  broadcast({ type: 'autonomous_status', status: autonomousStatus() })
+}
+
+// Play out a short generation run: log entries over time, then a new concept
+function simulateWork(productId: string | null, ideas?: string) {
+  const product = db.products.find(p => p.id === productId)
+  const template = db.concepts.find(c => c.status === 'approved') || db.concepts[0]
+  const batch = `B${String(200 + db.concepts.length).padStart(4, '0')}`
+  // Active learnings for this product go into the prompts
+  const appliedLearnings = db.learnings
+    .filter(l => l.is_active && (!l.product_id || l.product_id === productId))
+    .map(({ id, insight, type, category, confidence }) => ({ id, insight, type, category, confidence }))
+  const steps: Array<() => void> = [
+    () => logWork('info', `Started working on ${product?.name || 'product'}`, ideas),
+    () => logWork('research', `Analyzing ${((productId && db.dataSources[productId]) || []).length} data sources`, `${appliedLearnings.length} learnings applied`),
+    () => logWork('pattern', 'Found pattern: "Tried everything before this" (38 mentions)'),
+    () => logWork('hypothesis', 'Hypothesis: relief after long search resonates with problem-aware buyers'),
+    () => {
+      logWork('generation', `Writing primary texts for ${batch}`)
+      if (template) {
+        const concept: AdConcept = {
+          ...template,
+          id: mockId('concept'),
+          batch_number: batch,
+          product_id: productId,
+          status: 'generating',
+          rating: undefined,
+          user_notes: undefined,
+          images: [placeholderImage(`${batch} · A`, '#8B5CF6'), placeholderImage(`${batch} · B`, '#14B8A6')],
+          fb_ad_ids: [],
+          applied_learnings: appliedLearnings,
+          created_at: new Date().toISOString(),
+        }
+        db.concepts.unshift(concept)
+        broadcast({ type: 'concept_update', concept })
+      }
+    },
+    () => {
+      logWork('review', 'Principle check passed (score 88)')
+      const concept = db.concepts.find(c => c.batch_number === batch)
+      if (concept) updateConcept(concept.id, { status: 'ready' })
+    },
+    () => {
+      logWork('ready', `Concept ${batch} ready for review`)
+      setWorking(false)
+    },
+  ]
+
+  setWorking(true)
+  steps.forEach((step, i) => {
+    setTimeout(() => {
+      // Stop requested mid-run
+      if (!db.isWorking) return
+      step()
+    }, 1500 * (i + 1))
+  })
+}
+
+route('POST', '/start-working', ({ body }) => {
+  const input = body as { product_id: string | null; ideas?: string }
+  if (db.isWorking) throw new MockHttpError(409, 'Already working')
+  simulateWork(input.product_id, input.ideas)
+  return ok
+})
+route('POST', '/stop-working', () => {
+  setWorking(false)
+  logWork('info', 'Stopped by user')
+  return ok
+})
+
+// ============ Products & Data Sources ============
+
+route('GET', '/products', () => db.products)
+route('POST', '/products', ({ body }) => {
+  const now = new Date().toISOString()
+  const input = body as Omit<Product, 'id' | 'image_urls' | 'created_at' | 'updated_at'>
+  const product = { ...input, id: mockId('prod'), image_urls: [], created_at: now, updated_at: now }
+  db.products.push(product)
+  return product
+})
+route('PUT', '/products/:id', ({ params, body }) => {
+  const product = findOr404(db.products, params.id, 'Product')
+  Object.assign(product, body as Partial<Product>, { updated_at: new Date().toISOString() })
+  return product
+})
+route('DELETE', '/products/:id', ({ params }) => {
+  db.products = db.products.filter(p => p.id !== params.id)
+  return ok
+})
+route('POST', '/products/:id/images', ({ params, body }) => {
+  const product = findOr404(db.products, params.id, 'Product')
+  product.image_urls = [...(product.image_urls || []), (body as { image_data: string }).image_data]
+  return ok
+})
+route('DELETE', '/products/:id/images/:index', ({ params }) => {
+  const product = findOr404(db.products, params.id, 'Product')
+  product.image_urls = (product.image_urls || []).filter((_, i) => i !== Number(params.index))
+  return ok
+})
+
+route('GET', '/data-sources/product/:id', ({ params }) => db.dataSources[params.id] || [])
+
+function allDataSources(): DataSource[] {
+  return Object.values(db.dataSources).flat()
+}
+
+route('POST', '/data-sources', ({ body }) => {
+  const input = body as DataSourceInput
+  const source: DataSource = {
+    id: mockId('ds'),
+    name: input.name,
+    type: input.file_type === 'csv' ? 'sheet' : 'document',
+    content: input.content,
+    category: input.category,
+    created_at: new Date().toISOString(),
+  }
+  const productId = input.product_id || db.products[0]?.id
+  db.dataSources[productId] = [...(db.dataSources[productId] || []), source]
+  return source
+})
+route('POST', '/data-sources/quick-add', ({ body }) => {
+  const { content, product_id: productId } = body as { content: string; product_id: string }
+  const source: DataSource = {
+    id: mockId('ds'),
+    name: content.slice(0, 40),
+    type: content.startsWith('http') ? 'url' : 'document',
+    content,
+    category: 'document',
+    created_at: new Date().toISOString(),
+  }
+  db.dataSources[productId] = [...(db.dataSources[productId] || []), source]
+  return source
+})
+route('PUT', '/data-sources/:id', ({ params, body }) => {
+  const source = findOr404(allDataSources(), params.id, 'Data source')
+  Object.assign(source, body as { name: string; content: string })
+  return source
+})
+route('DELETE', '/data-sources/:id', ({ params }) => {
+  for (const productId of Object.keys(db.dataSources)) {
+    db.dataSources[productId] = db.dataSources[productId].filter(s => s.id !== params.id)
+  }
+  return ok
+})
+
+// ============ Facebook ============
+
+const FB_USER = { id: 'fb_user_1', name: 'Demo Advertiser' }
+const AD_ACCOUNTS = [
+  { id: 'act_1000', name: 'Demo Brand US', account_status: 1, currency: 'USD', business_name: 'Demo Brand' },
+  { id: 'act_2000', name: 'Demo Brand EU', account_status: 1, currency: 'EUR', business_name: 'Demo Brand' },
+]
+const PAGES = [
+  { id: 'page_1', name: 'Demo Brand', category: 'Health/Beauty' },
+  { id: 'page_2', name: 'Demo Brand Wellness', category: 'Health/Beauty' },
+]
+
+route('GET', '/fb/auth/status', () => ({
+  connected: db.fb.connected,
+  user: db.fb.connected ? FB_USER : null,
+  ad_account_id: db.fb.connected ? db.fb.adAccountId : null,
+  page_id: db.fb.connected ? db.fb.pageId : null,
+}))
+route('GET', '/fb/ad-accounts', () => ({ accounts: AD_ACCOUNTS, selected: db.fb.adAccountId }))
+route('GET', '/fb/pages', () => ({ pages: PAGES, selected: db.fb.pageId }))
+route('POST', '/fb/select-account', ({ body }) => {
+  db.fb.adAccountId = (body as { account_id: string }).account_id
+  return ok
+})
+route('POST', '/fb/select-page', ({ body }) => {
+  db.fb.pageId = (body as { page_id: string }).page_id
+  return ok
+})
+route('POST', '/fb/auth/disconnect', () => {
+  db.fb.connected = false
+  return ok
+})
+route('POST', '/fb/auth/set-token', () => {
+  db.fb.connected = true
+  return { user: FB_USER }
+})
+
+route('GET', '/fb/campaigns', () => ({ campaigns: db.fb.campaigns }))
+route('POST', '/fb/campaigns', ({ body }) => {
+  const campaign = { id: mockId('camp'), name: (body as { name: string }).name, status: 'PAUSED', objective: 'OUTCOME_SALES', created_time: new Date().toISOString() }
+  db.fb.campaigns.unshift(campaign)
+  db.fb.adSets[campaign.id] = []
+  return { campaign_id: campaign.id }
+})
+route('GET', '/fb/campaigns/:id/budget-type', ({ params }) => ({ is_cbo: params.id === 'camp_1' }))
+route('GET', '/fb/adsets', ({ query }) => ({ adsets: db.fb.adSets[query.get('campaign_id') || ''] || [] }))
+route('POST', '/fb/adsets', ({ body }) => {
+  const input = body as { campaign_id: string; name: string; daily_budget: number }
+  const adset = { id: mockId('adset'), name: input.name, status: 'ACTIVE', daily_budget: String(input.daily_budget * 100) }
+  db.fb.adSets[input.campaign_id] = [...(db.fb.adSets[input.campaign_id] || []), adset]
+  return { adset_id: adset.id }
+})
+route('POST', '/fb/adsets/duplicate', ({ body }) => {
+  const input = body as { source_adset_id: string; new_name: string; daily_budget?: number }
+  for (const adsets of Object.values(db.fb.adSets)) {
+    const source = adsets.find(a => a.id === input.source_adset_id)
+    if (source) {
+      const copy = { ...source, id: mockId('adset'), name: input.new_name }
+      if (input.daily_budget) copy.daily_budget = String(input.daily_budget * 100)
+      adsets.push(copy)
+      return { adset_id: copy.id }
+    }
+  }
+  throw new MockHttpError(404, 'Ad set not found')
+})
+
+route('GET', '/fb/concept/:id/suggested-names', ({ params }) => {
+  const concept = findOr404(db.concepts, params.id, 'Concept')
+  return { adset_name: `${concept.batch_number} | ${concept.format_id || 'concept'}`, has_naming_data: true }
+})
+route('POST', '/fb/push-concept', ({ body }) => {
+  const input = body as PushConceptInput
+  const concept = findOr404(db.concepts, input.concept_id, 'Concept')
+  const adId = mockId('ad')
+  updateConcept(concept.id, { fb_ad_ids: [...(concept.fb_ad_ids || []), adId] })
+  return { ad_id: adId }
+})
+route('POST', '/fb/bulk-push', ({ body }) => {
+  const input = body as BulkPushInput
+  return {
+    results: input.concept_ids.map(conceptId => {
+      const concept = db.concepts.find(c => c.id === conceptId)
+      if (!concept) return { concept_id: conceptId, success: false, error: 'Concept not found' }
+      const adId = mockId('ad')
+      updateConcept(concept.id, { fb_ad_ids: [...(concept.fb_ad_ids || []), adId] })
+      return {
+        concept_id: conceptId,
+        success: true,
+        ad_id: adId,
+        adset_id: mockId('adset'),
+        adset_name: `${concept.batch_number} | ${concept.format_id || 'concept'}`,
+      }
+    }),
+  }
+})
+
+function insightsPeriod(query: URLSearchParams): InsightsPeriod {
+  const since = query.get('since')
+  const until = query.get('until')
+  if (since && until) return { since, until }
+  return (query.get('date_preset') as DatePreset) || 'last_7d'
+}
+
+route('GET', '/fb/ads/with-insights', ({ query }) => {
+  const limit = Number(query.get('limit') || 100)
+  const adIds = (query.get('ad_ids') || '').split(',').filter(Boolean)
+  const ads = buildAds(insightsPeriod(query))
+  if (adIds.length === 0) return { ads: ads.slice(0, limit) }
+  // Ads pushed during this session have no delivery yet
+  return {
+    ads: adIds.flatMap(id => {
+      const ad = ads.find(a => a.id === id)
+      if (ad) return [ad]
+      const concept = db.concepts.find(c => c.fb_ad_ids?.includes(id))
+      if (!concept) return []
+      return [{ id, name: `${concept.batch_number}--${concept.format_id || 'concept'}`, is_ai_generated: true, insights: { spend: 0, impressions: 0, purchases: 0 } }]
+    }),
+  }
+})
+route('GET', '/fb/snapshots', ({ query }) => {
+  const period = insightsPeriod(query)
+  return {
+    ...resolvePeriod(period),
+    insights: buildAccountInsights(period),
+    ads: buildAds(period),
+    synced_at: db.fb.snapshots.last_synced_at,
+  }
+})
+route('GET', '/fb/snapshots/status', () => db.fb.snapshots)
+route('POST', '/fb/snapshots/sync', () => {
+  db.fb.snapshots.last_synced_at = new Date().toISOString()
+  db.fb.snapshots.latest_date = new Date().toISOString().slice(0, 10)
+  evaluateAlerts()
+  evaluateLearnings()
+  return db.fb.snapshots
+})
+route('GET', '/fb/insights/breakdown', ({ query }) => ({
+  rows: buildBreakdown(insightsPeriod(query), query.get('breakdown') as BreakdownDimension, query.get('ad_id')),
+}))
+route('GET', '/fb/account/insights/daily', ({ query }) => ({ days: buildAccountDays(insightsPeriod(query)) }))
+route('GET', '/fb/ads/with-insights/daily', ({ query }) => {
+  const adIds = (query.get('ad_ids') || '').split(',').filter(Boolean)
+  return { ads: buildAdDays(insightsPeriod(query), adIds) }
+})
+
+// ============ Alerts ============
+
+// Stand-in for the backend's post-sync evaluation: the fatiguing ad keeps
+// missing its CPA target unless that's been snoozed
+function evaluateAlerts() {
+  const rule = db.alertRules.find(r => r.kind === 'cpa_above_target' && r.is_active)
+  if (!rule) return
+  const now = new Date().toISOString()
+  const snoozed = db.alerts.some(a => a.rule_id === rule.id && a.ad_id === 'ad_2' && a.snoozed_until && a.snoozed_until > now)
+  if (snoozed) return
+  const alert: Alert = {
+    id: mockId('alert'),
+    rule_id: rule.id,
+    rule_name: rule.name,
+    kind: rule.kind,
+    severity: 'warning',
+    message: `CPA $51.40 is above the $30.00 target for ${rule.consecutive_days} days`,
+    ad_id: 'ad_2',
+    ad_name: 'B0121--Gummies--DoctorAsked--v1',
+    value: 51.4,
+    threshold: 30,
+    triggered_at: now,
+    read_at: null,
+    delivered_to: rule.channels.filter(c => c !== 'in_app'),
+  }
+  db.alerts.unshift(alert)
+  broadcast({ type: 'alert', alert })
+}
+
+route('GET', '/alerts/rules', () => ({ rules: db.alertRules }))
+route('POST', '/alerts/rules', ({ body }) => {
+  const rule: AlertRule = { ...(body as AlertRuleInput), id: mockId('rule'), created_at: new Date().toISOString() }
+  db.alertRules.push(rule)
+  return rule
+})
+route('PUT', '/alerts/rules/:id', ({ params, body }) =>
+  Object.assign(findOr404(db.alertRules, params.id, 'Alert rule'), body as Partial<AlertRuleInput>)
+)
+route('DELETE', '/alerts/rules/:id', ({ params }) => {
+  db.alertRules = db.alertRules.filter(r => r.id !== params.id)
+  return ok
+})
+route('POST', '/alerts/rules/:id/test', ({ params }) => {
+  const rule = findOr404(db.alertRules, params.id, 'Alert rule')
+  if (rule.channels.includes('webhook') && !rule.webhook_url) throw new MockHttpError(400, 'Webhook URL is not set')
+  if (rule.channels.includes('email') && !rule.email) throw new MockHttpError(400, 'Email address is not set')
+  return { delivered_to: rule.channels.filter(c => c !== 'in_app') }
+})
+route('GET', '/alerts', ({ query }) => {
+  const limit = Number(query.get('limit')) || 50
+  const alerts = db.alerts
+    .filter(a => query.get('unread') !== 'true' || !a.read_at)
+    .filter(a => !query.get('rule_id') || a.rule_id === query.get('rule_id'))
+  return { alerts: alerts.slice(0, limit) }
+})
+route('POST', '/alerts/read-all', () => {
+  const now = new Date().toISOString()
+  db.alerts.forEach(a => { a.read_at = a.read_at || now })
+  return ok
+})
+route('POST', '/alerts/:id/read', ({ params }) => {
+  const alert = findOr404(db.alerts, params.id, 'Alert')
+  alert.read_at = alert.read_at || new Date().toISOString()
+  return alert
+})
+route('POST', '/alerts/:id/snooze', ({ params, body }) => {
+  const alert = findOr404(db.alerts, params.id, 'Alert')
+  const { hours } = body as { hours: number }
+  alert.snoozed_until = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+  alert.read_at = alert.read_at || new Date().toISOString()
+  return alert
+})
+
+// ============ Swipes ============
+
+route('GET', '/swipes', ({ query }) => {
+  const type = query.get('swipe_type')
+  const funnel = query.get('funnel_position')
+  return {
+    swipes: db.swipes.filter(
+      s => (!type || s.swipe_type === type) && (!funnel || s.funnel_position === funnel || s.funnel_position === 'all')
+    ),
+  }
+})
+route('PUT', '/swipes/:id', ({ params, body }) => {
+  const swipe = findOr404(db.swipes, params.id, 'Swipe')
+  Object.assign(swipe, body as SwipeUpdate)
+  return swipe
+})
+route('DELETE', '/swipes/:id', ({ params }) => {
+  db.swipes = db.swipes.filter(s => s.id !== params.id)
+  return ok
+})
+route('GET', '/swipes/jobs', ({ query }) => ({ jobs: db.swipeJobs.slice(0, Number(query.get('limit') || 20)) }))
+
+function queueJob(inputType: string, inputData: SwipeJob['input_data']) {
+  const job: SwipeJob = {
+    id: mockId('job'),
+    status: 'queued',
+    progress: 0,
+    progress_message: 'Queued',
+    input_type: inputType,
+    input_data: inputData,
+    created_at: new Date().toISOString(),
+  }
+  db.swipeJobs.unshift(job)
+  simulateSwipeJob(job)
+  return { success: true, job_id: job.id }
+}
+
+route('POST', '/swipes/jobs', ({ body }) => {
+  const input = body as { input_type: 'url'; url: string } | { input_type: 'text'; text: string }
+  return queueJob(input.input_type, input.input_type === 'url' ? { url: input.url } : { text: input.text })
+})
+route('POST', '/swipes/jobs/upload', ({ body }) => {
+  const file = body instanceof FormData ? body.get('file') : null
+  return queueJob('file', { filename: file instanceof File ? file.name : 'upload' })
+})
+
+// ============ Settings ============
+
+const MODEL_OPTIONS: ModelOption[] = [
+  { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', provider: 'anthropic', supports_thinking: true },
+  { id: 'claude-opus-4-1', name: 'Claude Opus 4.1', provider: 'anthropic', supports_thinking: true },
+  { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro', provider: 'google', supports_thinking: true },
+  { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash', provider: 'google' },
+]
+const IMAGE_MODEL_OPTIONS: ModelOption[] = [
+  { id: 'gemini-3-pro-image-preview', name: 'Gemini 3 Pro Image', provider: 'google' },
+]
+
+route('GET', '/settings', () => db.settings)
+route('PUT', '/settings', ({ body }) => Object.assign(db.settings, body as Partial<SettingsData>))
+route('GET', '/settings/models', () => ({
+  available_models: {
+    orchestrator: MODEL_OPTIONS,
+    copywriter: MODEL_OPTIONS,
+    visual_analyzer: MODEL_OPTIONS,
+    image_generator: IMAGE_MODEL_OPTIONS,
+  },
+  current_models: db.currentModels,
+}))
+route('PUT', '/settings/models', ({ body }) => {
+  const input = body as { task: string; model_id: string }
+  db.currentModels[input.task] = input.model_id
+  return ok
+})
+route('GET', '/settings/chat-models', () => ({
+  models: MODEL_OPTIONS.map(m => ({ ...m, thinking_enabled: m.supports_thinking })),
+  current_model: db.currentModels.orchestrator,
+}))
+route('GET', '/settings/thinking', () => ({
+  thinking_budget: db.thinkingBudget,
+  min_budget: 1024,
+  max_budget: 32000,
+  default_budget: 8000,
+}))
+route('PUT', '/settings/thinking/budget', ({ body }) => {
+  db.thinkingBudget = (body as { budget: number }).budget
+  return { thinking_budget: db.thinkingBudget }
+})
+route('GET', '/settings/goals', () => db.goals)
+route('PUT', '/settings/goals', ({ body }) => Object.assign(db.goals, body as Partial<PerformanceGoals>))
+route('GET', '/settings/goals/products', () => ({ goals: db.productGoals }))
+route('PUT', '/settings/goals/products/:productId', ({ params, body }) => {
+  findOr404(db.products, params.productId, 'Product')
+  let goals = db.productGoals.find(g => g.product_id === params.productId)
+  if (!goals) {
+    // Overrides start from the account-wide goals
+    goals = { ...db.goals, id: mockId('goals'), product_id: params.productId }
+    db.productGoals.push(goals)
+  }
+  return Object.assign(goals, body as Partial<PerformanceGoals>, { product_id: params.productId })
+})
+route('DELETE', '/settings/goals/products/:productId', ({ params }) => {
+  db.productGoals = db.productGoals.filter(g => g.product_id !== params.productId)
+  return ok
+})
+route('GET', '/settings/report-templates', () => ({ templates: db.reportTemplates }))
+route('PUT', '/settings/report-templates/:productId', ({ params, body }) => {
+  const productId = params.productId === 'default' ? null : params.productId
+  if (productId) findOr404(db.products, productId, 'Product')
+  let template = db.reportTemplates.find(t => t.product_id === productId)
+  if (!template) {
+    template = { ...db.reportTemplates[0], id: mockId('report'), product_id: productId }
+    db.reportTemplates.push(template)
+  }
+  return Object.assign(template, body as ReportTemplateInput, { product_id: productId, updated_at: new Date().toISOString() })
+})
+route('GET', '/settings/copywriting-principles', () => ({ principles: db.principles }))
+route('PUT', '/settings/copywriting-principles', ({ body }) => {
+  db.principles = (body as { principles: string }).principles
+  return ok
+})
+route('GET', '/settings/url-tags', () => ({ default_url_tags: db.urlTags }))
+route('PUT', '/settings/url-tags', ({ body }) => {
+  db.urlTags = (body as { default_url_tags: string | null }).default_url_tags
+  return { default_url_tags: db.urlTags }
+})
+
+route('GET', '/settings/formats', () => ({ formats: db.formats }))
+route('POST', '/settings/formats/seed', () => ok)
+route('POST', '/settings/formats', ({ body }) => {
+  db.formats.push({
+    structure: '',
+    voice_notes: null,
+    pacing: null,
+    do_list: [],
+    dont_list: [],
+    linked_swipe_ids: [],
+    reference_image_urls: [],
+    is_active: true,
+    description: null,
+    prompt: null,
+    text_examples: null,
+    ...(body as Partial<AdFormat> & Pick<AdFormat, 'format_id' | 'name'>),
+    id: mockId('fmt'),
+  })
+  return ok
+})
+route('PUT', '/settings/formats/:formatId', ({ params, body }) => {
+  const format = db.formats.find(f => f.format_id === params.formatId)
+  if (!format) throw new MockHttpError(404, 'Format not found')
+  Object.assign(format, body as Partial<AdFormat>)
+  return ok
+})
+route('DELETE', '/settings/formats/:formatId', ({ params }) => {
+  db.formats = db.formats.filter(f => f.format_id !== params.formatId)
+  return ok
+})
+route('POST', '/settings/formats/:formatId/add-reference-image', ({ params, body }) => {
+  const format = db.formats.find(f => f.format_id === params.formatId)
+  if (!format) throw new MockHttpError(404, 'Format not found')
+  const { image_data: imageData } = body as { image_data: string }
+  format.reference_image_urls = [...format.reference_image_urls, imageData]
+  return { image_url: imageData, reference_image_urls: format.reference_image_urls }
+})
+route('DELETE', '/settings/formats/:formatId/remove-reference-image', ({ params, query }) => {
+  const format = db.formats.find(f => f.format_id === params.formatId)
+  if (!format) throw new MockHttpError(404, 'Format not found')
+  format.reference_image_urls = format.reference_image_urls.filter(url => url !== query.get('image_url'))
+  return { reference_image_urls: format.reference_image_urls }
+})
+route('POST', '/settings/formats/:formatId/link-swipe', ({ params, query }) => {
+  const format = db.formats.find(f => f.format_id === params.formatId)
+  const swipeId = query.get('swipe_id')
+  if (!format || !swipeId) throw new MockHttpError(404, 'Format not found')
+  if (!format.linked_swipe_ids.includes(swipeId)) format.linked_swipe_ids.push(swipeId)
+  return ok
+})
+
+route('GET', '/settings/prompts', () => ({ prompts: db.prompts }))
+route('PUT', '/settings/prompts/:key', ({ params, body }) => {
+  const prompt = db.prompts.find(p => p.key === params.key)
+  if (!prompt) throw new MockHttpError(404, 'Prompt not found')
+  prompt.value = (body as { value: string }).value
+  prompt.is_default = false
+  return ok
+})
+route('POST', '/settings/prompts/:key/reset', ({ params }) => {
+  const prompt = db.prompts.find(p => p.key === params.key)
+  if (prompt) prompt.is_default = true
+  return ok
+})
+
+route('GET', '/settings/style-presets', () => ({ presets: db.stylePresets }))
+route('POST', '/settings/style-presets', ({ body }) => {
+  const input = body as Pick<StylePreset, 'id' | 'name' | 'description' | 'template'>
+  db.stylePresets.push({ ...input, is_custom: true, is_default: false })
+  return ok
+})
+route('POST', '/settings/style-presets/reset-all', () => {
+  db.stylePresets = db.stylePresets.filter(p => !p.is_custom || p.is_default)
+  return ok
+})
+route('PUT', '/settings/style-presets/:id', ({ params, body }) => {
+  const preset = findOr404(db.stylePresets, params.id, 'Preset')
+  Object.assign(preset, body as Partial<StylePreset>)
+  return ok
+})
+route('DELETE', '/settings/style-presets/:id', ({ params }) => {
+  db.stylePresets = db.stylePresets.filter(p => p.id !== params.id)
+  return ok
+})
+route('POST', '/settings/style-presets/:id/reset', () => ok)
+
+function autonomousStatus(): AutonomousStatus {
+  const today = new Date().toDateString()
+  const conceptsToday = db.concepts.filter(c => new Date(c.created_at).toDateString() === today).length
+  const dailyTarget = Number(db.autonomous.daily_target?.value ?? 10)
+  return {
+    enabled: Boolean(db.autonomous.enabled?.value),
+    daily_target: dailyTarget,
+    concepts_today: conceptsToday,
+    remaining: Math.max(0, dailyTarget - conceptsToday),
+    is_running: db.isWorking,
+    pending_jobs: db.isWorking ? 1 : 0,
+    auto_approval_enabled: Boolean(db.autonomous.auto_approval_enabled?.value),
+    diversity_enabled: Boolean(db.autonomous.diversity_enabled?.value),
+  }
+}
+
+route('GET', '/settings/autonomous', () => db.autonomous)
+route('PUT', '/settings/autonomous', ({ body }) => {
+  for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
+    if (db.autonomous[key]) db.autonomous[key].value = value
+  }
+  return ok
+})
+route('GET', '/settings/autonomous/status', () => autonomousStatus())
+route('POST', '/settings/autonomous/trigger', () => {
+  if (!db.isWorking && db.products[0]) simulateWork(db.products[0].id)
+  return { job_id: mockId('job') }
+})
+
+route('GET', '/settings/usage/summary', () => ({
+  total_cost: 42.18,
+  total_input_tokens: 1_840_000,
+  total_output_tokens: 312_000,
+  total_images: 146,
+  count: 980,
+}))
+route('GET', '/settings/usage/by-model', () => ({
+  by_model: {
+    'claude-sonnet-4-5': { cost: 28.4, input_tokens: 1_420_000, output_tokens: 260_000, images: 0, count: 610 },
+    'gemini-3-pro-preview': { cost: 5.1, input_tokens: 420_000, output_tokens: 52_000, images: 0, count: 224 },
+    'gemini-3-pro-image-preview': { cost: 8.68, input_tokens: 0, output_tokens: 0, images: 146, count: 146 },
+  },
+}))
+route('GET', '/settings/usage/by-task', () => ({
+  by_task: {
+    copywriter: { cost: 24.9, input_tokens: 1_210_000, output_tokens: 230_000, images: 0, count: 480 },
+    orchestrator: { cost: 3.5, input_tokens: 210_000, output_tokens: 30_000, images: 0, count: 130 },
+    visual_analyzer: { cost: 5.1, input_tokens: 420_000, output_tokens: 52_000, images: 0, count: 224 },
+    image_generator: { cost: 8.68, input_tokens: 0, output_tokens: 0, images: 146, count: 146 },
+  },
+}))
+route('GET', '/settings/usage/pricing', () => ({
+  pricing: {
+    'claude-sonnet-4-5': { input: 3, output: 15, provider: 'anthropic' },
+    'gemini-3-pro-preview': { input: 2, output: 12, provider: 'google' },
+    'gemini-3-pro-image-preview': { input: 0, output: 0, image: 0.06, provider: 'google' },
+  },
+}))
+
+route('GET', '/bof-templates', () => db.bofTemplates)
+route('POST', '/bof-templates', ({ body }) => {
+  const input = body as { name: string; image_data: string; description?: string }
+  const template = {
+    id: mockId('bof'),
+    name: input.name,
+    description: input.description || null,
+    template_url: input.image_data,
+    style_analysis: null,
+    product_id: null,
+    is_active: true,
+    created_at: new Date().toISOString(),
+  }
+  db.bofTemplates.unshift(template)
+  return template
+})
+route('DELETE', '/bof-templates/:id', ({ params }) => {
+  db.bofTemplates = db.bofTemplates.filter(t => t.id !== params.id)
+  return ok
+})
+
+// ============ Analysis & Learnings ============
+
+function learningFromInput(input: Partial<LearningInput>): Partial<Learning> {
+  const { learning_type, ...rest } = input
+  return learning_type ? { ...rest, type: learning_type } : rest
+}
+
+function recordLearningEvent(learning: Learning, kind: LearningEvent['kind'], note: string, adNames?: string[]) {
+  db.learningEvents.unshift({
+    id: mockId('levent'),
+    learning_id: learning.id,
+    kind,
+    confidence: learning.confidence,
+    status: learning.status,
+    note,
+    ad_names: adNames,
+    created_at: new Date().toISOString(),
+  })
+}
+
+function setLearningStatus(learning: Learning, status: LearningStatus) {
+  learning.status = status
+  learning.is_active = status === 'hypothesis' || status === 'validated'
+}
+
+const LEARNING_HALF_LIFE_DAYS = 45
+const LEARNING_GRACE_DAYS = 14
+const LEARNING_EXPIRE_BELOW = 0.3
+
+// Which ads a learning's applies_to covers, going by the ad name
+function adFormat(name: string): string {
+  if (name.startsWith('UGC')) return 'video'
+  return 'image'
+}
+
+// Stand-in for the backend's lifecycle pass after each sync: matching ads
+// created since the last pass support a learning when they beat the ROAS
+// target (or contradict it), and learnings without fresh evidence decay
+function evaluateLearnings(): ReevaluationResult {
+  const result: ReevaluationResult = { evaluated: 0, supported: 0, contradicted: 0, decayed: 0, retired: 0 }
+  const now = Date.now()
+  const ads = buildAds('last_30d')
+  for (const learning of db.learnings) {
+    if (learning.status === 'retired') continue
+    result.evaluated++
+    const since = learning.last_evaluated_at || learning.created_at
+    const fresh = ads.filter(
+      ad =>
+        (ad.created_time || '') > since &&
+        Number(ad.insights.spend) > 0 &&
+        (learning.applies_to === 'all' || learning.applies_to === adFormat(ad.name))
+    )
+    const beatTarget = (ad: (typeof ads)[number]) => (ad.insights.roas || 0) >= db.goals.target_roas
+    const supporting = fresh.filter(ad => beatTarget(ad) === (learning.type === 'do'))
+    const contradicting = fresh.filter(ad => !supporting.includes(ad))
+
+    if (supporting.length > 0) {
+      for (let i = 0; i < supporting.length; i++) learning.confidence += (1 - learning.confidence) * 0.15
+      learning.confidence = Math.round(learning.confidence * 100) / 100
+      learning.last_evidence_at = new Date(now).toISOString()
+      if (learning.confidence >= 0.75) setLearningStatus(learning, 'validated')
+      recordLearningEvent(
+        learning,
+        'supported',
+        `${supporting.length} new ad${supporting.length !== 1 ? 's' : ''} backed this up`,
+        supporting.map(ad => ad.name)
+      )
+      result.supported++
+    }
+    if (contradicting.length > 0) {
+      for (let i = 0; i < contradicting.length; i++) learning.confidence *= 0.8
+      learning.confidence = Math.round(learning.confidence * 100) / 100
+      if (learning.confidence < 0.5) setLearningStatus(learning, 'contradicted')
+      recordLearningEvent(
+        learning,
+        'contradicted',
+        `${contradicting.length} new ad${contradicting.length !== 1 ? 's' : ''} went the other way`,
+        contradicting.map(ad => ad.name)
+      )
+      result.contradicted++
+    }
+
+    // Halves every LEARNING_HALF_LIFE_DAYS once the grace period runs out
+    const lastEvidence = Date.parse(learning.last_evidence_at || learning.created_at)
+    const idleDays = (now - lastEvidence) / DAY
+    if (fresh.length === 0 && idleDays > LEARNING_GRACE_DAYS) {
+      const elapsedDays = (now - Math.max(Date.parse(since), lastEvidence + LEARNING_GRACE_DAYS * DAY)) / DAY
+      const decayed = Math.round(learning.confidence * Math.pow(0.5, elapsedDays / LEARNING_HALF_LIFE_DAYS) * 100) / 100
+      if (decayed < learning.confidence) {
+        learning.confidence = decayed
+        if (decayed < LEARNING_EXPIRE_BELOW) {
+          setLearningStatus(learning, 'retired')
+          recordLearningEvent(learning, 'status_changed', `Expired after ${Math.round(idleDays)} days without new evidence`)
+          result.retired++
+        } else {
+          recordLearningEvent(learning, 'decayed', `No new evidence in ${Math.round(idleDays)} days`)
+        }
+        result.decayed++
+      }
+    }
+    learning.last_evaluated_at = new Date(now).toISOString()
+  }
+  return result
+}
+
+route('GET', '/analysis/learnings/v2', ({ query }) => {
+  const category = query.get('category')
+  const appliesTo = query.get('applies_to')
+  const status = query.get('status')
+  const learnings = db.learnings.filter(
+    l =>
+      (status ? l.status === status : l.status !== 'retired') &&
+      (!category || l.category === category) &&
+      (!appliesTo || l.applies_to === appliesTo)
+  )
+  return { learnings, total: learnings.length }
+})
+route('POST', '/analysis/learnings/v2', ({ body }) => {
+  const learning: Learning = {
+    id: mockId('learning'),
+    insight: '',
+    category: 'copy',
+    type: 'do',
+    confidence: 0.5,
+    applies_to: 'all',
+    product_id: null,
+    evidence: null,
+    is_active: true,
+    status: 'hypothesis',
+    last_evidence_at: null,
+    last_evaluated_at: null,
+    created_at: new Date().toISOString(),
+    source_type: 'manual',
+    ...learningFromInput(body as LearningInput),
+  }
+  setLearningStatus(learning, learning.status)
+  db.learnings.unshift(learning)
+  recordLearningEvent(learning, 'created', 'Added manually')
+  return learning
+})
+route('PUT', '/analysis/learnings/:id', ({ params, body }) => {
+  const learning = findOr404(db.learnings, params.id, 'Learning')
+  const { status, ...changes } = learningFromInput(body as Partial<LearningInput>)
+  const edited = Object.keys(changes).some(key => changes[key as keyof typeof changes] !== learning[key as keyof Learning])
+  Object.assign(learning, changes)
+  if (edited) recordLearningEvent(learning, 'edited', 'Edited by hand')
+  if (status && status !== learning.status) {
+    setLearningStatus(learning, status)
+    recordLearningEvent(learning, 'status_changed', `Marked as ${status}`)
+  }
+  return learning
+})
+route('GET', '/analysis/learnings/:id/history', ({ params }) => {
+  findOr404(db.learnings, params.id, 'Learning')
+  return { events: db.learningEvents.filter(e => e.learning_id === params.id) }
+})
+route('POST', '/analysis/learnings/reevaluate', () => evaluateLearnings())
+route('POST', '/analysis/learnings/import', ({ body }) => {
+  const input = body as { product_id: string | null; learnings: PortableLearning[]; source?: string }
+  const productId = input.product_id || null
+  if (productId) findOr404(db.products, productId, 'Product')
+  const now = new Date().toISOString()
+  const created = input.learnings.map(item => {
+    const learning: Learning = {
+      ...item,
+      id: mockId('learning'),
+      product_id: productId,
+      is_active: true,
+      status: 'hypothesis',
+      last_evidence_at: null,
+      last_evaluated_at: null,
+      created_at: now,
+      source_type: 'import',
+    }
+    db.learnings.unshift(learning)
+    recordLearningEvent(learning, 'created', `Imported from ${input.source || 'a knowledge pack'}`, item.evidence?.ad_names)
+    return learning
+  })
+  return { learnings: created }
+})
+route('POST', '/analysis/learnings/merge', ({ body }) => {
+  const input = body as LearningMergeInput
+  const keep = findOr404(db.learnings, input.keep_id, 'Learning')
+  const merged = input.merge_ids.filter(id => id !== keep.id).map(id => findOr404(db.learnings, id, 'Learning'))
+  if (merged.length === 0) throw new MockHttpError(400, 'Nothing to merge')
+  if (keep.product_id && merged.some(l => !l.product_id)) {
+    throw new MockHttpError(400, 'Keep the account-wide learning when merging it with product learnings')
+  }
+  if (new Set([keep, ...merged].map(l => l.product_id).filter(Boolean)).size > 1) {
+    throw new MockHttpError(400, 'Learnings from different products cannot be merged')
+  }
+  Object.assign(keep, { insight: input.insight, confidence: input.confidence, evidence: input.evidence })
+  recordLearningEvent(
+    keep,
+    'merged',
+    `Merged ${merged.length} duplicate${merged.length !== 1 ? 's' : ''} into this learning`,
+    input.evidence.ad_names
+  )
+  for (const learning of merged) {
+    setLearningStatus(learning, 'retired')
+    recordLearningEvent(learning, 'merged', `Merged into "${keep.insight.slice(0, 60)}${keep.insight.length > 60 ? '...' : ''}"`)
+  }
+  return keep
+})
+route('DELETE', '/analysis/learnings/:id/hard', ({ params }) => {
+  db.learnings = db.learnings.filter(l => l.id !== params.id)
+  return ok
+})
+// The selected ads as the analysis sees them, judged against `goals`
+function snapshotRunAds(adIds: string[], goals: PerformanceGoals): AnalysisRunAd[] {
+  return buildAds('last_30d')
+    .filter(ad => adIds.includes(ad.id))
+    .map(ad => ({
+      ad_id: ad.id,
+      ad_name: ad.name,
+      spend: Number(ad.insights.spend),
+      purchases: ad.insights.purchases || 0,
+      cpa: ad.insights.cost_per_purchase ?? null,
+      roas: ad.insights.roas ?? null,
+      ctr: ad.insights.link_ctr !== undefined ? Number(ad.insights.link_ctr) : null,
+      verdict: (ad.insights.roas || 0) >= goals.target_roas ? 'winner' : 'loser',
+    }))
+}
+
+// Analyzes a fixed set of inputs and stores the run, so re-running a run
+// replays the same snapshot and goals
+function runAnalysis(inputs: AnalysisRunAd[], goals: PerformanceGoals, rerunOf: string | null): AnalysisResult {
+  const winners = inputs.filter(ad => ad.verdict === 'winner')
+  const now = new Date().toISOString()
+  const learning: Learning = {
+    id: mockId('learning'),
+    insight: `Ads leading with a personal moment (${winners.map(w => w.ad_name.split('--')[0]).join(', ') || 'none'}) beat claim-led openers.`,
+    category: 'copy',
+    type: 'do',
+    confidence: 0.6,
+    applies_to: 'all',
+    product_id: null,
+    evidence: {
+      ad_ids: inputs.map(ad => ad.ad_id),
+      ad_names: inputs.map(ad => ad.ad_name),
+      ad_metrics: inputs.map(ad => ({ ad_name: ad.ad_name, spend: ad.spend, cpa: ad.cpa, roas: ad.roas })),
+    },
+    is_active: true,
+    status: 'hypothesis',
+    last_evidence_at: now,
+    last_evaluated_at: null,
+    created_at: now,
+    source_type: 'analysis',
+  }
+  db.learnings.unshift(learning)
+  recordLearningEvent(learning, 'created', 'Created by ad analysis', learning.evidence?.ad_names)
+
+  const run: AnalysisRun = {
+    id: mockId('run'),
+    ads: inputs.map(ad => ({ ...ad })),
+    goals: { ...goals },
+    model_id: db.currentModels.orchestrator,
+    ads_analyzed: inputs.length,
+    winners: winners.length,
+    losers: inputs.length - winners.length,
+    summary: `Analyzed ${inputs.length} ads: ${winners.length} winners, ${inputs.length - winners.length} losers.`,
+    learnings: [
+      { id: learning.id, insight: learning.insight, type: learning.type, category: learning.category, confidence: learning.confidence },
+    ],
+    rerun_of: rerunOf,
+    created_at: now,
+  }
+  db.analysisRuns.unshift(run)
+  return {
+    success: true,
+    ads_analyzed: run.ads_analyzed,
+    winners: run.winners,
+    losers: run.losers,
+    learnings_created: run.learnings.length,
+    summary: run.summary,
+    run_id: run.id,
+  }
+}
+
+route('POST', '/analysis/analyze-ads', ({ body }) => {
+  const adIds = (body as { ad_ids?: string[] }).ad_ids || []
+  return runAnalysis(snapshotRunAds(adIds, db.goals), db.goals, null)
+})
+route('GET', '/analysis/runs', () => ({ runs: db.analysisRuns }))
+route('POST', '/analysis/runs/:id/rerun', ({ params }) => {
+  const run = findOr404(db.analysisRuns, params.id, 'Analysis run')
+  return runAnalysis(run.ads, run.goals, run.id)
+})
+route('GET', '/settings/llm-logs/analysis-run/:id', ({ params }) => {
+  const run = findOr404(db.analysisRuns, params.id, 'Analysis run')
+  const adLines = run.ads.map(
+    ad =>
+      `- ${ad.ad_name}: $${ad.spend.toFixed(0)} spend, ${ad.purchases} purchases, ` +
+      `CPA ${ad.cpa !== null ? `$${ad.cpa.toFixed(2)}` : '-'}, ROAS ${ad.roas !== null ? `${ad.roas.toFixed(2)}x` : '-'} (${ad.verdict})`
+  )
+  const base = {
+    concept_id: null,
+    analysis_run_id: run.id,
+    model_id: run.model_id,
+    thinking_enabled: true,
+    thinking_budget: db.thinkingBudget,
+    error: null,
+    created_at: run.created_at,
+  }
+  return {
+    logs: [
+      {
+        ...base,
+        id: `${run.id}_llm_1`,
+        call_name: 'pattern_analysis',
+        system_prompt: 'You compare winning and losing Facebook ads and explain what separates them.',
+        user_prompt: `Goals: target CPA $${run.goals.target_cpa}, target ROAS ${run.goals.target_roas}x.\n\nAds:\n${adLines.join('\n')}`,
+        response_text: run.summary,
+        thinking_text: 'Winners open on a specific personal moment; losers lead with the mechanism.',
+        input_tokens: 1400 + run.ads.length * 220,
+        output_tokens: 520,
+        thinking_tokens: 1200,
+        latency_ms: 9800,
+      },
+      {
+        ...base,
+        id: `${run.id}_llm_2`,
+        call_name: 'learning_extraction',
+        system_prompt: 'Turn the patterns into reusable do/avoid learnings with evidence.',
+        user_prompt: run.summary,
+        response_text: JSON.stringify(run.learnings.map(l => ({ insight: l.insight, type: l.type, category: l.category })), null, 2),
+        thinking_text: null,
+        input_tokens: 900,
+        output_tokens: 180 * Math.max(1, run.learnings.length),
+        thinking_tokens: null,
+        latency_ms: 4100,
+      },
+    ],
+  }
+})
+
+// ============ Chat ============
+
+route('GET', '/chat/conversations', () =>
+  [...db.conversations].sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+)
+route('POST', '/chat/conversations', ({ body }) => {
+  const now = new Date().toISOString()
+  const conversation = { id: mockId('conv'), title: (body as { title?: string } | undefined)?.title || 'New conversation', created_at: now, updated_at: now }
+  db.conversations.unshift(conversation)
+  db.messages[conversation.id] = []
+  return conversation
+})
+route('DELETE', '/chat/conversations/:id', ({ params }) => {
+  db.conversations = db.conversations.filter(c => c.id !== params.id)
+  delete db.messages[params.id]
+  return ok
+})
+route('GET', '/chat/conversations/:id/messages', ({ params }) => db.messages[params.id] || [])
+route('POST', '/chat/conversations/:id/upload', ({ body }) => {
+  const file = body instanceof FormData ? body.get('file') : null
+  const name = file instanceof File ? file.name : 'upload'
+  return { file_name: name, type: file instanceof File ? file.type : 'application/octet-stream', data: '', size: file instanceof File ? file.size : 0 }
+})
+
+// Keyword-matched actions that need user confirmation, like the real orchestrator
+function pendingAction(message: string): Pick<Confirmation, 'action_type' | 'action_data'> | null {
+  const text = message.toLowerCase()
+  if (/(create|generate|make).*(ad|concept)/.test(text)) {
+    return { action_type: 'create_ads', action_data: { count: 3, product_id: db.products[0]?.id } }
+  }
+  if (/analy[sz]e/.test(text)) {
+    return { action_type: 'analyze_ads', action_data: { date_preset: 'last_7d', spend_threshold: 50, roas_threshold: 1.5 } }
+  }
+  if (/push/.test(text)) {
+    const concept = db.concepts.find(c => c.status === 'approved')
+    return { action_type: 'push_to_fb', action_data: { concept_id: concept?.id, batch_number: concept?.batch_number } }
+  }
+  return null
+}
+
+function replyTo(message: string, action: ReturnType<typeof pendingAction>): string {
+  if (action) {
+    return `Sure — I've prepared that. Review the details below and confirm when you're ready.`
+  }
+  const ready = db.concepts.filter(c => c.status === 'ready').length
+  return (
+    `You're in **mock mode**, so I'm answering from fixture data.\n\n` +
+    `Right now there are **${ready} concepts** waiting for review and **${db.learnings.length} active learnings**.\n\n` +
+    `You asked: "${message}". Try asking me to *create ads*, *analyze ads* or *push* an approved concept to see a confirmation.`
+  )
+}
+
+function sseStream(chunks: string[], onDone: () => void): Response {
+  const encoder = new TextEncoder()
+  const send = (event: ChatStreamEvent) => encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+  let index = 0
+  let timer: ReturnType<typeof setInterval>
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      timer = setInterval(() => {
+        if (index < chunks.length) {
+          controller.enqueue(send({ type: 'content', content: chunks[index++] }))
+          return
+        }
+        clearInterval(timer)
+        onDone()
+        controller.enqueue(send({ type: 'done' }))
+        controller.close()
+      }, 40)
+    },
+    cancel() {
+      clearInterval(timer)
+    },
+  })
+  return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+route('POST', '/chat/conversations/:id/messages', ({ params, body }) => {
+  const conversation = findOr404(db.conversations, params.id, 'Conversation')
+  const input = body as SendMessageInput
+  const now = new Date().toISOString()
+  const messages = (db.messages[conversation.id] ||= [])
+
+  messages.push({
+    id: mockId('msg'),
+    conversation_id: conversation.id,
+    role: 'user',
+    content: input.message,
+    attachments: input.attachments,
+    created_at: now,
+  })
+  if (conversation.title === 'New conversation') conversation.title = input.message.slice(0, 50)
+  conversation.updated_at = now
+
+  const action = pendingAction(input.message)
+  const reply = replyTo(input.message, action)
+
+  return sseStream(reply.match(/\S+\s*/g) || [reply], () => {
+    const assistant: ChatMessage = {
+      id: mockId('msg'),
+      conversation_id: conversation.id,
+      role: 'assistant',
+      content: reply,
+      created_at: new Date().toISOString(),
+    }
+    messages.push(assistant)
+    if (action) {
+      const confirmation: Confirmation = {
+        id: mockId('confirm'),
+        conversation_id: conversation.id,
+        status: 'pending',
+        created_at: new Date().toISOString(),
+        ...action,
+      }
+      ;(db.confirmations[conversation.id] ||= []).push(confirmation)
+      broadcast({ type: 'confirmation', confirmation })
+    }
+  })
+})
+
+route('GET', '/chat/conversations/:id/confirmations', ({ params }) =>
+  (db.confirmations[params.id] || []).filter(c => c.status === 'pending')
+)
+
+function resolveConfirmation(id: string, status: 'confirmed' | 'cancelled') {
+  for (const [conversationId, confirmations] of Object.entries(db.confirmations)) {
+    const confirmation = confirmations.find(c => c.id === id)
+    if (!confirmation) continue
+    confirmation.status = status
+    ;(db.messages[conversationId] ||= []).push({
+      id: mockId('msg'),
+      conversation_id: conversationId,
+      role: 'assistant',
+      content: status === 'confirmed' ? 'Done! The action has been queued.' : 'Okay, cancelled.',
+      created_at: new Date().toISOString(),
+    })
+    broadcast({ type: 'confirmation', confirmation })
+    if (status === 'confirmed' && confirmation.action_type === 'create_ads' && !db.isWorking) {
+      simulateWork(confirmation.action_data.product_id || db.products[0]?.id)
+    }
+    return ok
+  }
+  throw new MockHttpError(404, 'Confirmation not found')
+}
+
+route('POST', '/chat/confirmations/:id/confirm', ({ params }) => resolveConfirmation(params.id, 'confirmed'))
+route('POST', '/chat/confirmations/:id/cancel', ({ params }) => resolveConfirmation(params.id, 'cancelled'))
+
+// ============ Images ============
+
+route('GET', '/images/styles', () => ({
+  styles: db.stylePresets.map(p => ({ id: p.id, name: p.name, description: p.description })),
+}))
+route('GET', '/images/history', ({ query }) => ({ images: db.images.slice(0, Number(query.get('limit') || 50)) }))
+route('POST', '/images/generate', ({ body }) => {
+  const input = body as GenerateImagesInput
+  const colors = ['#8B5CF6', '#0EA5E9', '#F59E0B', '#10B981']
+  const images = Array.from({ length: input.quantity || 1 }, (_, i) => ({
+    id: mockId('img'),
+    image_url: placeholderImage(`Generated ${i + 1}`, colors[i % colors.length], 512),
+    prompt: input.prompt,
+    style_preset: input.style_preset,
+    aspect_ratio: input.aspect_ratio,
+    model_used: db.currentModels.image_generator,
+    generation_time_ms: 3800,
+    created_at: new Date().toISOString(),
+  }))
+  db.images.unshift(...images)
+  return { images }
+})
+route('DELETE', '/images/:id', ({ params }) => {
+  db.images = db.images.filter(i => i.id !== params.id)
+  return ok
+})
@@ -0,0 +1,49 @@
+// Mock backend used when VITE_MOCK_API=true. `mockFetch` is a drop-in for
+// `fetch` against API_BASE; `MockSocket` stands in for the swipe jobs socket.
+import { API_BASE } from '../config'
+import { MockHttpError } from './db'
+import { matchRoute } from './handlers'
+
+export { MockSocket } from './socket'
+
+// Keep the UI's loading states visible
+const LATENCY_MS = 150
+
+const apiPath = new URL(API_BASE, window.location.origin).pathname.replace(/\/$/, '')
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+function parseBody(body: BodyInit | null | undefined): unknown {
+  if (body instanceof FormData) return body
+  if (typeof body !== 'string' || !body) return undefined
+  try {
+    return JSON.parse(body)
+  } catch {
+    return body
+  }
+}
+
+export async function mockFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  await new Promise(resolve => setTimeout(resolve, LATENCY_MS))
+
+  const url = new URL(input, window.location.origin)
+  const path = url.pathname.startsWith(apiPath) ? url.pathname.slice(apiPath.length) : url.pathname
+  const method = (init.method || 'GET').toUpperCase()
+
+  const match = matchRoute(method, path)
+  if (!match) {
+    console.warn(`Mock: no handler for ${method} ${path}`)
+    return json(404, { detail: `Mock: no handler for ${method} ${path}` })
+  }
+
+  try {
+    const result = await match.handler({ params: match.params, query: url.searchParams, body: parseBody(init.body) })
+    return result instanceof Response ? result : json(200, result ?? null)
+  } catch (error) {
+    if (error instanceof MockHttpError) return json(error.status, { detail: error.message })
+    console.error('Mock handler failed:', error)
+    return json(500, { detail: error instanceof Error ? error.message : 'Mock handler failed' })
+  }
+}
@@ -0,0 +1,99 @@
+// Stand-in for the realtime events WebSocket. Sends `initial_state` on
+// connect; handlers call `broadcast` to push everything else.
+import type { RealtimeEvent, Swipe, SwipeJob } from '../api/types'
+import { db } from './db'
+import { daysAgo, mockId, placeholderImage } from './fixtures'
+
+const sockets = new Set<MockSocket>()
+
+export class MockSocket {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSING = 2
+  static readonly CLOSED = 3
+
+  readonly url: string
+  readyState = MockSocket.CONNECTING
+  onopen: ((event: Event) => void) | null = null
+  onmessage: ((event: MessageEvent) => void) | null = null
+  onclose: ((event: CloseEvent) => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+
+  constructor(url: string) {
+    this.url = url
+    setTimeout(() => {
+      if (this.readyState !== MockSocket.CONNECTING) return
+      this.readyState = MockSocket.OPEN
+      sockets.add(this)
+      this.onopen?.(new Event('open'))
+      this.emit({ type: 'initial_state', jobs: db.swipeJobs })
+    }, 50)
+  }
+
+  send(_data: string) {
+    // The client only ever sends pongs; nothing to do
+  }
+
+  close() {
+    if (this.readyState === MockSocket.CLOSED) return
+    this.readyState = MockSocket.CLOSED
+    sockets.delete(this)
+    this.onclose?.(new CloseEvent('close'))
+  }
+
+  emit(payload: RealtimeEvent) {
+    if (this.readyState !== MockSocket.OPEN) return
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(payload) }))
+  }
+}
+
+export function broadcast(payload: RealtimeEvent) {
+  sockets.forEach(socket => socket.emit(payload))
+}
+
+const JOB_STEPS: Array<[number, string]> = [
+  [10, 'Fetching source'],
+  [35, 'Extracting content'],
+  [60, 'Transcribing'],
+  [85, 'Analyzing structure'],
+  [100, 'Done'],
+]
+
+// Walk a queued job through the processing steps, then add the resulting swipe
+export function simulateSwipeJob(job: SwipeJob) {
+  JOB_STEPS.forEach(([progress, message], i) => {
+    setTimeout(() => {
+      const done = progress === 100
+      job.status = done ? 'done' : 'processing'
+      job.progress = progress
+      job.progress_message = message
+
+      if (done) {
+        const swipe = buildSwipeFromJob(job)
+        db.swipes.unshift(swipe)
+        job.result_swipe_id = swipe.id
+      }
+
+      broadcast({ type: 'job_update', job_id: job.id, progress, message, status: job.status })
+    }, 800 * (i + 1))
+  })
+}
+
+function buildSwipeFromJob(job: SwipeJob): Swipe {
+  const code = `SW-${String(db.swipes.length + 1).padStart(3, '0')}`
+  const source = job.input_data.url || job.input_data.filename
+  return {
+    id: mockId('swipe'),
+    name: source ? `Swipe from ${source}` : 'Pasted swipe',
+    swipe_type: job.input_type === 'url' ? 'ad_video' : 'raw_text',
+    reference_code: code,
+    transcript: job.input_data.text || 'Mock transcript: "I tried everything before this. Three weeks later, I finally get it."',
+    source_url: job.input_data.url,
+    thumbnail_url: job.input_type === 'url' ? placeholderImage(code, '#6366F1', 300) : undefined,
+    tags: [],
+    funnel_position: 'TOF',
+    times_referenced: 0,
+    created_at: daysAgo(0),
+    metadata: { status: 'ready' },
+  }
+}
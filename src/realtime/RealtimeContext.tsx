@@ -0,0 +1,83 @@
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '../auth'
+import type { RealtimeEvent } from '../api'
+import { RealtimeManager, RealtimeStatus } from './manager'
+
+interface RealtimeContextType {
+  manager: RealtimeManager | null
+  status: RealtimeStatus
+}
+
+const RealtimeContext = createContext<RealtimeContextType | null>(null)
+
+function useRealtimeContext() {
+  const context = useContext(RealtimeContext)
+  if (!context) {
+    throw new Error('useRealtime hooks must be used within a RealtimeProvider')
+  }
+  return context
+}
+
+interface RealtimeProviderProps {
+  children: ReactNode
+}
+
+export function RealtimeProvider({ children }: RealtimeProviderProps) {
+  const queryClient = useQueryClient()
+  const { isAuthenticated } = useAuth()
+  const [manager, setManager] = useState<RealtimeManager | null>(null)
+  const [status, setStatus] = useState<RealtimeStatus>('disconnected')
+
+  // Connect once signed in; tear down on logout
+  useEffect(() => {
+    if (!isAuthenticated) return
+
+    const realtime = new RealtimeManager(queryClient)
+    const unsubscribe = realtime.onStatusChange(setStatus)
+    setManager(realtime)
+    realtime.start()
+
+    return () => {
+      unsubscribe()
+      realtime.stop()
+      setManager(null)
+      setStatus('disconnected')
+    }
+  }, [queryClient, isAuthenticated])
+
+  return (
+    <RealtimeContext.Provider value={{ manager, status }}>
+      {children}
+    </RealtimeContext.Provider>
+  )
+}
+
+export function useRealtimeStatus(): RealtimeStatus {
+  return useRealtimeContext().status
+}
+
+// Interval to poll at while the socket is down; false while it's connected
+export function usePollingFallback(intervalMs: number): number | false {
+  return useRealtimeStatus() === 'connected' ? false : intervalMs
+}
+
+// Run a callback for each pushed event of the given type (the cache is
+// already updated by the time it runs)
+export function useRealtimeEvent<T extends RealtimeEvent['type']>(
+  type: T,
+  handler: (event: Extract<RealtimeEvent, { type: T }>) => void
+) {
+  const { manager } = useRealtimeContext()
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+
+  useEffect(() => {
+    if (!manager) return
+    return manager.subscribe(event => {
+      if (event.type === type) {
+        handlerRef.current(event as Extract<RealtimeEvent, { type: T }>)
+      }
+    })
+  }, [manager, type])
+}
@@ -0,0 +1,2 @@
+export { RealtimeProvider, useRealtimeStatus, usePollingFallback, useRealtimeEvent } from './RealtimeContext'
+export type { RealtimeStatus } from './manager'
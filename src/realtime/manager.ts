@@ -0,0 +1,211 @@
+import type { QueryClient } from '@tanstack/react-query'
+import { MOCK_API, WS_BASE } from '../config'
+import type { AdConcept, Confirmation, RealtimeEvent, SwipeJob, WorkLogEntry } from '../api'
+
+export type RealtimeStatus = 'connecting' | 'connected' | 'disconnected'
+
+type EventListener = (event: RealtimeEvent) => void
+type StatusListener = (status: RealtimeStatus) => void
+
+const MIN_BACKOFF_MS = 1000
+const MAX_BACKOFF_MS = 30000
+
+// Queries fed by pushed events. Refetched after a reconnect to catch up on
+// anything that happened while the socket was down.
+const LIVE_QUERY_KEYS = [['workLog'], ['concepts'], ['autonomous-status'], ['confirmations'], ['swipe-jobs'], ['alerts']]
+
+function eventsSocketUrl(): string {
+  const token = localStorage.getItem('auth_token')
+  return `${WS_BASE}/events/ws${token ? `?token=${encodeURIComponent(token)}` : ''}`
+}
+
+// Set once the mock backend has been loaded (mock mode only; production
+// builds leave the mock out)
+let MockSocket: typeof import('../mock').MockSocket | null = null
+
+function openSocket(url: string): WebSocket {
+  return MockSocket ? (new MockSocket(url) as unknown as WebSocket) : new WebSocket(url)
+}
+
+function upsert<T extends { id: string }>(items: T[] | undefined, item: T, prepend = false): T[] | undefined {
+  if (!items) return items
+  if (items.some(i => i.id === item.id)) {
+    return items.map(i => (i.id === item.id ? item : i))
+  }
+  return prepend ? [item, ...items] : [...items, item]
+}
+
+// Write a pushed event into the react-query cache
+function applyEvent(queryClient: QueryClient, event: RealtimeEvent) {
+  switch (event.type) {
+    case 'initial_state':
+      queryClient.setQueryData<SwipeJob[]>(['swipe-jobs'], event.jobs)
+      break
+
+    case 'job_update':
+      queryClient.setQueryData<SwipeJob[]>(['swipe-jobs'], jobs =>
+        jobs?.map(job =>
+          job.id === event.job_id
+            ? { ...job, progress: event.progress, progress_message: event.message, status: event.status }
+            : job
+        )
+      )
+      break
+
+    case 'work_log':
+      queryClient.setQueryData<WorkLogEntry[]>(['workLog'], entries => upsert(entries, event.entry))
+      break
+
+    case 'concept_update':
+      queryClient.setQueryData<AdConcept[]>(['concepts'], concepts => upsert(concepts, event.concept, true))
+      break
+
+    case 'concept_deleted':
+      queryClient.setQueryData<AdConcept[]>(['concepts'], concepts =>
+        concepts?.filter(c => c.id !== event.concept_id)
+      )
+      break
+
+    case 'autonomous_status':
+      queryClient.setQueryData(['autonomous-status'], event.status)
+      break
+
+    case 'confirmation': {
+      const { confirmation } = event
+      queryClient.setQueryData<Confirmation[]>(['confirmations', confirmation.conversation_id], confirmations =>
+        confirmation.status === 'pending'
+          ? upsert(confirmations, confirmation)
+          : confirmations?.filter(c => c.id !== confirmation.id)
+      )
+      // Resolving an action posts a follow-up message
+      if (confirmation.status !== 'pending') {
+        queryClient.invalidateQueries({ queryKey: ['messages', confirmation.conversation_id] })
+      }
+      break
+    }
+
+    case 'alert':
+      // Lists are filtered (unread, per rule), so refetch rather than splice
+      queryClient.invalidateQueries({ queryKey: ['alerts'] })
+      break
+  }
+}
+
+// Single shared socket for server-pushed updates. Reconnects with
+// exponential backoff; components poll (see usePollingFallback) while it's down.
+export class RealtimeManager {
+  status: RealtimeStatus = 'disconnected'
+
+  private queryClient: QueryClient
+  private socket: WebSocket | null = null
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private attempts = 0
+  private hasConnected = false
+  private stopped = true
+  private listeners = new Set<EventListener>()
+  private statusListeners = new Set<StatusListener>()
+
+  constructor(queryClient: QueryClient) {
+    this.queryClient = queryClient
+  }
+
+  start() {
+    if (!this.stopped) return
+    this.stopped = false
+    if (MOCK_API && !MockSocket) {
+      this.setStatus('connecting')
+      import('../mock').then(mock => {
+        MockSocket = mock.MockSocket
+        if (!this.stopped && !this.socket) this.connect()
+      })
+      return
+    }
+    this.connect()
+  }
+
+  stop() {
+    this.stopped = true
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    this.socket?.close()
+    this.socket = null
+    this.setStatus('disconnected')
+  }
+
+  subscribe(listener: EventListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener)
+    return () => {
+      this.statusListeners.delete(listener)
+    }
+  }
+
+  private setStatus(status: RealtimeStatus) {
+    if (this.status === status) return
+    this.status = status
+    this.statusListeners.forEach(listener => listener(status))
+  }
+
+  private connect() {
+    this.setStatus('connecting')
+    const socket = openSocket(eventsSocketUrl())
+    this.socket = socket
+
+    socket.onopen = () => {
+      this.attempts = 0
+      this.setStatus('connected')
+      if (this.hasConnected) {
+        LIVE_QUERY_KEYS.forEach(queryKey => this.queryClient.invalidateQueries({ queryKey }))
+      }
+      this.hasConnected = true
+    }
+
+    socket.onmessage = (message) => {
+      let event: RealtimeEvent
+      try {
+        event = JSON.parse(message.data)
+      } catch (e) {
+        console.error('Realtime message error:', e)
+        return
+      }
+
+      if (event.type === 'ping') {
+        socket.send(JSON.stringify({ type: 'pong' }))
+        return
+      }
+
+      applyEvent(this.queryClient, event)
+      this.listeners.forEach(listener => listener(event))
+    }
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      if (this.stopped) return
+      this.setStatus('disconnected')
+      this.scheduleReconnect()
+    }
+
+    socket.onerror = (error) => {
+      console.error('Realtime socket error:', error)
+    }
+  }
+
+  private scheduleReconnect() {
+    // Exponential backoff with jitter so clients don't reconnect in lockstep
+    const delay = Math.min(MAX_BACKOFF_MS, MIN_BACKOFF_MS * 2 ** this.attempts) * (0.5 + Math.random() / 2)
+    this.attempts++
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      if (!this.stopped) this.connect()
+    }, delay)
+  }
+}
@@ -0,0 +1,110 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import { buildPath, initialRedirect, parseLocation, Route, ViewType } from './routes'
+
+interface NavigateOptions {
+  // Swap the current history entry instead of pushing a new one
+  replace?: boolean
+}
+
+interface RouterContextType {
+  route: Route
+  navigate: (path: string, options?: NavigateOptions) => void
+}
+
+const RouterContext = createContext<RouterContextType | null>(null)
+
+function useRouterContext() {
+  const context = useContext(RouterContext)
+  if (!context) {
+    throw new Error('useRoute must be used within a RouterProvider')
+  }
+  return context
+}
+
+interface RouterProviderProps {
+  children: ReactNode
+}
+
+export function RouterProvider({ children }: RouterProviderProps) {
+  const [route, setRoute] = useState<Route>(() => {
+    const redirect = initialRedirect(window.location)
+    if (redirect) window.history.replaceState(null, '', redirect)
+    return parseLocation(window.location)
+  })
+
+  // Browser back/forward
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseLocation(window.location))
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  // Remember the last view so the bare root opens where the user left off
+  useEffect(() => {
+    localStorage.setItem('currentView', route.view)
+  }, [route.view])
+
+  const navigate = useCallback((path: string, options: NavigateOptions = {}) => {
+    const current = window.location.pathname + window.location.search
+    if (path === current) return
+    if (options.replace) {
+      window.history.replaceState(null, '', path)
+    } else {
+      window.history.pushState(null, '', path)
+    }
+    setRoute(parseLocation(window.location))
+  }, [])
+
+  return (
+    <RouterContext.Provider value={{ route, navigate }}>
+      {children}
+    </RouterContext.Provider>
+  )
+}
+
+export function useRoute(): Route {
+  return useRouterContext().route
+}
+
+export function useNavigate() {
+  return useRouterContext().navigate
+}
+
+// The id segment of the current route while `view` is showing, with a setter
+// that pushes a history entry (query string is kept)
+export function useRouteId(view: ViewType): [string | null, (id: string | null, options?: NavigateOptions) => void] {
+  const { route, navigate } = useRouterContext()
+  const id = route.view === view ? route.id : null
+
+  const setId = useCallback(
+    (nextId: string | null, options?: NavigateOptions) => {
+      navigate(buildPath(view, nextId, new URLSearchParams(window.location.search)), options)
+    },
+    [navigate, view]
+  )
+
+  return [id, setId]
+}
+
+// A query-string value with a default. Updating it replaces the history
+// entry, and the default is left out of the URL.
+export function useSearchParam<T extends string>(key: string, defaultValue: T): [T, (value: T) => void] {
+  const { route, navigate } = useRouterContext()
+  const value = (route.search.get(key) as T | null) ?? defaultValue
+
+  const setValue = useCallback(
+    (nextValue: T) => {
+      const search = new URLSearchParams(window.location.search)
+      if (nextValue === defaultValue || nextValue === '') {
+        search.delete(key)
+      } else {
+        search.set(key, nextValue)
+      }
+      const qs = search.toString()
+      navigate(`${window.location.pathname}${qs ? `?${qs}` : ''}`, { replace: true })
+    },
+    [navigate, key, defaultValue]
+  )
+
+  return [value, setValue]
+}
@@ -0,0 +1,3 @@
+export { RouterProvider, useRoute, useNavigate, useRouteId, useSearchParam } from './RouterContext'
+export { buildPath, VIEWS } from './routes'
+export type { Route, ViewType } from './routes'
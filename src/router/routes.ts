@@ -0,0 +1,48 @@
+// Path <-> route mapping. Every top-level view lives at /<view>, and views
+// with a detail pane take an optional id: /work/<conceptId>, /swipes/<swipeId>,
+// /chat/<conversationId>, /products/<productId>, /learnings/<learningId>.
+
+export type ViewType = 'chat' | 'work' | 'campaigns' | 'analytics' | 'learnings' | 'swipes' | 'studio' | 'products' | 'settings'
+
+export const VIEWS: ViewType[] = ['chat', 'work', 'campaigns', 'analytics', 'learnings', 'swipes', 'studio', 'products', 'settings']
+
+export const DEFAULT_VIEW: ViewType = 'chat'
+
+export interface Route {
+  view: ViewType
+  id: string | null
+  search: URLSearchParams
+}
+
+function isView(value: string): value is ViewType {
+  return VIEWS.includes(value as ViewType)
+}
+
+// Last visited view, used when the path doesn't name one
+function storedView(): ViewType {
+  const stored = localStorage.getItem('currentView')
+  return stored && isView(stored) ? stored : DEFAULT_VIEW
+}
+
+export function parseLocation(location: Location): Route {
+  const [view = '', id] = location.pathname.split('/').filter(Boolean)
+  return {
+    view: isView(view) ? view : storedView(),
+    id: isView(view) && id ? decodeURIComponent(id) : null,
+    search: new URLSearchParams(location.search),
+  }
+}
+
+export function buildPath(view: ViewType, id?: string | null, search?: URLSearchParams): string {
+  const path = id ? `/${view}/${encodeURIComponent(id)}` : `/${view}`
+  const qs = search?.toString()
+  return qs ? `${path}?${qs}` : path
+}
+
+// Where to redirect on load: old #view links and the bare root
+export function initialRedirect(location: Location): string | null {
+  const hash = location.hash.slice(1)
+  if (hash && isView(hash)) return buildPath(hash)
+  if (location.pathname === '/' && !hash) return buildPath(storedView())
+  return null
+}
@@ -0,0 +1,51 @@
+// Winner/loser classification of ads against PerformanceGoals.
+// Ads linked to a concept use that product's goals when it has its own.
+
+import type { AdConcept, AdInsights, FBAd, PerformanceGoals } from '../api'
+import { num } from './metrics'
+
+export type AdTier = 'super_winner' | 'winner' | 'promising' | 'loser' | 'insufficient_data'
+
+// Best first; also the sort order
+export const AD_TIERS: AdTier[] = ['super_winner', 'winner', 'promising', 'loser', 'insufficient_data']
+
+export const TIER_LABELS: Record<AdTier, string> = {
+  super_winner: 'Super Winner',
+  winner: 'Winner',
+  promising: 'Promising',
+  loser: 'Loser',
+  insufficient_data: 'Insufficient Data',
+}
+
+export function classifyAd(insights: AdInsights | undefined, goals: PerformanceGoals): AdTier {
+  const spend = num(insights?.spend)
+  const purchases = num(insights?.purchases)
+  const cpa = purchases > 0 ? num(insights?.cost_per_purchase) || spend / purchases : null
+  const roas = num(insights?.roas)
+
+  const onTarget = cpa !== null && cpa <= goals.target_cpa && (!goals.target_roas || roas >= goals.target_roas)
+
+  if (onTarget && spend >= goals.super_winner_min_spend) return 'super_winner'
+  if (onTarget && spend >= goals.winner_min_spend) return 'winner'
+  // Early sales at a good CPA before the ad has spent enough to prove itself
+  if (
+    cpa !== null && cpa <= goals.target_cpa &&
+    spend < goals.promising_max_spend &&
+    purchases >= goals.promising_min_sales
+  ) return 'promising'
+  if (!onTarget && spend >= goals.loser_min_spend) return 'loser'
+  return 'insufficient_data'
+}
+
+// The product an ad was pushed for, via the concept that created it
+export function adProductId(ad: FBAd, concepts: AdConcept[]): string | null {
+  return concepts.find(c => c.fb_ad_ids?.includes(ad.id))?.product_id || null
+}
+
+export function goalsForProduct(
+  productId: string | null,
+  defaults: PerformanceGoals,
+  productGoals: PerformanceGoals[]
+): PerformanceGoals {
+  return (productId && productGoals.find(g => g.product_id === productId)) || defaults
+}
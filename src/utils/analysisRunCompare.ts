@@ -0,0 +1,93 @@
+// Side-by-side comparison of two analyze-ads runs: what went in (ads,
+// metrics, goals, model) and what came out (verdicts, learnings).
+
+import type { AnalysisRun, AnalysisRunAd, AppliedLearning, PerformanceGoals } from '../api'
+import { DUPLICATE_THRESHOLD, similarity } from './learningOverlap'
+
+export interface RunAdRow {
+  ad_id: string
+  ad_name: string
+  // null when the ad wasn't an input to that run
+  a: AnalysisRunAd | null
+  b: AnalysisRunAd | null
+}
+
+export interface RunValueChange {
+  label: string
+  a: string
+  b: string
+}
+
+export interface RunComparison {
+  ads: RunAdRow[]
+  verdictChanges: number
+  inputChanges: RunValueChange[]
+  // Re-runs create new learning ids, so learnings are paired by wording
+  sharedLearnings: Array<{ a: AppliedLearning; b: AppliedLearning }>
+  onlyA: AppliedLearning[]
+  onlyB: AppliedLearning[]
+}
+
+const GOAL_FIELDS: Array<{ key: keyof PerformanceGoals; label: string; format: (v: number) => string }> = [
+  { key: 'target_cpa', label: 'Target CPA', format: v => `$${v}` },
+  { key: 'target_roas', label: 'Target ROAS', format: v => `${v}x` },
+  { key: 'winner_min_spend', label: 'Winner min spend', format: v => `$${v}` },
+  { key: 'loser_min_spend', label: 'Loser min spend', format: v => `$${v}` },
+]
+
+function pairLearnings(a: AppliedLearning[], b: AppliedLearning[]) {
+  const shared: RunComparison['sharedLearnings'] = []
+  const unmatched = [...b]
+  const onlyA: AppliedLearning[] = []
+  for (const learning of a) {
+    let bestIndex = -1
+    let bestScore = DUPLICATE_THRESHOLD
+    unmatched.forEach((other, i) => {
+      if (other.type !== learning.type) return
+      const score = other.id === learning.id ? 1 : similarity(learning.insight, other.insight)
+      if (score >= bestScore) {
+        bestScore = score
+        bestIndex = i
+      }
+    })
+    if (bestIndex === -1) {
+      onlyA.push(learning)
+    } else {
+      shared.push({ a: learning, b: unmatched[bestIndex] })
+      unmatched.splice(bestIndex, 1)
+    }
+  }
+  return { shared, onlyA, onlyB: unmatched }
+}
+
+export function compareRuns(a: AnalysisRun, b: AnalysisRun): RunComparison {
+  const rows = new Map<string, RunAdRow>()
+  for (const ad of a.ads) rows.set(ad.ad_id, { ad_id: ad.ad_id, ad_name: ad.ad_name, a: ad, b: null })
+  for (const ad of b.ads) {
+    const row = rows.get(ad.ad_id)
+    if (row) {
+      row.b = ad
+    } else {
+      rows.set(ad.ad_id, { ad_id: ad.ad_id, ad_name: ad.ad_name, a: null, b: ad })
+    }
+  }
+  const ads = Array.from(rows.values())
+
+  const inputChanges: RunValueChange[] = []
+  if (a.model_id !== b.model_id) inputChanges.push({ label: 'Model', a: a.model_id, b: b.model_id })
+  for (const field of GOAL_FIELDS) {
+    const valueA = a.goals[field.key] as number
+    const valueB = b.goals[field.key] as number
+    if (valueA !== valueB) inputChanges.push({ label: field.label, a: field.format(valueA), b: field.format(valueB) })
+  }
+
+  const { shared, onlyA, onlyB } = pairLearnings(a.learnings, b.learnings)
+  return {
+    ads,
+    verdictChanges: ads.filter(row => row.a && row.b && row.a.verdict !== row.b.verdict).length,
+    inputChanges,
+    sharedLearnings: shared,
+    onlyA,
+    onlyB,
+  }
+}
@@ -0,0 +1,247 @@
+// Shareable Analytics reports: a self-contained HTML document built from
+// a ReportTemplate, downloaded as-is or printed to PDF by the browser.
+
+import type { AdInsights, DateRange, FBAd, Learning, ReportSection, ReportTemplateInput } from '../api'
+import { formatRange } from './dateRange'
+import { formatNumber, formatTrafficQuality, num } from './metrics'
+
+export type MetricFormatter = 'currency' | 'percent' | 'ratio' | 'number' | 'roas'
+
+export interface ReportMetric {
+  id: string
+  label: string
+  formatter: MetricFormatter
+}
+
+export interface ReportData {
+  template: ReportTemplateInput
+  productName: string | null
+  range: DateRange
+  insights: AdInsights | null
+  metrics: ReportMetric[]
+  ads: FBAd[]
+  learnings: Learning[]
+}
+
+export const REPORT_SECTIONS: Array<{ id: ReportSection; label: string }> = [
+  { id: 'overview', label: 'Overview metrics' },
+  { id: 'ai_vs_manual', label: 'AI vs manual ads' },
+  { id: 'top_ads', label: 'Top ads' },
+  { id: 'bottom_ads', label: 'Bottom ads' },
+  { id: 'learnings', label: 'New learnings' },
+]
+
+// Starting point when the backend has no default template saved yet
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplateInput = {
+  title: 'Performance Report',
+  brand_name: '',
+  brand_color: '#000000',
+  logo_url: null,
+  intro: '',
+  sections: REPORT_SECTIONS.map(s => s.id),
+  overview_metrics: [],
+  ads_count: 3,
+}
+
+export interface AdGroupStats {
+  count: number
+  avgCtr: number
+  avgCpc: number
+  avgCostPerPurchase: number
+  avgRoas: number
+  totalSpend: number
+  totalPurchases: number
+}
+
+function groupStats(ads: FBAd[]): AdGroupStats {
+  // Averages skip ads with no value for the metric
+  const avg = (field: keyof AdInsights) => {
+    const values = ads.map(a => num(a.insights?.[field])).filter(v => v > 0)
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0
+  }
+  const total = (field: keyof AdInsights) => ads.reduce((sum, a) => sum + num(a.insights?.[field]), 0)
+  return {
+    count: ads.length,
+    avgCtr: avg('link_ctr'),
+    avgCpc: avg('link_cpc'),
+    avgCostPerPurchase: avg('cost_per_purchase'),
+    avgRoas: avg('roas'),
+    totalSpend: total('spend'),
+    totalPurchases: total('purchases'),
+  }
+}
+
+export function aiVsManual(ads: FBAd[]): { ai: AdGroupStats; manual: AdGroupStats } {
+  return {
+    ai: groupStats(ads.filter(a => a.is_ai_generated)),
+    manual: groupStats(ads.filter(a => !a.is_ai_generated)),
+  }
+}
+
+// Best and worst ads by ROAS among those that spent; an ad never shows in both
+export function rankAds(ads: FBAd[], count: number): { top: FBAd[]; bottom: FBAd[] } {
+  const ranked = ads
+    .filter(ad => num(ad.insights?.spend) > 0)
+    .sort((a, b) => num(b.insights?.roas) - num(a.insights?.roas) || num(b.insights?.spend) - num(a.insights?.spend))
+  const top = ranked.slice(0, count)
+  const bottom = ranked.slice(Math.max(count, ranked.length - count)).reverse()
+  return { top, bottom }
+}
+
+export function formatMetric(value: unknown, formatter: MetricFormatter): string {
+  return formatNumber(value, n => {
+    switch (formatter) {
+      case 'currency':
+        return `$${n.toFixed(2)}`
+      case 'percent':
+        return `${n.toFixed(2)}%`
+      case 'ratio':
+        return formatTrafficQuality(n)
+      case 'roas':
+        return `${n.toFixed(2)}x`
+      case 'number':
+      default:
+        return n.toLocaleString()
+    }
+  })
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!)
+
+function adsTable(ads: FBAd[]): string {
+  if (ads.length === 0) return '<p class="muted">No ads with spend in this period.</p>'
+  const rows = ads.map(ad => `
+      <tr>
+        <td class="ad">
+          ${ad.thumbnail_url ? `<img src="${escapeHtml(ad.thumbnail_url)}" alt="" />` : '<span class="thumb"></span>'}
+          <span>${escapeHtml(ad.name)}${ad.is_ai_generated ? ' <em>AI</em>' : ''}</span>
+        </td>
+        <td>${formatMetric(ad.insights?.spend, 'currency')}</td>
+        <td>${formatMetric(ad.insights?.purchases, 'number')}</td>
+        <td>${formatMetric(ad.insights?.cost_per_purchase, 'currency')}</td>
+        <td>${formatMetric(ad.insights?.roas, 'roas')}</td>
+        <td>${formatMetric(ad.insights?.link_ctr, 'percent')}</td>
+      </tr>`).join('')
+  return `
+    <table>
+      <thead><tr><th>Ad</th><th>Spend</th><th>Purch</th><th>CPA</th><th>ROAS</th><th>CTR</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`
+}
+
+function sectionHtml(section: ReportSection, data: ReportData): string {
+  const { template, insights, metrics, ads, learnings } = data
+  switch (section) {
+    case 'overview':
+      if (!insights) return ''
+      return `
+        <h2>Overview</h2>
+        <div class="cards">
+          ${metrics.map(m => `
+            <div class="card">
+              <p class="muted">${escapeHtml(m.label)}</p>
+              <p class="value">${formatMetric(insights[m.id as keyof AdInsights], m.formatter)}</p>
+            </div>`).join('')}
+        </div>`
+    case 'ai_vs_manual': {
+      const { ai, manual } = aiVsManual(ads)
+      const row = (label: string, a: string, b: string) => `<tr><td>${label}</td><td>${a}</td><td>${b}</td></tr>`
+      return `
+        <h2>AI vs Manual Ads</h2>
+        <table class="compare">
+          <thead><tr><th></th><th>AI (${ai.count})</th><th>Manual (${manual.count})</th></tr></thead>
+          <tbody>
+            ${row('Spend', formatMetric(ai.totalSpend, 'currency'), formatMetric(manual.totalSpend, 'currency'))}
+            ${row('Purchases', formatMetric(ai.totalPurchases, 'number'), formatMetric(manual.totalPurchases, 'number'))}
+            ${row('Avg CPA', formatMetric(ai.avgCostPerPurchase, 'currency'), formatMetric(manual.avgCostPerPurchase, 'currency'))}
+            ${row('Avg ROAS', formatMetric(ai.avgRoas, 'roas'), formatMetric(manual.avgRoas, 'roas'))}
+            ${row('Avg CTR', formatMetric(ai.avgCtr, 'percent'), formatMetric(manual.avgCtr, 'percent'))}
+          </tbody>
+        </table>`
+    }
+    case 'top_ads':
+      return `<h2>Top Ads</h2>${adsTable(rankAds(ads, template.ads_count).top)}`
+    case 'bottom_ads':
+      return `<h2>Bottom Ads</h2>${adsTable(rankAds(ads, template.ads_count).bottom)}`
+    case 'learnings':
+      return `
+        <h2>New Learnings</h2>
+        ${learnings.length === 0
+          ? '<p class="muted">No learnings were added in this period.</p>'
+          : `<ul class="learnings">${learnings.map(l => `
+              <li>
+                <span class="tag ${l.type === 'avoid' ? 'avoid' : 'do'}">${l.type === 'avoid' ? 'Avoid' : 'Do'}</span>
+                ${escapeHtml(l.insight)}
+                <span class="muted">${escapeHtml(l.category)} · ${Math.round(l.confidence * 100)}% confidence</span>
+              </li>`).join('')}</ul>`}`
+  }
+}
+
+export function renderReportHtml(data: ReportData): string {
+  const { template, productName, range } = data
+  const color = /^#[0-9a-f]{3,8}$/i.test(template.brand_color) ? template.brand_color : '#000000'
+  const subtitle = [productName, formatRange(range)].filter(Boolean).join(' · ')
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(template.title)} — ${escapeHtml(formatRange(range))}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #000; margin: 0; padding: 32px; }
+  header { border-bottom: 4px solid ${color}; padding-bottom: 16px; margin-bottom: 24px; display: flex; align-items: center; gap: 16px; }
+  header img { height: 40px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 12px; letter-spacing: 0.05em; text-transform: uppercase; color: ${color}; margin: 28px 0 12px; }
+  .muted { color: #737373; font-size: 12px; margin: 0; }
+  .intro { font-size: 14px; line-height: 1.5; white-space: pre-wrap; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; }
+  .card { border: 1px solid #E5E5E5; padding: 12px; }
+  .value { font-size: 20px; font-weight: 600; margin: 4px 0 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th { text-align: right; font-weight: 500; color: #737373; font-size: 11px; padding: 8px; border-bottom: 1px solid #E5E5E5; }
+  td { text-align: right; padding: 8px; border-bottom: 1px solid #F5F5F5; }
+  th:first-child, td:first-child { text-align: left; }
+  td.ad { display: flex; align-items: center; gap: 8px; }
+  td.ad img, td.ad .thumb { width: 36px; height: 36px; object-fit: cover; background: #F5F5F5; flex-shrink: 0; }
+  em { font-style: normal; font-size: 10px; border: 1px solid #E5E5E5; padding: 0 4px; color: #737373; }
+  .learnings { padding: 0; list-style: none; font-size: 13px; }
+  .learnings li { padding: 8px 0; border-bottom: 1px solid #F5F5F5; }
+  .learnings .muted { display: block; margin-top: 2px; }
+  .tag { font-size: 10px; padding: 1px 6px; margin-right: 6px; }
+  .tag.do { background: #F0FDF4; color: #15803D; }
+  .tag.avoid { background: #FEF2F2; color: #B91C1C; }
+  footer { margin-top: 40px; color: #A3A3A3; font-size: 11px; }
+  @media print { body { padding: 0; } h2 { break-after: avoid; } tr, .card { break-inside: avoid; } }
+</style>
+</head>
+<body>
+  <header>
+    ${template.logo_url ? `<img src="${escapeHtml(template.logo_url)}" alt="" />` : ''}
+    <div>
+      <h1>${escapeHtml(template.title)}</h1>
+      <p class="muted">${escapeHtml(subtitle)}</p>
+    </div>
+  </header>
+  ${template.intro ? `<p class="intro">${escapeHtml(template.intro)}</p>` : ''}
+  ${template.sections.map(section => sectionHtml(section, data)).join('\n')}
+  <footer>${escapeHtml(template.brand_name)} · Generated ${new Date().toLocaleString()}</footer>
+</body>
+</html>`
+}
+
+// Opens the browser's print dialog for the report, where it can be saved as PDF
+export function printReport(html: string) {
+  const frame = document.createElement('iframe')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  frame.srcdoc = html
+  frame.onload = () => {
+    frame.contentWindow?.print()
+    // Printing blocks until the dialog closes in most browsers
+    setTimeout(() => frame.remove(), 1000)
+  }
+  document.body.appendChild(frame)
+}
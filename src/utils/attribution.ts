@@ -0,0 +1,116 @@
+// Attribution of pushed-ad performance back to what generated the concept:
+// format, research patterns, hypothesis confidence, image style and
+// awareness stage. Only ads linked to a concept through fb_ad_ids count.
+
+import type { AdConcept, FBAd } from '../api'
+import type { AdTier } from './adTiers'
+import { conceptFormat } from './conceptFilters'
+import { num } from './metrics'
+
+export type AttributionDimension =
+  | 'format'
+  | 'pattern_source'
+  | 'emotional_valence'
+  | 'confidence'
+  | 'style_preset'
+  | 'awareness_stage'
+
+export const ATTRIBUTION_DIMENSIONS: Array<{ id: AttributionDimension; label: string }> = [
+  { id: 'format', label: 'Format' },
+  { id: 'pattern_source', label: 'Pattern Source' },
+  { id: 'emotional_valence', label: 'Emotional Valence' },
+  { id: 'confidence', label: 'Confidence' },
+  { id: 'style_preset', label: 'Style Preset' },
+  { id: 'awareness_stage', label: 'Awareness Stage' },
+]
+
+export const UNKNOWN_KEY = 'unknown'
+
+export interface AttributionRow {
+  key: string
+  ads: number
+  concepts: number
+  spend: number
+  purchases: number
+  cpa: number | null
+  roas: number | null
+  // Winners and super winners, out of ads with enough data to call
+  winners: number
+  decided: number
+  winRate: number | null
+}
+
+export function confidenceBucket(confidence: number | undefined): string {
+  if (confidence === undefined || confidence === null) return UNKNOWN_KEY
+  if (confidence >= 0.75) return 'high'
+  if (confidence >= 0.5) return 'medium'
+  return 'low'
+}
+
+// A concept built on several patterns counts once under each distinct value
+export function attributionKeys(concept: AdConcept, dimension: AttributionDimension): string[] {
+  const patterns = concept.patterns_used || []
+  const distinct = (values: Array<string | undefined>) => {
+    const keys = Array.from(new Set(values.filter(Boolean))) as string[]
+    return keys.length > 0 ? keys : [UNKNOWN_KEY]
+  }
+  switch (dimension) {
+    case 'format':
+      return [conceptFormat(concept) || UNKNOWN_KEY]
+    case 'pattern_source':
+      return distinct(patterns.map(p => p.source))
+    case 'emotional_valence':
+      return distinct(patterns.map(p => p.emotional_valence))
+    case 'confidence':
+      return [confidenceBucket(concept.hypothesis?.confidence)]
+    case 'style_preset':
+      return [concept.hypothesis?.image_preset_id || UNKNOWN_KEY]
+    case 'awareness_stage':
+      return [concept.hypothesis?.awareness_stage || UNKNOWN_KEY]
+  }
+}
+
+export function buildAttribution(
+  ads: FBAd[],
+  conceptByAdId: Map<string, AdConcept>,
+  tierByAdId: Map<string, AdTier>,
+  dimension: AttributionDimension
+): AttributionRow[] {
+  const groups = new Map<string, { ads: number; concepts: Set<string>; spend: number; purchases: number; revenue: number; winners: number; decided: number }>()
+
+  for (const ad of ads) {
+    const concept = conceptByAdId.get(ad.id)
+    if (!concept) continue
+    const spend = num(ad.insights?.spend)
+    const purchases = num(ad.insights?.purchases)
+    const revenue = num(ad.insights?.roas) * spend
+    const tier = tierByAdId.get(ad.id)
+
+    for (const key of attributionKeys(concept, dimension)) {
+      const group = groups.get(key) || { ads: 0, concepts: new Set<string>(), spend: 0, purchases: 0, revenue: 0, winners: 0, decided: 0 }
+      group.ads++
+      group.concepts.add(concept.id)
+      group.spend += spend
+      group.purchases += purchases
+      group.revenue += revenue
+      if (tier && tier !== 'insufficient_data') group.decided++
+      if (tier === 'winner' || tier === 'super_winner') group.winners++
+      groups.set(key, group)
+    }
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, g]) => ({
+      key,
+      ads: g.ads,
+      concepts: g.concepts.size,
+      spend: g.spend,
+      purchases: g.purchases,
+      cpa: g.purchases > 0 ? g.spend / g.purchases : null,
+      roas: g.spend > 0 ? g.revenue / g.spend : null,
+      winners: g.winners,
+      decided: g.decided,
+      winRate: g.decided > 0 ? g.winners / g.decided : null,
+    }))
+    .sort((a, b) => b.spend - a.spend)
+}
@@ -0,0 +1,30 @@
+// Facebook insights breakdown dimensions and how their values read in the UI
+
+import type { BreakdownDimension } from '../api'
+
+export const BREAKDOWN_DIMENSIONS: Array<{ id: BreakdownDimension; label: string }> = [
+  { id: 'age', label: 'Age' },
+  { id: 'gender', label: 'Gender' },
+  { id: 'publisher_platform', label: 'Platform' },
+  { id: 'placement', label: 'Placement' },
+  { id: 'device_platform', label: 'Device' },
+  { id: 'region', label: 'Region' },
+]
+
+const PLATFORMS = ['audience_network', 'facebook', 'instagram', 'messenger']
+
+const humanize = (value: string) => value.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase())
+
+export function isBreakdownDimension(value: string): value is BreakdownDimension {
+  return BREAKDOWN_DIMENSIONS.some(d => d.id === value)
+}
+
+// "instagram_stories" -> "Instagram · Stories"; age and region values are already readable
+export function breakdownLabel(dimension: BreakdownDimension, value: string): string {
+  if (dimension === 'age' || dimension === 'region') return value
+  if (dimension === 'placement') {
+    const platform = PLATFORMS.find(p => value.startsWith(`${p}_`))
+    if (platform) return `${humanize(platform)} · ${humanize(value.slice(platform.length + 1))}`
+  }
+  return humanize(value)
+}
@@ -0,0 +1,231 @@
+// Concept export: CSV, JSON and a Facebook Ads Manager bulk-import sheet,
+// optionally zipped together with the image assets.
+
+import type { AdConcept } from '../api'
+import { createZip, ZipEntry } from './zip'
+
+export type ExportFormat = 'csv' | 'json' | 'fb_bulk'
+
+// Ads Manager bulk-import settings that aren't stored on the concept
+export interface FBSheetOptions {
+  campaign_name: string
+  adset_name: string
+  link_url: string
+  call_to_action: string
+  status: 'ACTIVE' | 'PAUSED'
+}
+
+export interface ExportOptions {
+  format: ExportFormat
+  includeImages: boolean
+  fbSheet?: FBSheetOptions
+}
+
+export const CALL_TO_ACTIONS = ['SHOP_NOW', 'LEARN_MORE', 'ORDER_NOW', 'GET_OFFER', 'SIGN_UP']
+
+interface ImageAsset {
+  fileName: string
+  // Original URL for hosted images; null for embedded (base64/data URI) ones
+  url: string | null
+  source: string
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+}
+
+// Concepts in a batch share a batch number, so names also carry the concept id
+const conceptFileBase = (concept: AdConcept) => `${concept.batch_number}_${concept.id}`
+
+function imageAssets(concept: AdConcept): ImageAsset[] {
+  return (concept.images || []).map((img, i) => {
+    const isUrl = img.startsWith('http')
+    const mime = img.startsWith('data:') ? img.slice(5, img.indexOf(';')) : 'image/png'
+    const ext = isUrl
+      ? img.split('?')[0].match(/\.(png|jpe?g|webp|gif|svg)$/i)?.[1].toLowerCase() || 'png'
+      : EXTENSIONS[mime] || 'png'
+    return {
+      fileName: `${conceptFileBase(concept)}_${i + 1}.${ext}`,
+      url: isUrl ? img : null,
+      source: img,
+    }
+  })
+}
+
+// Where an export file points for an image: the bundled file, the hosted
+// URL, or nothing for embedded images that aren't being bundled
+function imageReference(asset: ImageAsset, includeImages: boolean): string {
+  if (includeImages) return `images/${asset.fileName}`
+  return asset.url || ''
+}
+
+async function imageBytes(source: string): Promise<Uint8Array> {
+  if (source.startsWith('http')) {
+    const res = await fetch(source)
+    if (!res.ok) throw new Error(`Failed to fetch ${source}`)
+    return new Uint8Array(await res.arrayBuffer())
+  }
+  if (source.startsWith('data:')) {
+    const [header, payload] = source.split(',', 2)
+    if (!header.endsWith(';base64')) {
+      return new TextEncoder().encode(decodeURIComponent(payload))
+    }
+    source = payload
+  }
+  const binary = atob(source)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+// ============ Writers ============
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCSV(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n')
+}
+
+// Variant columns (primary_text_1, primary_text_2...) sized to the longest list
+function numberedColumns(prefix: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix}_${i + 1}`)
+}
+
+function conceptsCSV(concepts: AdConcept[], includeImages: boolean): string {
+  const maxTexts = Math.max(0, ...concepts.map(c => c.primary_texts?.length || 0))
+  const maxHeadlines = Math.max(0, ...concepts.map(c => c.headlines?.length || 0))
+  const maxImages = Math.max(0, ...concepts.map(c => c.images?.length || 0))
+
+  const header = [
+    'id', 'batch_number', 'status', 'product_id', 'format_id', 'rating', 'created_at',
+    'hypothesis', 'reasoning', 'angle', 'awareness_stage', 'target_avatar', 'confidence',
+    'patterns',
+    ...numberedColumns('primary_text', maxTexts),
+    ...numberedColumns('headline', maxHeadlines),
+    ...numberedColumns('image', maxImages),
+    'check_passed', 'check_score', 'check_issues', 'check_strengths', 'ai_slop_detected',
+    'user_notes', 'fb_ad_ids',
+  ]
+
+  const rows = concepts.map(c => {
+    const images = imageAssets(c).map(asset => imageReference(asset, includeImages))
+    const pad = (values: string[] = [], count: number) =>
+      Array.from({ length: count }, (_, i) => values[i] ?? '')
+    return [
+      c.id, c.batch_number, c.status, c.product_id, c.format_id || c.hypothesis?.format_id, c.rating, c.created_at,
+      c.hypothesis?.hypothesis, c.hypothesis?.reasoning, c.hypothesis?.angle, c.hypothesis?.awareness_stage,
+      c.hypothesis?.target_avatar, c.hypothesis?.confidence,
+      (c.patterns_used || []).map(p => p.pattern).join(' | '),
+      ...pad(c.primary_texts, maxTexts),
+      ...pad(c.headlines, maxHeadlines),
+      ...pad(images, maxImages),
+      c.principle_check?.passed, c.principle_check?.score,
+      (c.principle_check?.issues || []).map(i => `${i.rule}: ${i.problem}`).join(' | '),
+      (c.principle_check?.strengths || []).join(' | '),
+      (c.principle_check?.ai_slop_detected || []).join(' | '),
+      c.user_notes, (c.fb_ad_ids || []).join(' | '),
+    ]
+  })
+
+  return toCSV(header, rows)
+}
+
+function conceptsJSON(concepts: AdConcept[], includeImages: boolean): string {
+  const data = concepts.map(c => ({
+    ...c,
+    images: imageAssets(c).map(asset => imageReference(asset, includeImages)),
+  }))
+  return JSON.stringify({ exported_at: new Date().toISOString(), concepts: data }, null, 2)
+}
+
+// One row per image (one imageless row for concepts without images), in the
+// column layout Ads Manager's bulk import expects. Each ad takes the first
+// headline and primary text; the export modal says so.
+function fbBulkSheet(concepts: AdConcept[], options: FBSheetOptions, includeImages: boolean): string {
+  const header = [
+    'Campaign Name', 'Ad Set Name', 'Ad Name', 'Ad Status',
+    'Title', 'Body', 'Link', 'Image File Name', 'Call to Action',
+  ]
+  const rows = concepts.flatMap(c => {
+    const assets = imageAssets(c)
+    const row = (adName: string, imageFile: string) => [
+      options.campaign_name,
+      options.adset_name || `${c.batch_number} | ${c.format_id || 'concept'}`,
+      adName,
+      options.status,
+      c.headlines?.[0] || '',
+      c.primary_texts?.[0] || '',
+      options.link_url,
+      imageFile,
+      options.call_to_action,
+    ]
+    if (assets.length === 0) return [row(conceptFileBase(c), '')]
+    return assets.map((asset, i) =>
+      row(`${conceptFileBase(c)}_${i + 1}`, includeImages ? asset.fileName : asset.url || '')
+    )
+  })
+  return toCSV(header, rows)
+}
+
+// ============ Entry point ============
+
+const FILE_NAMES: Record<ExportFormat, string> = {
+  csv: 'concepts.csv',
+  json: 'concepts.json',
+  fb_bulk: 'fb-bulk-upload.csv',
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  // Firefox only follows clicks on anchors that are in the document, and
+  // revoking straight away can cancel the download before it starts
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+// Builds the export and starts the download. Returns image files that
+// couldn't be fetched (hosted images blocked by CORS, say).
+export async function exportConcepts(concepts: AdConcept[], options: ExportOptions): Promise<string[]> {
+  const { format, includeImages } = options
+  const content =
+    format === 'json'
+      ? conceptsJSON(concepts, includeImages)
+      : format === 'fb_bulk'
+        ? fbBulkSheet(concepts, options.fbSheet!, includeImages)
+        : conceptsCSV(concepts, includeImages)
+  const fileName = FILE_NAMES[format]
+  const stamp = new Date().toISOString().slice(0, 10)
+
+  if (!includeImages) {
+    const type = format === 'json' ? 'application/json' : 'text/csv'
+    downloadBlob(new Blob([content], { type }), `${stamp}-${fileName}`)
+    return []
+  }
+
+  const entries: ZipEntry[] = [{ name: fileName, data: content }]
+  const failed: string[] = []
+  for (const asset of concepts.flatMap(imageAssets)) {
+    try {
+      entries.push({ name: `images/${asset.fileName}`, data: await imageBytes(asset.source) })
+    } catch (err) {
+      console.error(`Failed to bundle ${asset.fileName}:`, err)
+      failed.push(asset.fileName)
+    }
+  }
+
+  downloadBlob(createZip(entries), `${stamp}-concepts-export.zip`)
+  return failed
+}
@@ -0,0 +1,89 @@
+// Full-text search and advanced filters for ConceptList.
+// Presets store a ConceptFilters object, so everything here must stay
+// serialisable and tolerate fields missing from older presets.
+
+import type { AdConcept, ConceptFilters } from '../api'
+
+export const EMPTY_FILTERS: ConceptFilters = {
+  query: '',
+  status: '',
+  product_id: '',
+  format_id: '',
+  check: '',
+  min_score: null,
+  max_score: null,
+  min_rating: 0,
+  date_from: '',
+  date_to: '',
+  pushed: '',
+}
+
+// Everything the search box looks at, lower-cased
+function searchableText(concept: AdConcept): string {
+  return [
+    concept.batch_number,
+    ...(concept.primary_texts || []),
+    ...(concept.headlines || []),
+    concept.hypothesis?.hypothesis,
+    concept.hypothesis?.angle,
+    ...(concept.patterns_used || []).map(p => p.pattern),
+    concept.user_notes,
+  ]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase()
+}
+
+export function conceptFormat(concept: AdConcept): string | undefined {
+  return concept.format_id || concept.hypothesis?.format_id
+}
+
+export function matchesFilters(concept: AdConcept, filters: ConceptFilters): boolean {
+  const f = { ...EMPTY_FILTERS, ...filters }
+
+  if (f.query.trim()) {
+    // Every word must appear somewhere, in any field
+    const text = searchableText(concept)
+    const words = f.query.toLowerCase().split(/\s+/).filter(Boolean)
+    if (!words.every(w => text.includes(w))) return false
+  }
+
+  if (f.status && concept.status !== f.status) return false
+  if (f.product_id && concept.product_id !== f.product_id) return false
+  if (f.format_id && conceptFormat(concept) !== f.format_id) return false
+
+  if (f.check === 'passed' && !concept.principle_check?.passed) return false
+  if (f.check === 'failed' && concept.principle_check?.passed !== false) return false
+
+  const score = concept.principle_check?.score
+  if (f.min_score !== null && (score === undefined || score < f.min_score)) return false
+  if (f.max_score !== null && (score === undefined || score > f.max_score)) return false
+
+  if (f.min_rating > 0 && (concept.rating || 0) < f.min_rating) return false
+
+  // Date inputs are yyyy-mm-dd in local time; date_to includes the whole day
+  const created = new Date(concept.created_at).getTime()
+  if (f.date_from && created < new Date(`${f.date_from}T00:00:00`).getTime()) return false
+  if (f.date_to && created > new Date(`${f.date_to}T23:59:59.999`).getTime()) return false
+
+  const isPushed = (concept.fb_ad_ids?.length || 0) > 0
+  if (f.pushed === 'pushed' && !isPushed) return false
+  if (f.pushed === 'not_pushed' && isPushed) return false
+
+  return true
+}
+
+// Number of advanced filters in use (search, status and rating have their own controls)
+export function countAdvancedFilters(filters: ConceptFilters): number {
+  const f = { ...EMPTY_FILTERS, ...filters }
+  return [
+    f.product_id,
+    f.format_id,
+    f.check,
+    f.min_score !== null,
+    f.max_score !== null,
+    f.date_from,
+    f.date_to,
+    f.pushed,
+  ].filter(Boolean).length
+}
@@ -0,0 +1,6 @@
+// Hypothesis confidence is a 0–1 fraction, like learning confidence;
+// api/concepts converts it from the backend's 0–100 score.
+
+export function formatConfidence(value: number | null | undefined): string {
+  return value === undefined || value === null || isNaN(value) ? '-' : `${Math.round(value * 100)}%`
+}
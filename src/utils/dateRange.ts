@@ -0,0 +1,91 @@
+// Date ranges for Analytics: presets resolved to concrete dates, custom
+// ranges, and the equal-length period before either one for comparisons.
+// Dates are yyyy-mm-dd in local time, and both ends are inclusive.
+
+import type { DatePreset, DateRange, InsightsPeriod } from '../api'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function toISODate(date: Date): string {
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, '0')
+  const d = String(date.getDate()).padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
+
+function parseISODate(value: string): Date {
+  const [y, m, d] = value.split('-').map(Number)
+  return new Date(y, m - 1, d)
+}
+
+function addDays(value: string, days: number): string {
+  const date = parseISODate(value)
+  date.setDate(date.getDate() + days)
+  return toISODate(date)
+}
+
+export function isValidRange(range: Partial<DateRange>): range is DateRange {
+  const pattern = /^\d{4}-\d{2}-\d{2}$/
+  return (
+    !!range.since && !!range.until &&
+    pattern.test(range.since) && pattern.test(range.until) &&
+    range.since <= range.until
+  )
+}
+
+// Matches how Facebook resolves its presets: rolling windows end yesterday
+export function presetRange(preset: DatePreset, now = new Date()): DateRange {
+  const today = toISODate(now)
+  const yesterday = addDays(today, -1)
+  switch (preset) {
+    case 'yesterday':
+      return { since: yesterday, until: yesterday }
+    case 'last_7d':
+      return { since: addDays(today, -7), until: yesterday }
+    case 'last_30d':
+      return { since: addDays(today, -30), until: yesterday }
+    case 'this_month':
+      return { since: `${today.slice(0, 8)}01`, until: today }
+  }
+}
+
+// The last `days` full days, ending yesterday like the presets
+export function trailingRange(days: number, now = new Date()): DateRange {
+  const today = toISODate(now)
+  return { since: addDays(today, -days), until: addDays(today, -1) }
+}
+
+export function resolvePeriod(period: InsightsPeriod): DateRange {
+  return typeof period === 'string' ? presetRange(period) : period
+}
+
+export function periodDays(range: DateRange): number {
+  return Math.round((parseISODate(range.until).getTime() - parseISODate(range.since).getTime()) / DAY_MS) + 1
+}
+
+// The same number of days, ending the day before the period starts
+export function previousPeriod(period: InsightsPeriod): DateRange {
+  const range = resolvePeriod(period)
+  const until = addDays(range.since, -1)
+  return { since: addDays(until, 1 - periodDays(range)), until }
+}
+
+// Every date in the range, oldest first
+export function eachDay(range: DateRange): string[] {
+  return Array.from({ length: periodDays(range) }, (_, i) => addDays(range.since, i))
+}
+
+// Stable key for caching a period's data
+export function periodKey(period: InsightsPeriod): string {
+  return typeof period === 'string' ? period : `${period.since}_${period.until}`
+}
+
+export function formatRange(range: DateRange): string {
+  const since = parseISODate(range.since)
+  const until = parseISODate(range.until)
+  const sameYear = since.getFullYear() === until.getFullYear()
+  const short = (date: Date, withYear: boolean) =>
+    date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', ...(withYear ? { year: 'numeric' } : {}) })
+  if (range.since === range.until) return short(since, true)
+  return `${short(since, !sameYear)} – ${short(until, true)}`
+}
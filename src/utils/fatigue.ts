@@ -0,0 +1,107 @@
+// Creative fatigue: compares the first and second half of a rolling window of
+// an ad's daily insights. Fatigue shows up as people seeing the ad too often
+// (frequency), clicking less (CTR decay) and converting at a higher cost (CPA).
+
+import type { AdConcept, DailyInsights, FBAd } from '../api'
+import { num } from './metrics'
+
+export type FatigueStatus = 'fatigued' | 'watch' | 'healthy' | 'insufficient_data'
+
+export type FatigueSignal = 'frequency' | 'ctr_decay' | 'cpa_rise'
+
+export interface FatigueReport {
+  status: FatigueStatus
+  signals: FatigueSignal[]
+  // Average frequency over the recent half of the window
+  frequency: number | null
+  // Recent half vs earlier half, as a fraction (-0.3 = down 30%)
+  ctrChange: number | null
+  cpaChange: number | null
+  days: number
+}
+
+export const FATIGUE_WINDOW_DAYS = 14
+
+export const FATIGUE_THRESHOLDS = {
+  frequency: 2.5,
+  ctrDrop: 0.2,
+  cpaRise: 0.25,
+  // Each half needs this many days to compare
+  minDaysPerHalf: 3,
+}
+
+export const FATIGUE_STATUS_LABELS: Record<FatigueStatus, string> = {
+  fatigued: 'Fatigued',
+  watch: 'Watch',
+  healthy: 'Healthy',
+  insufficient_data: 'Too New',
+}
+
+export const FATIGUE_SIGNAL_LABELS: Record<FatigueSignal, string> = {
+  frequency: 'High frequency',
+  ctr_decay: 'CTR decaying',
+  cpa_rise: 'CPA rising',
+}
+
+function totals(days: DailyInsights[]) {
+  const spend = days.reduce((sum, d) => sum + num(d.spend), 0)
+  const impressions = days.reduce((sum, d) => sum + num(d.impressions), 0)
+  const clicks = days.reduce((sum, d) => sum + num(d.link_clicks), 0)
+  const purchases = days.reduce((sum, d) => sum + num(d.purchases), 0)
+  const frequencies = days.map(d => num(d.frequency)).filter(f => f > 0)
+  return {
+    ctr: impressions > 0 ? clicks / impressions : null,
+    cpa: purchases > 0 ? spend / purchases : null,
+    frequency: frequencies.length > 0 ? frequencies.reduce((a, b) => a + b, 0) / frequencies.length : null,
+  }
+}
+
+const change = (before: number | null, after: number | null) =>
+  before !== null && after !== null && before > 0 ? (after - before) / before : null
+
+export function detectFatigue(days: DailyInsights[]): FatigueReport {
+  const windowDays = days
+    .filter(d => num(d.impressions) > 0)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-FATIGUE_WINDOW_DAYS)
+  const half = Math.floor(windowDays.length / 2)
+
+  if (half < FATIGUE_THRESHOLDS.minDaysPerHalf) {
+    return { status: 'insufficient_data', signals: [], frequency: null, ctrChange: null, cpaChange: null, days: windowDays.length }
+  }
+
+  const earlier = totals(windowDays.slice(0, windowDays.length - half))
+  const recent = totals(windowDays.slice(-half))
+  const ctrChange = change(earlier.ctr, recent.ctr)
+  // No sales recently after selling earlier is the worst CPA rise there is
+  const cpaChange = earlier.cpa !== null && recent.cpa === null ? Infinity : change(earlier.cpa, recent.cpa)
+
+  const signals: FatigueSignal[] = []
+  if (recent.frequency !== null && recent.frequency >= FATIGUE_THRESHOLDS.frequency) signals.push('frequency')
+  if (ctrChange !== null && ctrChange <= -FATIGUE_THRESHOLDS.ctrDrop) signals.push('ctr_decay')
+  if (cpaChange !== null && cpaChange >= FATIGUE_THRESHOLDS.cpaRise) signals.push('cpa_rise')
+
+  return {
+    status: signals.length >= 2 ? 'fatigued' : signals.length === 1 ? 'watch' : 'healthy',
+    signals,
+    frequency: recent.frequency,
+    ctrChange,
+    cpaChange,
+    days: windowDays.length,
+  }
+}
+
+// Seed idea for /start-working: keep what made the concept work, refresh
+// what the audience has grown tired of
+export function variationIdeas(concept: AdConcept, ad: FBAd, report: FatigueReport): string {
+  const { hypothesis } = concept
+  const symptoms = report.signals.map(s => FATIGUE_SIGNAL_LABELS[s].toLowerCase()).join(', ')
+  return [
+    `Fresh variations of batch ${concept.batch_number} — its Facebook ad "${ad.name}" is fatiguing (${symptoms}).`,
+    `Keep the core idea: ${hypothesis.hypothesis}`,
+    hypothesis.angle && `Angle: ${hypothesis.angle}`,
+    hypothesis.target_avatar && `Avatar: ${hypothesis.target_avatar}`,
+    hypothesis.awareness_stage && `Awareness stage: ${hypothesis.awareness_stage}`,
+    'Change the hook, opening line and visuals so it reads as new to people who have already seen it.',
+  ].filter(Boolean).join('\n')
+}
@@ -0,0 +1,74 @@
+// Whether a learning pulls its weight: concepts generated with it versus
+// comparable concepts generated without it (same product scope, made while
+// the learning existed), by review outcome and live ad performance.
+
+import type { AdConcept, FBAd, Learning } from '../api'
+import { num } from './metrics'
+
+export interface ImpactGroup {
+  concepts: number
+  approved: number
+  // Approved out of approved + rejected; concepts still in review don't count
+  approvalRate: number | null
+  ads: number
+  spend: number
+  purchases: number
+  cpa: number | null
+  roas: number | null
+}
+
+export interface LearningImpact {
+  used: ImpactGroup
+  notUsed: ImpactGroup
+}
+
+export const usesLearning = (concept: AdConcept, learningId: string) =>
+  !!concept.applied_learnings?.some(l => l.id === learningId)
+
+function summarize(concepts: AdConcept[], adsById: Map<string, FBAd>): ImpactGroup {
+  const approved = concepts.filter(c => c.status === 'approved').length
+  const rejected = concepts.filter(c => c.status === 'rejected').length
+  let ads = 0
+  let spend = 0
+  let purchases = 0
+  let revenue = 0
+  for (const concept of concepts) {
+    for (const adId of concept.fb_ad_ids || []) {
+      const ad = adsById.get(adId)
+      if (!ad) continue
+      const adSpend = num(ad.insights?.spend)
+      ads++
+      spend += adSpend
+      purchases += num(ad.insights?.purchases)
+      revenue += num(ad.insights?.roas) * adSpend
+    }
+  }
+  return {
+    concepts: concepts.length,
+    approved,
+    approvalRate: approved + rejected > 0 ? approved / (approved + rejected) : null,
+    ads,
+    spend,
+    purchases,
+    cpa: purchases > 0 ? spend / purchases : null,
+    roas: spend > 0 ? revenue / spend : null,
+  }
+}
+
+export function buildLearningImpacts(learnings: Learning[], concepts: AdConcept[], ads: FBAd[]): Map<string, LearningImpact> {
+  const adsById = new Map(ads.map(ad => [ad.id, ad]))
+  const impacts = new Map<string, LearningImpact>()
+  for (const learning of learnings) {
+    const comparable = concepts.filter(
+      c =>
+        c.created_at >= learning.created_at &&
+        (!learning.product_id || c.product_id === learning.product_id)
+    )
+    const used = concepts.filter(c => usesLearning(c, learning.id))
+    impacts.set(learning.id, {
+      used: summarize(used, adsById),
+      notUsed: summarize(comparable.filter(c => !usesLearning(c, learning.id)), adsById),
+    })
+  }
+  return impacts
+}
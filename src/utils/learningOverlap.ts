@@ -0,0 +1,141 @@
+// Near-duplicate and contradicting learnings. Similarity is word overlap
+// (Dice coefficient) after dropping stopwords. Contradiction checks also
+// drop polarity words, so "Avoid X" and "Do X" read as the same insight;
+// duplicate checks keep them, so "Use X" and "Never use X" stay apart.
+
+import type { Evidence, Learning } from '../api'
+
+export const DUPLICATE_THRESHOLD = 0.5
+export const CONTRADICTION_THRESHOLD = 0.35
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'that', 'with', 'this', 'than', 'from', 'into', 'have', 'had', 'has', 'are', 'was', 'were',
+  'but', 'our', 'your', 'you', 'its', 'their', 'they', 'them', 'which', 'when', 'like', 'more', 'less', 'most',
+  'also', 'just', 'very', 'such', 'use', 'using', 'ads', 'ad',
+])
+
+// Do/avoid is carried by the learning's type when comparing opposite types
+const POLARITY_WORDS = new Set(['avoid', 'don', 'dont', 'never', 'not', 'always', 'should', 'instead'])
+
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3)
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y'
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2)
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+  return word
+}
+
+function tokens(text: string, ignorePolarity: boolean): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 2 && !STOPWORDS.has(word) && !(ignorePolarity && POLARITY_WORDS.has(word)))
+      .map(stem)
+  )
+}
+
+export function similarity(a: string, b: string, ignorePolarity = false): number {
+  const ta = tokens(a, ignorePolarity)
+  const tb = tokens(b, ignorePolarity)
+  if (ta.size === 0 || tb.size === 0) return 0
+  let shared = 0
+  for (const token of ta) if (tb.has(token)) shared++
+  return (2 * shared) / (ta.size + tb.size)
+}
+
+// Account-wide learnings (product_id null) overlap with every product's
+const sameScope = (a: Learning, b: Learning) =>
+  a.category === b.category && (!a.product_id || !b.product_id || a.product_id === b.product_id)
+
+export interface DuplicateCluster {
+  learnings: Learning[]
+  // Closest pair in the group
+  similarity: number
+}
+
+export interface Contradiction {
+  doLearning: Learning
+  avoidLearning: Learning
+  similarity: number
+}
+
+// Groups same-type, same-category learnings that say the same thing;
+// similarity is transitive, so A~B and B~C puts all three together
+export function findDuplicateClusters(learnings: Learning[]): DuplicateCluster[] {
+  const parent = new Map(learnings.map(l => [l.id, l.id]))
+  const find = (id: string): string => {
+    const p = parent.get(id)!
+    return p === id ? id : find(p)
+  }
+  const best = new Map<string, number>()
+
+  for (let i = 0; i < learnings.length; i++) {
+    for (let j = i + 1; j < learnings.length; j++) {
+      const a = learnings[i]
+      const b = learnings[j]
+      if (a.type !== b.type || !sameScope(a, b)) continue
+      const score = similarity(a.insight, b.insight)
+      if (score < DUPLICATE_THRESHOLD) continue
+      const root = find(a.id)
+      const other = find(b.id)
+      parent.set(other, root)
+      best.set(root, Math.max(score, best.get(root) || 0, best.get(other) || 0))
+    }
+  }
+
+  const groups = new Map<string, Learning[]>()
+  for (const learning of learnings) {
+    const root = find(learning.id)
+    groups.set(root, [...(groups.get(root) || []), learning])
+  }
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length > 1)
+    .map(([root, group]) => ({
+      learnings: [...group].sort((a, b) => b.confidence - a.confidence),
+      similarity: best.get(root) || DUPLICATE_THRESHOLD,
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+}
+
+// "Do" and "avoid" learnings about the same thing, in the same category and product
+export function findContradictions(learnings: Learning[]): Contradiction[] {
+  const dos = learnings.filter(l => l.type === 'do')
+  const avoids = learnings.filter(l => l.type === 'avoid')
+  const result: Contradiction[] = []
+  for (const doLearning of dos) {
+    for (const avoidLearning of avoids) {
+      if (!sameScope(doLearning, avoidLearning)) continue
+      const score = similarity(doLearning.insight, avoidLearning.insight, true)
+      if (score >= CONTRADICTION_THRESHOLD) result.push({ doLearning, avoidLearning, similarity: score })
+    }
+  }
+  return result.sort((a, b) => b.similarity - a.similarity)
+}
+
+const unique = <T>(items: T[]) => Array.from(new Set(items))
+
+// Union of every learning's evidence; ad metrics are keyed by ad name
+export function combineEvidence(learnings: Learning[]): Evidence {
+  const evidence = learnings.map(l => l.evidence).filter((e): e is Evidence => !!e)
+  const metrics = new Map(evidence.flatMap(e => e.ad_metrics || []).map(m => [m.ad_name, m]))
+  return {
+    ad_ids: unique(evidence.flatMap(e => e.ad_ids || [])),
+    ad_names: unique(evidence.flatMap(e => e.ad_names || [])),
+    ad_metrics: Array.from(metrics.values()),
+    specific_examples: unique(evidence.flatMap(e => e.specific_examples || [])),
+    supporting_ads: unique(evidence.flatMap(e => e.supporting_ads || [])),
+    metrics_comparison: unique(evidence.map(e => e.metrics_comparison).filter((m): m is string => !!m)).join(' ') || undefined,
+  }
+}
+
+// Evidence-weighted average of the originals, nudged up for each learning
+// that independently reached the same conclusion; capped below certainty
+export function combinedConfidence(learnings: Learning[]): number {
+  if (learnings.length === 0) return 0
+  const weight = (l: Learning) => Math.max(1, l.evidence?.ad_names?.length || l.evidence?.ad_ids?.length || 0)
+  const totalWeight = learnings.reduce((sum, l) => sum + weight(l), 0)
+  const average = learnings.reduce((sum, l) => sum + l.confidence * weight(l), 0) / totalWeight
+  const corroborated = 1 - (1 - average) * Math.pow(0.85, learnings.length - 1)
+  return Math.round(Math.min(0.95, corroborated) * 100) / 100
+}
@@ -0,0 +1,205 @@
+// Learnings knowledge packs: a portable JSON file (re-importable) or a
+// Markdown write-up, and the diff shown before importing a pack.
+
+import type { AdMetric, Evidence, Learning, LearningType, PortableLearning } from '../api'
+import { CONTRADICTION_THRESHOLD, DUPLICATE_THRESHOLD, similarity } from './learningOverlap'
+import { downloadBlob } from './conceptExport'
+
+export const PACK_FORMAT = 'ads-maker/learnings-pack'
+export const PACK_VERSION = 1
+
+export type PackFormat = 'json' | 'markdown'
+
+export const LEARNING_CATEGORIES = ['visual', 'copy', 'hook', 'cta', 'targeting', 'offer', 'format', 'mechanism', 'avatar']
+export const APPLIES_TO_OPTIONS = ['all', 'video', 'image', 'text']
+
+export interface PackFilters {
+  category: string
+  applies_to: string
+  // '' for any product, 'account' for account-wide learnings only
+  product_id: string
+  type: LearningType | ''
+}
+
+export interface LearningPack {
+  format: typeof PACK_FORMAT
+  version: number
+  exported_at: string
+  // Human-readable origin, e.g. "Nuora · Daily Balance Gummies"
+  source: string
+  learnings: PortableLearning[]
+}
+
+export type PackItemStatus = 'new' | 'duplicate' | 'conflict'
+
+export interface PackDiffItem {
+  learning: PortableLearning
+  status: PackItemStatus
+  // The existing learning it duplicates or contradicts
+  match: Learning | null
+  similarity: number
+}
+
+export function filterForPack(learnings: Learning[], filters: PackFilters): Learning[] {
+  return learnings.filter(
+    l =>
+      (!filters.category || l.category === filters.category) &&
+      (!filters.applies_to || l.applies_to === filters.applies_to) &&
+      (!filters.type || l.type === filters.type) &&
+      (!filters.product_id ||
+        (filters.product_id === 'account' ? !l.product_id : l.product_id === filters.product_id))
+  )
+}
+
+export function buildPack(learnings: Learning[], source: string): LearningPack {
+  return {
+    format: PACK_FORMAT,
+    version: PACK_VERSION,
+    exported_at: new Date().toISOString(),
+    source,
+    learnings: learnings.map(({ insight, category, type, confidence, applies_to, evidence }) => ({
+      insight,
+      category,
+      type,
+      confidence,
+      applies_to,
+      evidence,
+    })),
+  }
+}
+
+function learningMarkdown(learning: PortableLearning): string {
+  const lines = [
+    `### ${learning.insight}`,
+    '',
+    `- Category: ${learning.category}`,
+    `- Applies to: ${learning.applies_to}`,
+    `- Confidence: ${Math.round(learning.confidence * 100)}%`,
+  ]
+  const evidence = learning.evidence
+  if (evidence?.metrics_comparison) lines.push(`- Metrics: ${evidence.metrics_comparison}`)
+  if (evidence?.ad_metrics?.length) {
+    lines.push('', '| Ad | Spend | CPA | ROAS |', '| --- | ---: | ---: | ---: |')
+    for (const m of evidence.ad_metrics) {
+      lines.push(
+        `| ${m.ad_name} | $${m.spend.toFixed(0)} | ${m.cpa !== null ? `$${m.cpa.toFixed(2)}` : '-'} | ${m.roas !== null ? `${m.roas.toFixed(2)}x` : '-'} |`
+      )
+    }
+  } else if (evidence?.ad_names?.length) {
+    lines.push(`- Ads: ${evidence.ad_names.join(', ')}`)
+  }
+  if (evidence?.specific_examples?.length) {
+    lines.push('', ...evidence.specific_examples.map(ex => `> ${ex}`))
+  }
+  return lines.join('\n')
+}
+
+export function packToMarkdown(pack: LearningPack): string {
+  const section = (type: LearningType, title: string) => {
+    const items = pack.learnings.filter(l => l.type === type)
+    return items.length > 0 ? [`## ${title} (${items.length})`, '', items.map(learningMarkdown).join('\n\n')].join('\n') : ''
+  }
+  return [
+    '# Learnings',
+    '',
+    `Exported ${new Date(pack.exported_at).toLocaleDateString()} from ${pack.source}.`,
+    '',
+    section('do', 'What Works'),
+    section('avoid', 'What to Avoid'),
+  ]
+    .filter(part => part !== '')
+    .join('\n\n') + '\n'
+}
+
+export function exportPack(pack: LearningPack, format: PackFormat) {
+  const date = pack.exported_at.slice(0, 10)
+  if (format === 'markdown') {
+    downloadBlob(new Blob([packToMarkdown(pack)], { type: 'text/markdown' }), `learnings-${date}.md`)
+  } else {
+    downloadBlob(new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' }), `learnings-${date}.json`)
+  }
+}
+
+const strings = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined
+
+const numberOrNull = (value: unknown) => value === null || (typeof value === 'number' && isFinite(value))
+
+// Packs are hand-editable files, so keep only the evidence fields (and
+// entries within them) that have the shape the app renders
+function parseEvidence(value: unknown): Evidence | null {
+  if (!value || typeof value !== 'object') return null
+  const e = value as Record<string, unknown>
+  return {
+    ad_ids: strings(e.ad_ids),
+    ad_names: strings(e.ad_names),
+    ad_metrics: Array.isArray(e.ad_metrics)
+      ? e.ad_metrics.filter(
+          (m): m is AdMetric =>
+            typeof m?.ad_name === 'string' &&
+            typeof m.spend === 'number' && isFinite(m.spend) &&
+            numberOrNull(m.cpa) && numberOrNull(m.roas)
+        )
+      : undefined,
+    metrics_comparison: typeof e.metrics_comparison === 'string' ? e.metrics_comparison : undefined,
+    specific_examples: strings(e.specific_examples),
+    supporting_ads: strings(e.supporting_ads),
+  }
+}
+
+// Throws with a readable message when the file isn't a pack we can import
+export function parsePack(text: string): LearningPack {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Not a JSON file. Markdown packs are for reading; import the JSON export.')
+  }
+  const pack = data as Partial<LearningPack>
+  if (pack?.format !== PACK_FORMAT || !Array.isArray(pack.learnings)) {
+    throw new Error('This file is not a learnings pack')
+  }
+  if ((pack.version || 0) > PACK_VERSION) {
+    throw new Error('This pack was exported by a newer version of the app')
+  }
+  const learnings = pack.learnings.filter(
+    (l): l is PortableLearning =>
+      typeof l?.insight === 'string' && l.insight.trim() !== '' && (l.type === 'do' || l.type === 'avoid') &&
+      LEARNING_CATEGORIES.includes(l.category)
+  )
+  return {
+    format: PACK_FORMAT,
+    version: pack.version || PACK_VERSION,
+    exported_at: pack.exported_at || '',
+    source: pack.source || 'an unknown workspace',
+    learnings: learnings.map(l => ({
+      insight: l.insight.trim(),
+      category: l.category,
+      type: l.type,
+      confidence: typeof l.confidence === 'number' ? Math.min(1, Math.max(0, l.confidence)) : 0.5,
+      applies_to: APPLIES_TO_OPTIONS.includes(l.applies_to) ? l.applies_to : 'all',
+      evidence: parseEvidence(l.evidence),
+    })),
+  }
+}
+
+// Compares each pack learning with the existing learnings that would apply
+// to the target: account-wide ones plus the target product's
+export function diffPack(pack: LearningPack, existing: Learning[], targetProductId: string | null): PackDiffItem[] {
+  const inScope = existing.filter(
+    l => l.status !== 'retired' && (!l.product_id || !targetProductId || l.product_id === targetProductId)
+  )
+  return pack.learnings.map(learning => {
+    let best: PackDiffItem = { learning, status: 'new', match: null, similarity: 0 }
+    for (const other of inScope) {
+      if (other.category !== learning.category) continue
+      const score = similarity(learning.insight, other.insight, other.type !== learning.type)
+      const status: PackItemStatus | null =
+        other.type === learning.type
+          ? score >= DUPLICATE_THRESHOLD ? 'duplicate' : null
+          : score >= CONTRADICTION_THRESHOLD ? 'conflict' : null
+      if (status && score > best.similarity) best = { learning, status, match: other, similarity: score }
+    }
+    return best
+  })
+}
@@ -0,0 +1,25 @@
+// Reading and formatting shared by every place that shows ad insight
+// metrics, so the same value reads the same on the overview, the trends
+// and in reports.
+
+// Insight values arrive as numbers or numeric strings; null when missing
+// or unparseable
+export function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const n = typeof value === 'number' ? value : parseFloat(String(value))
+  return isNaN(n) ? null : n
+}
+
+// For sums and rankings, where a missing value counts as zero
+export const num = (value: unknown): number => toNumber(value) ?? 0
+
+// '-' for missing or unparseable values
+export function formatNumber(value: unknown, format: (n: number) => string): string {
+  const n = toNumber(value)
+  return n === null ? '-' : format(n)
+}
+
+// Traffic quality arrives as a 0-1 ratio (see AdInsights.traffic_quality)
+export function formatTrafficQuality(value: number): string {
+  return `${(value * 100).toFixed(1)}%`
+}